@@ -1,6 +1,8 @@
 package management
 
 import (
+	"crypto/sha256"
+	"encoding/hex"
 	"encoding/json"
 	"fmt"
 	"io"
@@ -149,6 +151,19 @@ func (h *Handler) PutConfigYAML(c *gin.Context) {
 	}
 	h.mu.Lock()
 	defer h.mu.Unlock()
+	// If-Match carries the ETag from GetConfigYAML; reject the write when the file
+	// changed in between so concurrent editors do not silently overwrite each other.
+	if ifMatch := strings.TrimSpace(c.GetHeader("If-Match")); ifMatch != "" && ifMatch != "*" {
+		current, errRead := os.ReadFile(h.configFilePath)
+		if errRead != nil && !os.IsNotExist(errRead) {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": "read_failed", "message": errRead.Error()})
+			return
+		}
+		if configYAMLETag(current) != ifMatch {
+			c.JSON(http.StatusPreconditionFailed, gin.H{"error": "config_conflict", "message": "config.yaml changed since it was read"})
+			return
+		}
+	}
 	if WriteConfig(h.configFilePath, body) != nil {
 		c.JSON(http.StatusInternalServerError, gin.H{"error": "write_failed", "message": "failed to write config"})
 		return
@@ -160,6 +175,10 @@ func (h *Handler) PutConfigYAML(c *gin.Context) {
 		return
 	}
 	h.cfg = newCfg
+	// WriteConfig may normalise the content, so tag what actually landed on disk.
+	if written, errRead := os.ReadFile(h.configFilePath); errRead == nil {
+		c.Header("ETag", configYAMLETag(written))
+	}
 	c.JSON(http.StatusOK, gin.H{"ok": true, "changed": []string{"config"}})
 }
 
@@ -178,10 +197,17 @@ func (h *Handler) GetConfigYAML(c *gin.Context) {
 	c.Header("Content-Type", "application/yaml; charset=utf-8")
 	c.Header("Cache-Control", "no-store")
 	c.Header("X-Content-Type-Options", "nosniff")
+	c.Header("ETag", configYAMLETag(data))
 	// Write raw bytes as-is
 	_, _ = c.Writer.Write(data)
 }
 
+// configYAMLETag returns a strong ETag derived from the config.yaml content.
+func configYAMLETag(data []byte) string {
+	sum := sha256.Sum256(data)
+	return `"` + hex.EncodeToString(sum[:]) + `"`
+}
+
 // Debug
 func (h *Handler) GetDebug(c *gin.Context) { c.JSON(200, gin.H{"debug": h.cfg.Debug}) }
 func (h *Handler) PutDebug(c *gin.Context) { h.updateBoolField(c, func(v bool) { h.cfg.Debug = v }) }
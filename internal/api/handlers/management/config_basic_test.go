@@ -0,0 +1,66 @@
+package management
+
+import (
+	"net/http"
+	"net/http/httptest"
+	"os"
+	"path/filepath"
+	"strings"
+	"testing"
+
+	"github.com/gin-gonic/gin"
+)
+
+func performConfigYAMLRequest(h *Handler, method string, body string, ifMatch string) *httptest.ResponseRecorder {
+	recorder := httptest.NewRecorder()
+	c, _ := gin.CreateTestContext(recorder)
+	c.Request = httptest.NewRequest(method, "/v0/management/config.yaml", strings.NewReader(body))
+	if ifMatch != "" {
+		c.Request.Header.Set("If-Match", ifMatch)
+	}
+	if method == http.MethodGet {
+		h.GetConfigYAML(c)
+	} else {
+		h.PutConfigYAML(c)
+	}
+	return recorder
+}
+
+func TestPutConfigYAMLRejectsStaleIfMatch(t *testing.T) {
+	gin.SetMode(gin.TestMode)
+	configPath := filepath.Join(t.TempDir(), "config.yaml")
+	if err := os.WriteFile(configPath, []byte("port: 8317\n"), 0o600); err != nil {
+		t.Fatalf("write config: %v", err)
+	}
+	h := &Handler{configFilePath: configPath}
+
+	get := performConfigYAMLRequest(h, http.MethodGet, "", "")
+	etag := get.Header().Get("ETag")
+	if get.Code != http.StatusOK || etag == "" {
+		t.Fatalf("GET status = %d, etag = %q", get.Code, etag)
+	}
+
+	// Another client writes the file after the ETag was read.
+	if err := os.WriteFile(configPath, []byte("port: 8318\n"), 0o600); err != nil {
+		t.Fatalf("write config: %v", err)
+	}
+	stale := performConfigYAMLRequest(h, http.MethodPut, "port: 8319\n", etag)
+	if stale.Code != http.StatusPreconditionFailed {
+		t.Fatalf("stale PUT status = %d, body = %s", stale.Code, stale.Body.String())
+	}
+	data, err := os.ReadFile(configPath)
+	if err != nil {
+		t.Fatalf("read config: %v", err)
+	}
+	if string(data) != "port: 8318\n" {
+		t.Fatalf("config overwritten despite conflict: %q", data)
+	}
+
+	fresh := performConfigYAMLRequest(h, http.MethodPut, "port: 8319\n", configYAMLETag(data))
+	if fresh.Code != http.StatusOK {
+		t.Fatalf("fresh PUT status = %d, body = %s", fresh.Code, fresh.Body.String())
+	}
+	if got := fresh.Header().Get("ETag"); got != configYAMLETag([]byte("port: 8319\n")) {
+		t.Fatalf("PUT etag = %q", got)
+	}
+}
@@ -0,0 +1,229 @@
+package management
+
+import (
+	"bufio"
+	"encoding/json"
+	"fmt"
+	"io"
+	"net/http"
+	"os"
+	"path/filepath"
+	"strings"
+	"time"
+
+	"github.com/gin-gonic/gin"
+)
+
+const (
+	logStreamPollInterval = time.Second
+	logStreamKeepAlive    = 15 * time.Second
+	logStreamBatchLimit   = 5000
+)
+
+// StreamLogs pushes newly written log lines as server-sent events.
+// Each "logs" event carries the same payload as GetLogs ({lines, latest-timestamp});
+// the optional "after" query parameter replays lines newer than that timestamp first.
+func (h *Handler) StreamLogs(c *gin.Context) {
+	if h == nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "handler unavailable"})
+		return
+	}
+	if h.cfg == nil {
+		c.JSON(http.StatusServiceUnavailable, gin.H{"error": "configuration unavailable"})
+		return
+	}
+	if !h.cfg.LoggingToFile {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "logging to file disabled"})
+		return
+	}
+
+	logDir := h.logDirectory()
+	if strings.TrimSpace(logDir) == "" {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "log directory not configured"})
+		return
+	}
+
+	flusher, ok := c.Writer.(http.Flusher)
+	if !ok {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "streaming not supported"})
+		return
+	}
+
+	follower := newLogFollower(h, logDir, parseCutoff(c.Query("after")))
+
+	c.Header("Content-Type", "text/event-stream")
+	c.Header("Cache-Control", "no-cache")
+	c.Header("Connection", "keep-alive")
+	c.Header("X-Accel-Buffering", "no")
+	c.Status(http.StatusOK)
+	flusher.Flush()
+
+	ctx := c.Request.Context()
+	ticker := time.NewTicker(logStreamPollInterval)
+	defer ticker.Stop()
+	lastWrite := time.Now()
+
+	for {
+		lines, latest, errNext := follower.next()
+		if errNext != nil {
+			_ = writeLogStreamEvent(c.Writer, "error", gin.H{"error": fmt.Sprintf("failed to read logs: %v", errNext)})
+			flusher.Flush()
+			return
+		}
+		if len(lines) > 0 {
+			if errWrite := writeLogStreamEvent(c.Writer, "logs", gin.H{
+				"lines":            lines,
+				"latest-timestamp": latest,
+			}); errWrite != nil {
+				return
+			}
+			flusher.Flush()
+			lastWrite = time.Now()
+		} else if time.Since(lastWrite) >= logStreamKeepAlive {
+			if _, errWrite := io.WriteString(c.Writer, ": keep-alive\n\n"); errWrite != nil {
+				return
+			}
+			flusher.Flush()
+			lastWrite = time.Now()
+		}
+
+		select {
+		case <-ctx.Done():
+			return
+		case <-ticker.C:
+		}
+	}
+}
+
+func writeLogStreamEvent(w io.Writer, event string, payload any) error {
+	data, err := json.Marshal(payload)
+	if err != nil {
+		return err
+	}
+	_, err = fmt.Fprintf(w, "event: %s\ndata: %s\n\n", event, data)
+	return err
+}
+
+// logFollower tails the active log file by byte offset so lines written within
+// the same second are not lost. Rotated files are only rescanned (by timestamp)
+// when the active file is replaced or truncated.
+type logFollower struct {
+	h       *Handler
+	dir     string
+	cutoff  int64
+	started bool
+	offset  int64
+	active  os.FileInfo
+	latest  int64
+}
+
+func newLogFollower(h *Handler, dir string, cutoff int64) *logFollower {
+	return &logFollower{h: h, dir: dir, cutoff: cutoff, latest: cutoff}
+}
+
+// next returns the lines written since the previous call.
+func (f *logFollower) next() ([]string, int64, error) {
+	info, err := os.Stat(filepath.Join(f.dir, defaultLogFileName))
+	if err != nil {
+		if !os.IsNotExist(err) {
+			return nil, f.latest, err
+		}
+		info = nil
+	}
+
+	switch {
+	case !f.started:
+		f.started = true
+		if f.cutoff == 0 {
+			// No replay requested: skip everything already on disk.
+			acc := newLogAccumulator(0, 1)
+			if errConsume := f.consumeActive(info, acc); errConsume != nil {
+				return nil, f.latest, errConsume
+			}
+			_, latest, _ := f.collect(acc)
+			return nil, latest, nil
+		}
+		return f.rescan(info, f.cutoff)
+	case info == nil:
+		f.active = nil
+		f.offset = 0
+		return nil, f.latest, nil
+	case f.active == nil || !os.SameFile(f.active, info) || info.Size() < f.offset:
+		// The active file was rotated or truncated; recover lines from rotated files.
+		return f.rescan(info, f.latest)
+	case info.Size() == f.offset:
+		return nil, f.latest, nil
+	}
+
+	acc := newLogAccumulator(0, logStreamBatchLimit)
+	if errConsume := f.consumeActive(info, acc); errConsume != nil {
+		return nil, f.latest, errConsume
+	}
+	return f.collect(acc)
+}
+
+func (f *logFollower) rescan(info os.FileInfo, cutoff int64) ([]string, int64, error) {
+	files, err := f.h.collectLogFiles(f.dir)
+	if err != nil && !os.IsNotExist(err) {
+		return nil, f.latest, err
+	}
+	acc := newLogAccumulator(cutoff, logStreamBatchLimit)
+	active := filepath.Join(f.dir, defaultLogFileName)
+	for i := range files {
+		if files[i] == active {
+			continue
+		}
+		if errConsume := acc.consumeFile(files[i]); errConsume != nil {
+			return nil, f.latest, errConsume
+		}
+	}
+	f.offset = 0
+	if errConsume := f.consumeActive(info, acc); errConsume != nil {
+		return nil, f.latest, errConsume
+	}
+	return f.collect(acc)
+}
+
+// consumeActive reads complete lines from the current offset; a trailing partial
+// line is left for the next call.
+func (f *logFollower) consumeActive(info os.FileInfo, acc *logAccumulator) error {
+	f.active = info
+	if info == nil {
+		f.offset = 0
+		return nil
+	}
+	file, err := os.Open(filepath.Join(f.dir, defaultLogFileName))
+	if err != nil {
+		if os.IsNotExist(err) {
+			return nil
+		}
+		return err
+	}
+	defer func() {
+		_ = file.Close()
+	}()
+
+	if _, errSeek := file.Seek(f.offset, io.SeekStart); errSeek != nil {
+		return errSeek
+	}
+	reader := bufio.NewReaderSize(file, logScannerInitialBuffer)
+	for {
+		line, errRead := reader.ReadString('\n')
+		if errRead != nil {
+			if errRead == io.EOF {
+				return nil
+			}
+			return errRead
+		}
+		f.offset += int64(len(line))
+		acc.addLine(strings.TrimSuffix(line, "\n"))
+	}
+}
+
+func (f *logFollower) collect(acc *logAccumulator) ([]string, int64, error) {
+	lines, _, latest := acc.result()
+	if latest > f.latest {
+		f.latest = latest
+	}
+	return lines, f.latest, nil
+}
@@ -0,0 +1,90 @@
+package management
+
+import (
+	"os"
+	"path/filepath"
+	"reflect"
+	"testing"
+)
+
+func appendLogLines(t *testing.T, path string, text string) {
+	t.Helper()
+	file, err := os.OpenFile(path, os.O_CREATE|os.O_WRONLY|os.O_APPEND, 0o644)
+	if err != nil {
+		t.Fatalf("open log file: %v", err)
+	}
+	defer func() {
+		_ = file.Close()
+	}()
+	if _, err = file.WriteString(text); err != nil {
+		t.Fatalf("write log file: %v", err)
+	}
+}
+
+func TestLogFollowerStreamsAppendedLines(t *testing.T) {
+	dir := t.TempDir()
+	active := filepath.Join(dir, defaultLogFileName)
+	appendLogLines(t, active, "[2025-01-02 10:00:00] old line\n")
+
+	follower := newLogFollower(&Handler{}, dir, 0)
+	lines, _, err := follower.next()
+	if err != nil {
+		t.Fatalf("first next: %v", err)
+	}
+	if len(lines) != 0 {
+		t.Fatalf("expected existing lines to be skipped, got %v", lines)
+	}
+
+	// Same second as the last line, plus a partial line that is not finished yet.
+	appendLogLines(t, active, "[2025-01-02 10:00:00] same second\ncontinuation\n[2025-01-02 10:00:01] part")
+	lines, latest, err := follower.next()
+	if err != nil {
+		t.Fatalf("second next: %v", err)
+	}
+	want := []string{"[2025-01-02 10:00:00] same second", "continuation"}
+	if !reflect.DeepEqual(lines, want) {
+		t.Fatalf("lines = %v, want %v", lines, want)
+	}
+	if latest != parseTimestamp("2025-01-02 10:00:00") {
+		t.Fatalf("latest = %d", latest)
+	}
+
+	appendLogLines(t, active, "ial\n")
+	lines, _, err = follower.next()
+	if err != nil {
+		t.Fatalf("third next: %v", err)
+	}
+	if !reflect.DeepEqual(lines, []string{"[2025-01-02 10:00:01] partial"}) {
+		t.Fatalf("lines = %v", lines)
+	}
+}
+
+func TestLogFollowerReplaysAfterCutoffAndRotation(t *testing.T) {
+	dir := t.TempDir()
+	active := filepath.Join(dir, defaultLogFileName)
+	appendLogLines(t, active, "[2025-01-02 10:00:00] before\n[2025-01-02 10:00:05] after\n")
+
+	follower := newLogFollower(&Handler{}, dir, parseTimestamp("2025-01-02 10:00:00"))
+	lines, _, err := follower.next()
+	if err != nil {
+		t.Fatalf("first next: %v", err)
+	}
+	if !reflect.DeepEqual(lines, []string{"[2025-01-02 10:00:05] after"}) {
+		t.Fatalf("replayed lines = %v", lines)
+	}
+
+	appendLogLines(t, active, "[2025-01-02 10:00:06] rotated away\n")
+	if err = os.Rename(active, filepath.Join(dir, defaultLogFileName+".1")); err != nil {
+		t.Fatalf("rotate: %v", err)
+	}
+	appendLogLines(t, active, "[2025-01-02 10:00:07] fresh\n")
+
+	lines, _, err = follower.next()
+	if err != nil {
+		t.Fatalf("after rotation: %v", err)
+	}
+	want := []string{"[2025-01-02 10:00:06] rotated away", "[2025-01-02 10:00:07] fresh"}
+	if !reflect.DeepEqual(lines, want) {
+		t.Fatalf("lines = %v, want %v", lines, want)
+	}
+}
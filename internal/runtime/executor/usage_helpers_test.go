@@ -41,3 +41,39 @@ func TestParseOpenAIUsageResponses(t *testing.T) {
 		t.Fatalf("reasoning tokens = %d, want %d", detail.ReasoningTokens, 9)
 	}
 }
+
+func TestParseOpenAIUsageWithoutTotalTokens(t *testing.T) {
+	data := []byte(`{"usage":{"prompt_tokens":10,"completion_tokens":20,"total_tokens":0,"completion_tokens_details":{"reasoning_tokens":15}}}`)
+	detail := parseOpenAIUsage(data)
+	if !detail.ReasoningInOutput {
+		t.Fatalf("reasoning in output = false, want true")
+	}
+	if detail.OutputTokens != 20 {
+		t.Fatalf("output tokens = %d, want %d", detail.OutputTokens, 20)
+	}
+	if detail.ReasoningTokens != 15 {
+		t.Fatalf("reasoning tokens = %d, want %d", detail.ReasoningTokens, 15)
+	}
+}
+
+func TestParseGeminiUsageReportsReasoningSeparately(t *testing.T) {
+	data := []byte(`{"usageMetadata":{"promptTokenCount":10,"candidatesTokenCount":20,"thoughtsTokenCount":15}}`)
+	detail := parseGeminiUsage(data)
+	if detail.ReasoningInOutput {
+		t.Fatalf("reasoning in output = true, want false")
+	}
+	if detail.TotalTokens != 45 {
+		t.Fatalf("total tokens = %d, want %d", detail.TotalTokens, 45)
+	}
+}
+
+func TestParseClaudeUsageCacheCreation(t *testing.T) {
+	data := []byte(`{"usage":{"input_tokens":10,"output_tokens":20,"cache_creation_input_tokens":30}}`)
+	detail := parseClaudeUsage(data)
+	if detail.CacheCreationTokens != 30 {
+		t.Fatalf("cache creation tokens = %d, want %d", detail.CacheCreationTokens, 30)
+	}
+	if detail.CachedTokens != 0 {
+		t.Fatalf("cached tokens = %d, want %d", detail.CachedTokens, 0)
+	}
+}
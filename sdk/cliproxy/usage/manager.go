@@ -27,7 +27,11 @@ type Detail struct {
 	OutputTokens    int64
 	ReasoningTokens int64
 	CachedTokens    int64
-	TotalTokens     int64
+	// CacheCreationTokens counts prompt tokens written to the cache (Claude cache_creation_input_tokens).
+	CacheCreationTokens int64
+	TotalTokens         int64
+	// ReasoningInOutput reports that OutputTokens already include ReasoningTokens (OpenAI-style usage).
+	ReasoningInOutput bool
 }
 
 // Plugin consumes usage records emitted by the proxy runtime.
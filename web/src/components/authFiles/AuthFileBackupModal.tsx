@@ -0,0 +1,171 @@
+/**
+ * 认证文件加密备份弹窗
+ * 下载全部认证文件、OAuth 设置与凭证池标签，使用口令加密后保存为单个备份文件
+ */
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { authFilesApi } from '@/services/api';
+import { useNotificationStore } from '@/stores';
+import type { AuthFileItem } from '@/types';
+import {
+  AUTH_FILE_BACKUP_EXTENSION,
+  MIN_BACKUP_PASSPHRASE_LENGTH,
+  createAuthFileBackupArchive,
+  isRuntimeOnlyAuthFile,
+  type AuthFileBackupFile,
+  type AuthFilePoolAssignments
+} from '@/utils/authFile';
+import { runWithConcurrencyLimit } from '@/utils/quota/scheduler';
+import { loadOAuthSettingsSnapshot } from './oauthSettings';
+import styles from '@/pages/AuthFilesPage.module.scss';
+
+interface AuthFileBackupModalProps {
+  open: boolean;
+  files: AuthFileItem[];
+  disabled: boolean;
+  onClose: () => void;
+}
+
+const DOWNLOAD_CONCURRENCY = 4;
+
+const downloadText = (text: string, filename: string) => {
+  const blob = new Blob([text], { type: 'application/json' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+export function AuthFileBackupModal({ open, files, disabled, onClose }: AuthFileBackupModalProps) {
+  const { t } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+
+  useEffect(() => {
+    if (!open) return;
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setProgress({ done: 0, total: 0 });
+  }, [open]);
+
+  const backupFiles = files.filter((file) => !isRuntimeOnlyAuthFile(file));
+  const passphraseError =
+    passphrase && passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH
+      ? t('auth_file_backup.passphrase_too_short', { count: MIN_BACKUP_PASSPHRASE_LENGTH })
+      : undefined;
+  const confirmError =
+    confirmPassphrase && confirmPassphrase !== passphrase
+      ? t('auth_file_backup.passphrase_mismatch')
+      : undefined;
+  const canCreate =
+    !disabled &&
+    !running &&
+    passphrase.length >= MIN_BACKUP_PASSPHRASE_LENGTH &&
+    confirmPassphrase === passphrase;
+
+  const handleCreate = async () => {
+    if (!canCreate) return;
+    setRunning(true);
+    setProgress({ done: 0, total: backupFiles.length });
+    try {
+      const settled = await runWithConcurrencyLimit(
+        backupFiles.map((file) => async (): Promise<AuthFileBackupFile> => {
+          const content = await authFilesApi.downloadText(file.name);
+          setProgress((prev) => ({ ...prev, done: prev.done + 1 }));
+          return { name: file.name, content };
+        }),
+        DOWNLOAD_CONCURRENCY
+      );
+
+      // 备份必须完整，任何文件下载失败都放弃本次备份
+      const failed = backupFiles.filter((_, index) => settled[index].status === 'rejected');
+      if (failed.length > 0) {
+        const names = failed.slice(0, 3).map((file) => file.name).join(', ');
+        const more = failed.length > 3 ? ` (+${failed.length - 3})` : '';
+        showNotification(
+          t('auth_file_backup.download_failed', { count: failed.length, names: `${names}${more}` }),
+          'error'
+        );
+        return;
+      }
+
+      const [settings, pools] = await Promise.all([
+        loadOAuthSettingsSnapshot(),
+        authFilesApi.getPools()
+      ]);
+      const backedUp = settled.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+      const authFilePools: AuthFilePoolAssignments = {};
+      backedUp.forEach((file) => {
+        if (pools[file.name]) authFilePools[file.name] = pools[file.name];
+      });
+      const createdAt = new Date().toISOString();
+      const archive = await createAuthFileBackupArchive(
+        { createdAt, files: backedUp, ...settings, authFilePools },
+        passphrase
+      );
+      downloadText(archive, `auth-backup-${createdAt.slice(0, 10)}${AUTH_FILE_BACKUP_EXTENSION}`);
+      showNotification(t('auth_file_backup.success', { count: backedUp.length }), 'success');
+      onClose();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      showNotification(`${t('auth_file_backup.failed')} ${message}`.trim(), 'error');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      closeDisabled={running}
+      title={t('auth_file_backup.title')}
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose} disabled={running}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={() => void handleCreate()} loading={running} disabled={!canCreate}>
+            {running
+              ? t('auth_file_backup.progress', progress)
+              : t('auth_file_backup.create_button')}
+          </Button>
+        </>
+      }
+    >
+      <div className={styles.importBody}>
+        <p className={styles.importSummary}>
+          {t('auth_file_backup.description', { count: backupFiles.length })}
+        </p>
+        <Input
+          type="password"
+          autoComplete="new-password"
+          label={t('auth_file_backup.passphrase_label')}
+          hint={t('auth_file_backup.passphrase_hint')}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          error={passphraseError}
+          disabled={running}
+        />
+        <Input
+          type="password"
+          autoComplete="new-password"
+          label={t('auth_file_backup.confirm_label')}
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+          error={confirmError}
+          disabled={running}
+        />
+      </div>
+    </Modal>
+  );
+}
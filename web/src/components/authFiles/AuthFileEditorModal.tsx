@@ -0,0 +1,467 @@
+/**
+ * 认证文件结构化编辑弹窗
+ * 按认证类型展示字段表单与完整 JSON，敏感字段默认掩码，保存前校验并预览差异
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { Modal } from '@/components/ui/Modal';
+import { IconEye, IconEyeOff } from '@/components/ui/icons';
+import { authFilesApi } from '@/services/api';
+import { useNotificationStore } from '@/stores';
+import type { AuthFileItem } from '@/types';
+import { maskApiKey, formatFileSize } from '@/utils/format';
+import {
+  diffTextLines,
+  formatAuthFileJson,
+  getAuthFileSchema,
+  getAuthFileValue,
+  hasAuthFileSchema,
+  maskAuthFileJsonLine,
+  parseAuthFileText,
+  setAuthFileValue,
+  splitAuthFileIssues,
+  validateAuthFile,
+  type AuthFileFieldSchema,
+  type AuthFileJson
+} from '@/utils/authFile';
+import styles from '@/pages/AuthFilesPage.module.scss';
+
+type EditorView = 'fields' | 'json' | 'diff';
+
+interface AuthFileEditorModalProps {
+  open: boolean;
+  file: AuthFileItem | null;
+  disabled: boolean;
+  /** 上传大小上限（字节） */
+  maxFileSize: number;
+  onClose: () => void;
+  onSaved: (name: string) => Promise<void> | void;
+}
+
+interface EditorState {
+  loading: boolean;
+  loadError: string | null;
+  /** 下载得到的原始文本 */
+  originalText: string;
+  original: AuthFileJson | null;
+  draft: AuthFileJson | null;
+  /** JSON 视图中的文本，解析失败时保留用户输入 */
+  jsonText: string;
+  jsonError: boolean;
+}
+
+const EMPTY_STATE: EditorState = {
+  loading: true,
+  loadError: null,
+  originalText: '',
+  original: null,
+  draft: null,
+  jsonText: '',
+  jsonError: false
+};
+
+const formatFieldValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+};
+
+// 保持原文件的缩进风格：原文件为单行时继续保存为紧凑格式
+const serializeAuthFile = (json: AuthFileJson, originalText: string) =>
+  originalText.includes('\n') ? formatAuthFileJson(json) : JSON.stringify(json);
+
+export function AuthFileEditorModal({
+  open,
+  file,
+  disabled,
+  maxFileSize,
+  onClose,
+  onSaved
+}: AuthFileEditorModalProps) {
+  const { t } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const [state, setState] = useState<EditorState>(EMPTY_STATE);
+  const [view, setView] = useState<EditorView>('fields');
+  const [showSecrets, setShowSecrets] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fileName = file?.name ?? '';
+  const schema = useMemo(() => getAuthFileSchema(file?.type ?? file?.provider), [file]);
+  const knownSchema = hasAuthFileSchema(schema.type);
+
+  useEffect(() => {
+    if (!open || !fileName) return;
+    let cancelled = false;
+    setState(EMPTY_STATE);
+    setView('fields');
+    setShowSecrets(false);
+    setSaving(false);
+
+    authFilesApi
+      .downloadText(fileName)
+      .then((rawText) => {
+        if (cancelled) return;
+        const parsed = parseAuthFileText(rawText);
+        if (!parsed.ok) {
+          setState({
+            ...EMPTY_STATE,
+            loading: false,
+            loadError: t(`auth_file_editor.error_${parsed.error}`),
+            originalText: rawText,
+            jsonText: rawText,
+            jsonError: true
+          });
+          return;
+        }
+        setState({
+          ...EMPTY_STATE,
+          loading: false,
+          originalText: rawText,
+          original: parsed.json,
+          draft: parsed.json,
+          jsonText: formatAuthFileJson(parsed.json)
+        });
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        const message = err instanceof Error ? err.message : t('notification.download_failed');
+        setState({ ...EMPTY_STATE, loading: false, loadError: message });
+        showNotification(`${t('notification.download_failed')}: ${message}`, 'error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, fileName, showNotification, t]);
+
+  const issues = useMemo(
+    () => (state.draft ? validateAuthFile(state.draft, schema) : []),
+    [state.draft, schema]
+  );
+
+  // 文件原有的问题（含从未存在的必填字段）不阻止修改其他字段
+  const { blocking: blockingIssues, warnings: warningIssues } = useMemo(
+    () =>
+      state.original && state.draft
+        ? splitAuthFileIssues(issues, state.original, state.draft)
+        : { blocking: issues, warnings: [] },
+    [issues, state.original, state.draft]
+  );
+
+  const issueByPath = useMemo(() => {
+    const map = new Map<string, string>();
+    blockingIssues.forEach((issue) => {
+      if (!map.has(issue.path)) {
+        map.set(issue.path, t(`auth_file_editor.issue_${issue.code}`));
+      }
+    });
+    return map;
+  }, [blockingIssues, t]);
+
+  const warningByPath = useMemo(() => {
+    const map = new Map<string, string>();
+    warningIssues.forEach((issue) => {
+      if (!map.has(issue.path)) {
+        map.set(
+          issue.path,
+          t('auth_file_editor.issue_unchanged', {
+            message: t(`auth_file_editor.issue_${issue.code}`)
+          })
+        );
+      }
+    });
+    return map;
+  }, [warningIssues, t]);
+
+  const payload = useMemo(
+    () => (state.draft ? serializeAuthFile(state.draft, state.originalText) : ''),
+    [state.draft, state.originalText]
+  );
+
+  const dirty = useMemo(() => {
+    if (!state.original || !state.draft) return false;
+    return JSON.stringify(state.original) !== JSON.stringify(state.draft);
+  }, [state.original, state.draft]);
+
+  const diffLines = useMemo(() => {
+    if (view !== 'diff' || !state.original || !state.draft) return [];
+    return diffTextLines(formatAuthFileJson(state.original), formatAuthFileJson(state.draft));
+  }, [view, state.original, state.draft]);
+
+  const extraFieldCount = useMemo(() => {
+    if (!state.draft) return 0;
+    const topLevel = new Set(schema.fields.map((field) => field.path.split('.')[0]));
+    return Object.keys(state.draft).filter((key) => !topLevel.has(key)).length;
+  }, [state.draft, schema]);
+
+  const editable = !disabled && !saving && !state.loading && state.original !== null;
+  const canSave = editable && dirty && !state.jsonError && blockingIssues.length === 0;
+
+  const maskText = (text: string) =>
+    showSecrets
+      ? text
+      : text
+          .split('\n')
+          .map((line) => maskAuthFileJsonLine(line, schema))
+          .join('\n');
+
+  const updateDraft = (draft: AuthFileJson) => {
+    setState((prev) => ({
+      ...prev,
+      draft,
+      jsonText: formatAuthFileJson(draft),
+      jsonError: false
+    }));
+  };
+
+  const handleFieldChange = (field: AuthFileFieldSchema, raw: string) => {
+    if (!state.draft) return;
+    const existed = getAuthFileValue(state.draft, field.path) !== undefined;
+    let value: unknown = raw;
+    if (field.kind === 'number') {
+      const parsed = Number(raw);
+      value = raw.trim() === '' ? undefined : Number.isFinite(parsed) ? parsed : raw;
+    } else if (raw === '' && !existed) {
+      value = undefined;
+    }
+    updateDraft(setAuthFileValue(state.draft, field.path, value));
+  };
+
+  const handleJsonChange = (text: string) => {
+    const parsed = parseAuthFileText(text);
+    setState((prev) => ({
+      ...prev,
+      jsonText: text,
+      jsonError: !parsed.ok,
+      draft: parsed.ok ? parsed.json : prev.draft
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!canSave || !state.draft) return;
+    const size = new Blob([payload]).size;
+    if (size > maxFileSize) {
+      showNotification(
+        t('auth_files.upload_error_size', { maxSize: formatFileSize(maxFileSize) }),
+        'error'
+      );
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const uploadFile = new File([payload], fileName, { type: 'application/json' });
+      await authFilesApi.upload(uploadFile);
+      showNotification(t('auth_file_editor.saved_success', { name: fileName }), 'success');
+      await onSaved(fileName);
+      onClose();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      showNotification(`${t('notification.upload_failed')}: ${message}`, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderField = (field: AuthFileFieldSchema) => {
+    if (!state.draft || field.kind === 'object') return null;
+    const value = formatFieldValue(getAuthFileValue(state.draft, field.path));
+    const isSecret = field.kind === 'secret';
+    const masked = isSecret && !showSecrets;
+    const labelKey = `auth_file_editor.field_${field.path.replace(/\./g, '_')}`;
+    const translated = t(labelKey);
+    const label = translated === labelKey ? field.path : `${translated} (${field.path})`;
+
+    return (
+      <Input
+        key={field.path}
+        label={field.required ? `${label} *` : label}
+        value={masked ? maskApiKey(value) : value}
+        type={field.kind === 'number' ? 'number' : 'text'}
+        placeholder={field.kind === 'url' ? t('auth_files.proxy_url_placeholder') : undefined}
+        readOnly={masked}
+        disabled={!editable}
+        hint={warningByPath.get(field.path)}
+        error={issueByPath.get(field.path)}
+        onChange={(e) => handleFieldChange(field, e.target.value)}
+      />
+    );
+  };
+
+  const objectIssues = schema.fields
+    .filter((field) => field.kind === 'object' && issueByPath.has(field.path))
+    .map((field) => `${field.path}: ${issueByPath.get(field.path)}`);
+
+  const objectWarnings = schema.fields
+    .filter((field) => field.kind === 'object' && warningByPath.has(field.path))
+    .map((field) => `${field.path}: ${warningByPath.get(field.path)}`);
+
+  const title = fileName
+    ? `${t('auth_file_editor.title')} - ${fileName}`
+    : t('auth_file_editor.title');
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      closeDisabled={saving}
+      width={820}
+      title={title}
+      footer={
+        view === 'diff' ? (
+          <>
+            <Button variant="secondary" onClick={() => setView('fields')} disabled={saving}>
+              {t('auth_file_editor.back_to_edit')}
+            </Button>
+            <Button onClick={() => void handleSave()} loading={saving} disabled={!canSave}>
+              {t('auth_file_editor.confirm_save')}
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button variant="secondary" onClick={onClose} disabled={saving}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={() => setView('diff')} disabled={!canSave}>
+              {t('auth_file_editor.review_changes')}
+            </Button>
+          </>
+        )
+      }
+    >
+      <div className={styles.prefixProxyEditor}>
+        {state.loading ? (
+          <div className={styles.prefixProxyLoading}>
+            <LoadingSpinner size={14} />
+            <span>{t('auth_files.prefix_proxy_loading')}</span>
+          </div>
+        ) : (
+          <>
+            {state.loadError && <div className={styles.prefixProxyError}>{state.loadError}</div>}
+            {state.original && (
+              <div className={styles.authEditorToolbar}>
+                <div className={styles.authEditorTabs}>
+                  {(['fields', 'json', 'diff'] as EditorView[]).map((item) => (
+                    <Button
+                      key={item}
+                      size="sm"
+                      variant={view === item ? 'primary' : 'secondary'}
+                      onClick={() => setView(item)}
+                      disabled={item === 'diff' && (!dirty || state.jsonError)}
+                    >
+                      {t(`auth_file_editor.view_${item}`)}
+                    </Button>
+                  ))}
+                </div>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => setShowSecrets((prev) => !prev)}
+                >
+                  {showSecrets ? <IconEyeOff size={14} /> : <IconEye size={14} />}
+                  <span>
+                    {showSecrets
+                      ? t('auth_file_editor.hide_secrets')
+                      : t('auth_file_editor.show_secrets')}
+                  </span>
+                </Button>
+              </div>
+            )}
+
+            {state.original && !knownSchema && (
+              <div className={styles.authEditorHint}>
+                {t('auth_file_editor.generic_schema_hint', { type: schema.type || '-' })}
+              </div>
+            )}
+
+            {state.original && view === 'fields' && (
+              <>
+                {objectIssues.length > 0 && (
+                  <div className={styles.prefixProxyError}>{objectIssues.join('; ')}</div>
+                )}
+                {objectWarnings.length > 0 && (
+                  <div className={styles.authEditorWarnings}>{objectWarnings.join('; ')}</div>
+                )}
+                <div className={styles.authEditorFields}>{schema.fields.map(renderField)}</div>
+                {extraFieldCount > 0 && (
+                  <div className={styles.authEditorHint}>
+                    {t('auth_file_editor.extra_fields_hint', { count: extraFieldCount })}
+                  </div>
+                )}
+              </>
+            )}
+
+            {(view === 'json' || !state.original) && (
+              <div className={styles.prefixProxyJsonWrapper}>
+                <label className={styles.prefixProxyLabel}>
+                  {t('auth_files.prefix_proxy_source_label')}
+                </label>
+                <textarea
+                  className={styles.prefixProxyTextarea}
+                  rows={16}
+                  spellCheck={false}
+                  readOnly={!showSecrets || !editable}
+                  value={maskText(state.jsonText)}
+                  onChange={(e) => handleJsonChange(e.target.value)}
+                />
+                {state.original && !showSecrets && (
+                  <div className={styles.authEditorHint}>{t('auth_file_editor.json_masked_hint')}</div>
+                )}
+                {state.original && state.jsonError && (
+                  <div className={styles.prefixProxyError}>
+                    {t('auth_file_editor.error_invalid_json')}
+                  </div>
+                )}
+                {blockingIssues.length > 0 && (
+                  <ul className={styles.authEditorIssues}>
+                    {blockingIssues.map((issue) => (
+                      <li key={`${issue.path}-${issue.code}`}>
+                        <code>{issue.path}</code> {t(`auth_file_editor.issue_${issue.code}`)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {warningIssues.length > 0 && (
+                  <ul className={`${styles.authEditorIssues} ${styles.authEditorWarnings}`}>
+                    {warningIssues.map((issue) => (
+                      <li key={`${issue.path}-${issue.code}`}>
+                        <code>{issue.path}</code> {warningByPath.get(issue.path)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {state.original && view === 'diff' && (
+              <div className={styles.authEditorDiff}>
+                {diffLines.map((line, index) => (
+                  <div
+                    key={index}
+                    className={
+                      line.type === 'added'
+                        ? styles.authEditorDiffAdded
+                        : line.type === 'removed'
+                          ? styles.authEditorDiffRemoved
+                          : undefined
+                    }
+                  >
+                    <span className={styles.authEditorDiffMarker}>
+                      {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                    </span>
+                    {maskText(line.text)}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
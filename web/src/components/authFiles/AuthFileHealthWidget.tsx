@@ -0,0 +1,109 @@
+/**
+ * 仪表盘凭证健康列表：展示已过期或刷新失败的 OAuth 凭证，并提供重新登录入口
+ * 过期时间只取列表元数据与认证文件页已加载的缓存，仪表盘不下载凭证内容
+ */
+
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useInterval } from '@/hooks/useInterval';
+import { useAuthFileExpiryStore } from '@/stores';
+import type { AuthFileItem } from '@/types';
+import {
+  formatAuthFileCountdown,
+  getAuthFileExpiryStatus,
+  getAuthFileReloginFlow,
+  getAuthFileStatusMessage,
+  isAuthFileRefreshFailing,
+  resolveAuthFileExpiry
+} from '@/utils/authFile';
+import styles from '@/pages/DashboardPage.module.scss';
+
+export interface AuthFileHealthWidgetProps {
+  files: AuthFileItem[];
+}
+
+interface UnhealthyAuthFile {
+  file: AuthFileItem;
+  expiresAt: number | null;
+  expired: boolean;
+  refreshFailing: boolean;
+}
+
+const WIDGET_LIMIT = 5;
+const CLOCK_TICK_MS = 60 * 1000;
+
+export function AuthFileHealthWidget({ files }: AuthFileHealthWidgetProps) {
+  const { t } = useTranslation();
+  const entries = useAuthFileExpiryStore((state) => state.entries);
+  const [now, setNow] = useState(() => Date.now());
+
+  useInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+
+  const oauthFiles = useMemo(
+    () => files.filter((file) => !file.disabled && getAuthFileReloginFlow(file.type) !== null),
+    [files]
+  );
+
+  const unhealthy = useMemo(() => {
+    return oauthFiles
+      .map((file): UnhealthyAuthFile => {
+        const info = resolveAuthFileExpiry(file, entries[file.name]?.info);
+        return {
+          file,
+          expiresAt: info?.expiresAt ?? null,
+          expired: getAuthFileExpiryStatus(info, 0, now) === 'expired',
+          refreshFailing: isAuthFileRefreshFailing(file)
+        };
+      })
+      .filter((item) => item.expired || item.refreshFailing)
+      .sort((a, b) => Number(b.refreshFailing) - Number(a.refreshFailing) || (a.expiresAt ?? 0) - (b.expiresAt ?? 0));
+  }, [oauthFiles, entries, now]);
+
+  if (unhealthy.length === 0) return null;
+
+  return (
+    <div className={styles.section}>
+      <h2 className={styles.sectionTitle}>{t('dashboard.credential_health_title', { count: unhealthy.length })}</h2>
+      <div className={styles.healthList}>
+        {unhealthy.slice(0, WIDGET_LIMIT).map(({ file, expiresAt, expired, refreshFailing }) => {
+          const flow = getAuthFileReloginFlow(file.type);
+          const message = getAuthFileStatusMessage(file);
+          return (
+            <div key={file.name} className={styles.healthItem}>
+              <div className={styles.healthHeader}>
+                <span className={styles.healthName}>{file.name}</span>
+                <span className={styles.healthStatus}>
+                  {refreshFailing
+                    ? t('dashboard.credential_health_refresh_failing')
+                    : t('dashboard.credential_health_expired')}
+                </span>
+              </div>
+              <div className={styles.healthMeta}>
+                {expired && expiresAt !== null && (
+                  <span>
+                    {t('auth_files.expiry_expired_ago', { time: formatAuthFileCountdown(now - expiresAt) })}
+                  </span>
+                )}
+                {refreshFailing && message && <span>{message}</span>}
+                <Link to={`/auth-files?search=${encodeURIComponent(file.name)}`} className={styles.viewMoreLink}>
+                  {t('auth_files.health_open_file')} →
+                </Link>
+                {flow && (
+                  <Link to={`/oauth?provider=${encodeURIComponent(flow)}`} className={styles.viewMoreLink}>
+                    {t('dashboard.credential_health_relogin')} →
+                  </Link>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {unhealthy.length > WIDGET_LIMIT && (
+        <Link to="/auth-files" className={styles.viewMoreLink}>
+          {t('dashboard.credential_health_view_all', { count: unhealthy.length })} →
+        </Link>
+      )}
+    </div>
+  );
+}
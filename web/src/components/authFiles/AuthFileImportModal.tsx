@@ -0,0 +1,282 @@
+/**
+ * 认证文件批量导入弹窗
+ * 展开拖放的文件夹与归档并预检，限制并发上传，逐个展示结果并支持重试失败项
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { Modal } from '@/components/ui/Modal';
+import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
+import { authFilesApi } from '@/services/api';
+import { useNotificationStore } from '@/stores';
+import {
+  buildAuthFileImportItems,
+  expandAuthFileImportSources,
+  type AuthFileImportEntry,
+  type AuthFileImportItem,
+  type AuthFileImportSource
+} from '@/utils/authFile';
+import { formatFileSize } from '@/utils/format';
+import { runWithConcurrencyLimit } from '@/utils/quota/scheduler';
+import styles from '@/pages/AuthFilesPage.module.scss';
+
+interface AuthFileImportModalProps {
+  /** 待导入的文件，为 null 时弹窗关闭 */
+  sources: AuthFileImportSource[] | null;
+  existingNames: string[];
+  disabled: boolean;
+  /** 单个认证文件大小上限（字节） */
+  maxFileSize: number;
+  onClose: () => void;
+  onImported: () => Promise<void> | void;
+}
+
+type UploadStatus = 'uploading' | 'success' | 'failed';
+
+interface UploadResult {
+  status: UploadStatus;
+  message?: string;
+}
+
+const UPLOAD_CONCURRENCY = 4;
+
+export function AuthFileImportModal({
+  sources,
+  existingNames,
+  disabled,
+  maxFileSize,
+  onClose,
+  onImported
+}: AuthFileImportModalProps) {
+  const { t } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const [preparing, setPreparing] = useState(false);
+  const [entries, setEntries] = useState<AuthFileImportEntry[]>([]);
+  // 打开时的已有文件名快照，上传后列表刷新不应把刚导入的文件标记为重名
+  const [knownNames, setKnownNames] = useState<string[]>([]);
+  const [overwrite, setOverwrite] = useState(false);
+  const [results, setResults] = useState<Record<string, UploadResult>>({});
+  const [running, setRunning] = useState(false);
+  const existingNamesRef = useRef(existingNames);
+
+  useEffect(() => {
+    existingNamesRef.current = existingNames;
+  }, [existingNames]);
+
+  useEffect(() => {
+    if (!sources) return;
+    let cancelled = false;
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    setPreparing(true);
+    setEntries([]);
+    setKnownNames(existingNamesRef.current);
+    setOverwrite(false);
+    setResults({});
+
+    expandAuthFileImportSources(sources)
+      .then((expanded) => {
+        if (!cancelled) setEntries(expanded);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        const message = err instanceof Error ? err.message : '';
+        showNotification(`${t('auth_file_import.prepare_failed')} ${message}`.trim(), 'error');
+      })
+      .finally(() => {
+        if (!cancelled) setPreparing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sources, showNotification, t]);
+
+  const items = useMemo(
+    () => buildAuthFileImportItems(entries, { existingNames: knownNames, maxFileSize, overwrite }),
+    [entries, knownNames, maxFileSize, overwrite]
+  );
+
+  const uploadable = items.filter((item) => !item.skipReason);
+  const skippedCount = items.length - uploadable.length;
+  const successCount = uploadable.filter((item) => results[item.id]?.status === 'success').length;
+  const failedItems = uploadable.filter((item) => results[item.id]?.status === 'failed');
+  const pendingItems = uploadable.filter((item) => !results[item.id]);
+  const finishedCount = successCount + failedItems.length;
+  const started = Object.keys(results).length > 0;
+
+  const setResult = (id: string, result: UploadResult) => {
+    setResults((prev) => ({ ...prev, [id]: result }));
+  };
+
+  const runUpload = async (targets: AuthFileImportItem[]) => {
+    if (targets.length === 0) return;
+    setRunning(true);
+    setResults((prev) => {
+      const next = { ...prev };
+      targets.forEach((item) => {
+        next[item.id] = { status: 'uploading' };
+      });
+      return next;
+    });
+
+    const settled = await runWithConcurrencyLimit(
+      targets.map((item) => async () => {
+        try {
+          const file = new File([item.content], item.name, { type: 'application/json' });
+          await authFilesApi.upload(file);
+          setResult(item.id, { status: 'success' });
+          return true;
+        } catch (err: unknown) {
+          const message = err instanceof Error ? err.message : 'Unknown error';
+          setResult(item.id, { status: 'failed', message });
+          return false;
+        }
+      }),
+      UPLOAD_CONCURRENCY
+    );
+
+    const succeeded = settled.filter((result) => result.status === 'fulfilled' && result.value).length;
+    const failed = targets.length - succeeded;
+    setRunning(false);
+
+    if (succeeded > 0) {
+      await onImported();
+    }
+    if (failed === 0) {
+      showNotification(t('auth_file_import.upload_success', { count: succeeded }), 'success');
+    } else {
+      showNotification(
+        t('auth_file_import.upload_partial', { success: succeeded, failed }),
+        succeeded > 0 ? 'warning' : 'error'
+      );
+    }
+  };
+
+  const renderItemStatus = (item: AuthFileImportItem) => {
+    if (item.skipReason) {
+      const reason = t(`auth_file_import.reason_${item.skipReason}`, {
+        maxSize: formatFileSize(maxFileSize)
+      });
+      return (
+        <span className={`${styles.importStatus} ${styles.importStatusSkipped}`} title={item.message}>
+          {item.message ? `${reason}: ${item.message}` : reason}
+        </span>
+      );
+    }
+    const result = results[item.id];
+    if (!result) {
+      return <span className={styles.importStatus}>{t('auth_file_import.status_ready')}</span>;
+    }
+    const statusClass =
+      result.status === 'success'
+        ? styles.importStatusSuccess
+        : result.status === 'failed'
+          ? styles.importStatusFailed
+          : '';
+    return (
+      <span className={`${styles.importStatus} ${statusClass}`} title={result.message}>
+        {result.status === 'failed' && result.message
+          ? `${t('auth_file_import.status_failed')}: ${result.message}`
+          : t(`auth_file_import.status_${result.status}`)}
+      </span>
+    );
+  };
+
+  return (
+    <Modal
+      open={sources !== null}
+      onClose={onClose}
+      closeDisabled={running}
+      width={820}
+      title={t('auth_file_import.title')}
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose} disabled={running}>
+            {started ? t('common.close') : t('common.cancel')}
+          </Button>
+          {failedItems.length > 0 && (
+            <Button
+              variant="secondary"
+              onClick={() => void runUpload(failedItems)}
+              disabled={disabled || running}
+            >
+              {t('auth_file_import.retry_failed', { count: failedItems.length })}
+            </Button>
+          )}
+          <Button
+            onClick={() => void runUpload(pendingItems)}
+            loading={running}
+            disabled={disabled || preparing || running || pendingItems.length === 0}
+          >
+            {t('auth_file_import.upload_button', { count: pendingItems.length })}
+          </Button>
+        </>
+      }
+    >
+      {preparing ? (
+        <div className={styles.hint}>
+          <LoadingSpinner size={14} /> {t('auth_file_import.preparing')}
+        </div>
+      ) : (
+        <div className={styles.importBody}>
+          <div className={styles.authEditorToolbar}>
+            <span className={styles.importSummary}>
+              {t('auth_file_import.summary', {
+                total: items.length,
+                ready: uploadable.length,
+                skipped: skippedCount
+              })}
+            </span>
+            <ToggleSwitch
+              checked={overwrite}
+              onChange={setOverwrite}
+              disabled={started || running}
+              label={t('auth_file_import.overwrite')}
+            />
+          </div>
+
+          {started && (
+            <div className={styles.importProgress}>
+              <div className={styles.importProgressBar}>
+                <div
+                  className={styles.importProgressFill}
+                  style={{
+                    width: `${uploadable.length ? (finishedCount / uploadable.length) * 100 : 0}%`
+                  }}
+                />
+              </div>
+              <span>
+                {t('auth_file_import.progress', {
+                  done: finishedCount,
+                  total: uploadable.length,
+                  success: successCount,
+                  failed: failedItems.length
+                })}
+              </span>
+            </div>
+          )}
+
+          {items.length === 0 ? (
+            <div className={styles.hint}>{t('auth_file_import.empty')}</div>
+          ) : (
+            <div className={styles.importList}>
+              {items.map((item) => (
+                <div key={item.id} className={styles.importRow}>
+                  <div className={styles.importName}>
+                    <span>{item.name}</span>
+                    {item.source !== item.name && (
+                      <span className={styles.importSource}>{item.source}</span>
+                    )}
+                  </div>
+                  {renderItemStatus(item)}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,385 @@
+/**
+ * 认证文件备份恢复弹窗
+ * 解密备份后对比当前数据，预览新增 / 覆盖 / 跳过的条目，确认后再写回服务端
+ */
+
+import { useEffect, useMemo, useRef, useState, type ChangeEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
+import { authFilesApi } from '@/services/api';
+import { useAuthFilePoolStore, useNotificationStore } from '@/stores';
+import type { AuthFileItem } from '@/types';
+import {
+  AUTH_FILE_BACKUP_EXTENSION,
+  isRestoreApplied,
+  isRuntimeOnlyAuthFile,
+  planAuthFileRestore,
+  readAuthFileBackupArchive,
+  type AuthFileBackup,
+  type AuthFileRestoreCurrent,
+  type AuthFileRestoreItem
+} from '@/utils/authFile';
+import { runWithConcurrencyLimit } from '@/utils/quota/scheduler';
+import { loadOAuthSettingsSnapshot } from './oauthSettings';
+import styles from '@/pages/AuthFilesPage.module.scss';
+
+interface AuthFileRestoreModalProps {
+  open: boolean;
+  existingFiles: AuthFileItem[];
+  disabled: boolean;
+  onClose: () => void;
+  onRestored: () => Promise<void> | void;
+}
+
+type RestoreSection = 'files' | 'oauthExcludedModels' | 'oauthModelAlias' | 'authFilePools';
+
+const SECTIONS: RestoreSection[] = [
+  'files',
+  'oauthExcludedModels',
+  'oauthModelAlias',
+  'authFilePools'
+];
+const UPLOAD_CONCURRENCY = 4;
+
+const getResultKey = (section: RestoreSection, key: string) => `${section}:${key}`;
+
+export function AuthFileRestoreModal({
+  open,
+  existingFiles,
+  disabled,
+  onClose,
+  onRestored
+}: AuthFileRestoreModalProps) {
+  const { t } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const restoreFileTags = useAuthFilePoolStore((state) => state.restoreFileTags);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [backup, setBackup] = useState<AuthFileBackup | null>(null);
+  const [current, setCurrent] = useState<AuthFileRestoreCurrent | null>(null);
+  const [overwrite, setOverwrite] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [results, setResults] = useState<Record<string, string | null>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    setBackupFile(null);
+    setPassphrase('');
+    setError('');
+    setBackup(null);
+    setCurrent(null);
+    setOverwrite(false);
+    setResults({});
+  }, [open]);
+
+  const plan = useMemo(
+    () => (backup && current ? planAuthFileRestore(backup, current, overwrite) : null),
+    [backup, current, overwrite]
+  );
+  const applied = Object.keys(results).length > 0;
+  const busy = loading || applying;
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] ?? null;
+    setBackupFile(file);
+    setError('');
+    event.target.value = '';
+  };
+
+  const handlePreview = async () => {
+    if (!backupFile || !passphrase || busy) return;
+    setLoading(true);
+    setError('');
+    try {
+      const result = await readAuthFileBackupArchive(await backupFile.text(), passphrase);
+      if (!result.ok) {
+        setError(t(`auth_file_restore.error_${result.error}`));
+        return;
+      }
+
+      // 只下载与备份重名的现有文件，用于判断内容是否相同
+      const existingByName = new Map(existingFiles.map((file) => [file.name, file]));
+      const collisions = result.backup.files
+        .map((file) => existingByName.get(file.name))
+        .filter((file): file is AuthFileItem => Boolean(file));
+      const contents: Record<string, string | null> = {};
+      existingFiles.forEach((file) => {
+        contents[file.name] = null;
+      });
+      const settled = await runWithConcurrencyLimit(
+        collisions
+          .filter((file) => !isRuntimeOnlyAuthFile(file))
+          .map((file) => async () => {
+            contents[file.name] = await authFilesApi.downloadText(file.name);
+          }),
+        UPLOAD_CONCURRENCY
+      );
+      if (settled.some((item) => item.status === 'rejected')) {
+        showNotification(t('auth_file_restore.compare_partial'), 'warning');
+      }
+
+      const [settings, authFilePools] = await Promise.all([
+        loadOAuthSettingsSnapshot(),
+        authFilesApi.getPools()
+      ]);
+      setCurrent({ files: contents, ...settings, authFilePools });
+      setBackup(result.backup);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('auth_file_restore.error_invalid_format'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!plan || !current) return;
+    setApplying(true);
+    try {
+      const nextResults: Record<string, string | null> = {};
+      const record = (section: RestoreSection, key: string, err?: unknown) => {
+        nextResults[getResultKey(section, key)] = err
+          ? err instanceof Error
+            ? err.message
+            : 'Unknown error'
+          : null;
+      };
+
+      const fileItems = plan.files.filter((item) => isRestoreApplied(item.action));
+      await runWithConcurrencyLimit(
+        fileItems.map((item) => async () => {
+          try {
+            await authFilesApi.upload(
+              new File([item.value], item.key, { type: 'application/json' })
+            );
+            record('files', item.key);
+          } catch (err: unknown) {
+            record('files', item.key, err);
+          }
+        }),
+        UPLOAD_CONCURRENCY
+      );
+
+      // 排除模型整体替换：在当前配置基础上合并需要恢复的提供商
+      const excludedItems = plan.oauthExcludedModels.filter((item) =>
+        isRestoreApplied(item.action)
+      );
+      if (excludedItems.length > 0) {
+        const merged = { ...current.oauthExcludedModels };
+        excludedItems.forEach((item) => {
+          merged[item.key] = item.value;
+        });
+        try {
+          await authFilesApi.replaceOauthExcludedModels(merged);
+          excludedItems.forEach((item) => record('oauthExcludedModels', item.key));
+        } catch (err: unknown) {
+          excludedItems.forEach((item) => record('oauthExcludedModels', item.key, err));
+        }
+      }
+
+      for (const item of plan.oauthModelAlias.filter((entry) => isRestoreApplied(entry.action))) {
+        try {
+          await authFilesApi.saveOauthModelAlias(item.key, item.value);
+          record('oauthModelAlias', item.key);
+        } catch (err: unknown) {
+          record('oauthModelAlias', item.key, err);
+        }
+      }
+
+      // 凭证池标签一次写回 config.yaml
+      const poolItems = plan.authFilePools.filter((item) => isRestoreApplied(item.action));
+      if (poolItems.length > 0) {
+        try {
+          await restoreFileTags(
+            Object.fromEntries(poolItems.map((item) => [item.key, item.value]))
+          );
+          poolItems.forEach((item) => record('authFilePools', item.key));
+        } catch (err: unknown) {
+          poolItems.forEach((item) => record('authFilePools', item.key, err));
+        }
+      }
+
+      setResults(nextResults);
+
+      const total = Object.keys(nextResults).length;
+      const failed = Object.values(nextResults).filter((value) => value !== null).length;
+      if (total - failed > 0) {
+        try {
+          await onRestored();
+        } catch {
+          // 刷新列表失败不影响已写回的恢复结果
+        }
+      }
+      showNotification(
+        failed === 0
+          ? t('auth_file_restore.success', { count: total })
+          : t('auth_file_restore.partial', { success: total - failed, failed }),
+        failed === 0 ? 'success' : total - failed > 0 ? 'warning' : 'error'
+      );
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const renderItem = <T,>(section: RestoreSection, item: AuthFileRestoreItem<T>) => {
+    const resultKey = getResultKey(section, item.key);
+    const result = results[resultKey];
+    const statusClass =
+      resultKey in results
+        ? result === null
+          ? styles.importStatusSuccess
+          : styles.importStatusFailed
+        : isRestoreApplied(item.action)
+          ? ''
+          : styles.importStatusSkipped;
+    return (
+      <div key={resultKey} className={styles.importRow}>
+        <div className={styles.importName}>{item.key}</div>
+        <span className={`${styles.importStatus} ${statusClass}`} title={result ?? undefined}>
+          {resultKey in results
+            ? result === null
+              ? t('auth_file_restore.result_success')
+              : `${t('auth_file_restore.result_failed')}: ${result}`
+            : t(`auth_file_restore.action_${item.action}`)}
+        </span>
+      </div>
+    );
+  };
+
+  const renderPreview = () => {
+    if (!plan || !backup) return null;
+    const allItems = SECTIONS.flatMap((section) => plan[section] as AuthFileRestoreItem<unknown>[]);
+    const count = (action: string) => allItems.filter((item) => item.action === action).length;
+    return (
+      <>
+        <div className={styles.authEditorToolbar}>
+          <span className={styles.importSummary}>
+            {t('auth_file_restore.summary', {
+              time: backup.createdAt ? new Date(backup.createdAt).toLocaleString() : '-',
+              add: count('add'),
+              overwrite: count('overwrite'),
+              skip: count('skip') + count('unchanged')
+            })}
+          </span>
+          <ToggleSwitch
+            checked={overwrite}
+            onChange={setOverwrite}
+            disabled={busy || applied}
+            label={t('auth_file_restore.overwrite')}
+          />
+        </div>
+        {SECTIONS.map((section) =>
+          plan[section].length > 0 ? (
+            <div key={section} className={styles.importBody}>
+              <strong className={styles.importSummary}>{t(`auth_file_restore.section_${section}`)}</strong>
+              <div className={styles.importList}>
+                {(plan[section] as AuthFileRestoreItem<unknown>[]).map((item) =>
+                  renderItem(section, item)
+                )}
+              </div>
+            </div>
+          ) : null
+        )}
+      </>
+    );
+  };
+
+  const pendingCount = plan
+    ? SECTIONS.reduce(
+        (sum, section) =>
+          sum +
+          (plan[section] as AuthFileRestoreItem<unknown>[]).filter((item) => isRestoreApplied(item.action))
+            .length,
+        0
+      )
+    : 0;
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      closeDisabled={busy}
+      width={720}
+      title={t('auth_file_restore.title')}
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose} disabled={busy}>
+            {applied ? t('common.close') : t('common.cancel')}
+          </Button>
+          {plan ? (
+            !applied && (
+              <Button
+                onClick={() => void handleApply()}
+                loading={applying}
+                disabled={disabled || busy || pendingCount === 0}
+              >
+                {t('auth_file_restore.apply_button', { count: pendingCount })}
+              </Button>
+            )
+          ) : (
+            <Button
+              onClick={() => void handlePreview()}
+              loading={loading}
+              disabled={disabled || busy || !backupFile || !passphrase}
+            >
+              {t('auth_file_restore.preview_button')}
+            </Button>
+          )}
+        </>
+      }
+    >
+      <div className={styles.importBody}>
+        {plan ? (
+          renderPreview()
+        ) : (
+          <>
+            <p className={styles.importSummary}>{t('auth_file_restore.description')}</p>
+            <div className="form-group">
+              <label>{t('auth_file_restore.file_label')}</label>
+              <div className={styles.authEditorToolbar}>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={busy}
+                >
+                  {t('auth_file_restore.choose_file')}
+                </Button>
+                <span className={styles.importSummary}>
+                  {backupFile?.name ?? t('auth_file_restore.no_file')}
+                </span>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={`${AUTH_FILE_BACKUP_EXTENSION},application/json`}
+                style={{ display: 'none' }}
+                onChange={handleFileChange}
+              />
+            </div>
+            <Input
+              type="password"
+              autoComplete="off"
+              label={t('auth_file_backup.passphrase_label')}
+              value={passphrase}
+              onChange={(e) => {
+                setPassphrase(e.target.value);
+                setError('');
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') void handlePreview();
+              }}
+              error={error || undefined}
+              disabled={busy}
+            />
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
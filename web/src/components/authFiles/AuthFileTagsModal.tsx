@@ -0,0 +1,124 @@
+/**
+ * 认证文件凭证池（标签）编辑弹窗
+ * 支持单个或多个文件：多个文件时只显示共同标签，保存时添加新标签并移除被删掉的共同标签
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { useAuthFilePoolStore, useNotificationStore } from '@/stores';
+import {
+  getAuthFileTagKey,
+  hasAuthFileTag,
+  listAuthFileTags,
+  parseAuthFileTagsInput
+} from '@/utils/authFile';
+import styles from '@/pages/AuthFilesPage.module.scss';
+
+interface AuthFileTagsModalProps {
+  /** 为 null 时关闭弹窗 */
+  fileNames: string[] | null;
+  onClose: () => void;
+}
+
+export function AuthFileTagsModal({ fileNames, onClose }: AuthFileTagsModalProps) {
+  const { t } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const assignments = useAuthFilePoolStore((state) => state.assignments);
+  const updateFileTags = useAuthFilePoolStore((state) => state.updateFileTags);
+  const saving = useAuthFilePoolStore((state) => state.saving);
+  const [input, setInput] = useState('');
+
+  const commonTags = useMemo(() => {
+    if (!fileNames || fileNames.length === 0) return [];
+    const [first, ...rest] = fileNames;
+    return (assignments[first] ?? []).filter((tag) =>
+      rest.every((name) => hasAuthFileTag(assignments[name] ?? [], tag))
+    );
+  }, [fileNames, assignments]);
+
+  const allTags = useMemo(() => listAuthFileTags(assignments), [assignments]);
+
+  useEffect(() => {
+    if (!fileNames) return;
+    setInput(commonTags.join(', '));
+    // 只在打开时根据当前标签初始化输入
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fileNames]);
+
+  const enteredTags = parseAuthFileTagsInput(input);
+  const suggestions = allTags.filter((tag) => !hasAuthFileTag(enteredTags, tag));
+
+  const handleAddSuggestion = (tag: string) => {
+    setInput([...enteredTags, tag].join(', '));
+  };
+
+  const handleSave = async () => {
+    if (!fileNames || saving) return;
+    const enteredKeys = new Set(enteredTags.map(getAuthFileTagKey));
+    const removed = commonTags.filter((tag) => !enteredKeys.has(getAuthFileTagKey(tag)));
+    try {
+      await updateFileTags(fileNames, enteredTags, removed);
+      showNotification(t('auth_file_pools.save_success', { count: fileNames.length }), 'success');
+      onClose();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      showNotification(`${t('auth_file_pools.save_failed')}: ${message}`, 'error');
+    }
+  };
+
+  return (
+    <Modal
+      open={fileNames !== null}
+      onClose={onClose}
+      title={
+        fileNames && fileNames.length === 1
+          ? t('auth_file_pools.edit_title_single', { name: fileNames[0] })
+          : t('auth_file_pools.edit_title_multiple', { count: fileNames?.length ?? 0 })
+      }
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose} disabled={saving}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={() => void handleSave()} loading={saving}>
+            {t('common.save')}
+          </Button>
+        </>
+      }
+    >
+      <div className={styles.importBody}>
+        <Input
+          label={t('auth_file_pools.tags_label')}
+          hint={
+            fileNames && fileNames.length > 1
+              ? t('auth_file_pools.tags_hint_multiple')
+              : t('auth_file_pools.tags_hint')
+          }
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') void handleSave();
+          }}
+          placeholder={t('auth_file_pools.tags_placeholder')}
+        />
+        {suggestions.length > 0 && (
+          <div className={styles.poolTags}>
+            {suggestions.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                className={styles.poolTagSuggestion}
+                onClick={() => handleAddSuggestion(tag)}
+              >
+                + {tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,10 @@
+/**
+ * 认证文件组件统一导出
+ */
+
+export { AuthFileEditorModal } from './AuthFileEditorModal';
+export { AuthFileHealthWidget } from './AuthFileHealthWidget';
+export { AuthFileImportModal } from './AuthFileImportModal';
+export { AuthFileBackupModal } from './AuthFileBackupModal';
+export { AuthFileRestoreModal } from './AuthFileRestoreModal';
+export { AuthFileTagsModal } from './AuthFileTagsModal';
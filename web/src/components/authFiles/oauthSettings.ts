@@ -0,0 +1,30 @@
+/**
+ * 备份与恢复共用的 OAuth 设置读取
+ */
+
+import { authFilesApi } from '@/services/api';
+import type { OAuthModelAlias } from '@/types';
+import { getStatusFromError } from '@/utils/quota';
+
+export interface OAuthSettingsSnapshot {
+  oauthExcludedModels: Record<string, string[]>;
+  oauthModelAlias: OAuthModelAlias;
+}
+
+// 旧版本服务端没有对应接口（404）时视为空配置，其他错误照常抛出
+const orEmptyWhenUnsupported = async <T extends object>(load: () => Promise<T>): Promise<T> => {
+  try {
+    return await load();
+  } catch (err: unknown) {
+    if (getStatusFromError(err) === 404) return {} as T;
+    throw err;
+  }
+};
+
+export async function loadOAuthSettingsSnapshot(): Promise<OAuthSettingsSnapshot> {
+  const [oauthExcludedModels, oauthModelAlias] = await Promise.all([
+    orEmptyWhenUnsupported(() => authFilesApi.getOauthExcludedModels()),
+    orEmptyWhenUnsupported(() => authFilesApi.getOauthModelAlias())
+  ]);
+  return { oauthExcludedModels, oauthModelAlias };
+}
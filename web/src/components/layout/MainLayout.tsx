@@ -38,6 +38,7 @@ import {
 } from '@/stores';
 import { configApi } from '@/services/api';
 import { triggerHeaderRefresh } from '@/hooks/useHeaderRefresh';
+import { useQuotaScheduler } from '@/components/quota';
 
 const sidebarIcons: Record<string, ReactNode> = {
   quickStart: <IconRocket size={18} />,
@@ -166,6 +167,8 @@ export function MainLayout() {
   const cycleTheme = useThemeStore((state) => state.cycleTheme);
   const toggleLanguage = useLanguageStore((state) => state.toggleLanguage);
 
+  useQuotaScheduler();
+
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
 
@@ -0,0 +1,398 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import { logsApi } from '@/services/api/logs';
+import type { ErrorLogFile } from '@/services/api/logs';
+import { useNotificationStore } from '@/stores';
+import { formatFileSize, formatUnixTimestamp } from '@/utils/format';
+import {
+  filterErrorLogs,
+  getErrorLogModifiedMs,
+  groupErrorLogs,
+  sortErrorLogs,
+  summarizeErrorLog,
+} from '@/utils/log';
+import type { ErrorLogFilter, ErrorLogSortKey, ErrorLogSummary } from '@/utils/log';
+import { createZip } from '@/utils/zip';
+import type { ZipEntry } from '@/utils/zip';
+import { RequestLogViewer } from './RequestLogViewer';
+import styles from '@/pages/LogsPage.module.scss';
+
+export interface ErrorLogBrowserProps {
+  files: ErrorLogFile[];
+  loading: boolean;
+  disabled: boolean;
+  /** 在弹窗中查看完整日志 */
+  onView: (name: string) => void;
+  onDownload: (name: string) => void;
+}
+
+const SORT_OPTIONS: { value: ErrorLogSortKey; labelKey: string }[] = [
+  { value: 'modified-desc', labelKey: 'logs.error_logs_sort_newest' },
+  { value: 'modified-asc', labelKey: 'logs.error_logs_sort_oldest' },
+  { value: 'size-desc', labelKey: 'logs.error_logs_sort_largest' },
+  { value: 'size-asc', labelKey: 'logs.error_logs_sort_smallest' },
+  { value: 'name', labelKey: 'logs.error_logs_sort_name' },
+];
+
+// 批量读取日志内容时的并发请求数
+const FETCH_CONCURRENCY = 4;
+
+const fetchErrorLogText = async (name: string): Promise<string> => {
+  const response = await logsApi.downloadErrorLog(name);
+  const data = response.data as Blob | string;
+  return typeof data === 'string' ? data : data.text();
+};
+
+const runWithConcurrency = async <T,>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> => {
+  let cursor = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (cursor < items.length) {
+      const item = items[cursor];
+      cursor += 1;
+      await task(item);
+    }
+  });
+  await Promise.all(workers);
+};
+
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+export function ErrorLogBrowser({
+  files,
+  loading,
+  disabled,
+  onView,
+  onDownload,
+}: ErrorLogBrowserProps) {
+  const { t } = useTranslation();
+  const showNotification = useNotificationStore((state) => state.showNotification);
+  const [sortKey, setSortKey] = useState<ErrorLogSortKey>('modified-desc');
+  const [filter, setFilter] = useState<ErrorLogFilter>({ name: '', from: '', to: '' });
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [zipping, setZipping] = useState(false);
+  const [preview, setPreview] = useState<{
+    name: string;
+    text: string;
+    loading: boolean;
+    error: string;
+  } | null>(null);
+  const [groupBy, setGroupBy] = useState(false);
+  const [summaries, setSummaries] = useState<Record<string, ErrorLogSummary>>({});
+  const [analyzeProgress, setAnalyzeProgress] = useState<{ done: number; total: number } | null>(
+    null
+  );
+  const previewRequestRef = useRef(0);
+
+  const visibleFiles = useMemo(
+    () => sortErrorLogs(filterErrorLogs(files, filter), sortKey),
+    [files, filter, sortKey]
+  );
+
+  const groups = useMemo(
+    () => (groupBy ? groupErrorLogs(visibleFiles, summaries) : []),
+    [groupBy, summaries, visibleFiles]
+  );
+
+  // 列表刷新后丢弃已不存在文件的勾选状态
+  const selectedVisible = useMemo(
+    () => visibleFiles.filter((file) => selected.has(file.name)),
+    [selected, visibleFiles]
+  );
+  const allSelected = visibleFiles.length > 0 && selectedVisible.length === visibleFiles.length;
+
+  // 开启分组后读取尚未分析过的日志内容，提取提供商与状态码
+  useEffect(() => {
+    if (!groupBy) return;
+    const pending = visibleFiles.filter((file) => !summaries[file.name]);
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    let done = 0;
+    const found: Record<string, ErrorLogSummary> = {};
+    Promise.resolve()
+      .then(() => {
+        setAnalyzeProgress({ done: 0, total: pending.length });
+        return runWithConcurrency(pending, FETCH_CONCURRENCY, async (file) => {
+          if (cancelled) return;
+          try {
+            found[file.name] = summarizeErrorLog(await fetchErrorLogText(file.name));
+          } catch (err) {
+            console.warn('Failed to analyze error log:', file.name, err);
+            found[file.name] = {};
+          }
+          done += 1;
+          if (!cancelled) setAnalyzeProgress({ done, total: pending.length });
+        });
+      })
+      .then(() => {
+        // 已完成的结果在筛选条件变化后仍然保留，避免重复请求
+        setSummaries((prev) => ({ ...prev, ...found }));
+        if (!cancelled) setAnalyzeProgress(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [groupBy, summaries, visibleFiles]);
+
+  const toggleSelected = (name: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelected(allSelected ? new Set() : new Set(visibleFiles.map((file) => file.name)));
+  };
+
+  const openPreview = async (name: string) => {
+    if (preview?.name === name) {
+      setPreview(null);
+      return;
+    }
+    const requestId = ++previewRequestRef.current;
+    setPreview({ name, text: '', loading: true, error: '' });
+    try {
+      const text = await fetchErrorLogText(name);
+      if (previewRequestRef.current !== requestId) return;
+      setPreview({ name, text, loading: false, error: '' });
+    } catch (err: unknown) {
+      if (previewRequestRef.current !== requestId) return;
+      const message = err instanceof Error ? err.message : '';
+      setPreview({
+        name,
+        text: '',
+        loading: false,
+        error: message ? `${t('logs.viewer_load_error')}: ${message}` : t('logs.viewer_load_error'),
+      });
+    }
+  };
+
+  const downloadSelected = async () => {
+    if (selectedVisible.length === 0) return;
+    setZipping(true);
+    try {
+      const entries: ZipEntry[] = [];
+      await runWithConcurrency(selectedVisible, FETCH_CONCURRENCY, async (file) => {
+        const response = await logsApi.downloadErrorLog(file.name);
+        const data = response.data as Blob | string;
+        const modifiedMs = getErrorLogModifiedMs(file);
+        entries.push({
+          name: file.name,
+          data: typeof data === 'string' ? data : new Uint8Array(await data.arrayBuffer()),
+          modified: modifiedMs !== undefined ? new Date(modifiedMs) : undefined,
+        });
+      });
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      saveBlob(createZip(entries), `error-logs-${stamp}.zip`);
+      showNotification(t('logs.error_logs_zip_success', { count: entries.length }), 'success');
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      showNotification(
+        `${t('notification.download_failed')}${message ? `: ${message}` : ''}`,
+        'error'
+      );
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  const renderRow = (file: ErrorLogFile) => {
+    const summary = summaries[file.name];
+    const isPreviewing = preview?.name === file.name;
+    return (
+      <div key={file.name} className="item-row">
+        <label className={styles.errorLogCheck}>
+          <input
+            type="checkbox"
+            checked={selected.has(file.name)}
+            onChange={() => toggleSelected(file.name)}
+            aria-label={file.name}
+          />
+        </label>
+        <div className="item-meta">
+          <div className="item-title">{file.name}</div>
+          <div className="item-subtitle">
+            {file.size ? formatFileSize(file.size) : ''}{' '}
+            {file.modified ? formatUnixTimestamp(file.modified) : ''}
+            {!groupBy && summary?.status !== undefined && (
+              <span className={styles.errorLogTag}>{summary.status}</span>
+            )}
+          </div>
+        </div>
+        <div className="item-actions">
+          <Button
+            variant={isPreviewing ? 'primary' : 'secondary'}
+            size="sm"
+            onClick={() => void openPreview(file.name)}
+            disabled={disabled}
+          >
+            {t('logs.error_logs_preview')}
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => onView(file.name)}
+            disabled={disabled}
+          >
+            {t('logs.error_logs_view')}
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => onDownload(file.name)}
+            disabled={disabled}
+          >
+            {t('logs.error_logs_download')}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className={styles.errorLogBrowser}>
+      <div className={styles.errorLogToolbar}>
+        <input
+          className="input"
+          value={filter.name}
+          onChange={(event) => setFilter((prev) => ({ ...prev, name: event.target.value }))}
+          placeholder={t('logs.error_logs_filter_placeholder')}
+          aria-label={t('logs.error_logs_filter_placeholder')}
+        />
+        <label className={styles.errorLogField}>
+          <span>{t('logs.error_logs_date_from')}</span>
+          <input
+            className="input"
+            type="date"
+            value={filter.from}
+            max={filter.to || undefined}
+            onChange={(event) => setFilter((prev) => ({ ...prev, from: event.target.value }))}
+          />
+        </label>
+        <label className={styles.errorLogField}>
+          <span>{t('logs.error_logs_date_to')}</span>
+          <input
+            className="input"
+            type="date"
+            value={filter.to}
+            min={filter.from || undefined}
+            onChange={(event) => setFilter((prev) => ({ ...prev, to: event.target.value }))}
+          />
+        </label>
+        <label className={styles.errorLogField}>
+          <span>{t('logs.error_logs_sort')}</span>
+          <select
+            className="input"
+            value={sortKey}
+            onChange={(event) => setSortKey(event.target.value as ErrorLogSortKey)}
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {t(option.labelKey)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className={styles.errorLogToolbar}>
+        <label className={styles.errorLogCheck}>
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={toggleSelectAll}
+            disabled={visibleFiles.length === 0}
+          />
+          <span>{t('logs.error_logs_select_all')}</span>
+        </label>
+        <label className={styles.errorLogCheck}>
+          <input
+            type="checkbox"
+            checked={groupBy}
+            onChange={(event) => setGroupBy(event.target.checked)}
+            disabled={disabled}
+          />
+          <span>{t('logs.error_logs_group_by')}</span>
+        </label>
+        {analyzeProgress && (
+          <span className="hint">{t('logs.error_logs_analyzing', analyzeProgress)}</span>
+        )}
+        <span className={styles.errorLogCount}>
+          {t('logs.error_logs_count', { shown: visibleFiles.length, total: files.length })}
+        </span>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => void downloadSelected()}
+          loading={zipping}
+          disabled={disabled || selectedVisible.length === 0}
+        >
+          {t('logs.error_logs_download_selected', { count: selectedVisible.length })}
+        </Button>
+      </div>
+
+      <div className={styles.errorPanel}>
+        {loading ? (
+          <div className="hint">{t('common.loading')}</div>
+        ) : files.length === 0 ? (
+          <div className="hint">{t('logs.error_logs_empty')}</div>
+        ) : visibleFiles.length === 0 ? (
+          <div className="hint">{t('logs.error_logs_filter_empty')}</div>
+        ) : groupBy ? (
+          groups.map((group) => (
+            <div key={group.key} className={styles.errorLogGroup}>
+              <div className={styles.errorLogGroupTitle}>
+                <span>{group.provider ?? t('logs.error_logs_unknown_provider')}</span>
+                <span className={styles.errorLogTag}>
+                  {group.status ?? t('logs.error_logs_unknown_status')}
+                </span>
+                <span className={styles.errorLogCount}>{group.files.length}</span>
+              </div>
+              <div className="item-list">{group.files.map(renderRow)}</div>
+            </div>
+          ))
+        ) : (
+          <div className="item-list">{visibleFiles.map(renderRow)}</div>
+        )}
+      </div>
+
+      {preview && (
+        <div className={styles.errorLogPreview}>
+          <div className={styles.errorLogPreviewHeader}>
+            <span className={styles.errorLogPreviewTitle}>{preview.name}</span>
+            <Button variant="ghost" size="sm" onClick={() => setPreview(null)}>
+              {t('common.close')}
+            </Button>
+          </div>
+          {preview.loading ? (
+            <div className="hint">{t('common.loading')}</div>
+          ) : preview.error ? (
+            <div className="error-box">{preview.error}</div>
+          ) : (
+            <RequestLogViewer text={preview.text} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
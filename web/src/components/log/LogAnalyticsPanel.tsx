@@ -0,0 +1,321 @@
+import { useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { ChartOptions } from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { formatDurationMs } from '@/utils/log';
+import type { LogAnalytics, LogQueryField } from '@/utils/log';
+import styles from '@/pages/LogsPage.module.scss';
+
+export interface LogAnalyticsPanelProps {
+  analytics: LogAnalytics;
+  isDark: boolean;
+  /** 点击柱状图时按对应字段过滤日志 */
+  onFilter: (field: LogQueryField, value: string, exact?: boolean) => void;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  '2': '#22c55e',
+  '3': '#3b82f6',
+  '4': '#f59e0b',
+  '5': '#ef4444',
+};
+const PERCENTILE_COLORS = ['#60a5fa', '#f59e0b', '#ef4444'];
+const IP_COLOR = '#8b5cf6';
+const ERROR_COLOR = '#ef4444';
+const MINUTE_COLOR = '#3b82f6';
+const MAX_TICK_LABEL_LENGTH = 28;
+
+const truncateLabel = (label: string) =>
+  label.length > MAX_TICK_LABEL_LENGTH ? `${label.slice(0, MAX_TICK_LABEL_LENGTH - 1)}…` : label;
+
+interface BarOptionsConfig {
+  isDark: boolean;
+  labels: string[];
+  horizontal?: boolean;
+  legend?: boolean;
+  formatValue?: (value: number) => string;
+  onSelect?: (index: number) => void;
+}
+
+function buildBarOptions({
+  isDark,
+  labels,
+  horizontal = false,
+  legend = false,
+  formatValue,
+  onSelect,
+}: BarOptionsConfig): ChartOptions<'bar'> {
+  const gridColor = isDark ? 'rgba(255, 255, 255, 0.06)' : 'rgba(17, 24, 39, 0.06)';
+  const tickColor = isDark ? 'rgba(255, 255, 255, 0.72)' : 'rgba(17, 24, 39, 0.72)';
+  const tooltipBg = isDark ? 'rgba(17, 24, 39, 0.92)' : 'rgba(255, 255, 255, 0.98)';
+  const tooltipTitle = isDark ? '#ffffff' : '#111827';
+  const tooltipBody = isDark ? 'rgba(255, 255, 255, 0.86)' : '#374151';
+  const tooltipBorder = isDark ? 'rgba(255, 255, 255, 0.10)' : 'rgba(17, 24, 39, 0.10)';
+  const categoryAxis = horizontal ? 'y' : 'x';
+  const valueAxis = horizontal ? 'x' : 'y';
+
+  return {
+    responsive: true,
+    maintainAspectRatio: false,
+    indexAxis: horizontal ? 'y' : 'x',
+    animation: false,
+    plugins: {
+      legend: {
+        display: legend,
+        position: 'bottom',
+        labels: { color: tickColor, boxWidth: 10, font: { size: 11 } },
+      },
+      tooltip: {
+        backgroundColor: tooltipBg,
+        titleColor: tooltipTitle,
+        bodyColor: tooltipBody,
+        borderColor: tooltipBorder,
+        borderWidth: 1,
+        padding: 10,
+        callbacks: {
+          title: (items) => labels[items[0]?.dataIndex ?? 0] ?? '',
+          label: (item) => {
+            const value = Number(horizontal ? item.parsed.x : item.parsed.y);
+            const text = formatValue ? formatValue(value) : String(value);
+            return item.dataset.label ? `${item.dataset.label}: ${text}` : text;
+          },
+        },
+      },
+    },
+    scales: {
+      [categoryAxis]: {
+        grid: { display: false },
+        ticks: {
+          color: tickColor,
+          font: { size: 11 },
+          autoSkip: true,
+          callback: (value: string | number) => {
+            const index = typeof value === 'number' ? value : Number(value);
+            return truncateLabel(labels[index] ?? String(value));
+          },
+        },
+      },
+      [valueAxis]: {
+        beginAtZero: true,
+        grid: { color: gridColor },
+        ticks: {
+          color: tickColor,
+          font: { size: 11 },
+          precision: formatValue ? undefined : 0,
+          callback: (value: string | number) =>
+            formatValue ? formatValue(Number(value)) : String(value),
+        },
+      },
+    },
+    onClick: onSelect
+      ? (_event, elements) => {
+          const index = elements[0]?.index;
+          if (index !== undefined) onSelect(index);
+        }
+      : undefined,
+    onHover: onSelect
+      ? (event, elements) => {
+          const target = event.native?.target as HTMLElement | undefined;
+          if (target) target.style.cursor = elements.length > 0 ? 'pointer' : 'default';
+        }
+      : undefined,
+  };
+}
+
+function ChartBlock({
+  title,
+  hint,
+  empty,
+  children,
+}: {
+  title: string;
+  hint?: string;
+  empty: boolean;
+  children: ReactNode;
+}) {
+  const { t } = useTranslation();
+  return (
+    <div className={styles.analyticsChart}>
+      <div className={styles.analyticsChartTitle}>
+        <span>{title}</span>
+        {hint && <span className={styles.analyticsChartHint}>{hint}</span>}
+      </div>
+      {empty ? (
+        <div className="hint">{t('logs.analytics_no_data')}</div>
+      ) : (
+        <div className={styles.analyticsCanvas}>{children}</div>
+      )}
+    </div>
+  );
+}
+
+export function LogAnalyticsPanel({ analytics, isDark, onFilter }: LogAnalyticsPanelProps) {
+  const { t } = useTranslation();
+  const clickHint = t('logs.analytics_click_hint');
+
+  const statusChart = useMemo(() => {
+    const labels = analytics.statusCounts.map((entry) => entry.key);
+    return {
+      data: {
+        labels,
+        datasets: [
+          {
+            label: t('logs.analytics_requests'),
+            data: analytics.statusCounts.map((entry) => entry.count),
+            backgroundColor: labels.map((code) => STATUS_COLORS[code[0]] ?? '#9ca3af'),
+            borderRadius: 4,
+          },
+        ],
+      },
+      options: buildBarOptions({
+        isDark,
+        labels,
+        onSelect: (index) => onFilter('status', labels[index]),
+      }),
+    };
+  }, [analytics.statusCounts, isDark, onFilter, t]);
+
+  const latencyChart = useMemo(() => {
+    const labels = analytics.latencyByPath.map((entry) => entry.path);
+    const percentiles = ['p50', 'p95', 'p99'] as const;
+    return {
+      data: {
+        labels,
+        datasets: percentiles.map((key, index) => ({
+          label: key,
+          data: analytics.latencyByPath.map((entry) => entry[key]),
+          backgroundColor: PERCENTILE_COLORS[index],
+          borderRadius: 4,
+        })),
+      },
+      options: buildBarOptions({
+        isDark,
+        labels,
+        legend: true,
+        formatValue: (value) => formatDurationMs(value),
+        onSelect: (index) => onFilter('path', labels[index], true),
+      }),
+    };
+  }, [analytics.latencyByPath, isDark, onFilter]);
+
+  const minuteChart = useMemo(() => {
+    // 只显示 HH:mm
+    const labels = analytics.requestsPerMinute.map((entry) => entry.key.split(' ')[1] ?? entry.key);
+    return {
+      data: {
+        labels,
+        datasets: [
+          {
+            label: t('logs.analytics_requests'),
+            data: analytics.requestsPerMinute.map((entry) => entry.count),
+            backgroundColor: MINUTE_COLOR,
+            borderRadius: 2,
+          },
+        ],
+      },
+      options: buildBarOptions({ isDark, labels }),
+    };
+  }, [analytics.requestsPerMinute, isDark, t]);
+
+  const ipChart = useMemo(() => {
+    const labels = analytics.topIps.map((entry) => entry.key);
+    return {
+      data: {
+        labels,
+        datasets: [
+          {
+            label: t('logs.analytics_lines'),
+            data: analytics.topIps.map((entry) => entry.count),
+            backgroundColor: IP_COLOR,
+            borderRadius: 4,
+          },
+        ],
+      },
+      options: buildBarOptions({
+        isDark,
+        labels,
+        horizontal: true,
+        onSelect: (index) => onFilter('ip', labels[index], true),
+      }),
+    };
+  }, [analytics.topIps, isDark, onFilter, t]);
+
+  const errorChart = useMemo(() => {
+    const labels = analytics.topErrors.map((entry) => entry.key);
+    return {
+      data: {
+        labels,
+        datasets: [
+          {
+            label: t('logs.analytics_lines'),
+            data: analytics.topErrors.map((entry) => entry.count),
+            backgroundColor: ERROR_COLOR,
+            borderRadius: 4,
+          },
+        ],
+      },
+      options: buildBarOptions({
+        isDark,
+        labels,
+        horizontal: true,
+        onSelect: (index) => onFilter('msg', labels[index]),
+      }),
+    };
+  }, [analytics.topErrors, isDark, onFilter, t]);
+
+  const errorRate =
+    analytics.totalRequests > 0
+      ? ((analytics.errorRequests / analytics.totalRequests) * 100).toFixed(1)
+      : '0.0';
+
+  return (
+    <div className={styles.analytics}>
+      <div className={styles.analyticsSummary}>
+        <span className={styles.pill}>
+          {t('logs.analytics_total_requests', { count: analytics.totalRequests })}
+        </span>
+        <span className={styles.pill}>
+          {t('logs.analytics_error_rate', { rate: errorRate, count: analytics.errorRequests })}
+        </span>
+      </div>
+
+      <div className={styles.analyticsGrid}>
+        <ChartBlock
+          title={t('logs.analytics_status')}
+          hint={clickHint}
+          empty={analytics.statusCounts.length === 0}
+        >
+          <Bar data={statusChart.data} options={statusChart.options} />
+        </ChartBlock>
+        <ChartBlock
+          title={t('logs.analytics_requests_per_minute')}
+          empty={analytics.requestsPerMinute.length === 0}
+        >
+          <Bar data={minuteChart.data} options={minuteChart.options} />
+        </ChartBlock>
+        <ChartBlock
+          title={t('logs.analytics_latency')}
+          hint={clickHint}
+          empty={analytics.latencyByPath.length === 0}
+        >
+          <Bar data={latencyChart.data} options={latencyChart.options} />
+        </ChartBlock>
+        <ChartBlock
+          title={t('logs.analytics_top_ips')}
+          hint={clickHint}
+          empty={analytics.topIps.length === 0}
+        >
+          <Bar data={ipChart.data} options={ipChart.options} />
+        </ChartBlock>
+        <ChartBlock
+          title={t('logs.analytics_top_errors')}
+          hint={clickHint}
+          empty={analytics.topErrors.length === 0}
+        >
+          <Bar data={errorChart.data} options={errorChart.options} />
+        </ChartBlock>
+      </div>
+    </div>
+  );
+}
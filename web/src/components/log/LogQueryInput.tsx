@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Input } from '@/components/ui/Input';
+import { IconSearch, IconX } from '@/components/ui/icons';
+import { getLogQuerySuggestions } from '@/utils/log';
+import styles from '@/pages/LogsPage.module.scss';
+
+export interface LogQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+// 取出光标前正在输入的词（查询以空白分隔）
+const getActiveToken = (value: string, caret: number) => {
+  const before = value.slice(0, caret);
+  const match = before.match(/(\S*)$/);
+  const token = match ? match[1] : '';
+  return { token, start: caret - token.length };
+};
+
+export function LogQueryInput({ value, onChange, placeholder }: LogQueryInputProps) {
+  const { t } = useTranslation();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [caret, setCaret] = useState(value.length);
+  const [open, setOpen] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+
+  const activeToken = useMemo(
+    () => getActiveToken(value, Math.min(caret, value.length)),
+    [value, caret]
+  );
+  const suggestions = useMemo(
+    () => (activeToken.token || open ? getLogQuerySuggestions(activeToken.token) : []),
+    [activeToken.token, open]
+  );
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const applySuggestion = (token: string, isField: boolean) => {
+    const end = activeToken.start + activeToken.token.length;
+    const suffix = isField ? '' : ' ';
+    const next = `${value.slice(0, activeToken.start)}${token}${suffix}${value.slice(end).trimStart()}`;
+    onChange(next);
+    setCaret(activeToken.start + token.length + suffix.length);
+    setHighlightedIndex(0);
+    setOpen(isField);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) return;
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setHighlightedIndex((prev) => (prev + 1) % suggestions.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setHighlightedIndex((prev) => (prev - 1 + suggestions.length) % suggestions.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      const selected = suggestions[Math.min(highlightedIndex, suggestions.length - 1)];
+      if (!selected) return;
+      event.preventDefault();
+      applySuggestion(selected.token, selected.isField);
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className={styles.queryInput} ref={containerRef}>
+      <Input
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart ?? e.target.value.length);
+          setHighlightedIndex(0);
+          setOpen(true);
+        }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? value.length)}
+        onFocus={() => setOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        className={styles.searchInput}
+        autoComplete="off"
+        spellCheck={false}
+        rightElement={
+          value ? (
+            <button
+              type="button"
+              className={styles.searchClear}
+              onClick={() => onChange('')}
+              title="Clear"
+              aria-label="Clear"
+            >
+              <IconX size={16} />
+            </button>
+          ) : (
+            <IconSearch size={16} className={styles.searchIcon} />
+          )
+        }
+      />
+
+      {open && suggestions.length > 0 && (
+        <div className={styles.queryDropdown} role="listbox">
+          {suggestions.map((suggestion, index) => (
+            <div
+              key={suggestion.token}
+              role="option"
+              aria-selected={index === highlightedIndex}
+              className={`${styles.queryOption} ${
+                index === highlightedIndex ? styles.queryOptionActive : ''
+              }`}
+              onMouseDown={(event) => {
+                event.preventDefault();
+                applySuggestion(suggestion.token, suggestion.isField);
+              }}
+              onMouseEnter={() => setHighlightedIndex(index)}
+            >
+              <span className={styles.queryOptionToken}>{suggestion.token}</span>
+              {suggestion.isField && (
+                <span className={styles.queryOptionHint}>
+                  {t(`logs.query_field_${suggestion.field}`)}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
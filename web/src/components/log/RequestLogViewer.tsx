@@ -0,0 +1,142 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { diffJson, parseRequestLog } from '@/utils/log';
+import type { JsonDiffEntry, RequestLogSection, RequestLogSectionKind } from '@/utils/log';
+import styles from '@/pages/LogsPage.module.scss';
+
+export interface RequestLogViewerProps {
+  text: string;
+}
+
+const SECTION_LABEL_KEYS: Record<RequestLogSectionKind, string> = {
+  info: 'logs.viewer_section_info',
+  requestHeaders: 'logs.viewer_section_request_headers',
+  requestBody: 'logs.viewer_section_request_body',
+  upstreamRequest: 'logs.viewer_section_upstream_request',
+  upstreamResponse: 'logs.viewer_section_upstream_response',
+  response: 'logs.viewer_section_response',
+  other: '',
+};
+
+const DIFF_ROW_CLASSES: Record<JsonDiffEntry['type'], string> = {
+  added: styles.diffAdded,
+  removed: styles.diffRemoved,
+  changed: styles.diffChanged,
+};
+
+function SectionBlock({ section }: { section: RequestLogSection }) {
+  const { t } = useTranslation();
+  const labelKey = SECTION_LABEL_KEYS[section.kind];
+  const label = labelKey ? t(labelKey) : section.title;
+
+  return (
+    <details className={styles.viewerSection} open={section.kind !== 'info'}>
+      <summary className={styles.viewerSummary}>
+        <span>{label}</span>
+        {labelKey && <span className={styles.viewerSummaryTitle}>{section.title}</span>}
+      </summary>
+
+      {section.headers.length > 0 && (
+        <table className={styles.viewerHeaders}>
+          <tbody>
+            {section.headers.map(([name, value], index) => (
+              <tr key={`${name}-${index}`}>
+                <th>{name}</th>
+                <td>{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {section.events ? (
+        <div className={styles.viewerStream}>
+          <div className={styles.viewerSubTitle}>
+            {t('logs.viewer_stream_chunks', { count: section.events.length })}
+          </div>
+          {section.assembledText && (
+            <>
+              <div className={styles.viewerSubTitle}>{t('logs.viewer_stream_assembled')}</div>
+              <pre className={styles.viewerPre}>{section.assembledText}</pre>
+            </>
+          )}
+          <details>
+            <summary className={styles.viewerSubTitle}>{t('logs.viewer_stream_events')}</summary>
+            <ol className={styles.viewerEvents}>
+              {section.events.map((event, index) => (
+                <li key={index}>
+                  {event.event && <span className={styles.viewerEventName}>{event.event}</span>}
+                  <code>{event.data}</code>
+                </li>
+              ))}
+            </ol>
+          </details>
+        </div>
+      ) : (
+        section.body && <pre className={styles.viewerPre}>{section.body}</pre>
+      )}
+    </details>
+  );
+}
+
+export function RequestLogViewer({ text }: RequestLogViewerProps) {
+  const { t } = useTranslation();
+  const parsed = useMemo(() => parseRequestLog(text), [text]);
+
+  // 对比客户端请求与转换后发往上游的请求
+  const diff = useMemo(() => {
+    const clientRequest = parsed.sections.find(
+      (section) => section.kind === 'requestBody' && section.json !== undefined
+    );
+    const upstreamRequest = parsed.sections.find(
+      (section) => section.kind === 'upstreamRequest' && section.json !== undefined
+    );
+    if (!clientRequest || !upstreamRequest) return null;
+    return diffJson(clientRequest.json, upstreamRequest.json);
+  }, [parsed]);
+
+  if (parsed.sections.length === 0) {
+    return <div className="hint">{t('logs.viewer_empty')}</div>;
+  }
+
+  return (
+    <div className={styles.viewer}>
+      {parsed.sections.map((section, index) => (
+        <SectionBlock key={`${section.title}-${index}`} section={section} />
+      ))}
+
+      {diff && (
+        <details className={styles.viewerSection} open>
+          <summary className={styles.viewerSummary}>
+            <span>{t('logs.viewer_diff_title')}</span>
+            <span className={styles.viewerSummaryTitle}>
+              {t('logs.viewer_diff_count', { count: diff.length })}
+            </span>
+          </summary>
+          {diff.length === 0 ? (
+            <div className="hint">{t('logs.viewer_diff_empty')}</div>
+          ) : (
+            <table className={styles.viewerDiff}>
+              <thead>
+                <tr>
+                  <th>{t('logs.viewer_diff_path')}</th>
+                  <th>{t('logs.viewer_diff_client')}</th>
+                  <th>{t('logs.viewer_diff_upstream')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.map((entry) => (
+                  <tr key={entry.path} className={DIFF_ROW_CLASSES[entry.type]}>
+                    <td>{entry.path}</td>
+                    <td>{entry.before ?? ''}</td>
+                    <td>{entry.after ?? ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { IconChevronDown, IconChevronUp } from '@/components/ui/icons';
+import { logsApi } from '@/services/api/logs';
+import { formatDurationMs, parseDurationMs } from '@/utils/log';
+import type { RequestTimelineGroup } from '@/utils/log';
+import { RequestLogViewer } from './RequestLogViewer';
+import styles from '@/pages/LogsPage.module.scss';
+
+export interface RequestTimelineProps {
+  groups: RequestTimelineGroup[];
+  /** 未携带请求 ID 而未参与分组的行数 */
+  ungroupedCount: number;
+}
+
+type RequestLogDetail = {
+  loading: boolean;
+  text?: string;
+  error?: string;
+};
+
+// 瀑布条最小宽度（百分比），保证极短请求仍然可见
+const MIN_BAR_WIDTH_PERCENT = 0.8;
+
+const getStatusClassName = (code: number | undefined) => {
+  if (typeof code !== 'number') return '';
+  if (code >= 200 && code < 300) return styles.statusSuccess;
+  if (code >= 300 && code < 400) return styles.statusInfo;
+  if (code >= 400 && code < 500) return styles.statusWarn;
+  return styles.statusError;
+};
+
+export function RequestTimeline({ groups, ungroupedCount }: RequestTimelineProps) {
+  const { t } = useTranslation();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [details, setDetails] = useState<Record<string, RequestLogDetail>>({});
+
+  const range = useMemo(() => {
+    let min = Infinity;
+    let max = -Infinity;
+    groups.forEach((group) => {
+      if (group.startMs !== undefined) min = Math.min(min, group.startMs);
+      if (group.endMs !== undefined) max = Math.max(max, group.endMs);
+    });
+    if (!Number.isFinite(min) || !Number.isFinite(max)) return null;
+    return { min, span: Math.max(max - min, 1) };
+  }, [groups]);
+
+  const loadRequestLog = async (id: string) => {
+    setDetails((prev) => ({ ...prev, [id]: { loading: true } }));
+    try {
+      const response = await logsApi.downloadRequestLogById(id);
+      const data = response.data as Blob | string;
+      const text = typeof data === 'string' ? data : await data.text();
+      setDetails((prev) => ({ ...prev, [id]: { loading: false, text } }));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      setDetails((prev) => ({
+        ...prev,
+        [id]: { loading: false, error: message || t('logs.timeline_body_error') },
+      }));
+    }
+  };
+
+  const toggleGroup = (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(id);
+    const detail = details[id];
+    if (!detail || (detail.error && !detail.loading)) {
+      void loadRequestLog(id);
+    }
+  };
+
+  const getBarStyle = (group: RequestTimelineGroup) => {
+    if (!range || group.startMs === undefined) return undefined;
+    const end = group.endMs ?? group.startMs;
+    const left = ((group.startMs - range.min) / range.span) * 100;
+    const width = Math.max(((end - group.startMs) / range.span) * 100, MIN_BAR_WIDTH_PERCENT);
+    return { left: `${Math.min(left, 100 - width)}%`, width: `${width}%` };
+  };
+
+  if (groups.length === 0) {
+    return <div className="hint">{t('logs.timeline_empty')}</div>;
+  }
+
+  return (
+    <div className={styles.timeline}>
+      {ungroupedCount > 0 && (
+        <div className={styles.timelineHint}>
+          {t('logs.timeline_ungrouped', { count: ungroupedCount })}
+        </div>
+      )}
+      {groups.map((group) => {
+        const expanded = expandedId === group.requestId;
+        const detail = details[group.requestId];
+        const barStyle = getBarStyle(group);
+        const retries = Math.max(group.attempts.length - 1, 0);
+
+        return (
+          <div
+            key={group.requestId}
+            className={`${styles.timelineGroup} ${expanded ? styles.timelineGroupExpanded : ''}`}
+          >
+            <button
+              type="button"
+              className={styles.timelineRow}
+              onClick={() => toggleGroup(group.requestId)}
+              aria-expanded={expanded}
+            >
+              <span className={styles.timelineToggle}>
+                {expanded ? <IconChevronUp size={14} /> : <IconChevronDown size={14} />}
+              </span>
+              <span className={[styles.badge, styles.requestIdBadge].join(' ')}>
+                {group.requestId}
+              </span>
+              {group.method && (
+                <span className={[styles.badge, styles.methodBadge].join(' ')}>{group.method}</span>
+              )}
+              <span className={styles.timelinePath} title={group.path}>
+                {group.path || '-'}
+              </span>
+              {typeof group.finalStatus === 'number' && (
+                <span
+                  className={[
+                    styles.badge,
+                    styles.statusBadge,
+                    getStatusClassName(group.finalStatus),
+                  ].join(' ')}
+                >
+                  {group.finalStatus}
+                </span>
+              )}
+              <span className={styles.pill}>{formatDurationMs(group.totalLatencyMs)}</span>
+              {retries > 0 && (
+                <span className={[styles.badge, styles.statusWarn].join(' ')}>
+                  {t('logs.timeline_retries', { count: retries })}
+                </span>
+              )}
+              <span className={styles.timelineTrack}>
+                {barStyle && (
+                  <span
+                    className={`${styles.timelineBar} ${getStatusClassName(group.finalStatus)}`}
+                    style={barStyle}
+                  />
+                )}
+              </span>
+            </button>
+
+            {expanded && (
+              <div className={styles.timelineDetail}>
+                {group.attempts.length > 0 && (
+                  <ol className={styles.timelineAttempts}>
+                    {group.attempts.map((attempt, index) => (
+                      <li key={`${attempt.timestamp ?? ''}-${index}`}>
+                        <span className={styles.timestamp}>{attempt.timestamp ?? ''}</span>
+                        {typeof attempt.statusCode === 'number' && (
+                          <span
+                            className={[
+                              styles.badge,
+                              styles.statusBadge,
+                              getStatusClassName(attempt.statusCode),
+                            ].join(' ')}
+                          >
+                            {attempt.statusCode}
+                          </span>
+                        )}
+                        {attempt.latency && (
+                          <span className={styles.pill}>
+                            {formatDurationMs(parseDurationMs(attempt.latency))}
+                          </span>
+                        )}
+                        <span className={styles.message}>{attempt.message}</span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+
+                <div className={styles.timelineLines}>
+                  {group.lines.map((line, index) => (
+                    <div key={`${index}-${line.raw}`} className={styles.timelineLine}>
+                      {line.raw}
+                    </div>
+                  ))}
+                </div>
+
+                <div className={styles.timelineBody}>
+                  {!detail || detail.loading ? (
+                    <div className="hint">{t('logs.timeline_body_loading')}</div>
+                  ) : detail.error ? (
+                    <div className="error-box">{detail.error}</div>
+                  ) : (
+                    <RequestLogViewer text={detail.text ?? ''} />
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
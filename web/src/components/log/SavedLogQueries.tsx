@@ -0,0 +1,46 @@
+import { useTranslation } from 'react-i18next';
+import { IconX } from '@/components/ui/icons';
+import styles from '@/pages/LogsPage.module.scss';
+
+export interface SavedLogQueriesProps {
+  queries: string[];
+  activeQuery: string;
+  onApply: (query: string) => void;
+  onRemove: (query: string) => void;
+}
+
+export function SavedLogQueries({ queries, activeQuery, onApply, onRemove }: SavedLogQueriesProps) {
+  const { t } = useTranslation();
+
+  if (queries.length === 0) return null;
+
+  return (
+    <div className={styles.savedQueries}>
+      <span className={styles.savedQueriesLabel}>{t('logs.saved_queries')}</span>
+      {queries.map((query) => (
+        <span
+          key={query}
+          className={`${styles.savedQuery} ${query === activeQuery.trim() ? styles.savedQueryActive : ''}`}
+        >
+          <button
+            type="button"
+            className={styles.savedQueryApply}
+            onClick={() => onApply(query)}
+            title={query}
+          >
+            {query}
+          </button>
+          <button
+            type="button"
+            className={styles.savedQueryRemove}
+            onClick={() => onRemove(query)}
+            title={t('logs.saved_query_remove')}
+            aria-label={t('logs.saved_query_remove')}
+          >
+            <IconX size={12} />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+// Components
+export { LogQueryInput } from './LogQueryInput';
+export type { LogQueryInputProps } from './LogQueryInput';
+
+export { SavedLogQueries } from './SavedLogQueries';
+export type { SavedLogQueriesProps } from './SavedLogQueries';
+
+export { RequestTimeline } from './RequestTimeline';
+export type { RequestTimelineProps } from './RequestTimeline';
+
+export { RequestLogViewer } from './RequestLogViewer';
+export type { RequestLogViewerProps } from './RequestLogViewer';
+
+export { LogAnalyticsPanel } from './LogAnalyticsPanel';
+export type { LogAnalyticsPanelProps } from './LogAnalyticsPanel';
+
+export { ErrorLogBrowser } from './ErrorLogBrowser';
+export type { ErrorLogBrowserProps } from './ErrorLogBrowser';
@@ -2,11 +2,14 @@
  * Generic quota card component.
  */
 
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import type { ReactElement, ReactNode } from 'react';
 import type { TFunction } from 'i18next';
 import type { AuthFileItem, ResolvedTheme, ThemeColors } from '@/types';
-import { TYPE_COLORS } from '@/utils/quota';
+import { TYPE_COLORS, type QuotaHistoryType } from '@/utils/quota';
+import { Button } from '@/components/ui/Button';
+import { QuotaHistoryPanel } from './QuotaHistoryPanel';
 import styles from '@/pages/QuotaPage.module.scss';
 
 type QuotaStatus = 'idle' | 'loading' | 'success' | 'error';
@@ -64,6 +67,8 @@ interface QuotaCardProps<TState extends QuotaStatusState> {
   cardClassName: string;
   defaultType: string;
   renderQuotaItems: (quota: TState, t: TFunction, helpers: QuotaRenderHelpers) => ReactNode;
+  /** Enables the quota history panel for this card */
+  historyType?: QuotaHistoryType;
 }
 
 export function QuotaCard<TState extends QuotaStatusState>({
@@ -73,9 +78,11 @@ export function QuotaCard<TState extends QuotaStatusState>({
   i18nPrefix,
   cardClassName,
   defaultType,
-  renderQuotaItems
+  renderQuotaItems,
+  historyType
 }: QuotaCardProps<TState>) {
   const { t } = useTranslation();
+  const [showHistory, setShowHistory] = useState(false);
 
   const displayType = item.type || item.provider || defaultType;
   const typeColorSet = TYPE_COLORS[displayType] || TYPE_COLORS.unknown;
@@ -111,6 +118,17 @@ export function QuotaCard<TState extends QuotaStatusState>({
           {getTypeLabel(displayType)}
         </span>
         <span className={styles.fileName}>{item.name}</span>
+        {historyType && (
+          <Button
+            variant={showHistory ? 'primary' : 'secondary'}
+            size="sm"
+            className={styles.historyToggle}
+            onClick={() => setShowHistory((prev) => !prev)}
+            aria-expanded={showHistory}
+          >
+            {t('quota_history.toggle')}
+          </Button>
+        )}
       </div>
 
       <div className={styles.quotaSection}>
@@ -130,6 +148,15 @@ export function QuotaCard<TState extends QuotaStatusState>({
           <div className={styles.quotaMessage}>{t(`${i18nPrefix}.idle`)}</div>
         )}
       </div>
+
+      {historyType && showHistory && (
+        <QuotaHistoryPanel
+          type={historyType}
+          fileName={item.name}
+          refreshKey={quota}
+          resolvedTheme={resolvedTheme}
+        />
+      )}
     </div>
   );
 }
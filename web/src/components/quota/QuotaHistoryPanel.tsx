@@ -0,0 +1,247 @@
+/**
+ * Per-account quota history: remaining-fraction curves and exhaustion forecast.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  type ChartData,
+  type ChartOptions
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { Button } from '@/components/ui/Button';
+import type { ResolvedTheme } from '@/types';
+import {
+  forecastQuotaExhaustion,
+  formatUnixSeconds,
+  groupQuotaHistoryBySeries,
+  loadQuotaHistory,
+  type QuotaForecast,
+  type QuotaHistorySample,
+  type QuotaHistoryType
+} from '@/utils/quota';
+import styles from '@/pages/QuotaPage.module.scss';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip);
+
+type HistoryRange = '24h' | '7d';
+
+const HISTORY_RANGES: HistoryRange[] = ['24h', '7d'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const RANGE_MS: Record<HistoryRange, number> = {
+  '24h': 24 * HOUR_MS,
+  '7d': 7 * 24 * HOUR_MS
+};
+
+const SERIES_COLORS = ['#3b82f6', '#22c55e', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899'];
+
+const formatTime = (time: number) => formatUnixSeconds(Math.floor(time / 1000));
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.max(Math.round(ms / 60000), 0);
+  const hours = Math.floor(minutes / 60);
+  if (hours >= 24) return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
+
+interface QuotaHistoryPanelProps {
+  type: QuotaHistoryType;
+  fileName: string;
+  /** Changes whenever the quota is refreshed so the panel reloads new samples */
+  refreshKey: unknown;
+  resolvedTheme: ResolvedTheme;
+}
+
+interface SeriesSummary {
+  seriesId: string;
+  label: string;
+  color: string;
+  samples: QuotaHistorySample[];
+  forecast: QuotaForecast | null;
+}
+
+export function QuotaHistoryPanel({
+  type,
+  fileName,
+  refreshKey,
+  resolvedTheme
+}: QuotaHistoryPanelProps) {
+  const { t } = useTranslation();
+  const [range, setRange] = useState<HistoryRange>('24h');
+  const [samples, setSamples] = useState<QuotaHistorySample[] | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadedAt = Date.now();
+    loadQuotaHistory(type, fileName, loadedAt - RANGE_MS[range])
+      .then((result) => {
+        if (cancelled) return;
+        setSamples(result);
+        setNow(loadedAt);
+      })
+      .catch(() => {
+        if (!cancelled) setSamples([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [type, fileName, range, refreshKey]);
+
+  const series = useMemo<SeriesSummary[]>(() => {
+    if (!samples) return [];
+    return Array.from(groupQuotaHistoryBySeries(samples).entries()).map(
+      ([seriesId, list], index) => ({
+        seriesId,
+        label: list[list.length - 1].label,
+        color: SERIES_COLORS[index % SERIES_COLORS.length],
+        samples: list,
+        forecast: forecastQuotaExhaustion(list, now)
+      })
+    );
+  }, [samples, now]);
+
+  const isDark = resolvedTheme === 'dark';
+
+  const chartData = useMemo<ChartData<'line', { x: number; y: number }[]>>(
+    () => ({
+      datasets: series.map((item) => ({
+        label: item.label,
+        data: item.samples.map((sample) => ({
+          x: sample.time,
+          y: Math.round(sample.remainingFraction * 1000) / 10
+        })),
+        borderColor: item.color,
+        backgroundColor: item.color,
+        borderWidth: 2,
+        pointRadius: 2,
+        tension: 0.2
+      }))
+    }),
+    [series]
+  );
+
+  const chartOptions = useMemo<ChartOptions<'line'>>(() => {
+    const tickColor = isDark ? 'rgba(255, 255, 255, 0.72)' : 'rgba(17, 24, 39, 0.72)';
+    const gridColor = isDark ? 'rgba(255, 255, 255, 0.06)' : 'rgba(17, 24, 39, 0.06)';
+    return {
+      responsive: true,
+      maintainAspectRatio: false,
+      animation: false,
+      interaction: { mode: 'nearest', intersect: false },
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          callbacks: {
+            title: (items) => (items[0] ? formatTime(Number(items[0].parsed.x)) : ''),
+            label: (context) => `${context.dataset.label}: ${context.parsed.y}%`
+          }
+        }
+      },
+      scales: {
+        x: {
+          type: 'linear',
+          min: now - RANGE_MS[range],
+          max: now,
+          grid: { color: gridColor },
+          ticks: {
+            color: tickColor,
+            font: { size: 10 },
+            maxTicksLimit: 6,
+            callback: (value) => formatTime(Number(value))
+          }
+        },
+        y: {
+          min: 0,
+          max: 100,
+          grid: { color: gridColor },
+          ticks: { color: tickColor, font: { size: 10 }, callback: (value) => `${value}%` }
+        }
+      }
+    };
+  }, [isDark, now, range]);
+
+  const renderForecast = (forecast: QuotaForecast | null) => {
+    if (!forecast || forecast.burnRatePerHour === null) {
+      return <span className={styles.quotaReset}>{t('quota_history.not_enough_data')}</span>;
+    }
+    if (forecast.exhaustAt === null) {
+      return <span className={styles.quotaReset}>{t('quota_history.stable')}</span>;
+    }
+    if (forecast.exhaustsBeforeReset) {
+      return (
+        <span className={styles.historyForecastWarning}>
+          {forecast.remainingFraction <= 0
+            ? t('quota_history.exhausted')
+            : t('quota_history.exhausts_in', {
+                duration: formatDuration(forecast.exhaustAt - now),
+                time: formatTime(forecast.exhaustAt)
+              })}
+        </span>
+      );
+    }
+    return (
+      <span className={styles.quotaReset}>
+        {t('quota_history.resets_first', { time: formatTime(forecast.resetAt ?? forecast.exhaustAt) })}
+      </span>
+    );
+  };
+
+  return (
+    <div className={styles.historyPanel}>
+      <div className={styles.historyHeader}>
+        <span className={styles.historyTitle}>{t('quota_history.title')}</span>
+        <div className={styles.viewModeToggle}>
+          {HISTORY_RANGES.map((item) => (
+            <Button
+              key={item}
+              variant={range === item ? 'primary' : 'secondary'}
+              size="sm"
+              onClick={() => setRange(item)}
+            >
+              {t(`quota_history.range_${item}`)}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {samples === null ? (
+        <div className={styles.quotaMessage}>{t('common.loading')}</div>
+      ) : series.length === 0 ? (
+        <div className={styles.quotaMessage}>{t('quota_history.empty')}</div>
+      ) : (
+        <>
+          <div className={styles.historyChart}>
+            <Line data={chartData} options={chartOptions} />
+          </div>
+          <div className={styles.historyForecastList}>
+            {series.map((item) => (
+              <div key={item.seriesId} className={styles.historyForecastRow}>
+                <span className={styles.historyLegendDot} style={{ backgroundColor: item.color }} />
+                <span className={styles.quotaModel} title={item.label}>
+                  {item.label}
+                </span>
+                {item.forecast?.burnRatePerHour ? (
+                  <span className={styles.quotaAmount}>
+                    {t('quota_history.burn_rate', {
+                      rate: (item.forecast.burnRatePerHour * 100).toFixed(1)
+                    })}
+                  </span>
+                ) : null}
+                {renderForecast(item.forecast)}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
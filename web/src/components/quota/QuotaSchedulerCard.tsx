@@ -0,0 +1,102 @@
+/**
+ * Settings and status for background quota polling.
+ */
+
+import { useTranslation } from 'react-i18next';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
+import { useQuotaSchedulerStore } from '@/stores';
+import {
+  QUOTA_SCHEDULER_CONCURRENCY_OPTIONS,
+  QUOTA_SCHEDULER_INTERVAL_OPTIONS
+} from '@/utils/quota';
+import styles from '@/pages/QuotaPage.module.scss';
+
+interface QuotaSchedulerCardProps {
+  disabled: boolean;
+}
+
+export function QuotaSchedulerCard({ disabled }: QuotaSchedulerCardProps) {
+  const { t } = useTranslation();
+  const settings = useQuotaSchedulerStore((state) => state.settings);
+  const running = useQuotaSchedulerStore((state) => state.running);
+  const lastRun = useQuotaSchedulerStore((state) => state.lastRun);
+  const updateSettings = useQuotaSchedulerStore((state) => state.updateSettings);
+  const requestRun = useQuotaSchedulerStore((state) => state.requestRun);
+
+  return (
+    <Card
+      title={t('quota_scheduler.title')}
+      extra={
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={requestRun}
+          disabled={disabled || running}
+          loading={running}
+        >
+          {t('quota_scheduler.run_now')}
+        </Button>
+      }
+    >
+      <div className={styles.schedulerSection}>
+        <p className={styles.description}>{t('quota_scheduler.description')}</p>
+        <div className={styles.schedulerControls}>
+          <ToggleSwitch
+            checked={settings.enabled}
+            onChange={(enabled) => updateSettings({ enabled })}
+            label={t('quota_scheduler.enabled')}
+          />
+          <div className={styles.antigravityControl}>
+            <label htmlFor="quota-scheduler-interval">{t('quota_scheduler.interval')}</label>
+            <select
+              id="quota-scheduler-interval"
+              className={styles.pageSizeSelect}
+              value={settings.intervalMinutes}
+              onChange={(e) => updateSettings({ intervalMinutes: Number(e.target.value) })}
+            >
+              {QUOTA_SCHEDULER_INTERVAL_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {t('quota_scheduler.interval_minutes', { count: minutes })}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className={styles.antigravityControl}>
+            <label htmlFor="quota-scheduler-concurrency">{t('quota_scheduler.concurrency')}</label>
+            <select
+              id="quota-scheduler-concurrency"
+              className={styles.pageSizeSelect}
+              value={settings.maxConcurrency}
+              onChange={(e) => updateSettings({ maxConcurrency: Number(e.target.value) })}
+            >
+              {QUOTA_SCHEDULER_CONCURRENCY_OPTIONS.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className={styles.schedulerStatus}>
+          {running
+            ? t('quota_scheduler.running')
+            : lastRun
+              ? lastRun.error
+                ? t('quota_scheduler.last_run_failed', {
+                    time: new Date(lastRun.finishedAt).toLocaleString(),
+                    message: lastRun.error
+                  })
+                : t('quota_scheduler.last_run', {
+                    time: new Date(lastRun.finishedAt).toLocaleString(),
+                    success: lastRun.success,
+                    failed: lastRun.failed,
+                    skipped: lastRun.skipped
+                  })
+              : t('quota_scheduler.never_run')}
+        </div>
+      </div>
+    </Card>
+  );
+}
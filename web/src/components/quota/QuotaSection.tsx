@@ -274,6 +274,7 @@ export function QuotaSection<TState extends QuotaStatusState, TData>({
                 cardClassName={config.cardClassName}
                 defaultType={config.type}
                 renderQuotaItems={config.renderQuotaItems}
+                historyType={config.buildHistorySeries ? config.type : undefined}
               />
             ))}
           </div>
@@ -4,6 +4,23 @@
 
 export { QuotaSection } from './QuotaSection';
 export { QuotaCard } from './QuotaCard';
+export { QuotaHistoryPanel } from './QuotaHistoryPanel';
 export { useQuotaLoader } from './useQuotaLoader';
-export { ANTIGRAVITY_CONFIG, CODEX_CONFIG, GEMINI_CLI_CONFIG } from './quotaConfigs';
-export type { QuotaConfig } from './quotaConfigs';
+export { useQuotaScheduler } from './useQuotaScheduler';
+export { QuotaSchedulerCard } from './QuotaSchedulerCard';
+export {
+  ANTIGRAVITY_CONFIG,
+  CODEX_CONFIG,
+  GEMINI_CLI_CONFIG,
+  CLAUDE_CONFIG,
+  QWEN_CONFIG,
+  IFLOW_CONFIG
+} from './quotaConfigs';
+export type { QuotaConfig, QuotaType } from './quotaConfigs';
+export {
+  registerQuotaProvider,
+  getQuotaProviders,
+  getQuotaProvider,
+  findQuotaProviderForFile
+} from './quotaRegistry';
+export type { AnyQuotaConfig } from './quotaRegistry';
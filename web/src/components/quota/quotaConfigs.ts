@@ -2,55 +2,78 @@
  * Quota configuration definitions.
  */
 
+import React from 'react';
+import type { ReactNode } from 'react';
 import type { TFunction } from 'i18next';
 import type {
   AntigravityQuotaGroup,
   AntigravityModelsPayload,
   AntigravityQuotaState,
   AuthFileItem,
+  ClaudeQuotaState,
+  ClaudeQuotaWindow,
+  ClaudeUsagePayload,
+  ClaudeUsageWindow,
   CodexQuotaState,
   CodexUsageWindow,
   CodexQuotaWindow,
   CodexUsagePayload,
   GeminiCliParsedBucket,
   GeminiCliQuotaBucketState,
-  GeminiCliQuotaState
+  GeminiCliQuotaState,
+  LocalUsageQuotaState,
+  LocalUsageQuotaSummary
 } from '@/types';
-import { apiCallApi, authFilesApi, getApiCallErrorMessage } from '@/services/api';
+import type { QuotaHistorySeriesPoint } from '@/utils/quota';
+import { apiCallApi, authFilesApi, getApiCallErrorMessage, usageApi } from '@/services/api';
+import { collectUsageDetails, formatCompactNumber, type UsageDetail } from '@/utils/usage';
 import {
   ANTIGRAVITY_QUOTA_URLS,
   ANTIGRAVITY_LOAD_CODE_ASSIST_URLS,
   ANTIGRAVITY_REQUEST_HEADERS,
+  CLAUDE_USAGE_URL,
+  CLAUDE_REQUEST_HEADERS,
   CODEX_USAGE_URL,
   CODEX_REQUEST_HEADERS,
   GEMINI_CLI_QUOTA_URL,
   GEMINI_CLI_REQUEST_HEADERS,
+  QWEN_DAILY_REQUEST_LIMIT,
   normalizeAuthIndexValue,
   normalizeNumberValue,
   normalizePlanType,
   normalizeQuotaFraction,
   normalizeStringValue,
   parseAntigravityPayload,
+  parseClaudeUsagePayload,
   parseCodexUsagePayload,
   parseGeminiCliQuotaPayload,
   resolveCodexChatgptAccountId,
   resolveCodexPlanType,
   resolveGeminiCliProjectId,
   formatCodexResetLabel,
+  formatQuotaResetTime,
+  resolveCodexResetSeconds,
   buildAntigravityQuotaGroups,
   buildGeminiCliQuotaBuckets,
+  buildLocalUsageQuotaSummary,
   createStatusError,
   getStatusFromError,
   isAntigravityFile,
+  isClaudeFile,
   isCodexFile,
   isDisabledAuthFile,
   isGeminiCliFile,
-  isRuntimeOnlyAuthFile
+  isIFlowFile,
+  isQwenFile,
+  isRuntimeOnlyAuthFile,
+  type QuotaHistoryType
 } from '@/utils/quota';
+import styles from '@/pages/QuotaPage.module.scss';
+import type { QuotaRenderHelpers } from './QuotaCard';
 
 type QuotaUpdater<T> = T | ((prev: T) => T);
 
-type QuotaType = 'antigravity' | 'codex' | 'gemini-cli';
+export type QuotaType = QuotaHistoryType;
 
 const DEFAULT_ANTIGRAVITY_PROJECT_ID = 'bamboo-precept-lgxtn';
 
@@ -58,9 +81,15 @@ export interface QuotaStore {
   antigravityQuota: Record<string, AntigravityQuotaState>;
   codexQuota: Record<string, CodexQuotaState>;
   geminiCliQuota: Record<string, GeminiCliQuotaState>;
+  claudeQuota: Record<string, ClaudeQuotaState>;
+  qwenQuota: Record<string, LocalUsageQuotaState>;
+  iflowQuota: Record<string, LocalUsageQuotaState>;
   setAntigravityQuota: (updater: QuotaUpdater<Record<string, AntigravityQuotaState>>) => void;
   setCodexQuota: (updater: QuotaUpdater<Record<string, CodexQuotaState>>) => void;
   setGeminiCliQuota: (updater: QuotaUpdater<Record<string, GeminiCliQuotaState>>) => void;
+  setClaudeQuota: (updater: QuotaUpdater<Record<string, ClaudeQuotaState>>) => void;
+  setQwenQuota: (updater: QuotaUpdater<Record<string, LocalUsageQuotaState>>) => void;
+  setIflowQuota: (updater: QuotaUpdater<Record<string, LocalUsageQuotaState>>) => void;
   clearQuotaCache: () => void;
 }
 
@@ -74,6 +103,14 @@ export interface QuotaConfig<TState, TData> {
   buildLoadingState: () => TState;
   buildSuccessState: (data: TData) => TState;
   buildErrorState: (message: string, status?: number) => TState;
+  /**
+   * Remaining-fraction points recorded into quota history after a successful refresh.
+   * Omitted for providers without a real remaining quota; they get no history panel.
+   */
+  buildHistorySeries?: (state: TState) => QuotaHistorySeriesPoint[];
+  gridClassName: string;
+  cardClassName: string;
+  renderQuotaItems: (quota: TState, t: TFunction, helpers: QuotaRenderHelpers) => ReactNode;
 }
 
 const resolveAntigravityProjectId = async (file: AuthFileItem): Promise<string> => {
@@ -247,6 +284,7 @@ const buildCodexQuotaWindows = (payload: CodexUsagePayload, t: TFunction): Codex
   ) => {
     if (!window) return;
     const resetLabel = formatCodexResetLabel(window);
+    const resetSeconds = resolveCodexResetSeconds(window);
     const usedPercentRaw = normalizeNumberValue(window.used_percent ?? window.usedPercent);
     const isLimitReached = Boolean(limitReached) || allowed === false;
     const usedPercent = usedPercentRaw ?? (isLimitReached && resetLabel !== '-' ? 100 : null);
@@ -255,7 +293,8 @@ const buildCodexQuotaWindows = (payload: CodexUsagePayload, t: TFunction): Codex
       label: t(labelKey),
       labelKey,
       usedPercent,
-      resetLabel
+      resetLabel,
+      resetTime: resetSeconds === null ? undefined : new Date(resetSeconds * 1000).toISOString()
     });
   };
 
@@ -387,6 +426,381 @@ const fetchGeminiCliQuota = async (
   return buildGeminiCliQuotaBuckets(parsedBuckets);
 };
 
+const buildClaudeQuotaWindows = (payload: ClaudeUsagePayload, t: TFunction): ClaudeQuotaWindow[] => {
+  const windows: ClaudeQuotaWindow[] = [];
+
+  const addWindow = (id: string, labelKey: string, window?: ClaudeUsageWindow | null) => {
+    if (!window) return;
+    const resetTime = normalizeStringValue(window.resets_at ?? window.resetsAt) ?? undefined;
+    windows.push({
+      id,
+      label: t(labelKey),
+      labelKey,
+      usedPercent: normalizeNumberValue(window.utilization),
+      resetTime
+    });
+  };
+
+  addWindow('five-hour', 'claude_quota.five_hour_window', payload.five_hour);
+  addWindow('seven-day', 'claude_quota.seven_day_window', payload.seven_day);
+  addWindow('seven-day-opus', 'claude_quota.seven_day_opus_window', payload.seven_day_opus);
+  addWindow('seven-day-sonnet', 'claude_quota.seven_day_sonnet_window', payload.seven_day_sonnet);
+
+  return windows;
+};
+
+const resolveClaudeExtraUsagePercent = (payload: ClaudeUsagePayload): number | null => {
+  const extra = payload.extra_usage;
+  if (!extra || !(extra.is_enabled ?? extra.isEnabled)) return null;
+  const utilization = normalizeNumberValue(extra.utilization);
+  if (utilization !== null) return utilization;
+  // Both amounts share the same unit, so their ratio is safe to use directly
+  const used = normalizeNumberValue(extra.used_credits ?? extra.usedCredits);
+  const limit = normalizeNumberValue(extra.monthly_limit ?? extra.monthlyLimit);
+  return used !== null && limit ? (used / limit) * 100 : null;
+};
+
+const fetchClaudeQuota = async (
+  file: AuthFileItem,
+  t: TFunction
+): Promise<{ windows: ClaudeQuotaWindow[]; extraUsagePercent: number | null }> => {
+  const rawAuthIndex = file['auth_index'] ?? file.authIndex;
+  const authIndex = normalizeAuthIndexValue(rawAuthIndex);
+  if (!authIndex) {
+    throw new Error(t('claude_quota.missing_auth_index'));
+  }
+
+  const result = await apiCallApi.request({
+    authIndex,
+    method: 'GET',
+    url: CLAUDE_USAGE_URL,
+    header: { ...CLAUDE_REQUEST_HEADERS }
+  });
+
+  if (result.statusCode < 200 || result.statusCode >= 300) {
+    throw createStatusError(getApiCallErrorMessage(result), result.statusCode);
+  }
+
+  const payload = parseClaudeUsagePayload(result.body ?? result.bodyText);
+  if (!payload) {
+    throw new Error(t('claude_quota.empty_windows'));
+  }
+
+  return {
+    windows: buildClaudeQuotaWindows(payload, t),
+    extraUsagePercent: resolveClaudeExtraUsagePercent(payload)
+  };
+};
+
+// Qwen and iFlow have no quota API, so their cards summarize today's requests from /usage.
+// One snapshot is shared by all files of a refresh instead of downloading usage per file.
+const USAGE_SNAPSHOT_TTL_MS = 30 * 1000;
+
+let usageSnapshot: { fetchedAt: number; details: Promise<UsageDetail[]> } | null = null;
+
+const loadUsageDetailsSnapshot = (): Promise<UsageDetail[]> => {
+  const now = Date.now();
+  if (usageSnapshot && now - usageSnapshot.fetchedAt < USAGE_SNAPSHOT_TTL_MS) {
+    return usageSnapshot.details;
+  }
+  const details = usageApi.getUsage().then((response) => {
+    const usageData = response?.usage ?? response;
+    return collectUsageDetails(usageData);
+  });
+  const snapshot = { fetchedAt: now, details };
+  usageSnapshot = snapshot;
+  details.catch(() => {
+    if (usageSnapshot === snapshot) usageSnapshot = null;
+  });
+  return details;
+};
+
+const createLocalUsageFetcher =
+  (i18nPrefix: string, dailyLimit: number | null) =>
+  async (file: AuthFileItem, t: TFunction): Promise<LocalUsageQuotaSummary> => {
+    const rawAuthIndex = file['auth_index'] ?? file.authIndex;
+    const authIndex = normalizeAuthIndexValue(rawAuthIndex);
+    if (!authIndex) {
+      throw new Error(t(`${i18nPrefix}.missing_auth_index`));
+    }
+    const details = await loadUsageDetailsSnapshot();
+    return buildLocalUsageQuotaSummary(details, authIndex, dailyLimit);
+  };
+
+const clampPercent = (value: number) => Math.max(0, Math.min(100, value));
+
+const renderAntigravityItems = (
+  quota: AntigravityQuotaState,
+  t: TFunction,
+  helpers: QuotaRenderHelpers
+): ReactNode => {
+  const { styles: styleMap, QuotaProgressBar } = helpers;
+  const { createElement: h } = React;
+  const groups = quota.groups ?? [];
+
+  if (groups.length === 0) {
+    return h('div', { className: styleMap.quotaMessage }, t('antigravity_quota.empty_models'));
+  }
+
+  return groups.map((group) => {
+    const percent = Math.round(clampPercent(group.remainingFraction * 100));
+    return h(
+      'div',
+      { key: group.id, className: styleMap.quotaRow },
+      h(
+        'div',
+        { className: styleMap.quotaRowHeader },
+        h('span', { className: styleMap.quotaModel, title: group.models.join(', ') }, group.label),
+        h(
+          'div',
+          { className: styleMap.quotaMeta },
+          h('span', { className: styleMap.quotaPercent }, `${percent}%`),
+          h('span', { className: styleMap.quotaReset }, formatQuotaResetTime(group.resetTime))
+        )
+      ),
+      h(QuotaProgressBar, { percent, highThreshold: 60, mediumThreshold: 20 })
+    );
+  });
+};
+
+const renderCodexItems = (
+  quota: CodexQuotaState,
+  t: TFunction,
+  helpers: QuotaRenderHelpers
+): ReactNode => {
+  const { styles: styleMap, QuotaProgressBar } = helpers;
+  const { createElement: h, Fragment } = React;
+  const windows = quota.windows ?? [];
+  const planType = quota.planType ?? null;
+
+  const getPlanLabel = (plan: string): string => {
+    const key = `codex_quota.plan_${plan}`;
+    const translated = t(key);
+    return translated === key ? plan : translated;
+  };
+
+  const planNode = planType
+    ? h(
+        'div',
+        { className: styleMap.codexPlan },
+        h('span', { className: styleMap.codexPlanLabel }, t('codex_quota.plan_label')),
+        h('span', { className: styleMap.codexPlanValue }, getPlanLabel(planType))
+      )
+    : null;
+
+  if (windows.length === 0) {
+    const message =
+      planType === 'free' ? t('codex_quota.no_access') : t('codex_quota.empty_windows');
+    return h(Fragment, null, planNode, h('div', { className: styleMap.quotaMessage }, message));
+  }
+
+  return h(
+    Fragment,
+    null,
+    planNode,
+    ...windows.map((window) => {
+      const remaining =
+        window.usedPercent === null ? null : Math.round(clampPercent(100 - window.usedPercent));
+      return h(
+        'div',
+        { key: window.id, className: styleMap.quotaRow },
+        h(
+          'div',
+          { className: styleMap.quotaRowHeader },
+          h(
+            'span',
+            { className: styleMap.quotaModel },
+            window.labelKey ? t(window.labelKey) : window.label
+          ),
+          h(
+            'div',
+            { className: styleMap.quotaMeta },
+            h('span', { className: styleMap.quotaPercent }, remaining === null ? '--' : `${remaining}%`),
+            h('span', { className: styleMap.quotaReset }, window.resetLabel)
+          )
+        ),
+        h(QuotaProgressBar, { percent: remaining, highThreshold: 80, mediumThreshold: 50 })
+      );
+    })
+  );
+};
+
+const renderGeminiCliItems = (
+  quota: GeminiCliQuotaState,
+  t: TFunction,
+  helpers: QuotaRenderHelpers
+): ReactNode => {
+  const { styles: styleMap, QuotaProgressBar } = helpers;
+  const { createElement: h } = React;
+  const buckets = quota.buckets ?? [];
+
+  if (buckets.length === 0) {
+    return h('div', { className: styleMap.quotaMessage }, t('gemini_cli_quota.empty_buckets'));
+  }
+
+  return buckets.map((bucket) => {
+    const percent =
+      bucket.remainingFraction === null
+        ? null
+        : Math.round(clampPercent(bucket.remainingFraction * 100));
+    const label = bucket.tokenType ? `${bucket.label} (${bucket.tokenType})` : bucket.label;
+    return h(
+      'div',
+      { key: bucket.id, className: styleMap.quotaRow },
+      h(
+        'div',
+        { className: styleMap.quotaRowHeader },
+        h('span', { className: styleMap.quotaModel, title: bucket.modelIds?.join(', ') }, label),
+        h(
+          'div',
+          { className: styleMap.quotaMeta },
+          h('span', { className: styleMap.quotaPercent }, percent === null ? '--' : `${percent}%`),
+          bucket.remainingAmount !== null
+            ? h(
+                'span',
+                { className: styleMap.quotaAmount },
+                t('gemini_cli_quota.remaining_amount', { count: bucket.remainingAmount })
+              )
+            : null,
+          h('span', { className: styleMap.quotaReset }, formatQuotaResetTime(bucket.resetTime))
+        )
+      ),
+      h(QuotaProgressBar, { percent, highThreshold: 60, mediumThreshold: 20 })
+    );
+  });
+};
+
+const renderClaudeItems = (
+  quota: ClaudeQuotaState,
+  t: TFunction,
+  helpers: QuotaRenderHelpers
+): ReactNode => {
+  const { styles: styleMap, QuotaProgressBar } = helpers;
+  const { createElement: h, Fragment } = React;
+  const windows = quota.windows ?? [];
+  const extraUsagePercent = quota.extraUsagePercent ?? null;
+
+  if (windows.length === 0 && extraUsagePercent === null) {
+    return h('div', { className: styleMap.quotaMessage }, t('claude_quota.empty_windows'));
+  }
+
+  const renderRow = (key: string, label: string, usedPercent: number | null, reset: string) => {
+    const remaining = usedPercent === null ? null : Math.round(clampPercent(100 - usedPercent));
+    return h(
+      'div',
+      { key, className: styleMap.quotaRow },
+      h(
+        'div',
+        { className: styleMap.quotaRowHeader },
+        h('span', { className: styleMap.quotaModel }, label),
+        h(
+          'div',
+          { className: styleMap.quotaMeta },
+          h('span', { className: styleMap.quotaPercent }, remaining === null ? '--' : `${remaining}%`),
+          reset ? h('span', { className: styleMap.quotaReset }, reset) : null
+        )
+      ),
+      h(QuotaProgressBar, { percent: remaining, highThreshold: 60, mediumThreshold: 20 })
+    );
+  };
+
+  return h(
+    Fragment,
+    null,
+    ...windows.map((window) =>
+      renderRow(
+        window.id,
+        window.labelKey ? t(window.labelKey) : window.label,
+        window.usedPercent,
+        formatQuotaResetTime(window.resetTime)
+      )
+    ),
+    extraUsagePercent !== null
+      ? renderRow('extra-usage', t('claude_quota.extra_usage'), extraUsagePercent, '')
+      : null
+  );
+};
+
+const createLocalUsageRenderer =
+  (i18nPrefix: string) =>
+  (quota: LocalUsageQuotaState, t: TFunction, helpers: QuotaRenderHelpers): ReactNode => {
+    const { styles: styleMap, QuotaProgressBar } = helpers;
+    const { createElement: h, Fragment } = React;
+    const usage = quota.usage;
+
+    if (!usage) {
+      return h('div', { className: styleMap.quotaMessage }, t(`${i18nPrefix}.empty_usage`));
+    }
+
+    const remaining =
+      usage.dailyLimit === null
+        ? null
+        : Math.round(clampPercent(100 - (usage.requests / usage.dailyLimit) * 100));
+
+    return h(
+      Fragment,
+      null,
+      h(
+        'div',
+        { className: styleMap.quotaRow },
+        h(
+          'div',
+          { className: styleMap.quotaRowHeader },
+          h('span', { className: styleMap.quotaModel }, t('local_usage_quota.requests_today')),
+          h(
+            'div',
+            { className: styleMap.quotaMeta },
+            remaining !== null
+              ? h(
+                  'span',
+                  { className: styleMap.quotaPercent },
+                  t('local_usage_quota.estimated_percent', { percent: remaining })
+                )
+              : null,
+            h(
+              'span',
+              { className: styleMap.quotaAmount },
+              usage.dailyLimit === null
+                ? t('local_usage_quota.requests_count', { count: usage.requests })
+                : t('local_usage_quota.requests_of_limit', {
+                    count: usage.requests,
+                    limit: usage.dailyLimit
+                  })
+            ),
+            h('span', { className: styleMap.quotaReset }, formatQuotaResetTime(usage.resetTime))
+          )
+        ),
+        remaining !== null
+          ? h(QuotaProgressBar, { percent: remaining, highThreshold: 60, mediumThreshold: 20 })
+          : null
+      ),
+      h(
+        'div',
+        { className: styleMap.quotaRowHeader },
+        h('span', { className: styleMap.quotaModel }, t('local_usage_quota.tokens_today')),
+        h(
+          'div',
+          { className: styleMap.quotaMeta },
+          h('span', { className: styleMap.quotaAmount }, formatCompactNumber(usage.tokens)),
+          usage.failed > 0
+            ? h(
+                'span',
+                { className: styleMap.quotaReset },
+                t('local_usage_quota.failed_count', { count: usage.failed })
+              )
+            : null
+        )
+      ),
+      h(
+        'div',
+        { className: styleMap.quotaMessage },
+        usage.dailyLimit === null
+          ? t('local_usage_quota.estimated_hint')
+          : t('local_usage_quota.estimated_limit_hint', { limit: usage.dailyLimit })
+      )
+    );
+  };
+
 export const ANTIGRAVITY_CONFIG: QuotaConfig<
   AntigravityQuotaState,
   { groups: AntigravityQuotaGroup[]; subscriptionTier: string | null }
@@ -408,7 +822,17 @@ export const ANTIGRAVITY_CONFIG: QuotaConfig<
     groups: [],
     error: message,
     errorStatus: status
-  })
+  }),
+  buildHistorySeries: (state) =>
+    state.groups.map((group) => ({
+      seriesId: group.id,
+      label: group.label,
+      remainingFraction: group.remainingFraction,
+      resetTime: group.resetTime
+    })),
+  gridClassName: styles.antigravityGrid,
+  cardClassName: styles.antigravityCard,
+  renderQuotaItems: renderAntigravityItems
 };
 
 export const CODEX_CONFIG: QuotaConfig<
@@ -432,7 +856,19 @@ export const CODEX_CONFIG: QuotaConfig<
     windows: [],
     error: message,
     errorStatus: status
-  })
+  }),
+  buildHistorySeries: (state) =>
+    state.windows
+      .filter((window) => window.usedPercent !== null)
+      .map((window) => ({
+        seriesId: window.id,
+        label: window.label,
+        remainingFraction: 1 - (window.usedPercent ?? 0) / 100,
+        resetTime: window.resetTime
+      })),
+  gridClassName: styles.codexGrid,
+  cardClassName: styles.codexCard,
+  renderQuotaItems: renderCodexItems
 };
 
 export const GEMINI_CLI_CONFIG: QuotaConfig<GeminiCliQuotaState, GeminiCliQuotaBucketState[]> = {
@@ -450,5 +886,93 @@ export const GEMINI_CLI_CONFIG: QuotaConfig<GeminiCliQuotaState, GeminiCliQuotaB
     buckets: [],
     error: message,
     errorStatus: status
-  })
+  }),
+  buildHistorySeries: (state) =>
+    state.buckets
+      .filter((bucket) => bucket.remainingFraction !== null)
+      .map((bucket) => ({
+        seriesId: bucket.id,
+        label: bucket.label,
+        remainingFraction: bucket.remainingFraction ?? 0,
+        resetTime: bucket.resetTime
+      })),
+  gridClassName: styles.geminiCliGrid,
+  cardClassName: styles.geminiCliCard,
+  renderQuotaItems: renderGeminiCliItems
+};
+
+export const CLAUDE_CONFIG: QuotaConfig<
+  ClaudeQuotaState,
+  { windows: ClaudeQuotaWindow[]; extraUsagePercent: number | null }
+> = {
+  type: 'claude',
+  i18nPrefix: 'claude_quota',
+  filterFn: (file) => isClaudeFile(file) && !isRuntimeOnlyAuthFile(file) && !isDisabledAuthFile(file),
+  fetchQuota: fetchClaudeQuota,
+  storeSelector: (state) => state.claudeQuota,
+  storeSetter: 'setClaudeQuota',
+  buildLoadingState: () => ({ status: 'loading', windows: [] }),
+  buildSuccessState: (data) => ({
+    status: 'success',
+    windows: data.windows,
+    extraUsagePercent: data.extraUsagePercent
+  }),
+  buildErrorState: (message, status) => ({
+    status: 'error',
+    windows: [],
+    error: message,
+    errorStatus: status
+  }),
+  buildHistorySeries: (state) =>
+    state.windows
+      .filter((window) => window.usedPercent !== null)
+      .map((window) => ({
+        seriesId: window.id,
+        label: window.label,
+        remainingFraction: 1 - (window.usedPercent ?? 0) / 100,
+        resetTime: window.resetTime
+      })),
+  gridClassName: styles.claudeGrid,
+  cardClassName: styles.claudeCard,
+  renderQuotaItems: renderClaudeItems
+};
+
+export const QWEN_CONFIG: QuotaConfig<LocalUsageQuotaState, LocalUsageQuotaSummary> = {
+  type: 'qwen',
+  i18nPrefix: 'qwen_quota',
+  filterFn: (file) => isQwenFile(file) && !isRuntimeOnlyAuthFile(file) && !isDisabledAuthFile(file),
+  fetchQuota: createLocalUsageFetcher('qwen_quota', QWEN_DAILY_REQUEST_LIMIT),
+  storeSelector: (state) => state.qwenQuota,
+  storeSetter: 'setQwenQuota',
+  buildLoadingState: () => ({ status: 'loading', usage: null }),
+  buildSuccessState: (usage) => ({ status: 'success', usage }),
+  buildErrorState: (message, status) => ({
+    status: 'error',
+    usage: null,
+    error: message,
+    errorStatus: status
+  }),
+  gridClassName: styles.qwenGrid,
+  cardClassName: styles.qwenCard,
+  renderQuotaItems: createLocalUsageRenderer('qwen_quota')
+};
+
+export const IFLOW_CONFIG: QuotaConfig<LocalUsageQuotaState, LocalUsageQuotaSummary> = {
+  type: 'iflow',
+  i18nPrefix: 'iflow_quota',
+  filterFn: (file) => isIFlowFile(file) && !isRuntimeOnlyAuthFile(file) && !isDisabledAuthFile(file),
+  fetchQuota: createLocalUsageFetcher('iflow_quota', null),
+  storeSelector: (state) => state.iflowQuota,
+  storeSetter: 'setIflowQuota',
+  buildLoadingState: () => ({ status: 'loading', usage: null }),
+  buildSuccessState: (usage) => ({ status: 'success', usage }),
+  buildErrorState: (message, status) => ({
+    status: 'error',
+    usage: null,
+    error: message,
+    errorStatus: status
+  }),
+  gridClassName: styles.iflowGrid,
+  cardClassName: styles.iflowCard,
+  renderQuotaItems: createLocalUsageRenderer('iflow_quota')
 };
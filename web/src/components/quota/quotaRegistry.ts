@@ -0,0 +1,71 @@
+/**
+ * Quota provider registry.
+ * Every provider registers its QuotaConfig (fetcher, parser, state builders and renderer) once;
+ * the quota page and the background scheduler iterate the registry instead of hard-coding types.
+ */
+
+import type { AuthFileItem } from '@/types';
+import type { QuotaStatusState } from './QuotaCard';
+import {
+  ANTIGRAVITY_CONFIG,
+  CLAUDE_CONFIG,
+  CODEX_CONFIG,
+  GEMINI_CLI_CONFIG,
+  IFLOW_CONFIG,
+  QWEN_CONFIG,
+  type QuotaConfig,
+  type QuotaType
+} from './quotaConfigs';
+
+// Provider state and payload types differ; callers only rely on the shared QuotaConfig shape
+export type AnyQuotaConfig = QuotaConfig<QuotaStatusState, unknown>;
+
+const providers = new Map<QuotaType, AnyQuotaConfig>();
+
+/**
+ * Erase a provider's state and payload types. Payloads only ever flow from a config's own
+ * fetchQuota into its buildSuccessState, and states from its own store slice into its renderer,
+ * so narrowing them back inside the wrapper is safe.
+ */
+function toAnyQuotaConfig<TState extends QuotaStatusState, TData>(
+  config: QuotaConfig<TState, TData>
+): AnyQuotaConfig {
+  const { buildSuccessState, buildHistorySeries, renderQuotaItems } = config;
+  return {
+    ...config,
+    buildSuccessState: (data) => buildSuccessState(data as TData),
+    buildHistorySeries: buildHistorySeries && ((state) => buildHistorySeries(state as TState)),
+    renderQuotaItems: (quota, t, helpers) => renderQuotaItems(quota as TState, t, helpers)
+  };
+}
+
+/**
+ * Register a quota provider; registering the same type again replaces it in place.
+ */
+export function registerQuotaProvider<TState extends QuotaStatusState, TData>(
+  config: QuotaConfig<TState, TData>
+): void {
+  providers.set(config.type, toAnyQuotaConfig(config));
+}
+
+/**
+ * Registered providers in registration order (the order sections appear on the quota page).
+ */
+export function getQuotaProviders(): AnyQuotaConfig[] {
+  return Array.from(providers.values());
+}
+
+export function getQuotaProvider(type: QuotaType): AnyQuotaConfig | undefined {
+  return providers.get(type);
+}
+
+export function findQuotaProviderForFile(file: AuthFileItem): AnyQuotaConfig | undefined {
+  return getQuotaProviders().find((config) => config.filterFn(file));
+}
+
+registerQuotaProvider(ANTIGRAVITY_CONFIG);
+registerQuotaProvider(CODEX_CONFIG);
+registerQuotaProvider(GEMINI_CLI_CONFIG);
+registerQuotaProvider(CLAUDE_CONFIG);
+registerQuotaProvider(QWEN_CONFIG);
+registerQuotaProvider(IFLOW_CONFIG);
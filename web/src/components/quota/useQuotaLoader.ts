@@ -6,7 +6,7 @@ import { useCallback, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import type { AuthFileItem } from '@/types';
 import { useQuotaStore } from '@/stores';
-import { getStatusFromError } from '@/utils/quota';
+import { getStatusFromError, recordQuotaHistory, toQuotaHistorySamples } from '@/utils/quota';
 import type { QuotaConfig } from './quotaConfigs';
 
 type QuotaScope = 'page' | 'all';
@@ -70,11 +70,28 @@ export function useQuotaLoader<TState, TData>(config: QuotaConfig<TState, TData>
 
         if (requestId !== requestIdRef.current) return;
 
+        const sampledAt = Date.now();
+        const successStates = new Map<string, TState>();
+        results.forEach((result) => {
+          if (result.status === 'success') {
+            successStates.set(result.name, config.buildSuccessState(result.data as TData));
+          }
+        });
+        const { buildHistorySeries } = config;
+        if (buildHistorySeries) {
+          void recordQuotaHistory(
+            Array.from(successStates.entries()).flatMap(([name, state]) =>
+              toQuotaHistorySamples(config.type, name, buildHistorySeries(state), sampledAt)
+            )
+          );
+        }
+
         setQuota((prev) => {
           const nextState = { ...prev };
           results.forEach((result) => {
-            if (result.status === 'success') {
-              nextState[result.name] = config.buildSuccessState(result.data as TData);
+            const successState = successStates.get(result.name);
+            if (successState) {
+              nextState[result.name] = successState;
             } else {
               nextState[result.name] = config.buildErrorState(
                 result.error || t('common.unknown_error'),
@@ -0,0 +1,160 @@
+/**
+ * Background quota polling, mounted once in the main layout.
+ * Keeps the quota store fresh even when QuotaPage / AuthFilesPage are not open.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+import type { AuthFileItem } from '@/types';
+import { authFilesApi } from '@/services/api';
+import { useAuthStore, useQuotaSchedulerStore, useQuotaStore } from '@/stores';
+import {
+  fetchQuotaWithBackoff,
+  getStatusFromError,
+  isQuotaPollable,
+  recordQuotaHistory,
+  runWithConcurrencyLimit,
+  toQuotaHistorySamples,
+  type QuotaHistorySample
+} from '@/utils/quota';
+import type { QuotaConfig } from './quotaConfigs';
+import { getQuotaProviders } from './quotaRegistry';
+import type { QuotaStatusState } from './QuotaCard';
+
+type QuotaUpdater<T> = T | ((prev: T) => T);
+
+type QuotaSetter<T> = (updater: QuotaUpdater<T>) => void;
+
+// Give the app a moment to settle after connecting before the first poll
+const INITIAL_DELAY_MS = 5000;
+const MINUTE_MS = 60 * 1000;
+
+const buildPollTasks = <TState extends QuotaStatusState, TData>(
+  config: QuotaConfig<TState, TData>,
+  files: AuthFileItem[],
+  t: TFunction,
+  signal: AbortSignal
+): Array<() => Promise<QuotaHistorySample[]>> => {
+  const setQuota = useQuotaStore.getState()[config.storeSetter] as QuotaSetter<
+    Record<string, TState>
+  >;
+
+  return files
+    .filter((file) => config.filterFn(file))
+    .map((file) => async () => {
+      try {
+        const data = await fetchQuotaWithBackoff(() => config.fetchQuota(file, t), undefined, signal);
+        const state = config.buildSuccessState(data);
+        if (signal.aborted) return [];
+        setQuota((prev) => ({ ...prev, [file.name]: state }));
+        return config.buildHistorySeries
+          ? toQuotaHistorySamples(config.type, file.name, config.buildHistorySeries(state))
+          : [];
+      } catch (err: unknown) {
+        if (signal.aborted) throw err;
+        const message = err instanceof Error ? err.message : t('common.unknown_error');
+        // Keep the last successful value so quota sorting stays meaningful during transient failures
+        setQuota((prev) =>
+          prev[file.name]?.status === 'success'
+            ? prev
+            : {
+                ...prev,
+                [file.name]: config.buildErrorState(message, getStatusFromError(err))
+              }
+        );
+        throw err;
+      }
+    });
+};
+
+export function useQuotaScheduler() {
+  const { t } = useTranslation();
+  const connectionStatus = useAuthStore((state) => state.connectionStatus);
+  const settings = useQuotaSchedulerStore((state) => state.settings);
+  const runRequestId = useQuotaSchedulerStore((state) => state.runRequestId);
+
+  const runningRef = useRef(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const handledRunRequestRef = useRef(runRequestId);
+
+  const connected = connectionStatus === 'connected';
+
+  const runPoll = useCallback(async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { setRunning, finishRun } = useQuotaSchedulerStore.getState();
+    setRunning(true);
+
+    try {
+      const data = await authFilesApi.list();
+      const files: AuthFileItem[] = data?.files || [];
+      const pollable = files.filter(isQuotaPollable);
+      const tasks = getQuotaProviders().flatMap((config) =>
+        buildPollTasks(config, pollable, t, controller.signal)
+      );
+      const results = await runWithConcurrencyLimit(tasks, settings.maxConcurrency, controller.signal);
+      if (controller.signal.aborted) return;
+
+      const samples = results.flatMap((result) =>
+        result.status === 'fulfilled' ? result.value : []
+      );
+      void recordQuotaHistory(samples);
+      finishRun({
+        finishedAt: Date.now(),
+        success: results.filter((result) => result.status === 'fulfilled').length,
+        failed: results.filter((result) => result.status === 'rejected').length,
+        skipped: files.length - pollable.length
+      });
+    } catch (err: unknown) {
+      finishRun({
+        finishedAt: Date.now(),
+        success: 0,
+        failed: 0,
+        skipped: 0,
+        error: err instanceof Error ? err.message : t('common.unknown_error')
+      });
+    } finally {
+      runningRef.current = false;
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+      if (controller.signal.aborted) {
+        setRunning(false);
+      }
+    }
+  }, [settings.maxConcurrency, t]);
+
+  // Periodic polling while enabled and connected
+  useEffect(() => {
+    if (!settings.enabled || !connected) return;
+    const initialTimer = window.setTimeout(() => void runPoll(), INITIAL_DELAY_MS);
+    const intervalTimer = window.setInterval(
+      () => void runPoll(),
+      settings.intervalMinutes * MINUTE_MS
+    );
+    return () => {
+      window.clearTimeout(initialTimer);
+      window.clearInterval(intervalTimer);
+    };
+  }, [settings.enabled, settings.intervalMinutes, connected, runPoll]);
+
+  // Manual "run now" requests
+  useEffect(() => {
+    if (runRequestId === handledRunRequestRef.current) return;
+    handledRunRequestRef.current = runRequestId;
+    if (connected) {
+      void runPoll();
+    }
+  }, [runRequestId, connected, runPoll]);
+
+  // Stop in-flight polling when disconnected or unmounted
+  useEffect(() => {
+    if (connected) return;
+    controllerRef.current?.abort();
+  }, [connected]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+}
@@ -1,14 +1,15 @@
 import type { PropsWithChildren, ReactNode } from 'react';
 
 interface CardProps {
+  id?: string;
   title?: ReactNode;
   extra?: ReactNode;
   className?: string;
 }
 
-export function Card({ title, extra, children, className }: PropsWithChildren<CardProps>) {
+export function Card({ id, title, extra, children, className }: PropsWithChildren<CardProps>) {
   return (
-    <div className={className ? `card ${className}` : 'card'}>
+    <div id={id} className={className ? `card ${className}` : 'card'}>
       {(title || extra) && (
         <div className="card-header">
           <div className="title">{title}</div>
@@ -0,0 +1,214 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Bar } from 'react-chartjs-2';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { useNotificationStore } from '@/stores';
+import type { AuthFileItem } from '@/types/authFile';
+import type { Config } from '@/types/config';
+import { formatTokensInMillions, formatUsd, type ModelPrice } from '@/utils/usage';
+import { buildHorizontalBarOptions } from '@/utils/usage/chartConfig';
+import {
+  buildCredentialIndex,
+  computeCredentialUsage,
+  credentialUsageToCsv,
+  sortCredentialUsage,
+  type CredentialUsageSortKey
+} from '@/utils/usage/credentials';
+import type { UsagePayload } from './hooks/useUsageData';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface CredentialUsageCardProps {
+  usage: UsagePayload | null;
+  modelPrices: Record<string, ModelPrice>;
+  authFiles: AuthFileItem[];
+  config: Config | null;
+  loading: boolean;
+  isDark: boolean;
+  isMobile: boolean;
+}
+
+type ChartMetric = 'totalTokens' | 'cost' | 'requests';
+
+const CHART_METRICS: ChartMetric[] = ['totalTokens', 'cost', 'requests'];
+const CHART_TOP_N = 10;
+const BAR_COLOR = '#8b5cf6';
+
+const COLUMNS: { key: CredentialUsageSortKey; label: string }[] = [
+  { key: 'label', label: 'usage_stats.credential_name' },
+  { key: 'provider', label: 'usage_stats.credential_provider' },
+  { key: 'requests', label: 'usage_stats.requests_count' },
+  { key: 'failureCount', label: 'usage_stats.credential_failures' },
+  { key: 'totalTokens', label: 'usage_stats.tokens_count' },
+  { key: 'cost', label: 'usage_stats.total_cost' },
+  { key: 'lastUsed', label: 'usage_stats.credential_last_used' }
+];
+
+const formatMetric = (metric: ChartMetric, value: number) => {
+  if (metric === 'cost') return formatUsd(value);
+  if (metric === 'totalTokens') return formatTokensInMillions(value);
+  return value.toLocaleString();
+};
+
+export function CredentialUsageCard({
+  usage,
+  modelPrices,
+  authFiles,
+  config,
+  loading,
+  isDark,
+  isMobile
+}: CredentialUsageCardProps) {
+  const { t } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const [sortKey, setSortKey] = useState<CredentialUsageSortKey>('totalTokens');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [chartMetric, setChartMetric] = useState<ChartMetric>('totalTokens');
+
+  const credentialIndex = useMemo(() => buildCredentialIndex(authFiles, config), [authFiles, config]);
+  const rows = useMemo(
+    () => computeCredentialUsage(usage, credentialIndex, modelPrices),
+    [usage, credentialIndex, modelPrices]
+  );
+  const sortedRows = useMemo(() => sortCredentialUsage(rows, sortKey, sortDirection), [rows, sortKey, sortDirection]);
+  const hasPrices = Object.keys(modelPrices).length > 0;
+  const metrics = hasPrices ? CHART_METRICS : CHART_METRICS.filter((metric) => metric !== 'cost');
+  const activeMetric = metrics.includes(chartMetric) ? chartMetric : 'totalTokens';
+
+  const chart = useMemo(() => {
+    const topRows = sortCredentialUsage(rows, activeMetric, 'desc')
+      .filter((row) => row[activeMetric] > 0)
+      .slice(0, CHART_TOP_N);
+    return {
+      data: {
+        labels: topRows.map((row) => row.label),
+        datasets: [
+          {
+            label: t(`usage_stats.credential_metric_${activeMetric}`),
+            data: topRows.map((row) => row[activeMetric]),
+            backgroundColor: BAR_COLOR,
+            borderRadius: 4
+          }
+        ]
+      },
+      options: buildHorizontalBarOptions({
+        isDark,
+        isMobile,
+        formatValue: (value) => formatMetric(activeMetric, value)
+      })
+    };
+  }, [rows, activeMetric, isDark, isMobile, t]);
+
+  const handleSort = (key: CredentialUsageSortKey) => {
+    if (key === sortKey) {
+      setSortDirection((prev) => (prev === 'asc' ? 'desc' : 'asc'));
+      return;
+    }
+    setSortKey(key);
+    setSortDirection(key === 'label' || key === 'provider' ? 'asc' : 'desc');
+  };
+
+  const handleExport = () => {
+    const csv = credentialUsageToCsv(sortedRows);
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `credential-usage-${new Date().toISOString().replace(/[:.]/g, '-')}.csv`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+    showNotification(t('usage_stats.credential_export_success'), 'success');
+  };
+
+  const renderSortIndicator = (key: CredentialUsageSortKey) =>
+    key === sortKey ? (sortDirection === 'asc' ? ' ▲' : ' ▼') : '';
+
+  return (
+    <Card
+      title={t('usage_stats.credential_title')}
+      extra={
+        <Button variant="secondary" size="sm" onClick={handleExport} disabled={loading || rows.length === 0}>
+          {t('usage_stats.credential_export')}
+        </Button>
+      }
+    >
+      {loading ? (
+        <div className={styles.hint}>{t('common.loading')}</div>
+      ) : rows.length > 0 ? (
+        <div className={styles.credentialSection}>
+          <div className={styles.credentialChartHeader}>
+            <span className={styles.credentialChartTitle}>
+              {t('usage_stats.credential_top', { count: CHART_TOP_N })}
+            </span>
+            <div className={styles.periodButtons}>
+              {metrics.map((metric) => (
+                <Button
+                  key={metric}
+                  variant={activeMetric === metric ? 'primary' : 'secondary'}
+                  size="sm"
+                  onClick={() => setChartMetric(metric)}
+                >
+                  {t(`usage_stats.credential_metric_${metric}`)}
+                </Button>
+              ))}
+            </div>
+          </div>
+          {chart.data.labels.length > 0 ? (
+            <div
+              className={styles.credentialChart}
+              style={{ height: Math.max(chart.data.labels.length * 28 + 40, 120) }}
+            >
+              <Bar data={chart.data} options={chart.options} />
+            </div>
+          ) : (
+            <div className={styles.hint}>{t('usage_stats.no_data')}</div>
+          )}
+
+          <div className={styles.tableWrapper}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  {COLUMNS.filter((column) => hasPrices || column.key !== 'cost').map((column) => (
+                    <th
+                      key={column.key}
+                      className={styles.sortableHeader}
+                      onClick={() => handleSort(column.key)}
+                      aria-sort={
+                        column.key === sortKey ? (sortDirection === 'asc' ? 'ascending' : 'descending') : 'none'
+                      }
+                    >
+                      {t(column.label)}
+                      {renderSortIndicator(column.key)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sortedRows.map((row) => (
+                  <tr key={row.id}>
+                    <td className={styles.modelCell} title={row.authIndex ? `auth_index: ${row.authIndex}` : undefined}>
+                      {row.label}
+                      {row.kind === 'unknown' && (
+                        <span className={styles.credentialUnmatched}>{t('usage_stats.credential_unmatched')}</span>
+                      )}
+                    </td>
+                    <td>{row.provider}</td>
+                    <td>{row.requests.toLocaleString()}</td>
+                    <td className={row.failureCount > 0 ? styles.statFailure : undefined}>
+                      {row.failureCount.toLocaleString()}
+                    </td>
+                    <td>{formatTokensInMillions(row.totalTokens)}</td>
+                    {hasPrices && <td>{row.cost > 0 ? formatUsd(row.cost) : '--'}</td>}
+                    <td>{row.lastUsed ? new Date(row.lastUsed).toLocaleString() : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : (
+        <div className={styles.hint}>{t('usage_stats.no_data')}</div>
+      )}
+    </Card>
+  );
+}
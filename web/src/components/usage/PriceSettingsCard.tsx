@@ -1,40 +1,117 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
-import type { ModelPrice } from '@/utils/usage';
+import { useNotificationStore } from '@/stores';
+import { isModelPricePattern, normalizeModelPrices, type ModelPrice } from '@/utils/usage';
+import {
+  MODEL_PRICE_PRESETS,
+  MODEL_PRICE_PRESET_IDS,
+  parseModelPriceImport,
+  serializeModelPricesCsv,
+  serializeModelPricesJson,
+  type ModelPricePresetId
+} from '@/utils/usage/prices';
+import type { ModelPriceStorage } from './hooks/useUsageData';
 import styles from '@/pages/UsagePage.module.scss';
 
 export interface PriceSettingsCardProps {
   modelNames: string[];
   modelPrices: Record<string, ModelPrice>;
   onPricesChange: (prices: Record<string, ModelPrice>) => void;
+  storage: ModelPriceStorage;
+  syncing: boolean;
+  onSync: () => void;
 }
 
+interface TierDraft {
+  threshold: string;
+  prompt: string;
+  completion: string;
+  cache: string;
+  cacheWrite: string;
+  reasoning: string;
+}
+
+const TIER_RATE_FIELDS = ['prompt', 'completion', 'cache', 'cacheWrite', 'reasoning'] as const;
+
+const EMPTY_TIER: TierDraft = { threshold: '', prompt: '', completion: '', cache: '', cacheWrite: '', reasoning: '' };
+
+const toDraftValue = (value?: number) => (value === undefined ? '' : value.toString());
+
+const formatRate = (value: number) => `$${value.toFixed(4)}/1M`;
+
+const formatThreshold = (threshold: number) =>
+  threshold >= 1000 ? `${(threshold / 1000).toLocaleString()}k` : threshold.toLocaleString();
+
+const downloadText = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.URL.revokeObjectURL(url);
+};
+
 export function PriceSettingsCard({
   modelNames,
   modelPrices,
-  onPricesChange
+  onPricesChange,
+  storage,
+  syncing,
+  onSync
 }: PriceSettingsCardProps) {
   const { t } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const importInputRef = useRef<HTMLInputElement | null>(null);
 
+  const [preset, setPreset] = useState<ModelPricePresetId>(MODEL_PRICE_PRESET_IDS[0]);
   const [selectedModel, setSelectedModel] = useState('');
   const [promptPrice, setPromptPrice] = useState('');
   const [completionPrice, setCompletionPrice] = useState('');
   const [cachePrice, setCachePrice] = useState('');
+  const [cacheWritePrice, setCacheWritePrice] = useState('');
+  const [reasoningPrice, setReasoningPrice] = useState('');
+  const [tiers, setTiers] = useState<TierDraft[]>([]);
+
+  const fillForm = (price?: ModelPrice) => {
+    setPromptPrice(toDraftValue(price?.prompt));
+    setCompletionPrice(toDraftValue(price?.completion));
+    setCachePrice(toDraftValue(price?.cache));
+    setCacheWritePrice(toDraftValue(price?.cacheWrite));
+    setReasoningPrice(toDraftValue(price?.reasoning));
+    setTiers(
+      (price?.tiers || []).map((tier) => ({
+        threshold: tier.threshold.toString(),
+        prompt: toDraftValue(tier.prompt),
+        completion: toDraftValue(tier.completion),
+        cache: toDraftValue(tier.cache),
+        cacheWrite: toDraftValue(tier.cacheWrite),
+        reasoning: toDraftValue(tier.reasoning)
+      }))
+    );
+  };
 
   const handleSavePrice = () => {
-    if (!selectedModel) return;
-    const prompt = parseFloat(promptPrice) || 0;
-    const completion = parseFloat(completionPrice) || 0;
-    const cache = cachePrice.trim() === '' ? prompt : parseFloat(cachePrice) || 0;
-    const newPrices = { ...modelPrices, [selectedModel]: { prompt, completion, cache } };
-    onPricesChange(newPrices);
+    const model = selectedModel.trim();
+    if (!model) return;
+    // 空缓存价格沿用输入价格，其余留空的可选费率回退到基础费率
+    const normalized = normalizeModelPrices({
+      [model]: {
+        prompt: promptPrice,
+        completion: completionPrice,
+        cache: cachePrice.trim() === '' ? undefined : cachePrice,
+        cacheWrite: cacheWritePrice,
+        reasoning: reasoningPrice,
+        tiers
+      }
+    })[model];
+    if (!normalized) return;
+    onPricesChange({ ...modelPrices, [model]: normalized });
     setSelectedModel('');
-    setPromptPrice('');
-    setCompletionPrice('');
-    setCachePrice('');
+    fillForm();
   };
 
   const handleDeletePrice = (model: string) => {
@@ -44,47 +121,141 @@ export function PriceSettingsCard({
   };
 
   const handleEditPrice = (model: string) => {
-    const price = modelPrices[model];
     setSelectedModel(model);
-    setPromptPrice(price?.prompt?.toString() || '');
-    setCompletionPrice(price?.completion?.toString() || '');
-    setCachePrice(price?.cache?.toString() || '');
+    fillForm(modelPrices[model]);
   };
 
+  // 输入框支持自由输入通配符，只有命中已保存的条目时才回填价格
   const handleModelSelect = (value: string) => {
     setSelectedModel(value);
-    const price = modelPrices[value];
+    const price = modelPrices[value.trim()];
     if (price) {
-      setPromptPrice(price.prompt.toString());
-      setCompletionPrice(price.completion.toString());
-      setCachePrice(price.cache.toString());
+      fillForm(price);
+    }
+  };
+
+  const updateTier = (index: number, field: keyof TierDraft, value: string) => {
+    setTiers((prev) => prev.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)));
+  };
+
+  // 预设只补充尚未配置的条目，不覆盖已有价格
+  const handleApplyPreset = () => {
+    const additions = Object.fromEntries(
+      Object.entries(MODEL_PRICE_PRESETS[preset]).filter(([model]) => !modelPrices[model])
+    );
+    const count = Object.keys(additions).length;
+    if (count > 0) {
+      onPricesChange({ ...modelPrices, ...additions });
+    }
+    showNotification(t('usage_stats.model_price_preset_applied', { count }), count > 0 ? 'success' : 'info');
+  };
+
+  const handleImportChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const { prices } = parseModelPriceImport(await file.text());
+      const count = Object.keys(prices).length;
+      if (count === 0) {
+        showNotification(t('usage_stats.model_price_import_empty'), 'warning');
+        return;
+      }
+      onPricesChange({ ...modelPrices, ...prices });
+      showNotification(t('usage_stats.model_price_import_success', { count }), 'success');
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      showNotification(
+        `${t('usage_stats.model_price_import_invalid')}${message ? `: ${message}` : ''}`,
+        'error'
+      );
+    }
+  };
+
+  const handleExport = (format: 'json' | 'csv') => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    if (format === 'json') {
+      downloadText(serializeModelPricesJson(modelPrices), `model-prices-${timestamp}.json`, 'application/json');
     } else {
-      setPromptPrice('');
-      setCompletionPrice('');
-      setCachePrice('');
+      downloadText(serializeModelPricesCsv(modelPrices), `model-prices-${timestamp}.csv`, 'text/csv;charset=utf-8');
     }
   };
 
+  const hasPrices = Object.keys(modelPrices).length > 0;
+
   return (
     <Card title={t('usage_stats.model_price_settings')}>
       <div className={styles.pricingSection}>
+        {/* Sharing & Import / Export */}
+        <div className={styles.priceToolbar}>
+          <div className={styles.priceToolbarGroup}>
+            <select
+              value={preset}
+              onChange={(e) => setPreset(e.target.value as ModelPricePresetId)}
+              className={styles.select}
+              aria-label={t('usage_stats.model_price_preset')}
+            >
+              {MODEL_PRICE_PRESET_IDS.map((id) => (
+                <option key={id} value={id}>
+                  {t(`usage_stats.model_price_preset_${id}`)}
+                </option>
+              ))}
+            </select>
+            <Button variant="secondary" size="sm" onClick={handleApplyPreset}>
+              {t('usage_stats.model_price_preset_apply')}
+            </Button>
+          </div>
+          <div className={styles.priceToolbarGroup}>
+            <Button variant="secondary" size="sm" onClick={() => importInputRef.current?.click()}>
+              {t('usage_stats.model_price_import')}
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => handleExport('json')} disabled={!hasPrices}>
+              {t('usage_stats.model_price_export_json')}
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => handleExport('csv')} disabled={!hasPrices}>
+              {t('usage_stats.model_price_export_csv')}
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              style={{ display: 'none' }}
+              onChange={handleImportChange}
+            />
+          </div>
+        </div>
+        <div className={styles.priceStorage}>
+          <span className={storage === 'server' ? styles.statSuccess : styles.statNeutral}>
+            {syncing
+              ? t('usage_stats.model_price_syncing')
+              : storage === 'server'
+                ? t('usage_stats.model_price_storage_server')
+                : t('usage_stats.model_price_storage_local')}
+          </span>
+          {storage === 'local' && hasPrices && (
+            <Button variant="secondary" size="sm" onClick={onSync} loading={syncing}>
+              {t('usage_stats.model_price_sync')}
+            </Button>
+          )}
+        </div>
+
         {/* Price Form */}
         <div className={styles.priceForm}>
           <div className={styles.formRow}>
             <div className={styles.formField}>
               <label>{t('usage_stats.model_name')}</label>
-              <select
+              <Input
                 value={selectedModel}
                 onChange={(e) => handleModelSelect(e.target.value)}
-                className={styles.select}
-              >
-                <option value="">{t('usage_stats.model_price_select_placeholder')}</option>
+                placeholder={t('usage_stats.model_price_select_placeholder')}
+                list="usage-model-price-names"
+                title={t('usage_stats.model_price_pattern_hint')}
+              />
+              <datalist id="usage-model-price-names">
                 {modelNames.map((name) => (
-                  <option key={name} value={name}>
-                    {name}
-                  </option>
+                  <option key={name} value={name} />
                 ))}
-              </select>
+              </datalist>
             </div>
             <div className={styles.formField}>
               <label>{t('usage_stats.model_price_prompt')} ($/1M)</label>
@@ -116,10 +287,71 @@ export function PriceSettingsCard({
                 step="0.0001"
               />
             </div>
-            <Button variant="primary" onClick={handleSavePrice} disabled={!selectedModel}>
+            <div className={styles.formField}>
+              <label>{t('usage_stats.model_price_cache_write')} ($/1M)</label>
+              <Input
+                type="number"
+                value={cacheWritePrice}
+                onChange={(e) => setCacheWritePrice(e.target.value)}
+                placeholder={t('usage_stats.model_price_same_as_prompt')}
+                step="0.0001"
+              />
+            </div>
+            <div className={styles.formField}>
+              <label>{t('usage_stats.model_price_reasoning')} ($/1M)</label>
+              <Input
+                type="number"
+                value={reasoningPrice}
+                onChange={(e) => setReasoningPrice(e.target.value)}
+                placeholder={t('usage_stats.model_price_same_as_completion')}
+                step="0.0001"
+              />
+            </div>
+            <Button variant="primary" onClick={handleSavePrice} disabled={!selectedModel.trim()}>
               {t('common.save')}
             </Button>
           </div>
+
+          {/* Long-context Tiers */}
+          <div className={styles.priceTiers}>
+            <div className={styles.priceTiersHeader}>
+              <span>{t('usage_stats.model_price_tiers')}</span>
+              <Button variant="secondary" size="sm" onClick={() => setTiers((prev) => [...prev, { ...EMPTY_TIER }])}>
+                {t('usage_stats.model_price_tier_add')}
+              </Button>
+            </div>
+            {tiers.map((tier, index) => (
+              <div key={index} className={styles.priceTierRow}>
+                <Input
+                  type="number"
+                  value={tier.threshold}
+                  onChange={(e) => updateTier(index, 'threshold', e.target.value)}
+                  placeholder={t('usage_stats.model_price_tier_threshold')}
+                  aria-label={t('usage_stats.model_price_tier_threshold')}
+                  step="1000"
+                />
+                {TIER_RATE_FIELDS.map((field) => (
+                  <Input
+                    key={field}
+                    type="number"
+                    value={tier[field]}
+                    onChange={(e) => updateTier(index, field, e.target.value)}
+                    placeholder={t(`usage_stats.model_price_tier_${field}`)}
+                    aria-label={t(`usage_stats.model_price_tier_${field}`)}
+                    step="0.0001"
+                  />
+                ))}
+                <Button
+                  variant="danger"
+                  size="sm"
+                  onClick={() => setTiers((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  {t('common.delete')}
+                </Button>
+              </div>
+            ))}
+            <div className={styles.hint}>{t('usage_stats.model_price_tiers_hint')}</div>
+          </div>
         </div>
 
         {/* Saved Prices List */}
@@ -130,7 +362,12 @@ export function PriceSettingsCard({
               {Object.entries(modelPrices).map(([model, price]) => (
                 <div key={model} className={styles.priceItem}>
                   <div className={styles.priceInfo}>
-                    <span className={styles.priceModel}>{model}</span>
+                    <span className={styles.priceModel}>
+                      {model}
+                      {isModelPricePattern(model) && (
+                        <span className={styles.pricePatternTag}>{t('usage_stats.model_price_pattern')}</span>
+                      )}
+                    </span>
                     <div className={styles.priceMeta}>
                       <span>
                         {t('usage_stats.model_price_prompt')}: ${price.prompt.toFixed(4)}/1M
@@ -141,7 +378,27 @@ export function PriceSettingsCard({
                       <span>
                         {t('usage_stats.model_price_cache')}: ${price.cache.toFixed(4)}/1M
                       </span>
+                      {price.cacheWrite !== undefined && (
+                        <span>
+                          {t('usage_stats.model_price_cache_write')}: {formatRate(price.cacheWrite)}
+                        </span>
+                      )}
+                      {price.reasoning !== undefined && (
+                        <span>
+                          {t('usage_stats.model_price_reasoning')}: {formatRate(price.reasoning)}
+                        </span>
+                      )}
                     </div>
+                    {price.tiers?.map((tier, index) => (
+                      <div key={`${tier.threshold}-${index}`} className={styles.priceMeta}>
+                        <span>{t('usage_stats.model_price_tier_label', { threshold: formatThreshold(tier.threshold) })}</span>
+                        {TIER_RATE_FIELDS.filter((field) => tier[field] !== undefined).map((field) => (
+                          <span key={field}>
+                            {t(`usage_stats.model_price_tier_${field}`)}: {formatRate(tier[field] as number)}
+                          </span>
+                        ))}
+                      </div>
+                    ))}
                   </div>
                   <div className={styles.priceActions}>
                     <Button variant="secondary" size="sm" onClick={() => handleEditPrice(model)}>
@@ -39,14 +39,16 @@ export interface StatCardsProps {
     tpm: SparklineBundle | null;
     cost: SparklineBundle | null;
   };
+  /** 所选时间范围的结束时间，RPM/TPM 统计截至该时间 */
+  rangeEnd?: number;
 }
 
-export function StatCards({ usage, loading, modelPrices, sparklines }: StatCardsProps) {
+export function StatCards({ usage, loading, modelPrices, sparklines, rangeEnd }: StatCardsProps) {
   const { t } = useTranslation();
 
   const tokenBreakdown = usage ? calculateTokenBreakdown(usage) : { cachedTokens: 0, reasoningTokens: 0 };
   const rateStats = usage
-    ? calculateRecentPerMinuteRates(30, usage)
+    ? calculateRecentPerMinuteRates(30, usage, rangeEnd)
     : { rpm: 0, tpm: 0, windowMinutes: 30, requestCount: 0, tokenCount: 0 };
   const totalCost = usage ? calculateTotalCost(usage, modelPrices) : 0;
   const hasPrices = Object.keys(modelPrices).length > 0;
@@ -0,0 +1,232 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { ChartData, ChartOptions } from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import type { AuthFileItem } from '@/types/authFile';
+import type { Config } from '@/types/config';
+import {
+  formatCompactNumber,
+  isSubDayGranularity,
+  type UsageGranularity,
+  type UsageTimeRange
+} from '@/utils/usage';
+import { buildChartOptions, getHourChartMinWidth } from '@/utils/usage/chartConfig';
+import { buildCredentialIndex } from '@/utils/usage/credentials';
+import {
+  TOKEN_EFFICIENCY_GROUPS,
+  TOKEN_EFFICIENCY_METRICS,
+  TOKEN_EFFICIENCY_RATIO_METRICS,
+  buildTokenEfficiencySeries,
+  computeTokenEfficiency,
+  type TokenEfficiencyGroupBy,
+  type TokenEfficiencyMetric
+} from '@/utils/usage/efficiency';
+import type { UsagePayload } from './hooks/useUsageData';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface TokenEfficiencyCardProps {
+  usage: UsagePayload | null;
+  range: UsageTimeRange;
+  granularity: UsageGranularity;
+  authFiles: AuthFileItem[];
+  config: Config | null;
+  loading: boolean;
+  isDark: boolean;
+  isMobile: boolean;
+}
+
+// 趋势图除整体外最多展示的分组数量
+const CHART_TOP_GROUPS = 5;
+const OVERALL_COLOR = '#3b82f6';
+const GROUP_COLORS = ['#22c55e', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4'];
+
+const formatEfficiencyValue = (metric: TokenEfficiencyMetric, value: number | null) => {
+  if (value === null || !Number.isFinite(value)) return '--';
+  if (TOKEN_EFFICIENCY_RATIO_METRICS.includes(metric)) return `${(value * 100).toFixed(1)}%`;
+  if (metric === 'avgTokensPerRequest') return formatCompactNumber(value);
+  return value.toFixed(2);
+};
+
+export function TokenEfficiencyCard({
+  usage,
+  range,
+  granularity,
+  authFiles,
+  config,
+  loading,
+  isDark,
+  isMobile
+}: TokenEfficiencyCardProps) {
+  const { t } = useTranslation();
+  const [groupBy, setGroupBy] = useState<TokenEfficiencyGroupBy>('model');
+  const [metric, setMetric] = useState<TokenEfficiencyMetric>('cacheHitRatio');
+
+  const credentialIndex = useMemo(() => buildCredentialIndex(authFiles, config), [authFiles, config]);
+  const { overall, rows } = useMemo(
+    () => computeTokenEfficiency(usage, groupBy, credentialIndex),
+    [usage, groupBy, credentialIndex]
+  );
+
+  const chart = useMemo(() => {
+    const topGroups = rows.slice(0, CHART_TOP_GROUPS);
+    const series = buildTokenEfficiencySeries(usage, groupBy, credentialIndex, metric, range, granularity, topGroups);
+    const lines = [
+      { ...series.overall, label: t('usage_stats.efficiency_overall'), color: OVERALL_COLOR },
+      ...series.groups.map((group, index) => ({ ...group, color: GROUP_COLORS[index % GROUP_COLORS.length] }))
+    ];
+    const data: ChartData<'line', Array<number | null>, string> = {
+      labels: series.labels,
+      datasets: lines.map((line) => ({
+        label: line.label,
+        data: line.data,
+        borderColor: line.color,
+        backgroundColor: line.color,
+        pointBackgroundColor: line.color,
+        pointBorderColor: line.color,
+        fill: false,
+        tension: 0.35,
+        spanGaps: true
+      }))
+    };
+    const baseOptions = buildChartOptions({
+      period: isSubDayGranularity(granularity) ? 'hour' : 'day',
+      labels: series.labels,
+      isDark,
+      isMobile
+    });
+    const options: ChartOptions<'line'> = {
+      ...baseOptions,
+      plugins: {
+        ...baseOptions.plugins,
+        tooltip: {
+          ...baseOptions.plugins?.tooltip,
+          callbacks: {
+            label: (context) => `${context.dataset.label}: ${formatEfficiencyValue(metric, context.parsed.y)}`
+          }
+        }
+      },
+      scales: {
+        ...baseOptions.scales,
+        y: {
+          ...baseOptions.scales?.y,
+          ticks: {
+            ...baseOptions.scales?.y?.ticks,
+            callback: (value) => formatEfficiencyValue(metric, Number(value))
+          }
+        }
+      }
+    };
+    return { data, options, colors: lines.map((line) => line.color) };
+  }, [usage, rows, groupBy, credentialIndex, metric, range, granularity, isDark, isMobile, t]);
+
+  return (
+    <Card
+      title={t('usage_stats.efficiency_title')}
+      extra={
+        <div className={styles.periodButtons}>
+          {TOKEN_EFFICIENCY_GROUPS.map((item) => (
+            <Button
+              key={item}
+              variant={groupBy === item ? 'primary' : 'secondary'}
+              size="sm"
+              onClick={() => setGroupBy(item)}
+            >
+              {t(`usage_stats.efficiency_group_${item}`)}
+            </Button>
+          ))}
+        </div>
+      }
+    >
+      {loading ? (
+        <div className={styles.hint}>{t('common.loading')}</div>
+      ) : rows.length > 0 ? (
+        <div className={styles.credentialSection}>
+          <div className={styles.efficiencySummary}>
+            {TOKEN_EFFICIENCY_METRICS.map((item) => (
+              <div key={item} className={styles.efficiencyStat}>
+                <span className={styles.efficiencyStatLabel}>{t(`usage_stats.efficiency_${item}`)}</span>
+                <span className={styles.efficiencyStatValue}>{formatEfficiencyValue(item, overall[item])}</span>
+              </div>
+            ))}
+          </div>
+          <div className={styles.hint}>{t('usage_stats.efficiency_hint')}</div>
+
+          <div className={styles.credentialChartHeader}>
+            <span className={styles.credentialChartTitle}>
+              {t('usage_stats.efficiency_trend', { count: CHART_TOP_GROUPS })}
+            </span>
+            <div className={styles.periodButtons}>
+              {TOKEN_EFFICIENCY_METRICS.map((item) => (
+                <Button
+                  key={item}
+                  variant={metric === item ? 'primary' : 'secondary'}
+                  size="sm"
+                  onClick={() => setMetric(item)}
+                >
+                  {t(`usage_stats.efficiency_${item}`)}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className={styles.chartWrapper}>
+            <div className={styles.chartLegend} aria-label="Chart legend">
+              {chart.data.datasets.map((dataset, index) => (
+                <div key={`${dataset.label}-${index}`} className={styles.legendItem} title={dataset.label}>
+                  <span className={styles.legendDot} style={{ backgroundColor: chart.colors[index] }} />
+                  <span className={styles.legendLabel}>{dataset.label}</span>
+                </div>
+              ))}
+            </div>
+            <div className={styles.chartArea}>
+              <div className={styles.chartScroller}>
+                <div
+                  className={styles.chartCanvas}
+                  style={
+                    isSubDayGranularity(granularity)
+                      ? { minWidth: getHourChartMinWidth(chart.data.labels?.length ?? 0, isMobile) }
+                      : undefined
+                  }
+                >
+                  <Line data={chart.data} options={chart.options} />
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className={styles.tableWrapper}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>{t(groupBy === 'model' ? 'usage_stats.model_name' : 'usage_stats.credential_name')}</th>
+                  <th>{t('usage_stats.requests_count')}</th>
+                  <th>{t('usage_stats.tokens_count')}</th>
+                  {TOKEN_EFFICIENCY_METRICS.map((item) => (
+                    <th key={item}>{t(`usage_stats.efficiency_${item}`)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.key}>
+                    <td className={styles.modelCell} title={row.provider}>
+                      {row.label}
+                    </td>
+                    <td>{row.requests.toLocaleString()}</td>
+                    <td>{formatCompactNumber(row.totalTokens)}</td>
+                    {TOKEN_EFFICIENCY_METRICS.map((item) => (
+                      <td key={item}>{formatEfficiencyValue(item, row[item])}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : (
+        <div className={styles.hint}>{t('usage_stats.no_data')}</div>
+      )}
+    </Card>
+  );
+}
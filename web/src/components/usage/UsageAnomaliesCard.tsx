@@ -0,0 +1,64 @@
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Card } from '@/components/ui/Card';
+import type { UsageAnomaly } from '@/utils/usage/anomalies';
+import { formatUsageAnomaly } from './anomalyText';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageAnomaliesCardProps {
+  anomalies: UsageAnomaly[];
+  loading: boolean;
+}
+
+export function UsageAnomaliesCard({ anomalies, loading }: UsageAnomaliesCardProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Card title={t('usage_stats.anomaly_title')}>
+      {loading ? (
+        <div className={styles.hint}>{t('common.loading')}</div>
+      ) : anomalies.length === 0 ? (
+        <div className={styles.hint}>{t('usage_stats.anomaly_none')}</div>
+      ) : (
+        <div className={styles.pricesGrid}>
+          {anomalies.map((anomaly) => {
+            const { title, description } = formatUsageAnomaly(anomaly, t);
+            return (
+              <div key={anomaly.id} className={styles.priceItem}>
+                <div className={styles.priceInfo}>
+                  <span className={styles.priceModel}>
+                    <span
+                      className={`${styles.anomalyBadge} ${
+                        anomaly.severity === 'critical' ? styles.anomalyCritical : styles.anomalyWarning
+                      }`}
+                    >
+                      {t(`usage_stats.anomaly_severity_${anomaly.severity}`)}
+                    </span>
+                    {title}
+                  </span>
+                  <div className={styles.priceMeta}>
+                    <span>{description}</span>
+                    {anomaly.credential && <span>{anomaly.credential.provider}</span>}
+                  </div>
+                </div>
+                {anomaly.credential?.link && (
+                  <div className={styles.priceActions}>
+                    <Link to={anomaly.credential.link} className={styles.anomalyLink}>
+                      {t(
+                        anomaly.credential.kind === 'file'
+                          ? 'usage_stats.anomaly_open_auth_file'
+                          : 'usage_stats.anomaly_open_provider'
+                      )}{' '}
+                      →
+                    </Link>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <div className={styles.hint}>{t('usage_stats.anomaly_hint')}</div>
+    </Card>
+  );
+}
@@ -0,0 +1,53 @@
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import type { UsageAnomaly } from '@/utils/usage/anomalies';
+import { formatUsageAnomaly } from './anomalyText';
+import styles from '@/pages/DashboardPage.module.scss';
+
+export interface UsageAnomalyWidgetProps {
+  anomalies: UsageAnomaly[];
+}
+
+const WIDGET_LIMIT = 5;
+
+export function UsageAnomalyWidget({ anomalies }: UsageAnomalyWidgetProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className={styles.section}>
+      <h2 className={styles.sectionTitle}>{t('dashboard.anomaly_title', { count: anomalies.length })}</h2>
+      <div className={styles.budgetList}>
+        {anomalies.slice(0, WIDGET_LIMIT).map((anomaly) => {
+          const { title, description } = formatUsageAnomaly(anomaly, t);
+          const levelClass = anomaly.severity === 'critical' ? styles.budgetDanger : styles.budgetWarning;
+          return (
+            <div key={anomaly.id} className={styles.budgetItem}>
+              <div className={styles.budgetHeader}>
+                <span className={styles.budgetName}>{title}</span>
+                <span className={`${styles.budgetPercent} ${levelClass}`}>
+                  {t(`usage_stats.anomaly_severity_${anomaly.severity}`)}
+                </span>
+              </div>
+              <div className={styles.budgetMeta}>
+                <span>{description}</span>
+                {anomaly.credential?.link && (
+                  <Link to={anomaly.credential.link} className={styles.viewMoreLink}>
+                    {t(
+                      anomaly.credential.kind === 'file'
+                        ? 'usage_stats.anomaly_open_auth_file'
+                        : 'usage_stats.anomaly_open_provider'
+                    )}{' '}
+                    →
+                  </Link>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <Link to="/usage" className={styles.viewMoreLink}>
+        {t('dashboard.anomaly_view_all')} →
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { formatTokensInMillions, formatUsd } from '@/utils/usage';
+import { getUsageBudgetLabel, type UsageBudgetStatus } from '@/utils/usage/budgets';
+import styles from '@/pages/DashboardPage.module.scss';
+
+export interface UsageBudgetWidgetProps {
+  statuses: UsageBudgetStatus[];
+  loading: boolean;
+}
+
+const WIDGET_LIMIT = 5;
+
+const getLevelClass = (status: UsageBudgetStatus) => {
+  if (status.level === 100) return styles.budgetDanger;
+  if (status.level === 80 || status.level === 50) return styles.budgetWarning;
+  return styles.budgetNormal;
+};
+
+export function UsageBudgetWidget({ statuses, loading }: UsageBudgetWidgetProps) {
+  const { t } = useTranslation();
+  // 已用比例最高的预算排在前面
+  const topStatuses = [...statuses].sort((a, b) => b.ratio - a.ratio).slice(0, WIDGET_LIMIT);
+  const exceededCount = statuses.filter((status) => status.level === 100).length;
+
+  return (
+    <div className={styles.section}>
+      <h2 className={styles.sectionTitle}>{t('dashboard.budget_title')}</h2>
+      {loading ? (
+        <div className={styles.usageLoading}>{t('common.loading')}</div>
+      ) : topStatuses.length === 0 ? (
+        <div className={styles.usageEmpty}>{t('dashboard.budget_empty')}</div>
+      ) : (
+        <div className={styles.budgetList}>
+          {exceededCount > 0 && (
+            <div className={styles.budgetExceeded}>{t('dashboard.budget_exceeded', { count: exceededCount })}</div>
+          )}
+          {topStatuses.map((status) => {
+            const { budget } = status;
+            return (
+              <div key={budget.id} className={styles.budgetItem}>
+                <div className={styles.budgetHeader}>
+                  <span className={styles.budgetName}>{getUsageBudgetLabel(budget)}</span>
+                  <span className={`${styles.budgetPercent} ${getLevelClass(status)}`}>
+                    {Math.round(status.ratio * 100)}%
+                  </span>
+                </div>
+                <div className={styles.budgetBar}>
+                  <div
+                    className={`${styles.budgetBarFill} ${getLevelClass(status)}`}
+                    style={{ width: `${Math.min(status.ratio * 100, 100)}%` }}
+                  />
+                </div>
+                <div className={styles.budgetMeta}>
+                  <span>{t(`usage_stats.budget_period_${budget.period}`)}</span>
+                  {budget.tokenLimit !== undefined && (
+                    <span>
+                      {formatTokensInMillions(status.tokens)} / {formatTokensInMillions(budget.tokenLimit)}
+                    </span>
+                  )}
+                  {budget.costLimit !== undefined && (
+                    <span>
+                      {formatUsd(status.cost)} / {formatUsd(budget.costLimit)}
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <Link to="/usage" className={styles.viewMoreLink}>
+        {t('dashboard.budget_manage')} →
+      </Link>
+    </div>
+  );
+}
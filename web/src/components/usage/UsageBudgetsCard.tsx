@@ -0,0 +1,321 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useNotificationStore } from '@/stores';
+import { maskApiKey } from '@/utils/format';
+import { formatTokensInMillions, formatUsd } from '@/utils/usage';
+import {
+  USAGE_BUDGET_PERIODS,
+  USAGE_BUDGET_SCOPES,
+  getUsageBudgetAlertLevel,
+  getUsageBudgetLabel,
+  normalizeUsageBudgets,
+  type UsageBudget,
+  type UsageBudgetPeriod,
+  type UsageBudgetScope,
+  type UsageBudgetStatus
+} from '@/utils/usage/budgets';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageBudgetsCardProps {
+  budgets: UsageBudget[];
+  statuses: UsageBudgetStatus[];
+  loading: boolean;
+  saving: boolean;
+  onSave: (budgets: UsageBudget[]) => Promise<void>;
+  /** 可选的客户端 API Key（配置中的与使用记录中出现过的） */
+  apiKeys: string[];
+  modelNames: string[];
+  hasPrices: boolean;
+}
+
+interface BudgetDraft {
+  name: string;
+  scope: UsageBudgetScope;
+  target: string;
+  period: UsageBudgetPeriod;
+  tokenLimit: string;
+  costLimit: string;
+}
+
+const EMPTY_DRAFT: BudgetDraft = {
+  name: '',
+  scope: 'global',
+  target: '',
+  period: 'monthly',
+  tokenLimit: '',
+  costLimit: ''
+};
+
+const toDraft = (budget: UsageBudget): BudgetDraft => ({
+  name: budget.name,
+  scope: budget.scope,
+  target: budget.target || '',
+  period: budget.period,
+  tokenLimit: budget.tokenLimit?.toString() ?? '',
+  costLimit: budget.costLimit?.toString() ?? ''
+});
+
+const getProgressClass = (ratio: number | null) => {
+  const level = getUsageBudgetAlertLevel(ratio ?? 0);
+  if (level === 100) return styles.budgetProgressDanger;
+  if (level === 80) return styles.budgetProgressWarning;
+  return styles.budgetProgressNormal;
+};
+
+export function UsageBudgetsCard({
+  budgets,
+  statuses,
+  loading,
+  saving,
+  onSave,
+  apiKeys,
+  modelNames,
+  hasPrices
+}: UsageBudgetsCardProps) {
+  const { t } = useTranslation();
+  const { showNotification, showConfirmation } = useNotificationStore();
+  const [draft, setDraft] = useState<BudgetDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const statusById = useMemo(() => new Map(statuses.map((status) => [status.budget.id, status])), [statuses]);
+
+  const updateDraft = <K extends keyof BudgetDraft>(field: K, value: BudgetDraft[K]) => {
+    setDraft((prev) => ({ ...prev, [field]: value, ...(field === 'scope' ? { target: '' } : {}) }));
+  };
+
+  const resetForm = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+  };
+
+  const persist = async (next: UsageBudget[], successKey: string) => {
+    try {
+      await onSave(next);
+      showNotification(t(successKey), 'success');
+      return true;
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      showNotification(`${t('usage_stats.budget_save_failed')}${message ? `: ${message}` : ''}`, 'error');
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    const id = editingId ?? `budget-${Date.now().toString(36)}`;
+    const [budget] = normalizeUsageBudgets({ [id]: draft });
+    if (!budget) {
+      showNotification(t('usage_stats.budget_invalid'), 'error');
+      return;
+    }
+    const next = editingId ? budgets.map((item) => (item.id === editingId ? budget : item)) : [...budgets, budget];
+    if (await persist(next, 'usage_stats.budget_saved')) {
+      resetForm();
+    }
+  };
+
+  const handleDelete = (budget: UsageBudget) => {
+    showConfirmation({
+      title: t('usage_stats.budget_delete'),
+      message: t('usage_stats.budget_delete_confirm', { name: getUsageBudgetLabel(budget) }),
+      variant: 'danger',
+      confirmText: t('common.confirm'),
+      onConfirm: async () => {
+        if (await persist(budgets.filter((item) => item.id !== budget.id), 'usage_stats.budget_deleted')) {
+          if (editingId === budget.id) resetForm();
+        }
+      }
+    });
+  };
+
+  const renderScope = (budget: UsageBudget) =>
+    budget.scope === 'global'
+      ? t('usage_stats.budget_scope_global')
+      : `${t(`usage_stats.budget_scope_${budget.scope}`)}: ${
+          budget.scope === 'apiKey' ? maskApiKey(budget.target || '') : budget.target
+        }`;
+
+  return (
+    <Card title={t('usage_stats.budget_title')}>
+      <div className={styles.pricingSection}>
+        {/* Budget Form */}
+        <div className={styles.priceForm}>
+          <div className={styles.formRow}>
+            <div className={styles.formField}>
+              <label>{t('usage_stats.budget_name')}</label>
+              <Input
+                value={draft.name}
+                onChange={(e) => updateDraft('name', e.target.value)}
+                placeholder={t('usage_stats.budget_name_placeholder')}
+              />
+            </div>
+            <div className={styles.formField}>
+              <label>{t('usage_stats.budget_scope')}</label>
+              <select
+                value={draft.scope}
+                onChange={(e) => updateDraft('scope', e.target.value as UsageBudgetScope)}
+                className={styles.select}
+              >
+                {USAGE_BUDGET_SCOPES.map((scope) => (
+                  <option key={scope} value={scope}>
+                    {t(`usage_stats.budget_scope_${scope}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {draft.scope === 'apiKey' && (
+              <div className={styles.formField}>
+                <label>{t('usage_stats.budget_scope_apiKey')}</label>
+                <select
+                  value={draft.target}
+                  onChange={(e) => updateDraft('target', e.target.value)}
+                  className={styles.select}
+                >
+                  <option value="">{t('usage_stats.budget_target_placeholder')}</option>
+                  {apiKeys.map((key) => (
+                    <option key={key} value={key}>
+                      {maskApiKey(key)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {draft.scope === 'model' && (
+              <div className={styles.formField}>
+                <label>{t('usage_stats.budget_scope_model')}</label>
+                <Input
+                  value={draft.target}
+                  onChange={(e) => updateDraft('target', e.target.value)}
+                  placeholder={t('usage_stats.model_price_select_placeholder')}
+                  list="usage-budget-model-names"
+                  title={t('usage_stats.model_price_pattern_hint')}
+                />
+                <datalist id="usage-budget-model-names">
+                  {modelNames.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+              </div>
+            )}
+            <div className={styles.formField}>
+              <label>{t('usage_stats.budget_period')}</label>
+              <select
+                value={draft.period}
+                onChange={(e) => updateDraft('period', e.target.value as UsageBudgetPeriod)}
+                className={styles.select}
+              >
+                {USAGE_BUDGET_PERIODS.map((period) => (
+                  <option key={period} value={period}>
+                    {t(`usage_stats.budget_period_${period}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className={styles.formField}>
+              <label>{t('usage_stats.budget_token_limit')}</label>
+              <Input
+                type="number"
+                value={draft.tokenLimit}
+                onChange={(e) => updateDraft('tokenLimit', e.target.value)}
+                placeholder="0"
+                step="1000000"
+              />
+            </div>
+            <div className={styles.formField}>
+              <label>{t('usage_stats.budget_cost_limit')} ($)</label>
+              <Input
+                type="number"
+                value={draft.costLimit}
+                onChange={(e) => updateDraft('costLimit', e.target.value)}
+                placeholder="0.00"
+                step="0.01"
+              />
+            </div>
+            <Button variant="primary" onClick={handleSave} loading={saving}>
+              {editingId ? t('common.save') : t('usage_stats.budget_add')}
+            </Button>
+            {editingId && (
+              <Button variant="secondary" onClick={resetForm} disabled={saving}>
+                {t('common.cancel')}
+              </Button>
+            )}
+          </div>
+          {!hasPrices && <div className={styles.hint}>{t('usage_stats.budget_no_prices_hint')}</div>}
+        </div>
+
+        {/* Budget List */}
+        <div className={styles.pricesList}>
+          {loading ? (
+            <div className={styles.hint}>{t('common.loading')}</div>
+          ) : budgets.length > 0 ? (
+            <div className={styles.pricesGrid}>
+              {budgets.map((budget) => {
+                const status = statusById.get(budget.id);
+                return (
+                  <div key={budget.id} className={styles.priceItem}>
+                    <div className={styles.priceInfo}>
+                      <span className={styles.priceModel}>{getUsageBudgetLabel(budget)}</span>
+                      <div className={styles.priceMeta}>
+                        <span>{renderScope(budget)}</span>
+                        <span>{t(`usage_stats.budget_period_${budget.period}`)}</span>
+                        {status && (
+                          <span>{t('usage_stats.budget_requests', { count: status.requests })}</span>
+                        )}
+                      </div>
+                      {status && budget.tokenLimit !== undefined && (
+                        <div className={styles.budgetProgressRow}>
+                          <span className={styles.budgetProgressLabel}>
+                            {t('usage_stats.tokens_count')}: {formatTokensInMillions(status.tokens)} /{' '}
+                            {formatTokensInMillions(budget.tokenLimit)}
+                          </span>
+                          <div className={styles.budgetProgress}>
+                            <div
+                              className={`${styles.budgetProgressFill} ${getProgressClass(status.tokenRatio)}`}
+                              style={{ width: `${Math.min((status.tokenRatio ?? 0) * 100, 100)}%` }}
+                            />
+                          </div>
+                        </div>
+                      )}
+                      {status && budget.costLimit !== undefined && (
+                        <div className={styles.budgetProgressRow}>
+                          <span className={styles.budgetProgressLabel}>
+                            {t('usage_stats.total_cost')}: {formatUsd(status.cost)} / {formatUsd(budget.costLimit)}
+                          </span>
+                          <div className={styles.budgetProgress}>
+                            <div
+                              className={`${styles.budgetProgressFill} ${getProgressClass(status.costRatio)}`}
+                              style={{ width: `${Math.min((status.costRatio ?? 0) * 100, 100)}%` }}
+                            />
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                    <div className={styles.priceActions}>
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => {
+                          setEditingId(budget.id);
+                          setDraft(toDraft(budget));
+                        }}
+                      >
+                        {t('common.edit')}
+                      </Button>
+                      <Button variant="danger" size="sm" onClick={() => handleDelete(budget)} disabled={saving}>
+                        {t('common.delete')}
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className={styles.hint}>{t('usage_stats.budget_empty')}</div>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
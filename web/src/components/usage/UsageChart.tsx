@@ -2,15 +2,13 @@ import { useTranslation } from 'react-i18next';
 import type { ChartOptions } from 'chart.js';
 import { Line } from 'react-chartjs-2';
 import { Card } from '@/components/ui/Card';
-import { Button } from '@/components/ui/Button';
-import type { ChartData } from '@/utils/usage';
+import { isSubDayGranularity, type ChartData, type UsageGranularity } from '@/utils/usage';
 import { getHourChartMinWidth } from '@/utils/usage/chartConfig';
 import styles from '@/pages/UsagePage.module.scss';
 
 export interface UsageChartProps {
   title: string;
-  period: 'hour' | 'day';
-  onPeriodChange: (period: 'hour' | 'day') => void;
+  granularity: UsageGranularity;
   chartData: ChartData;
   chartOptions: ChartOptions<'line'>;
   loading: boolean;
@@ -20,8 +18,7 @@ export interface UsageChartProps {
 
 export function UsageChart({
   title,
-  period,
-  onPeriodChange,
+  granularity,
   chartData,
   chartOptions,
   loading,
@@ -33,24 +30,7 @@ export function UsageChart({
   return (
     <Card
       title={title}
-      extra={
-        <div className={styles.periodButtons}>
-          <Button
-            variant={period === 'hour' ? 'primary' : 'secondary'}
-            size="sm"
-            onClick={() => onPeriodChange('hour')}
-          >
-            {t('usage_stats.by_hour')}
-          </Button>
-          <Button
-            variant={period === 'day' ? 'primary' : 'secondary'}
-            size="sm"
-            onClick={() => onPeriodChange('day')}
-          >
-            {t('usage_stats.by_day')}
-          </Button>
-        </div>
-      }
+      extra={<span className={styles.chartGranularity}>{t(`usage_stats.granularity_${granularity}`)}</span>}
     >
       {loading ? (
         <div className={styles.hint}>{t('common.loading')}</div>
@@ -73,7 +53,7 @@ export function UsageChart({
               <div
                 className={styles.chartCanvas}
                 style={
-                  period === 'hour'
+                  isSubDayGranularity(granularity)
                     ? { minWidth: getHourChartMinWidth(chartData.labels.length, isMobile) }
                     : undefined
                 }
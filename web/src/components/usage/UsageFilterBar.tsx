@@ -0,0 +1,90 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import type { AuthFileItem } from '@/types/authFile';
+import type { Config } from '@/types/config';
+import type { UsageFilter, UsageStatusFilter } from '@/utils/usage';
+import { buildCredentialIndex } from '@/utils/usage/credentials';
+import { USAGE_STATUS_FILTERS, buildUsageFilterOptions, type UsageFilterOption } from '@/utils/usage/filters';
+import type { UsagePayload } from './hooks/useUsageData';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageFilterBarProps {
+  /** 未筛选的用量数据，用于收集可选项 */
+  usage: UsagePayload | null;
+  authFiles: AuthFileItem[];
+  config: Config | null;
+  filter: UsageFilter;
+  active: boolean;
+  onChange: (patch: Partial<UsageFilter>) => void;
+  onClear: () => void;
+}
+
+type UsageFilterField = Exclude<keyof UsageFilter, 'status'>;
+
+// 书签中的筛选值可能已不在当前数据中，仍保留为可选项以便显示与清除
+const withCurrentValue = (options: UsageFilterOption[], value: string | undefined) =>
+  value && !options.some((option) => option.value === value) ? [{ value, label: value }, ...options] : options;
+
+export function UsageFilterBar({ usage, authFiles, config, filter, active, onChange, onClear }: UsageFilterBarProps) {
+  const { t } = useTranslation();
+
+  const options = useMemo(
+    () => buildUsageFilterOptions(usage, buildCredentialIndex(authFiles, config)),
+    [usage, authFiles, config]
+  );
+
+  const fields: Array<{ key: UsageFilterField; label: string; options: UsageFilterOption[] }> = [
+    { key: 'model', label: t('usage_stats.filter_model'), options: options.models },
+    { key: 'endpoint', label: t('usage_stats.filter_endpoint'), options: options.endpoints },
+    { key: 'source', label: t('usage_stats.filter_source'), options: options.sources },
+    { key: 'authIndex', label: t('usage_stats.filter_auth_index'), options: options.authIndexes }
+  ];
+
+  const fieldClass = (value: string | undefined) =>
+    value ? `${styles.filterField} ${styles.filterActive}` : styles.filterField;
+
+  return (
+    <div className={styles.filterBar} role="group" aria-label={t('usage_stats.filter_label')}>
+      {fields.map((field) => (
+        <label key={field.key} className={fieldClass(filter[field.key])}>
+          <span>{field.label}</span>
+          <select
+            value={filter[field.key] ?? ''}
+            onChange={(e) => onChange({ [field.key]: e.target.value || undefined })}
+            className={styles.select}
+          >
+            <option value="">{t('usage_stats.filter_all')}</option>
+            {withCurrentValue(field.options, filter[field.key]).map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+
+      <label className={fieldClass(filter.status)}>
+        <span>{t('usage_stats.filter_status')}</span>
+        <select
+          value={filter.status ?? ''}
+          onChange={(e) => onChange({ status: (e.target.value || undefined) as UsageStatusFilter | undefined })}
+          className={styles.select}
+        >
+          <option value="">{t('usage_stats.filter_all')}</option>
+          {USAGE_STATUS_FILTERS.map((status) => (
+            <option key={status} value={status}>
+              {t(`usage_stats.filter_status_${status}`)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {active && (
+        <Button variant="secondary" size="sm" onClick={onClear}>
+          {t('usage_stats.filter_clear')}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useTranslation } from 'react-i18next';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { useNotificationStore } from '@/stores';
+import { USAGE_HISTORY_RETENTION_OPTIONS, type UsageHistoryStats } from '@/utils/usage/history';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageHistoryCardProps {
+  stats: UsageHistoryStats | null;
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+  onClear: () => Promise<void>;
+  clearing: boolean;
+  disabled?: boolean;
+}
+
+const formatDate = (time?: number) => (time ? new Date(time).toLocaleString() : '-');
+
+export function UsageHistoryCard({
+  stats,
+  retentionDays,
+  onRetentionChange,
+  onClear,
+  clearing,
+  disabled = false
+}: UsageHistoryCardProps) {
+  const { t } = useTranslation();
+  const { showConfirmation } = useNotificationStore();
+
+  const handleRetentionChange = (value: string) => {
+    const days = Number(value);
+    if (!Number.isFinite(days) || days === retentionDays) return;
+    // 缩短保留期会在下次刷新时删除更早的记录，需要确认
+    if (days < retentionDays && stats && stats.count > 0) {
+      showConfirmation({
+        title: t('usage_stats.history_retention'),
+        message: t('usage_stats.history_retention_shrink_confirm', { days }),
+        variant: 'danger',
+        confirmText: t('common.confirm'),
+        onConfirm: () => onRetentionChange(days)
+      });
+      return;
+    }
+    onRetentionChange(days);
+  };
+
+  const handleClear = () => {
+    showConfirmation({
+      title: t('usage_stats.history_clear'),
+      message: t('usage_stats.history_clear_confirm'),
+      variant: 'danger',
+      confirmText: t('common.confirm'),
+      onConfirm: onClear
+    });
+  };
+
+  return (
+    <Card title={t('usage_stats.history_title')}>
+      <div className={styles.historySection}>
+        {stats ? (
+          <div className={styles.historyStats}>
+            <div className={styles.historyStat}>
+              <span className={styles.historyStatLabel}>{t('usage_stats.history_records')}</span>
+              <span className={styles.historyStatValue}>{stats.count.toLocaleString()}</span>
+            </div>
+            <div className={styles.historyStat}>
+              <span className={styles.historyStatLabel}>{t('usage_stats.history_oldest')}</span>
+              <span className={styles.historyStatValue}>{formatDate(stats.oldest)}</span>
+            </div>
+            <div className={styles.historyStat}>
+              <span className={styles.historyStatLabel}>{t('usage_stats.history_newest')}</span>
+              <span className={styles.historyStatValue}>{formatDate(stats.newest)}</span>
+            </div>
+          </div>
+        ) : (
+          <div className={styles.hint}>{t('usage_stats.history_unavailable')}</div>
+        )}
+
+        <div className={styles.formRow}>
+          <div className={styles.formField}>
+            <label>{t('usage_stats.history_retention')}</label>
+            <select
+              value={retentionDays}
+              onChange={(e) => handleRetentionChange(e.target.value)}
+              className={styles.select}
+              disabled={disabled || !stats}
+            >
+              {USAGE_HISTORY_RETENTION_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {t('usage_stats.history_retention_days', { days })}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Button
+            variant="danger"
+            onClick={handleClear}
+            loading={clearing}
+            disabled={disabled || !stats || stats.count === 0}
+          >
+            {t('usage_stats.history_clear')}
+          </Button>
+        </div>
+
+        <div className={styles.hint}>{t('usage_stats.history_hint')}</div>
+      </div>
+    </Card>
+  );
+}
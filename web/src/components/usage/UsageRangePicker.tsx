@@ -0,0 +1,82 @@
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/Button';
+import type { UsageGranularity } from '@/utils/usage';
+import { USAGE_RANGE_PRESETS, type UsageCustomRange, type UsageRangePreset } from '@/utils/usage/range';
+import type { UsageGranularityOption } from './hooks/useUsageRange';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageRangePickerProps {
+  preset: UsageRangePreset;
+  onPresetChange: (preset: UsageRangePreset) => void;
+  customRange: UsageCustomRange;
+  onCustomRangeChange: (range: UsageCustomRange) => void;
+  granularity: UsageGranularity;
+  granularityOptions: UsageGranularityOption[];
+  onGranularityChange: (granularity: UsageGranularity) => void;
+}
+
+export function UsageRangePicker({
+  preset,
+  onPresetChange,
+  customRange,
+  onCustomRangeChange,
+  granularity,
+  granularityOptions,
+  onGranularityChange
+}: UsageRangePickerProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className={styles.rangeBar}>
+      <div className={styles.periodButtons} role="group" aria-label={t('usage_stats.range_label')}>
+        {USAGE_RANGE_PRESETS.map((item) => (
+          <Button
+            key={item}
+            variant={preset === item ? 'primary' : 'secondary'}
+            size="sm"
+            onClick={() => onPresetChange(item)}
+          >
+            {t(`usage_stats.range_${item}`)}
+          </Button>
+        ))}
+      </div>
+
+      {preset === 'custom' && (
+        <div className={styles.rangeCustom}>
+          <input
+            type="datetime-local"
+            className={styles.rangeInput}
+            value={customRange.start}
+            max={customRange.end || undefined}
+            onChange={(e) => onCustomRangeChange({ ...customRange, start: e.target.value })}
+            aria-label={t('usage_stats.range_start')}
+          />
+          <span className={styles.rangeSeparator}>–</span>
+          <input
+            type="datetime-local"
+            className={styles.rangeInput}
+            value={customRange.end}
+            min={customRange.start || undefined}
+            onChange={(e) => onCustomRangeChange({ ...customRange, end: e.target.value })}
+            aria-label={t('usage_stats.range_end')}
+          />
+        </div>
+      )}
+
+      <label className={styles.rangeGranularity}>
+        <span>{t('usage_stats.granularity')}</span>
+        <select
+          value={granularity}
+          onChange={(e) => onGranularityChange(e.target.value as UsageGranularity)}
+          className={styles.select}
+        >
+          {granularityOptions.map((option) => (
+            <option key={option.value} value={option.value} disabled={option.disabled}>
+              {t(`usage_stats.granularity_${option.value}`)}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { useNotificationStore } from '@/stores';
+import type { AuthFileItem } from '@/types/authFile';
+import type { Config } from '@/types/config';
+import type { ModelPrice, UsageTimeRange } from '@/utils/usage';
+import { buildCredentialIndex } from '@/utils/usage/credentials';
+import {
+  buildUsageReport,
+  formatReportDate,
+  usageReportToCsv,
+  usageReportToHtml,
+  usageReportToXlsx,
+  type UsageReport
+} from '@/utils/usage/report';
+import { renderUsageReportCharts } from '@/utils/usage/reportCharts';
+import type { UsagePayload } from './hooks/useUsageData';
+import styles from '@/pages/UsagePage.module.scss';
+
+export interface UsageReportCardProps {
+  /** 已应用全局筛选、但未按时间范围过滤的用量数据 */
+  usage: UsagePayload | null;
+  range: UsageTimeRange;
+  modelPrices: Record<string, ModelPrice>;
+  authFiles: AuthFileItem[];
+  config: Config | null;
+  loading: boolean;
+}
+
+type ReportFormat = 'csv' | 'xlsx' | 'html';
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.URL.revokeObjectURL(url);
+};
+
+// 新窗口需要在加载完成后才能读取 blob URL，延迟释放
+const PRINT_URL_REVOKE_DELAY_MS = 60 * 1000;
+
+export function UsageReportCard({ usage, range, modelPrices, authFiles, config, loading }: UsageReportCardProps) {
+  const { t, i18n } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const [generating, setGenerating] = useState<ReportFormat | null>(null);
+
+  const buildReport = (): UsageReport =>
+    buildUsageReport(usage, range, modelPrices, buildCredentialIndex(authFiles, config));
+
+  const buildFilename = (report: UsageReport, extension: string) =>
+    `usage-report-${formatReportDate(report.range.start)}_${formatReportDate(report.range.end)}.${extension}`;
+
+  const buildHtml = (report: UsageReport) =>
+    usageReportToHtml(
+      report,
+      {
+        title: t('usage_stats.report_html_title'),
+        range: t('usage_stats.report_range'),
+        generatedAt: t('usage_stats.report_generated_at'),
+        requests: t('usage_stats.requests_count'),
+        successRate: t('usage_stats.success_rate'),
+        failures: t('usage_stats.credential_failures'),
+        totalTokens: t('usage_stats.tokens_count'),
+        inputTokens: t('usage_stats.input_tokens'),
+        outputTokens: t('usage_stats.output_tokens'),
+        cachedTokens: t('usage_stats.cached_tokens'),
+        cost: t('usage_stats.total_cost'),
+        daily: t('usage_stats.report_section_daily'),
+        models: t('usage_stats.report_section_models'),
+        credentials: t('usage_stats.report_section_credentials'),
+        date: t('usage_stats.report_date'),
+        model: t('usage_stats.model_name'),
+        credential: t('usage_stats.credential_name'),
+        provider: t('usage_stats.credential_provider'),
+        print: t('usage_stats.report_print')
+      },
+      renderUsageReportCharts(report, {
+        dailyTokens: t('usage_stats.report_chart_daily_tokens'),
+        dailyCost: t('usage_stats.report_chart_daily_cost'),
+        topModels: t('usage_stats.report_chart_top_models')
+      }),
+      i18n.language
+    );
+
+  const handleGenerate = (format: ReportFormat) => {
+    setGenerating(format);
+    // 让按钮先进入加载状态，再执行同步的汇总与图表渲染
+    window.setTimeout(() => {
+      try {
+        const report = buildReport();
+        if (format === 'csv') {
+          downloadBlob(new Blob([usageReportToCsv(report)], { type: 'text/csv;charset=utf-8' }), buildFilename(report, 'csv'));
+        } else if (format === 'xlsx') {
+          downloadBlob(usageReportToXlsx(report), buildFilename(report, 'xlsx'));
+        } else {
+          const blob = new Blob([buildHtml(report)], { type: 'text/html;charset=utf-8' });
+          const url = window.URL.createObjectURL(blob);
+          // 弹窗被拦截时改为下载 HTML 文件
+          if (!window.open(url, '_blank')) {
+            downloadBlob(blob, buildFilename(report, 'html'));
+          }
+          window.setTimeout(() => window.URL.revokeObjectURL(url), PRINT_URL_REVOKE_DELAY_MS);
+        }
+        showNotification(t('usage_stats.report_success'), 'success');
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : '';
+        showNotification(`${t('usage_stats.report_failed')}${message ? `: ${message}` : ''}`, 'error');
+      } finally {
+        setGenerating(null);
+      }
+    }, 0);
+  };
+
+  const disabled = loading || !usage || generating !== null;
+
+  return (
+    <Card title={t('usage_stats.report_title')}>
+      <div className={styles.reportSection}>
+        <div className={styles.reportRange}>
+          {t('usage_stats.report_range')}: {new Date(range.start).toLocaleString()} – {new Date(range.end).toLocaleString()}
+        </div>
+        <div className={styles.hint}>{t('usage_stats.report_hint')}</div>
+        <div className={styles.priceToolbarGroup}>
+          <Button variant="secondary" size="sm" onClick={() => handleGenerate('csv')} disabled={disabled} loading={generating === 'csv'}>
+            {t('usage_stats.report_csv')}
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => handleGenerate('xlsx')} disabled={disabled} loading={generating === 'xlsx'}>
+            {t('usage_stats.report_xlsx')}
+          </Button>
+          <Button variant="primary" size="sm" onClick={() => handleGenerate('html')} disabled={disabled} loading={generating === 'html'}>
+            {t('usage_stats.report_html')}
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,50 @@
+import type { TFunction } from 'i18next';
+import { formatTokensInMillions } from '@/utils/usage';
+import type { UsageAnomaly } from '@/utils/usage/anomalies';
+
+const MINUTE_MS = 60 * 1000;
+
+const formatDuration = (ms: number, t: TFunction) => {
+  const minutes = Math.max(Math.round(ms / MINUTE_MS), 1);
+  if (minutes < 120) return t('usage_stats.anomaly_minutes', { count: minutes });
+  return t('usage_stats.anomaly_hours', { count: Math.round(minutes / 60) });
+};
+
+/**
+ * 异常的标题（受影响对象）与说明文案，使用统计页与仪表盘共用
+ */
+export function formatUsageAnomaly(anomaly: UsageAnomaly, t: TFunction): { title: string; description: string } {
+  const target = anomaly.credential?.label ?? t('usage_stats.anomaly_global');
+  const window = formatDuration(anomaly.windowEnd - anomaly.windowStart, t);
+
+  if (anomaly.type === 'token_spike') {
+    return {
+      title: t('usage_stats.anomaly_token_spike_title', { target }),
+      description: t('usage_stats.anomaly_token_spike_desc', {
+        value: formatTokensInMillions(anomaly.value),
+        baseline: formatTokensInMillions(anomaly.baseline),
+        window
+      })
+    };
+  }
+  if (anomaly.type === 'failure_burst') {
+    return {
+      title: t('usage_stats.anomaly_failure_burst_title', { target }),
+      description: t('usage_stats.anomaly_failure_burst_desc', {
+        failures: anomaly.failures,
+        requests: anomaly.requests,
+        rate: Math.round(anomaly.value * 100),
+        baseline: Math.round(anomaly.baseline * 100),
+        window
+      })
+    };
+  }
+  return {
+    title: t('usage_stats.anomaly_silent_credential_title', { target }),
+    description: t('usage_stats.anomaly_silent_credential_desc', {
+      time: new Date(anomaly.lastSeen).toLocaleString(),
+      duration: formatDuration(anomaly.value, t),
+      count: anomaly.requests
+    })
+  };
+}
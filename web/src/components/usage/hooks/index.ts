@@ -1,8 +1,22 @@
 export { useUsageData } from './useUsageData';
-export type { UsagePayload, UseUsageDataReturn } from './useUsageData';
+export type { UsagePayload, UseUsageDataReturn, ModelPriceStorage } from './useUsageData';
 
 export { useSparklines } from './useSparklines';
 export type { SparklineData, SparklineBundle, UseSparklinesOptions, UseSparklinesReturn } from './useSparklines';
 
 export { useChartData } from './useChartData';
 export type { UseChartDataOptions, UseChartDataReturn } from './useChartData';
+
+export { useUsageRange } from './useUsageRange';
+export type { UsageGranularityOption, UseUsageRangeReturn } from './useUsageRange';
+
+export { useCredentialSources } from './useCredentialSources';
+export type { UseCredentialSourcesReturn } from './useCredentialSources';
+
+export { useUsageBudgets } from './useUsageBudgets';
+export type { UseUsageBudgetsReturn } from './useUsageBudgets';
+
+export { useUsageOverview } from './useUsageOverview';
+export type { UseUsageOverviewReturn } from './useUsageOverview';
+
+export { useUsageAnomalies } from './useUsageAnomalies';
@@ -1,6 +1,12 @@
-import { useState, useMemo } from 'react';
+import { useMemo } from 'react';
 import type { ChartOptions } from 'chart.js';
-import { buildChartData, type ChartData } from '@/utils/usage';
+import {
+  buildChartData,
+  isSubDayGranularity,
+  type ChartData,
+  type UsageGranularity,
+  type UsageTimeRange
+} from '@/utils/usage';
 import { buildChartOptions } from '@/utils/usage/chartConfig';
 import type { UsagePayload } from './useUsageData';
 
@@ -9,13 +15,11 @@ export interface UseChartDataOptions {
   chartLines: string[];
   isDark: boolean;
   isMobile: boolean;
+  range: UsageTimeRange;
+  granularity: UsageGranularity;
 }
 
 export interface UseChartDataReturn {
-  requestsPeriod: 'hour' | 'day';
-  setRequestsPeriod: (period: 'hour' | 'day') => void;
-  tokensPeriod: 'hour' | 'day';
-  setTokensPeriod: (period: 'hour' | 'day') => void;
   requestsChartData: ChartData;
   tokensChartData: ChartData;
   requestsChartOptions: ChartOptions<'line'>;
@@ -26,48 +30,45 @@ export function useChartData({
   usage,
   chartLines,
   isDark,
-  isMobile
+  isMobile,
+  range,
+  granularity
 }: UseChartDataOptions): UseChartDataReturn {
-  const [requestsPeriod, setRequestsPeriod] = useState<'hour' | 'day'>('day');
-  const [tokensPeriod, setTokensPeriod] = useState<'hour' | 'day'>('day');
+  const period = isSubDayGranularity(granularity) ? 'hour' : 'day';
 
   const requestsChartData = useMemo(() => {
     if (!usage) return { labels: [], datasets: [] };
-    return buildChartData(usage, requestsPeriod, 'requests', chartLines);
-  }, [usage, requestsPeriod, chartLines]);
+    return buildChartData(usage, period, 'requests', chartLines, { range, granularity });
+  }, [usage, period, chartLines, range, granularity]);
 
   const tokensChartData = useMemo(() => {
     if (!usage) return { labels: [], datasets: [] };
-    return buildChartData(usage, tokensPeriod, 'tokens', chartLines);
-  }, [usage, tokensPeriod, chartLines]);
+    return buildChartData(usage, period, 'tokens', chartLines, { range, granularity });
+  }, [usage, period, chartLines, range, granularity]);
 
   const requestsChartOptions = useMemo(
     () =>
       buildChartOptions({
-        period: requestsPeriod,
+        period,
         labels: requestsChartData.labels,
         isDark,
         isMobile
       }),
-    [requestsPeriod, requestsChartData.labels, isDark, isMobile]
+    [period, requestsChartData.labels, isDark, isMobile]
   );
 
   const tokensChartOptions = useMemo(
     () =>
       buildChartOptions({
-        period: tokensPeriod,
+        period,
         labels: tokensChartData.labels,
         isDark,
         isMobile
       }),
-    [tokensPeriod, tokensChartData.labels, isDark, isMobile]
+    [period, tokensChartData.labels, isDark, isMobile]
   );
 
   return {
-    requestsPeriod,
-    setRequestsPeriod,
-    tokensPeriod,
-    setTokensPeriod,
     requestsChartData,
     tokensChartData,
     requestsChartOptions,
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react';
+import { authFilesApi } from '@/services/api/authFiles';
+import { useConfigStore } from '@/stores';
+import type { AuthFileItem } from '@/types/authFile';
+import type { Config } from '@/types/config';
+
+export interface UseCredentialSourcesReturn {
+  authFiles: AuthFileItem[];
+  config: Config | null;
+  loading: boolean;
+  reload: () => Promise<void>;
+}
+
+/**
+ * 加载用于关联使用明细的认证文件列表与提供商配置，任一请求失败时保留另一方结果
+ */
+export function useCredentialSources(): UseCredentialSourcesReturn {
+  const config = useConfigStore((state) => state.config);
+  const fetchConfig = useConfigStore((state) => state.fetchConfig);
+  const [authFiles, setAuthFiles] = useState<AuthFileItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSources = useCallback(
+    (forceRefresh = false) =>
+      Promise.allSettled([authFilesApi.list(), fetchConfig(undefined, forceRefresh)]).then(([filesResult]) => {
+        if (filesResult.status === 'fulfilled') {
+          setAuthFiles(filesResult.value?.files || []);
+        }
+        setLoading(false);
+      }),
+    [fetchConfig]
+  );
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    await fetchSources(true);
+  }, [fetchSources]);
+
+  useEffect(() => {
+    void fetchSources();
+  }, [fetchSources]);
+
+  return { authFiles, config, loading, reload };
+}
@@ -24,6 +24,8 @@ export interface SparklineBundle {
 export interface UseSparklinesOptions {
   usage: UsagePayload | null;
   loading: boolean;
+  /** 迷你图窗口的结束时间，默认当前时间 */
+  endTime?: number;
 }
 
 export interface UseSparklinesReturn {
@@ -34,7 +36,7 @@ export interface UseSparklinesReturn {
   costSparkline: SparklineBundle | null;
 }
 
-export function useSparklines({ usage, loading }: UseSparklinesOptions): UseSparklinesReturn {
+export function useSparklines({ usage, loading, endTime }: UseSparklinesOptions): UseSparklinesReturn {
   const buildLastHourSeries = useCallback(
     (metric: 'requests' | 'tokens'): { labels: string[]; data: number[] } => {
       if (!usage) return { labels: [], data: [] };
@@ -42,13 +44,13 @@ export function useSparklines({ usage, loading }: UseSparklinesOptions): UseSpar
       if (!details.length) return { labels: [], data: [] };
 
       const windowMinutes = 60;
-      const now = Date.now();
+      const now = endTime ?? Date.now();
       const windowStart = now - windowMinutes * 60 * 1000;
       const buckets = new Array(windowMinutes).fill(0);
 
       details.forEach((detail) => {
         const timestamp = Date.parse(detail.timestamp);
-        if (Number.isNaN(timestamp) || timestamp < windowStart) {
+        if (Number.isNaN(timestamp) || timestamp < windowStart || timestamp > now) {
           return;
         }
         const minuteIndex = Math.min(
@@ -68,7 +70,7 @@ export function useSparklines({ usage, loading }: UseSparklinesOptions): UseSpar
 
       return { labels, data: buckets };
     },
-    [usage]
+    [usage, endTime]
   );
 
   const buildSparkline = useCallback(
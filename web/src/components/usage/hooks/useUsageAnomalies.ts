@@ -0,0 +1,21 @@
+import { useMemo } from 'react';
+import type { AuthFileItem } from '@/types/authFile';
+import type { Config } from '@/types/config';
+import { buildCredentialIndex } from '@/utils/usage/credentials';
+import { detectUsageAnomalies, type UsageAnomaly } from '@/utils/usage/anomalies';
+import type { UsagePayload } from './useUsageData';
+
+/**
+ * 基于未过滤的用量数据检测异常，凭证信息用于标注与跳转
+ */
+export function useUsageAnomalies(
+  usage: UsagePayload | null,
+  authFiles: AuthFileItem[],
+  config: Config | null
+): UsageAnomaly[] {
+  const credentialIndex = useMemo(() => buildCredentialIndex(authFiles, config), [authFiles, config]);
+  return useMemo(
+    () => (usage ? detectUsageAnomalies(usage, credentialIndex) : []),
+    [usage, credentialIndex]
+  );
+}
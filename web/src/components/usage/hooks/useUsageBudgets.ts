@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNotificationStore } from '@/stores';
+import { usageApi } from '@/services/api/usage';
+import { formatTokensInMillions, formatUsd, type ModelPrice } from '@/utils/usage';
+import {
+  collectUsageBudgetAlerts,
+  evaluateUsageBudgets,
+  getUsageBudgetLabel,
+  loadUsageBudgetAlertState,
+  saveUsageBudgetAlertState,
+  type UsageBudget,
+  type UsageBudgetStatus
+} from '@/utils/usage/budgets';
+import type { UsagePayload } from './useUsageData';
+
+export interface UseUsageBudgetsReturn {
+  budgets: UsageBudget[];
+  statuses: UsageBudgetStatus[];
+  loading: boolean;
+  saving: boolean;
+  /** 保存到 config.yaml，失败时保留原有预算并抛出错误 */
+  saveBudgets: (budgets: UsageBudget[]) => Promise<void>;
+}
+
+const EMPTY_BUDGETS: UsageBudget[] = [];
+
+/**
+ * 加载 config.yaml 中的用量预算并计算当前周期用量，
+ * 新达到 50% / 80% / 100% 阈值时通过通知提醒（同一周期内每个阈值只提醒一次）
+ * 调用方已读取过配置时通过 preloadedBudgets 传入（null 表示仍在加载），不再重复请求
+ */
+export function useUsageBudgets(
+  usage: UsagePayload | null,
+  modelPrices: Record<string, ModelPrice>,
+  preloadedBudgets?: UsageBudget[] | null
+): UseUsageBudgetsReturn {
+  const { t } = useTranslation();
+  const { showNotification } = useNotificationStore();
+  const [loadedBudgets, setBudgets] = useState<UsageBudget[]>([]);
+  const [loadingBudgets, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const preloaded = preloadedBudgets !== undefined;
+  const budgets = preloaded ? preloadedBudgets ?? EMPTY_BUDGETS : loadedBudgets;
+  const loading = preloaded ? preloadedBudgets === null : loadingBudgets;
+
+  useEffect(() => {
+    if (preloaded) return;
+    usageApi
+      .getBudgets()
+      .then(setBudgets)
+      .catch(() => {
+        // 无法读取配置文件时不显示预算
+      })
+      .finally(() => setLoading(false));
+  }, [preloaded]);
+
+  const statuses = useMemo(
+    () => (usage ? evaluateUsageBudgets(usage, budgets, modelPrices) : []),
+    [usage, budgets, modelPrices]
+  );
+
+  useEffect(() => {
+    if (!usage || statuses.length === 0) return;
+    const { alerts, nextState } = collectUsageBudgetAlerts(statuses, loadUsageBudgetAlertState());
+    saveUsageBudgetAlertState(nextState);
+    alerts.forEach((status) => {
+      const usedTokens = status.budget.tokenLimit
+        ? `${formatTokensInMillions(status.tokens)} / ${formatTokensInMillions(status.budget.tokenLimit)}`
+        : '';
+      const usedCost = status.budget.costLimit
+        ? `${formatUsd(status.cost)} / ${formatUsd(status.budget.costLimit)}`
+        : '';
+      showNotification(
+        t(status.level === 100 ? 'usage_stats.budget_alert_exceeded' : 'usage_stats.budget_alert_threshold', {
+          name: getUsageBudgetLabel(status.budget),
+          percent: status.level,
+          used: [usedTokens, usedCost].filter(Boolean).join(', ')
+        }),
+        status.level === 100 ? 'error' : 'warning'
+      );
+    });
+  }, [usage, statuses, showNotification, t]);
+
+  const saveBudgets = useCallback(async (next: UsageBudget[]) => {
+    setSaving(true);
+    try {
+      await usageApi.saveBudgets(next);
+      setBudgets(next);
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  return { budgets, statuses, loading, saving, saveBudgets };
+}
@@ -3,6 +3,13 @@ import { useTranslation } from 'react-i18next';
 import { useNotificationStore } from '@/stores';
 import { usageApi } from '@/services/api/usage';
 import { loadModelPrices, saveModelPrices, type ModelPrice } from '@/utils/usage';
+import {
+  loadUsageHistoryRetention,
+  purgeUsageHistory,
+  saveUsageHistoryRetention,
+  syncUsageHistory,
+  type UsageHistoryStats
+} from '@/utils/usage/history';
 
 export interface UsagePayload {
   total_requests?: number;
@@ -26,8 +33,21 @@ export interface UseUsageDataReturn {
   importInputRef: React.RefObject<HTMLInputElement | null>;
   exporting: boolean;
   importing: boolean;
+  /** 本地历史记录统计，IndexedDB 不可用时为 null */
+  historyStats: UsageHistoryStats | null;
+  historyRetentionDays: number;
+  setHistoryRetentionDays: (days: number) => void;
+  clearHistory: () => Promise<void>;
+  clearingHistory: boolean;
+  /** 价格表来源：server 表示已与 config.yaml 中的共享价格表同步 */
+  pricesStorage: ModelPriceStorage;
+  pricesSyncing: boolean;
+  /** 将当前价格表上传到服务端 */
+  syncModelPrices: () => void;
 }
 
+export type ModelPriceStorage = 'server' | 'local';
+
 export function useUsageData(): UseUsageDataReturn {
   const { t } = useTranslation();
   const { showNotification } = useNotificationStore();
@@ -39,6 +59,13 @@ export function useUsageData(): UseUsageDataReturn {
   const [exporting, setExporting] = useState(false);
   const [importing, setImporting] = useState(false);
   const importInputRef = useRef<HTMLInputElement | null>(null);
+  const [historyStats, setHistoryStats] = useState<UsageHistoryStats | null>(null);
+  const [historyRetentionDays, setHistoryRetentionDaysState] = useState(loadUsageHistoryRetention);
+  const [clearingHistory, setClearingHistory] = useState(false);
+  const [pricesStorage, setPricesStorage] = useState<ModelPriceStorage>('local');
+  const [pricesSyncing, setPricesSyncing] = useState(false);
+  // 串行化价格表写入，避免连续编辑时的并发写覆盖
+  const pricesSaveQueueRef = useRef<Promise<void>>(Promise.resolve());
 
   const loadUsage = useCallback(async () => {
     setLoading(true);
@@ -46,20 +73,38 @@ export function useUsageData(): UseUsageDataReturn {
     try {
       const data = await usageApi.getUsage();
       const payload = data?.usage ?? data;
-      setUsage(payload);
+      // 保存本次明细并合并本地历史，服务重启后仍可查看更早的数据
+      const synced = await syncUsageHistory(payload, historyRetentionDays);
+      setUsage(synced.usage);
+      setHistoryStats(synced.stats);
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : t('usage_stats.loading_error');
       setError(message);
     } finally {
       setLoading(false);
     }
-  }, [t]);
+  }, [historyRetentionDays, t]);
 
   useEffect(() => {
     loadUsage();
     setModelPrices(loadModelPrices());
   }, [loadUsage]);
 
+  // 服务端共享价格表优先于本地缓存
+  useEffect(() => {
+    usageApi
+      .getModelPrices()
+      .then((prices) => {
+        if (!prices) return;
+        setModelPrices(prices);
+        saveModelPrices(prices);
+        setPricesStorage('server');
+      })
+      .catch(() => {
+        // 无法读取配置文件时继续使用本地价格表
+      });
+  }, []);
+
   const handleExport = async () => {
     setExporting(true);
     try {
@@ -131,11 +176,67 @@ export function useUsageData(): UseUsageDataReturn {
     }
   };
 
-  const handleSetModelPrices = useCallback((prices: Record<string, ModelPrice>) => {
-    setModelPrices(prices);
-    saveModelPrices(prices);
+  const uploadModelPrices = useCallback(
+    (prices: Record<string, ModelPrice>) => {
+      setPricesSyncing(true);
+      const task = pricesSaveQueueRef.current.then(() =>
+        usageApi
+          .saveModelPrices(prices)
+          .then(() => setPricesStorage('server'))
+          .catch((err: unknown) => {
+            setPricesStorage('local');
+            const message = err instanceof Error ? err.message : '';
+            showNotification(
+              `${t('usage_stats.model_price_sync_failed')}${message ? `: ${message}` : ''}`,
+              'error'
+            );
+          })
+      );
+      pricesSaveQueueRef.current = task;
+      task.finally(() => {
+        if (pricesSaveQueueRef.current === task) {
+          setPricesSyncing(false);
+        }
+      });
+    },
+    [showNotification, t]
+  );
+
+  const handleSetModelPrices = useCallback(
+    (prices: Record<string, ModelPrice>) => {
+      setModelPrices(prices);
+      saveModelPrices(prices);
+      uploadModelPrices(prices);
+    },
+    [uploadModelPrices]
+  );
+
+  const syncModelPrices = useCallback(() => {
+    uploadModelPrices(modelPrices);
+  }, [modelPrices, uploadModelPrices]);
+
+  const handleSetHistoryRetentionDays = useCallback((days: number) => {
+    setHistoryRetentionDaysState(days);
+    saveUsageHistoryRetention(days);
   }, []);
 
+  const clearHistory = async () => {
+    setClearingHistory(true);
+    try {
+      const removed = await purgeUsageHistory();
+      showNotification(t('usage_stats.history_cleared', { count: removed }), 'success');
+      await loadUsage();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : '';
+      showNotification(
+        `${t('usage_stats.history_clear_failed')}${message ? `: ${message}` : ''}`,
+        'error'
+      );
+    } finally {
+      setClearingHistory(false);
+    }
+  };
+
   return {
     usage,
     loading,
@@ -148,6 +249,14 @@ export function useUsageData(): UseUsageDataReturn {
     handleImportChange,
     importInputRef,
     exporting,
-    importing
+    importing,
+    historyStats,
+    historyRetentionDays,
+    setHistoryRetentionDays: handleSetHistoryRetentionDays,
+    clearHistory,
+    clearingHistory,
+    pricesStorage,
+    pricesSyncing,
+    syncModelPrices
   };
 }
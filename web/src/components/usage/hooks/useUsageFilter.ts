@@ -0,0 +1,40 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { isUsageFilterActive, type UsageFilter } from '@/utils/usage';
+import { applyUsageFilterParams, parseUsageFilterParams } from '@/utils/usage/filters';
+
+export interface UseUsageFilterReturn {
+  /** 从 URL 查询参数解析出的筛选条件 */
+  filter: UsageFilter;
+  active: boolean;
+  updateFilter: (patch: Partial<UsageFilter>) => void;
+  clearFilter: () => void;
+}
+
+export function useUsageFilter(): UseUsageFilterReturn {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filter = useMemo(() => parseUsageFilterParams(searchParams), [searchParams]);
+
+  // 筛选变化不产生新的历史记录，避免返回键逐项撤销筛选
+  const updateFilter = useCallback(
+    (patch: Partial<UsageFilter>) => {
+      setSearchParams(
+        (prev) => applyUsageFilterParams(prev, { ...parseUsageFilterParams(prev), ...patch }),
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  const clearFilter = useCallback(() => {
+    setSearchParams((prev) => applyUsageFilterParams(prev, {}), { replace: true });
+  }, [setSearchParams]);
+
+  return {
+    filter,
+    active: isUsageFilterActive(filter),
+    updateFilter,
+    clearFilter
+  };
+}
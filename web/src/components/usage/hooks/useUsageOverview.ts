@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { usageApi } from '@/services/api/usage';
+import { loadModelPrices, type ModelPrice } from '@/utils/usage';
+import { loadUsageHistoryRetention, syncUsageHistory } from '@/utils/usage/history';
+import type { UsageBudget, UsageBudgetStatus } from '@/utils/usage/budgets';
+import { useUsageBudgets } from './useUsageBudgets';
+import type { UsagePayload } from './useUsageData';
+
+export interface UseUsageOverviewReturn {
+  usage: UsagePayload | null;
+  budgets: UsageBudget[];
+  budgetStatuses: UsageBudgetStatus[];
+  loading: boolean;
+}
+
+/**
+ * 仪表盘使用的用量概览：在使用统计页之外独立加载用量（含本地历史）与价格表，并评估预算
+ * 价格表与预算来自同一次 config.yaml 请求
+ */
+export function useUsageOverview(enabled: boolean): UseUsageOverviewReturn {
+  const [usage, setUsage] = useState<UsagePayload | null>(null);
+  const [usageLoading, setUsageLoading] = useState(true);
+  const [modelPrices, setModelPrices] = useState<Record<string, ModelPrice>>(loadModelPrices);
+  const [loadedBudgets, setLoadedBudgets] = useState<UsageBudget[] | null>(null);
+  const { budgets, statuses } = useUsageBudgets(usage, modelPrices, loadedBudgets);
+
+  useEffect(() => {
+    if (!enabled) return;
+    usageApi
+      .getUsage()
+      .then((data) => syncUsageHistory(data?.usage ?? data, loadUsageHistoryRetention()))
+      .then((synced) => setUsage(synced.usage))
+      .catch(() => {
+        // 仪表盘上忽略用量加载失败
+      })
+      .finally(() => setUsageLoading(false));
+    usageApi
+      .getUsageSettings()
+      .then((settings) => {
+        if (settings.modelPrices) setModelPrices(settings.modelPrices);
+        setLoadedBudgets(settings.budgets);
+      })
+      .catch(() => {
+        // 无法读取配置文件时使用本地价格表且不显示预算
+        setLoadedBudgets([]);
+      });
+  }, [enabled]);
+
+  return {
+    usage,
+    budgets,
+    budgetStatuses: statuses,
+    loading: enabled && (loadedBudgets === null || usageLoading)
+  };
+}
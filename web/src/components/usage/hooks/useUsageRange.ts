@@ -0,0 +1,90 @@
+import { useCallback, useMemo, useState } from 'react';
+import {
+  USAGE_GRANULARITIES,
+  filterUsageByTimeRange,
+  type UsageGranularity,
+  type UsageTimeRange
+} from '@/utils/usage';
+import {
+  getDefaultGranularity,
+  isGranularityAllowed,
+  resolveUsageRange,
+  toDateTimeLocalValue,
+  type UsageCustomRange,
+  type UsageRangePreset
+} from '@/utils/usage/range';
+import type { UsagePayload } from './useUsageData';
+
+export interface UsageGranularityOption {
+  value: UsageGranularity;
+  disabled: boolean;
+}
+
+export interface UseUsageRangeReturn {
+  preset: UsageRangePreset;
+  setPreset: (preset: UsageRangePreset) => void;
+  customRange: UsageCustomRange;
+  setCustomRange: (range: UsageCustomRange) => void;
+  /** 实际生效的粒度（手动选择的粒度超出桶数量上限时回退为自动粒度） */
+  granularity: UsageGranularity;
+  setGranularity: (granularity: UsageGranularity) => void;
+  granularityOptions: UsageGranularityOption[];
+  range: UsageTimeRange;
+  /** 只包含所选时间范围内明细的 usage 数据 */
+  filteredUsage: UsagePayload | null;
+}
+
+export function useUsageRange(usage: UsagePayload | null): UseUsageRangeReturn {
+  const [preset, setPresetState] = useState<UsageRangePreset>('all');
+  const [customRange, setCustomRange] = useState<UsageCustomRange>({ start: '', end: '' });
+  const [manualGranularity, setManualGranularity] = useState<UsageGranularity | null>(null);
+
+  // usage 刷新时一并更新相对时间范围的终点
+  const range = useMemo(
+    () => resolveUsageRange(preset, customRange, usage),
+    [preset, customRange, usage]
+  );
+
+  const granularityOptions = useMemo(
+    () =>
+      USAGE_GRANULARITIES.map((value) => ({ value, disabled: !isGranularityAllowed(range, value) })),
+    [range]
+  );
+
+  const granularity =
+    manualGranularity && isGranularityAllowed(range, manualGranularity)
+      ? manualGranularity
+      : getDefaultGranularity(range);
+
+  const filteredUsage = useMemo(
+    () => (usage ? (filterUsageByTimeRange(usage, range) as UsagePayload) : null),
+    [usage, range]
+  );
+
+  const setPreset = useCallback(
+    (next: UsageRangePreset) => {
+      // 切换到自定义时以当前范围作为初始值
+      if (next === 'custom' && !customRange.start && !customRange.end) {
+        setCustomRange({
+          start: toDateTimeLocalValue(range.start),
+          end: toDateTimeLocalValue(range.end)
+        });
+      }
+      setPresetState(next);
+      setManualGranularity(null);
+    },
+    [customRange, range]
+  );
+
+  return {
+    preset,
+    setPreset,
+    customRange,
+    setCustomRange,
+    granularity,
+    setGranularity: setManualGranularity,
+    granularityOptions,
+    range,
+    filteredUsage
+  };
+}
@@ -1,6 +1,6 @@
 // Hooks
 export { useUsageData } from './hooks/useUsageData';
-export type { UsagePayload, UseUsageDataReturn } from './hooks/useUsageData';
+export type { UsagePayload, UseUsageDataReturn, ModelPriceStorage } from './hooks/useUsageData';
 
 export { useSparklines } from './hooks/useSparklines';
 export type { SparklineData, SparklineBundle, UseSparklinesOptions, UseSparklinesReturn } from './hooks/useSparklines';
@@ -8,6 +8,23 @@ export type { SparklineData, SparklineBundle, UseSparklinesOptions, UseSparkline
 export { useChartData } from './hooks/useChartData';
 export type { UseChartDataOptions, UseChartDataReturn } from './hooks/useChartData';
 
+export { useUsageRange } from './hooks/useUsageRange';
+export type { UsageGranularityOption, UseUsageRangeReturn } from './hooks/useUsageRange';
+
+export { useUsageFilter } from './hooks/useUsageFilter';
+export type { UseUsageFilterReturn } from './hooks/useUsageFilter';
+
+export { useCredentialSources } from './hooks/useCredentialSources';
+export type { UseCredentialSourcesReturn } from './hooks/useCredentialSources';
+
+export { useUsageBudgets } from './hooks/useUsageBudgets';
+export type { UseUsageBudgetsReturn } from './hooks/useUsageBudgets';
+
+export { useUsageOverview } from './hooks/useUsageOverview';
+export type { UseUsageOverviewReturn } from './hooks/useUsageOverview';
+
+export { useUsageAnomalies } from './hooks/useUsageAnomalies';
+
 // Components
 export { StatCards } from './StatCards';
 export type { StatCardsProps } from './StatCards';
@@ -15,6 +32,12 @@ export type { StatCardsProps } from './StatCards';
 export { UsageChart } from './UsageChart';
 export type { UsageChartProps } from './UsageChart';
 
+export { UsageRangePicker } from './UsageRangePicker';
+export type { UsageRangePickerProps } from './UsageRangePicker';
+
+export { UsageFilterBar } from './UsageFilterBar';
+export type { UsageFilterBarProps } from './UsageFilterBar';
+
 export { ChartLineSelector } from './ChartLineSelector';
 export type { ChartLineSelectorProps } from './ChartLineSelector';
 
@@ -26,3 +49,27 @@ export type { ModelStatsCardProps, ModelStat } from './ModelStatsCard';
 
 export { PriceSettingsCard } from './PriceSettingsCard';
 export type { PriceSettingsCardProps } from './PriceSettingsCard';
+
+export { UsageHistoryCard } from './UsageHistoryCard';
+export type { UsageHistoryCardProps } from './UsageHistoryCard';
+
+export { CredentialUsageCard } from './CredentialUsageCard';
+export type { CredentialUsageCardProps } from './CredentialUsageCard';
+
+export { TokenEfficiencyCard } from './TokenEfficiencyCard';
+export type { TokenEfficiencyCardProps } from './TokenEfficiencyCard';
+
+export { UsageBudgetsCard } from './UsageBudgetsCard';
+export type { UsageBudgetsCardProps } from './UsageBudgetsCard';
+
+export { UsageBudgetWidget } from './UsageBudgetWidget';
+export type { UsageBudgetWidgetProps } from './UsageBudgetWidget';
+
+export { UsageReportCard } from './UsageReportCard';
+export type { UsageReportCardProps } from './UsageReportCard';
+
+export { UsageAnomaliesCard } from './UsageAnomaliesCard';
+export type { UsageAnomaliesCardProps } from './UsageAnomaliesCard';
+
+export { UsageAnomalyWidget } from './UsageAnomalyWidget';
+export type { UsageAnomalyWidgetProps } from './UsageAnomalyWidget';
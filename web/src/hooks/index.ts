@@ -9,3 +9,4 @@ export { useInterval } from './useInterval';
 export { useMediaQuery } from './useMediaQuery';
 export { usePagination } from './usePagination';
 export { useHeaderRefresh } from './useHeaderRefresh';
+export { useVirtualList } from './useVirtualList';
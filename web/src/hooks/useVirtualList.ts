@@ -0,0 +1,188 @@
+/**
+ * 虚拟列表 Hook
+ * 只渲染可视区域附近的行；行高先按估算值计算，渲染后通过 ResizeObserver 实测修正
+ */
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+export interface VirtualListOptions {
+  count: number;
+  /** 未测量行的估算高度（px） */
+  estimateSize: number;
+  /** 可视区域上下额外渲染的行数 */
+  overscan?: number;
+  /**
+   * 列表身份标识：行高按行号缓存，列表头部被裁剪或重新筛选后同一行号对应的已是其他行，
+   * 该值变化时清空缓存并重新测量已渲染的行
+   */
+  resetKey?: unknown;
+}
+
+export interface VirtualListRange {
+  start: number;
+  end: number;
+  /** 首个渲染行之前的占位高度 */
+  paddingTop: number;
+  /** 最后一个渲染行之后的占位高度 */
+  paddingBottom: number;
+  totalSize: number;
+}
+
+export type VirtualScrollAlign = 'start' | 'center' | 'end' | 'auto';
+
+export function useVirtualList({
+  count,
+  estimateSize,
+  overscan = 10,
+  resetKey,
+}: VirtualListOptions) {
+  const [scrollElement, setScrollElement] = useState<HTMLElement | null>(null);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  const [sizeCache] = useState(() => new Map<number, number>());
+  const [sizeVersion, setSizeVersion] = useState(0);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const observedNodesRef = useRef(new Set<HTMLElement>());
+
+  // 行顶部偏移的前缀和，offsets[count] 为总高度
+  const offsets = useMemo(() => {
+    const result = new Float64Array(count + 1);
+    for (let index = 0; index < count; index += 1) {
+      result[index + 1] = result[index] + (sizeCache.get(index) ?? estimateSize);
+    }
+    return result;
+    // sizeVersion 变化代表 sizeCache 中有新的测量结果
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [count, estimateSize, sizeCache, sizeVersion]);
+
+  useEffect(() => {
+    if (!scrollElement) return;
+    const update = () =>
+      setViewport({ scrollTop: scrollElement.scrollTop, height: scrollElement.clientHeight });
+    update();
+    scrollElement.addEventListener('scroll', update, { passive: true });
+    const resizeObserver = new ResizeObserver(update);
+    resizeObserver.observe(scrollElement);
+    return () => {
+      scrollElement.removeEventListener('scroll', update);
+      resizeObserver.disconnect();
+    };
+  }, [scrollElement]);
+
+  useEffect(() => {
+    const observer = new ResizeObserver((entries) => {
+      let changed = false;
+      entries.forEach((entry) => {
+        const node = entry.target as HTMLElement;
+        const index = Number(node.dataset.index);
+        if (!Number.isFinite(index)) return;
+        const size = entry.borderBoxSize?.[0]?.blockSize ?? node.offsetHeight;
+        if (size > 0 && sizeCache.get(index) !== size) {
+          sizeCache.set(index, size);
+          changed = true;
+        }
+      });
+      if (changed) setSizeVersion((version) => version + 1);
+    });
+    observerRef.current = observer;
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, [sizeCache]);
+
+  // 列表身份变化时旧的测量结果不再对应同一行；重新 observe 会立即回调一次当前尺寸
+  useLayoutEffect(() => {
+    if (sizeCache.size === 0) return;
+    sizeCache.clear();
+    setSizeVersion((version) => version + 1);
+    const observer = observerRef.current;
+    if (!observer) return;
+    observedNodesRef.current.forEach((node) => {
+      observer.unobserve(node);
+      observer.observe(node);
+    });
+  }, [resetKey, sizeCache]);
+
+  // 行数减少（清空或重新筛选）时丢弃已失效的测量结果
+  useEffect(() => {
+    sizeCache.forEach((_size, index) => {
+      if (index >= count) sizeCache.delete(index);
+    });
+  }, [count, sizeCache]);
+
+  const findIndex = useCallback(
+    (offset: number) => {
+      let low = 0;
+      let high = count;
+      while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (offsets[mid + 1] <= offset) {
+          low = mid + 1;
+        } else {
+          high = mid;
+        }
+      }
+      return Math.min(low, Math.max(count - 1, 0));
+    },
+    [count, offsets]
+  );
+
+  const range = useMemo<VirtualListRange>(() => {
+    const totalSize = offsets[count];
+    if (count === 0) {
+      return { start: 0, end: 0, paddingTop: 0, paddingBottom: 0, totalSize };
+    }
+    // 尚未拿到容器高度时按估算渲染一屏
+    const height = viewport.height || estimateSize * 20;
+    const start = Math.max(findIndex(viewport.scrollTop) - overscan, 0);
+    const end = Math.min(findIndex(viewport.scrollTop + height) + overscan + 1, count);
+    return {
+      start,
+      end,
+      paddingTop: offsets[start],
+      paddingBottom: totalSize - offsets[end],
+      totalSize,
+    };
+  }, [count, estimateSize, findIndex, offsets, overscan, viewport]);
+
+  /** 作为行元素的 ref 回调，元素需带 data-index 属性 */
+  const measureElement = useCallback((node: HTMLElement | null) => {
+    if (!node) return;
+    const observer = observerRef.current;
+    const observedNodes = observedNodesRef.current;
+    observer?.observe(node);
+    observedNodes.add(node);
+    return () => {
+      observer?.unobserve(node);
+      observedNodes.delete(node);
+    };
+  }, []);
+
+  const scrollToIndex = useCallback(
+    (index: number, align: VirtualScrollAlign = 'auto') => {
+      if (!scrollElement || count === 0) return;
+      const target = Math.min(Math.max(index, 0), count - 1);
+      const top = offsets[target];
+      const size = offsets[target + 1] - top;
+      const height = scrollElement.clientHeight;
+      const current = scrollElement.scrollTop;
+
+      let next = current;
+      if (align === 'start') {
+        next = top;
+      } else if (align === 'center') {
+        next = top - (height - size) / 2;
+      } else if (align === 'end') {
+        next = top + size - height;
+      } else if (top < current) {
+        next = top;
+      } else if (top + size > current + height) {
+        next = top + size - height;
+      }
+      scrollElement.scrollTop = Math.max(next, 0);
+    },
+    [count, offsets, scrollElement]
+  );
+
+  return { range, scrollRef: setScrollElement, measureElement, scrollToIndex };
+}
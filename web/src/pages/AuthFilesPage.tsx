@@ -1,6 +1,6 @@
 import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useInterval } from '@/hooks/useInterval';
 import { useHeaderRefresh } from '@/hooks/useHeaderRefresh';
 import { Card } from '@/components/ui/Card';
@@ -11,13 +11,28 @@ import { Modal } from '@/components/ui/Modal';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
 import {
+  AuthFileBackupModal,
+  AuthFileEditorModal,
+  AuthFileImportModal,
+  AuthFileRestoreModal,
+  AuthFileTagsModal,
+} from '@/components/authFiles';
+import {
+  IconBookmark,
   IconBot,
   IconCode,
   IconDownload,
   IconInfo,
   IconTrash2,
 } from '@/components/ui/icons';
-import { useAuthStore, useNotificationStore, useThemeStore, useQuotaStore } from '@/stores';
+import {
+  useAuthStore,
+  useAuthFileExpiryStore,
+  useAuthFilePoolStore,
+  useNotificationStore,
+  useThemeStore,
+  useQuotaStore,
+} from '@/stores';
 import { authFilesApi, usageApi } from '@/services/api';
 import { apiClient } from '@/services/api/client';
 import type { AuthFileItem, OAuthModelAliasEntry, AntigravityQuotaState, CodexQuotaState, GeminiCliQuotaState } from '@/types';
@@ -40,6 +55,23 @@ import {
   CODEX_CONFIG,
   GEMINI_CLI_CONFIG,
 } from '@/components/quota/quotaConfigs';
+import {
+  AUTH_FILE_EXPIRING_WINDOW_OPTIONS,
+  AUTH_FILE_UNTAGGED_FILTER,
+  collectDroppedAuthFiles,
+  countAuthFileTags,
+  formatAuthFileCountdown,
+  getAuthFileExpiryStatus,
+  getAuthFileTagKey,
+  getAuthFileStatusMessage,
+  hasAuthFileTag,
+  isAuthFileRefreshFailing,
+  isRuntimeOnlyAuthFile,
+  matchAuthFileTagFilter,
+  resolveAuthFileExpiry,
+  resolveAuthFileLastRefresh,
+  type AuthFileImportSource,
+} from '@/utils/authFile';
 import { formatFileSize } from '@/utils/format';
 import styles from './AuthFilesPage.module.scss';
 
@@ -47,6 +79,16 @@ type ThemeColors = { bg: string; text: string; border?: string };
 type TypeColorSet = { light: ThemeColors; dark?: ThemeColors };
 type ResolvedTheme = 'light' | 'dark';
 type AuthFileModelItem = { id: string; display_name?: string; type?: string; owned_by?: string };
+type AuthFilesSortBy =
+  | 'modtime'
+  | 'name'
+  | 'createtime'
+  | 'failures'
+  | 'quota'
+  | 'resetTime'
+  | 'expiry'
+  | 'tag';
+type QuotaBarItem = { label: string; percent: number; resetTime?: string };
 
 // 标签类型颜色配置（对齐重构前 styles.css 的 file-type-badge 颜色）
 const TYPE_COLORS: Record<string, TypeColorSet> = {
@@ -96,6 +138,20 @@ const MIN_CARD_PAGE_SIZE = 3;
 const MAX_CARD_PAGE_SIZE = 30;
 const MAX_AUTH_FILE_SIZE = 50 * 1024;
 const AUTH_FILES_UI_STATE_KEY = 'authFilesPage.uiState';
+// 其他页面（如用量异常）跳转时通过该查询参数定位认证文件
+const SEARCH_QUERY_PARAM = 'search';
+const SORT_BY_OPTIONS: AuthFilesSortBy[] = [
+  'modtime',
+  'name',
+  'createtime',
+  'failures',
+  'quota',
+  'resetTime',
+  'expiry',
+  'tag',
+];
+// 未开启「即将过期」筛选时，卡片徽标的预警时间窗口（小时）
+const DEFAULT_EXPIRING_WINDOW_HOURS = 24;
 
 const clampCardPageSize = (value: number) =>
   Math.min(MAX_CARD_PAGE_SIZE, Math.max(MIN_CARD_PAGE_SIZE, Math.round(value)));
@@ -108,6 +164,8 @@ type AuthFilesUiState = {
   showAll?: boolean;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
+  expiringWithin?: number;
+  tagFilter?: string;
 };
 
 const readAuthFilesUiState = (): AuthFilesUiState | null => {
@@ -131,17 +189,6 @@ const writeAuthFilesUiState = (state: AuthFilesUiState) => {
   }
 };
 
-interface PrefixProxyEditorState {
-  fileName: string;
-  loading: boolean;
-  saving: boolean;
-  error: string | null;
-  originalText: string;
-  rawText: string;
-  json: Record<string, unknown> | null;
-  prefix: string;
-  proxyUrl: string;
-}
 // 标准化 auth_index 值（与 usage.ts 中的 normalizeAuthIndex 保持一致）
 function normalizeAuthIndexValue(value: unknown): string | null {
   if (typeof value === 'number' && Number.isFinite(value)) {
@@ -154,13 +201,6 @@ function normalizeAuthIndexValue(value: unknown): string | null {
   return null;
 }
 
-function isRuntimeOnlyAuthFile(file: AuthFileItem): boolean {
-  const raw = file['runtime_only'] ?? file.runtimeOnly;
-  if (typeof raw === 'boolean') return raw;
-  if (typeof raw === 'string') return raw.trim().toLowerCase() === 'true';
-  return false;
-}
-
 // 解析认证文件的统计数据
 function resolveAuthFileStats(file: AuthFileItem, stats: KeyStats): KeyStatBucket {
   const defaultStats: KeyStatBucket = { success: 0, failure: 0 };
@@ -208,21 +248,31 @@ export function AuthFilesPage() {
   const connectionStatus = useAuthStore((state) => state.connectionStatus);
   const resolvedTheme: ResolvedTheme = useThemeStore((state) => state.resolvedTheme);
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   const [files, setFiles] = useState<AuthFileItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [filter, setFilter] = useState<'all' | string>('all');
   const [tierFilter, setTierFilter] = useState<'all' | string>('all');
+  const [tagFilter, setTagFilter] = useState<'all' | string>('all');
   const [search, setSearch] = useState('');
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(9);
   const [pageSizeInput, setPageSizeInput] = useState('9');
   const [showAll, setShowAll] = useState(false);
-  const [sortBy, setSortBy] = useState<'modtime' | 'name' | 'createtime' | 'failures' | 'quota' | 'resetTime'>('modtime');
+  const [sortBy, setSortBy] = useState<AuthFilesSortBy>('modtime');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [sortQuotaGroup, setSortQuotaGroup] = useState<string>('lowest'); // 'lowest' or specific group id
-  const [uploading, setUploading] = useState(false);
+  // 「即将过期」筛选窗口（小时），0 表示不筛选
+  const [expiringWithin, setExpiringWithin] = useState(0);
+  // 批量导入：待导入的文件（非 null 时打开导入弹窗）与拖放状态
+  const [importSources, setImportSources] = useState<AuthFileImportSource[] | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [backupOpen, setBackupOpen] = useState(false);
+  const [restoreOpen, setRestoreOpen] = useState(false);
+  const [tagsEditorFiles, setTagsEditorFiles] = useState<string[] | null>(null);
+  const [poolUpdating, setPoolUpdating] = useState(false);
   const [deleting, setDeleting] = useState<string | null>(null);
   const [deletingAll, setDeletingAll] = useState(false);
   const [statusUpdating, setStatusUpdating] = useState<Record<string, boolean>>({});
@@ -239,6 +289,17 @@ export function AuthFilesPage() {
   const setCodexQuota = useQuotaStore((state) => state.setCodexQuota);
   const setGeminiCliQuota = useQuotaStore((state) => state.setGeminiCliQuota);
 
+  // 令牌过期信息
+  const expiryEntries = useAuthFileExpiryStore((state) => state.entries);
+  const loadExpiry = useAuthFileExpiryStore((state) => state.loadExpiry);
+
+  // 凭证池（标签）分配
+  const poolAssignments = useAuthFilePoolStore((state) => state.assignments);
+  const poolsLoading = useAuthFilePoolStore((state) => state.loading);
+  const loadPoolAssignments = useAuthFilePoolStore((state) => state.loadPools);
+  const removePoolTag = useAuthFilePoolStore((state) => state.removeTag);
+  const prunePoolFiles = useAuthFilePoolStore((state) => state.pruneFiles);
+
   // 详情弹窗相关
   const [detailModalOpen, setDetailModalOpen] = useState(false);
   const [selectedFile, setSelectedFile] = useState<AuthFileItem | null>(null);
@@ -260,7 +321,7 @@ export function AuthFilesPage() {
   const [modelAlias, setModelAlias] = useState<Record<string, OAuthModelAliasEntry[]>>({});
   const [modelAliasError, setModelAliasError] = useState<'unsupported' | null>(null);
 
-  const [prefixProxyEditor, setPrefixProxyEditor] = useState<PrefixProxyEditorState | null>(null);
+  const [editorFile, setEditorFile] = useState<AuthFileItem | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const loadingKeyStatsRef = useRef(false);
@@ -290,45 +351,54 @@ export function AuthFilesPage() {
     if (typeof persisted.showAll === 'boolean') {
       setShowAll(persisted.showAll);
     }
-    if (persisted.sortBy === 'modtime' || persisted.sortBy === 'name' || persisted.sortBy === 'createtime' || persisted.sortBy === 'failures' || persisted.sortBy === 'quota' || persisted.sortBy === 'resetTime') {
-      setSortBy(persisted.sortBy);
+    if (SORT_BY_OPTIONS.includes(persisted.sortBy as AuthFilesSortBy)) {
+      setSortBy(persisted.sortBy as AuthFilesSortBy);
     }
     if (persisted.sortOrder === 'asc' || persisted.sortOrder === 'desc') {
       setSortOrder(persisted.sortOrder);
     }
+    if (
+      typeof persisted.expiringWithin === 'number' &&
+      AUTH_FILE_EXPIRING_WINDOW_OPTIONS.includes(persisted.expiringWithin)
+    ) {
+      setExpiringWithin(persisted.expiringWithin);
+    }
+    if (typeof persisted.tagFilter === 'string' && persisted.tagFilter) {
+      setTagFilter(persisted.tagFilter);
+    }
   }, []);
 
+  // 链接中的搜索词优先于保存的界面状态，应用后从地址栏移除
   useEffect(() => {
-    writeAuthFilesUiState({ filter, search, page, pageSize, showAll, sortBy, sortOrder });
-  }, [filter, search, page, pageSize, showAll, sortBy, sortOrder]);
+    const linkedSearch = searchParams.get(SEARCH_QUERY_PARAM);
+    if (linkedSearch === null) return;
+    setSearch(linkedSearch);
+    setFilter('all');
+    setTagFilter('all');
+    setPage(1);
+    const next = new URLSearchParams(searchParams);
+    next.delete(SEARCH_QUERY_PARAM);
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  useEffect(() => {
+    writeAuthFilesUiState({
+      filter,
+      search,
+      page,
+      pageSize,
+      showAll,
+      sortBy,
+      sortOrder,
+      expiringWithin,
+      tagFilter,
+    });
+  }, [filter, search, page, pageSize, showAll, sortBy, sortOrder, expiringWithin, tagFilter]);
 
   useEffect(() => {
     setPageSizeInput(String(pageSize));
   }, [pageSize]);
 
-  const prefixProxyUpdatedText = useMemo(() => {
-    if (!prefixProxyEditor?.json) return prefixProxyEditor?.rawText ?? '';
-    const next: Record<string, unknown> = { ...prefixProxyEditor.json };
-    if ('prefix' in next || prefixProxyEditor.prefix.trim()) {
-      next.prefix = prefixProxyEditor.prefix;
-    }
-    if ('proxy_url' in next || prefixProxyEditor.proxyUrl.trim()) {
-      next.proxy_url = prefixProxyEditor.proxyUrl;
-    }
-    return JSON.stringify(next);
-  }, [
-    prefixProxyEditor?.json,
-    prefixProxyEditor?.prefix,
-    prefixProxyEditor?.proxyUrl,
-    prefixProxyEditor?.rawText,
-  ]);
-
-  const prefixProxyDirty = useMemo(() => {
-    if (!prefixProxyEditor?.json) return false;
-    if (!prefixProxyEditor.originalText) return false;
-    return prefixProxyUpdatedText !== prefixProxyEditor.originalText;
-  }, [prefixProxyEditor?.json, prefixProxyEditor?.originalText, prefixProxyUpdatedText]);
-
   const commitPageSizeInput = (rawValue: string) => {
     const trimmed = rawValue.trim();
     if (!trimmed) {
@@ -565,9 +635,18 @@ export function AuthFilesPage() {
     }
   }, [showNotification, t]);
 
+  // 加载 config.yaml 中的凭证池标签
+  const loadPools = useCallback(async () => {
+    try {
+      await loadPoolAssignments();
+    } catch {
+      // 静默失败
+    }
+  }, [loadPoolAssignments]);
+
   const handleHeaderRefresh = useCallback(async () => {
-    await Promise.all([loadFiles(), loadKeyStats(), loadExcluded(), loadModelAlias()]);
-  }, [loadFiles, loadKeyStats, loadExcluded, loadModelAlias]);
+    await Promise.all([loadFiles(), loadKeyStats(), loadExcluded(), loadModelAlias(), loadPools()]);
+  }, [loadFiles, loadKeyStats, loadExcluded, loadModelAlias, loadPools]);
 
   useHeaderRefresh(handleHeaderRefresh);
 
@@ -576,7 +655,8 @@ export function AuthFilesPage() {
     loadKeyStats();
     loadExcluded();
     loadModelAlias();
-  }, [loadFiles, loadKeyStats, loadExcluded, loadModelAlias]);
+    loadPools();
+  }, [loadFiles, loadKeyStats, loadExcluded, loadModelAlias, loadPools]);
 
   // 定时刷新状态数据（每240秒）
   useInterval(loadKeyStats, 240_000);
@@ -661,8 +741,35 @@ export function AuthFilesPage() {
     return Array.from(groupsSet).sort();
   }, [antigravityQuota]);
 
+  const existingFileNames = useMemo(() => files.map((file) => file.name), [files]);
+
+  // 列表加载完成后移除已删除或重命名的文件的标签
+  useEffect(() => {
+    if (loading || poolsLoading || error) return;
+    prunePoolFiles(existingFileNames).catch(() => {
+      // 静默失败，下次加载列表时重试
+    });
+  }, [loading, poolsLoading, error, existingFileNames, prunePoolFiles]);
+
+  // 凭证池标签统计
+  const tagCounts = useMemo(
+    () => countAuthFileTags(existingFileNames, poolAssignments),
+    [existingFileNames, poolAssignments]
+  );
+  const untaggedCount = useMemo(
+    () => existingFileNames.filter((name) => !poolAssignments[name]?.length).length,
+    [existingFileNames, poolAssignments]
+  );
+  // 保存的标签已不存在（如凭证池被解散）时回退为全部
+  const activeTagFilter =
+    (tagFilter === AUTH_FILE_UNTAGGED_FILTER && tagCounts.length > 0) ||
+    tagCounts.some(({ tag }) => getAuthFileTagKey(tag) === getAuthFileTagKey(tagFilter))
+      ? tagFilter
+      : 'all';
+
   // 过滤和搜索
   const filtered = useMemo(() => {
+    const now = Date.now();
     return files.filter((item) => {
       const matchType = filter === 'all' || item.type === filter;
       // Subscription tier filter (only for Antigravity when filter is Antigravity)
@@ -677,9 +784,25 @@ export function AuthFilesPage() {
         item.name.toLowerCase().includes(term) ||
         (item.type || '').toString().toLowerCase().includes(term) ||
         (item.provider || '').toString().toLowerCase().includes(term);
-      return matchType && matchTier && matchSearch;
+      // 即将过期筛选同时包含已过期的凭证
+      const expiryStatus = expiringWithin
+        ? getAuthFileExpiryStatus(resolveAuthFileExpiry(item, expiryEntries[item.name]?.info), expiringWithin, now)
+        : null;
+      const matchExpiry = !expiryStatus || expiryStatus === 'expired' || expiryStatus === 'expiring';
+      const matchTag = matchAuthFileTagFilter(poolAssignments[item.name] ?? [], activeTagFilter);
+      return matchType && matchTier && matchSearch && matchExpiry && matchTag;
     });
-  }, [files, filter, tierFilter, search, getItemSubscriptionTier]);
+  }, [
+    files,
+    filter,
+    tierFilter,
+    search,
+    getItemSubscriptionTier,
+    expiringWithin,
+    expiryEntries,
+    poolAssignments,
+    activeTagFilter,
+  ]);
 
   // 排序
   const sorted = useMemo(() => {
@@ -746,6 +869,24 @@ export function AuthFilesPage() {
       return group?.resetTime ? new Date(group.resetTime).getTime() : Infinity;
     };
 
+    // Unknown expiry sorts last in ascending order
+    const getExpiresAt = (file: AuthFileItem): number =>
+      resolveAuthFileExpiry(file, expiryEntries[file.name]?.info)?.expiresAt ?? Infinity;
+
+    // Files without tags sort after tagged ones in ascending order
+    const compareTags = (a: AuthFileItem, b: AuthFileItem): number => {
+      const tagA = poolAssignments[a.name]?.[0];
+      const tagB = poolAssignments[b.name]?.[0];
+      if (tagA === undefined || tagB === undefined) {
+        if (tagA === tagB) return (a.name || '').localeCompare(b.name || '');
+        return tagA === undefined ? 1 : -1;
+      }
+      const keyA = getAuthFileTagKey(tagA);
+      const keyB = getAuthFileTagKey(tagB);
+      if (keyA === keyB) return (a.name || '').localeCompare(b.name || '');
+      return keyA.localeCompare(keyB);
+    };
+
     sortedList.sort((a, b) => {
       let comparison = 0;
       if (sortBy === 'modtime') {
@@ -771,11 +912,26 @@ export function AuthFilesPage() {
         comparison = getQuotaFraction(a) - getQuotaFraction(b);
       } else if (sortBy === 'resetTime') {
         comparison = getQuotaResetTime(a) - getQuotaResetTime(b);
+      } else if (sortBy === 'expiry') {
+        const expiresA = getExpiresAt(a);
+        const expiresB = getExpiresAt(b);
+        comparison = expiresA === expiresB ? 0 : expiresA < expiresB ? -1 : 1;
+      } else if (sortBy === 'tag') {
+        comparison = compareTags(a, b);
       }
       return sortOrder === 'desc' ? -comparison : comparison;
     });
     return sortedList;
-  }, [filtered, sortBy, sortOrder, sortQuotaGroup, keyStats, antigravityQuota]);
+  }, [
+    filtered,
+    sortBy,
+    sortOrder,
+    sortQuotaGroup,
+    keyStats,
+    antigravityQuota,
+    expiryEntries,
+    poolAssignments,
+  ]);
 
   // 分页计算
   const totalPages = showAll ? 1 : Math.max(1, Math.ceil(sorted.length / pageSize));
@@ -800,106 +956,53 @@ export function AuthFilesPage() {
     }
   }, [loading, pageItems, antigravityQuota, codexQuota, geminiCliQuota, loadQuotaForFiles]);
 
+  // 按过期时间排序或筛选时需要全部文件的过期信息，否则只加载当前页
+  const expiryNeedsAllFiles = sortBy === 'expiry' || expiringWithin > 0;
+  useEffect(() => {
+    if (loading) return;
+    void loadExpiry(expiryNeedsAllFiles ? files : pageItems);
+  }, [loading, expiryNeedsAllFiles, files, pageItems, loadExpiry]);
+
   // 点击上传
   const handleUploadClick = () => {
     fileInputRef.current?.click();
   };
 
-  // 处理文件上传（支持多选，支持 JSON 数组批量导入）
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  // 选择文件后进入批量导入（支持 JSON、JSON 数组与 ZIP / TAR 归档）
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const fileList = event.target.files;
-    if (!fileList || fileList.length === 0) return;
-
-    const filesToUpload = Array.from(fileList);
-    const validFiles: File[] = [];
-    const invalidFiles: string[] = [];
-    const oversizedFiles: string[] = [];
-
-    filesToUpload.forEach((file) => {
-      if (!file.name.endsWith('.json')) {
-        invalidFiles.push(file.name);
-        return;
-      }
-      if (file.size > MAX_AUTH_FILE_SIZE * 100) {
-        // 批量文件可能更大，放宽限制
-        oversizedFiles.push(file.name);
-        return;
-      }
-      validFiles.push(file);
-    });
-
-    if (invalidFiles.length > 0) {
-      showNotification(t('auth_files.upload_error_json'), 'error');
-    }
-    if (oversizedFiles.length > 0) {
-      showNotification(
-        t('auth_files.upload_error_size', { maxSize: formatFileSize(MAX_AUTH_FILE_SIZE * 100) }),
-        'error'
-      );
+    if (fileList && fileList.length > 0) {
+      setImportSources(Array.from(fileList).map((file) => ({ file, path: file.name })));
     }
+    event.target.value = '';
+  };
 
-    if (validFiles.length === 0) {
-      event.target.value = '';
-      return;
-    }
+  // 拖放文件、文件夹或归档
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (disableControls || !event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setDragActive(true);
+  };
 
-    setUploading(true);
-    let successCount = 0;
-    const failed: { name: string; message: string }[] = [];
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+    setDragActive(false);
+  };
 
-    for (const file of validFiles) {
-      try {
-        // 读取文件内容，检测是否为 JSON 数组
-        const text = await file.text();
-        const content = JSON.parse(text);
-
-        if (Array.isArray(content)) {
-          // JSON 数组：拆分成多个文件上传
-          for (const item of content) {
-            if (typeof item !== 'object' || item === null) continue;
-            const filename = item._filename || `auth-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
-            // 移除 _filename 字段
-            const { _filename, ...rest } = item;
-            void _filename; // 消除未使用警告
-            const blob = new Blob([JSON.stringify(rest, null, 2)], { type: 'application/json' });
-            const singleFile = new File([blob], filename, { type: 'application/json' });
-            try {
-              await authFilesApi.upload(singleFile);
-              successCount++;
-            } catch (err: unknown) {
-              const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-              failed.push({ name: filename, message: errorMessage });
-            }
-          }
-        } else {
-          // 单个 JSON 对象：直接上传
-          await authFilesApi.upload(file);
-          successCount++;
-        }
-      } catch (err: unknown) {
-        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-        failed.push({ name: file.name, message: errorMessage });
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    if (disableControls) return;
+    event.preventDefault();
+    setDragActive(false);
+    try {
+      const sources = await collectDroppedAuthFiles(event.dataTransfer);
+      if (sources.length > 0) {
+        setImportSources(sources);
       }
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : '';
+      showNotification(`${t('auth_file_import.prepare_failed')} ${errorMessage}`.trim(), 'error');
     }
-
-    if (successCount > 0) {
-      const suffix = successCount > 1 ? ` (${successCount})` : '';
-      showNotification(
-        `${t('auth_files.upload_success')}${suffix}`,
-        failed.length ? 'warning' : 'success'
-      );
-      await loadFiles();
-      await loadKeyStats();
-    }
-
-    if (failed.length > 0) {
-      const details = failed.slice(0, 3).map((item) => `${item.name}: ${item.message}`).join('; ');
-      const more = failed.length > 3 ? ` (+${failed.length - 3})` : '';
-      showNotification(`${t('notification.upload_failed')}: ${details}${more}`, 'error');
-    }
-
-    setUploading(false);
-    event.target.value = '';
   };
 
   // 删除单个文件
@@ -1018,133 +1121,6 @@ export function AuthFilesPage() {
     }
   };
 
-  const openPrefixProxyEditor = async (name: string) => {
-    if (disableControls) return;
-    if (prefixProxyEditor?.fileName === name) {
-      setPrefixProxyEditor(null);
-      return;
-    }
-
-    setPrefixProxyEditor({
-      fileName: name,
-      loading: true,
-      saving: false,
-      error: null,
-      originalText: '',
-      rawText: '',
-      json: null,
-      prefix: '',
-      proxyUrl: '',
-    });
-
-    try {
-      const rawText = await authFilesApi.downloadText(name);
-      const trimmed = rawText.trim();
-
-      let parsed: unknown;
-      try {
-        parsed = JSON.parse(trimmed) as unknown;
-      } catch {
-        setPrefixProxyEditor((prev) => {
-          if (!prev || prev.fileName !== name) return prev;
-          return {
-            ...prev,
-            loading: false,
-            error: t('auth_files.prefix_proxy_invalid_json'),
-            rawText: trimmed,
-            originalText: trimmed,
-          };
-        });
-        return;
-      }
-
-      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
-        setPrefixProxyEditor((prev) => {
-          if (!prev || prev.fileName !== name) return prev;
-          return {
-            ...prev,
-            loading: false,
-            error: t('auth_files.prefix_proxy_invalid_json'),
-            rawText: trimmed,
-            originalText: trimmed,
-          };
-        });
-        return;
-      }
-
-      const json = parsed as Record<string, unknown>;
-      const originalText = JSON.stringify(json);
-      const prefix = typeof json.prefix === 'string' ? json.prefix : '';
-      const proxyUrl = typeof json.proxy_url === 'string' ? json.proxy_url : '';
-
-      setPrefixProxyEditor((prev) => {
-        if (!prev || prev.fileName !== name) return prev;
-        return {
-          ...prev,
-          loading: false,
-          originalText,
-          rawText: originalText,
-          json,
-          prefix,
-          proxyUrl,
-          error: null,
-        };
-      });
-    } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : t('notification.download_failed');
-      setPrefixProxyEditor((prev) => {
-        if (!prev || prev.fileName !== name) return prev;
-        return { ...prev, loading: false, error: errorMessage, rawText: '' };
-      });
-      showNotification(`${t('notification.download_failed')}: ${errorMessage}`, 'error');
-    }
-  };
-
-  const handlePrefixProxyChange = (field: 'prefix' | 'proxyUrl', value: string) => {
-    setPrefixProxyEditor((prev) => {
-      if (!prev) return prev;
-      if (field === 'prefix') return { ...prev, prefix: value };
-      return { ...prev, proxyUrl: value };
-    });
-  };
-
-  const handlePrefixProxySave = async () => {
-    if (!prefixProxyEditor?.json) return;
-    if (!prefixProxyDirty) return;
-
-    const name = prefixProxyEditor.fileName;
-    const payload = prefixProxyUpdatedText;
-    const fileSize = new Blob([payload]).size;
-    if (fileSize > MAX_AUTH_FILE_SIZE) {
-      showNotification(
-        t('auth_files.upload_error_size', { maxSize: formatFileSize(MAX_AUTH_FILE_SIZE) }),
-        'error'
-      );
-      return;
-    }
-
-    setPrefixProxyEditor((prev) => {
-      if (!prev || prev.fileName !== name) return prev;
-      return { ...prev, saving: true };
-    });
-
-    try {
-      const file = new File([payload], name, { type: 'application/json' });
-      await authFilesApi.upload(file);
-      showNotification(t('auth_files.prefix_proxy_saved_success', { name }), 'success');
-      await loadFiles();
-      await loadKeyStats();
-      setPrefixProxyEditor(null);
-    } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : '';
-      showNotification(`${t('notification.upload_failed')}: ${errorMessage}`, 'error');
-      setPrefixProxyEditor((prev) => {
-        if (!prev || prev.fileName !== name) return prev;
-        return { ...prev, saving: false };
-      });
-    }
-  };
-
   const handleStatusToggle = async (item: AuthFileItem, enabled: boolean) => {
     const name = item.name;
     const nextDisabled = !enabled;
@@ -1259,6 +1235,66 @@ export function AuthFilesPage() {
     }
   };
 
+  // 凭证池整体启用 / 禁用
+  const handlePoolStatus = async (tag: string, enabled: boolean) => {
+    const targets = files.filter(
+      (file) =>
+        !isRuntimeOnlyAuthFile(file) &&
+        hasAuthFileTag(poolAssignments[file.name] ?? [], tag) &&
+        (file.disabled === true) === enabled
+    );
+    if (targets.length === 0) return;
+    setPoolUpdating(true);
+    let successCount = 0;
+    let failedCount = 0;
+    try {
+      for (const file of targets) {
+        try {
+          await authFilesApi.setStatus(file.name, !enabled);
+          successCount++;
+        } catch {
+          failedCount++;
+        }
+      }
+      await loadFiles();
+    } finally {
+      setPoolUpdating(false);
+    }
+    if (failedCount === 0) {
+      showNotification(
+        enabled
+          ? t('auth_file_pools.enable_success', { pool: tag, count: successCount })
+          : t('auth_file_pools.disable_success', { pool: tag, count: successCount }),
+        'success'
+      );
+    } else {
+      showNotification(
+        t('auth_file_pools.status_partial', { pool: tag, success: successCount, failed: failedCount }),
+        'warning'
+      );
+    }
+  };
+
+  // 解散凭证池（仅移除标签，不影响认证文件）
+  const handleDissolvePool = (tag: string) => {
+    showConfirmation({
+      title: t('auth_file_pools.dissolve_title'),
+      message: t('auth_file_pools.dissolve_confirm', { pool: tag }),
+      variant: 'danger',
+      confirmText: t('common.confirm'),
+      onConfirm: async () => {
+        try {
+          await removePoolTag(tag);
+          setTagFilter('all');
+          setPage(1);
+        } catch (err: unknown) {
+          const message = err instanceof Error ? err.message : '';
+          showNotification(`${t('auth_file_pools.save_failed')}: ${message}`, 'error');
+        }
+      },
+    });
+  };
+
   // 批量删除
   const handleBatchDelete = async () => {
     if (selectedFiles.size === 0) return;
@@ -1576,6 +1612,135 @@ export function AuthFilesPage() {
     );
   };
 
+  // 渲染凭证池（标签）筛选器
+  const renderTagFilter = () => {
+    if (tagCounts.length === 0) return null;
+    const options = [
+      { value: 'all', label: t('auth_files.filter_all'), count: files.length },
+      ...tagCounts.map(({ tag, count }) => ({ value: tag, label: tag, count })),
+      { value: AUTH_FILE_UNTAGGED_FILTER, label: t('auth_file_pools.untagged'), count: untaggedCount },
+    ];
+
+    return (
+      <div className={styles.tierFilterSection}>
+        <span className={styles.tierFilterLabel}>{t('auth_file_pools.filter_label')}:</span>
+        <div className={styles.tierFilterTags}>
+          {options.map((option) => (
+            <button
+              key={option.value}
+              className={`${styles.tierFilterTag} ${styles.poolFilterTag} ${
+                activeTagFilter === option.value ? styles.poolFilterTagActive : ''
+              }`}
+              onClick={() => {
+                setTagFilter(option.value);
+                setPage(1);
+              }}
+            >
+              <span className={styles.tierFilterTagLabel}>{option.label}</span>
+              <span className={styles.tierFilterTagCount}>{option.count}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  // 渲染凭证池汇总：状态、用量统计、配额概览与池级操作
+  const renderPoolSummary = () => {
+    if (activeTagFilter === 'all' || activeTagFilter === AUTH_FILE_UNTAGGED_FILTER) return null;
+    const pool = activeTagFilter;
+    const poolFiles = files.filter((file) =>
+      hasAuthFileTag(poolAssignments[file.name] ?? [], pool)
+    );
+    if (poolFiles.length === 0) return null;
+
+    const manageableFiles = poolFiles.filter((file) => !isRuntimeOnlyAuthFile(file));
+    const enabledCount = poolFiles.filter((file) => !file.disabled).length;
+    const usage = poolFiles.reduce(
+      (acc, file) => {
+        const stats = resolveAuthFileStats(file, keyStats);
+        return { success: acc.success + stats.success, failure: acc.failure + stats.failure };
+      },
+      { success: 0, failure: 0 }
+    );
+    const totalRequests = usage.success + usage.failure;
+
+    // 每个文件取剩余最少的配额项，汇总已加载配额的文件
+    const quotaPercents = poolFiles.flatMap((file) => {
+      if (file.disabled) return [];
+      const { quotaState, quotaItems } = getQuotaItems(file);
+      if (quotaState?.status !== 'success' || quotaItems.length === 0) return [];
+      return [Math.min(...quotaItems.map((quotaItem) => quotaItem.percent))];
+    });
+    const averageQuota = quotaPercents.length
+      ? Math.round(quotaPercents.reduce((sum, value) => sum + value, 0) / quotaPercents.length)
+      : null;
+    const lowQuotaCount = quotaPercents.filter((value) => value < 20).length;
+    const controlsDisabled = disableControls || poolUpdating;
+
+    return (
+      <div className={styles.poolSummary}>
+        <div className={styles.poolSummaryStats}>
+          <span className={styles.poolSummaryName}>{pool}</span>
+          <span className={styles.poolSummaryItem}>
+            {t('auth_file_pools.summary_files', {
+              count: poolFiles.length,
+              enabled: enabledCount,
+              disabled: poolFiles.length - enabledCount,
+            })}
+          </span>
+          <span className={styles.poolSummaryItem}>
+            {t('auth_file_pools.summary_usage', {
+              success: usage.success,
+              failure: usage.failure,
+              rate: totalRequests > 0 ? ((usage.success / totalRequests) * 100).toFixed(1) : '--',
+            })}
+          </span>
+          <span className={styles.poolSummaryItem}>
+            {averageQuota === null
+              ? t('auth_file_pools.summary_quota_empty')
+              : t('auth_file_pools.summary_quota', {
+                  percent: averageQuota,
+                  loaded: quotaPercents.length,
+                  low: lowQuotaCount,
+                })}
+          </span>
+        </div>
+        <div className={styles.batchButtons}>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => void handlePoolStatus(pool, true)}
+            disabled={controlsDisabled || manageableFiles.every((file) => !file.disabled)}
+            loading={poolUpdating}
+          >
+            {t('auth_file_pools.enable_pool')}
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => void handlePoolStatus(pool, false)}
+            disabled={controlsDisabled || manageableFiles.every((file) => file.disabled)}
+            loading={poolUpdating}
+          >
+            {t('auth_file_pools.disable_pool')}
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => void loadQuotaForFiles(poolFiles)}
+            disabled={controlsDisabled}
+          >
+            {t('auth_file_pools.refresh_quota')}
+          </Button>
+          <Button variant="danger" size="sm" onClick={() => handleDissolvePool(pool)}>
+            {t('auth_file_pools.dissolve')}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
   // 预计算所有认证文件的状态栏数据（避免每次渲染重复计算）
   const statusBarCache = useMemo(() => {
     const cache = new Map<string, ReturnType<typeof calculateStatusBarData>>();
@@ -1667,12 +1832,10 @@ export function AuthFilesPage() {
     return null;
   };
 
-  // 渲染配额进度条
-  const renderQuotaBar = (item: AuthFileItem) => {
-    if (item.disabled) return null;
-
+  // 解析认证文件的配额状态与剩余百分比
+  const getQuotaItems = (item: AuthFileItem) => {
     let quotaState: AntigravityQuotaState | CodexQuotaState | GeminiCliQuotaState | undefined;
-    let quotaItems: Array<{ label: string; percent: number; resetTime?: string }> = [];
+    let quotaItems: QuotaBarItem[] = [];
 
     if (isAntigravityFile(item)) {
       quotaState = antigravityQuota[item.name];
@@ -1706,6 +1869,14 @@ export function AuthFilesPage() {
       }
     }
 
+    return { quotaState, quotaItems };
+  };
+
+  // 渲染配额进度条
+  const renderQuotaBar = (item: AuthFileItem) => {
+    if (item.disabled) return null;
+
+    const { quotaState, quotaItems } = getQuotaItems(item);
     if (!quotaState) return null;
 
     if (quotaState.status === 'loading') {
@@ -1763,6 +1934,51 @@ export function AuthFilesPage() {
     );
   };
 
+  // 渲染令牌过期倒计时与刷新状态
+  const renderExpiryRow = (item: AuthFileItem) => {
+    const info = resolveAuthFileExpiry(item, expiryEntries[item.name]?.info);
+    const refreshFailing = isAuthFileRefreshFailing(item);
+    const lastRefreshAt = resolveAuthFileLastRefresh(item, info);
+    if (!info?.expiresAt && !refreshFailing && lastRefreshAt === null) return null;
+
+    const now = Date.now();
+    const status = getAuthFileExpiryStatus(info, expiringWithin || DEFAULT_EXPIRING_WINDOW_HOURS, now);
+    const statusClass =
+      status === 'expired'
+        ? styles.expiryExpired
+        : status === 'expiring'
+          ? styles.expiryExpiring
+          : styles.expiryValid;
+
+    return (
+      <div className={styles.cardExpiry}>
+        {info?.expiresAt && (
+          <span
+            className={`${styles.expiryBadge} ${statusClass}`}
+            title={new Date(info.expiresAt).toLocaleString()}
+          >
+            {status === 'expired'
+              ? t('auth_files.expiry_expired_ago', { time: formatAuthFileCountdown(now - info.expiresAt) })
+              : t('auth_files.expiry_expires_in', { time: formatAuthFileCountdown(info.expiresAt - now) })}
+          </span>
+        )}
+        {refreshFailing && (
+          <span
+            className={`${styles.expiryBadge} ${styles.expiryExpired}`}
+            title={getAuthFileStatusMessage(item) || undefined}
+          >
+            {t('auth_files.refresh_failing')}
+          </span>
+        )}
+        {lastRefreshAt !== null && (
+          <span className={styles.expiryRefresh}>
+            {t('auth_files.last_refresh', { time: new Date(lastRefreshAt).toLocaleString() })}
+          </span>
+        )}
+      </div>
+    );
+  };
+
   // 渲染单个认证文件卡片
 	  const renderFileCard = (item: AuthFileItem) => {
 	    const fileStats = resolveAuthFileStats(item, keyStats);
@@ -1771,6 +1987,7 @@ export function AuthFilesPage() {
 	    const showModelsButton = !isRuntimeOnly || isAistudio;
 	    const typeColor = getTypeColor(item.type || 'unknown');
 	    const isSelected = selectedFiles.has(item.name);
+    const poolTags = poolAssignments[item.name] ?? [];
 
 	    return (
 	      <div
@@ -1800,6 +2017,24 @@ export function AuthFilesPage() {
           <span className={styles.fileName}>{item.name}</span>
         </div>
 
+        {poolTags.length > 0 && (
+          <div className={styles.poolTags}>
+            {poolTags.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                className={styles.poolTag}
+                onClick={() => {
+                  setTagFilter(tag);
+                  setPage(1);
+                }}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className={styles.cardMeta}>
           <span>
             {t('auth_files.file_size')}: {item.size ? formatFileSize(item.size) : '-'}
@@ -1809,6 +2044,8 @@ export function AuthFilesPage() {
           </span>
         </div>
 
+        {renderExpiryRow(item)}
+
         <div className={styles.cardStats}>
           <span className={`${styles.statPill} ${styles.statSuccess}`}>
             {t('stats.success')}: {fileStats.success}
@@ -1862,9 +2099,18 @@ export function AuthFilesPage() {
               <Button
                 variant="secondary"
                 size="sm"
-                onClick={() => void openPrefixProxyEditor(item.name)}
+                onClick={() => setTagsEditorFiles([item.name])}
                 className={styles.iconButton}
-                title={t('auth_files.prefix_proxy_button')}
+                title={t('auth_file_pools.edit_button')}
+              >
+                <IconBookmark className={styles.actionIcon} size={16} />
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => setEditorFile(item)}
+                className={styles.iconButton}
+                title={t('auth_file_editor.button')}
                 disabled={disableControls}
               >
                 <IconCode className={styles.actionIcon} size={16} />
@@ -1913,7 +2159,12 @@ export function AuthFilesPage() {
   );
 
   return (
-    <div className={styles.container}>
+    <div
+      className={`${styles.container} ${dragActive ? styles.dropActive : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={(event) => void handleDrop(event)}
+    >
       <div className={styles.pageHeader}>
         <h1 className={styles.pageTitle}>{t('auth_files.title')}</h1>
         <p className={styles.description}>{t('auth_files.description')}</p>
@@ -1929,11 +2180,27 @@ export function AuthFilesPage() {
             <Button
               size="sm"
               onClick={handleUploadClick}
-              disabled={disableControls || uploading}
-              loading={uploading}
+              disabled={disableControls || importSources !== null}
+              title={t('auth_file_import.drop_hint')}
             >
               {t('auth_files.upload_button')}
             </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setBackupOpen(true)}
+              disabled={disableControls || loading || files.length === 0}
+            >
+              {t('auth_file_backup.button')}
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setRestoreOpen(true)}
+              disabled={disableControls || loading}
+            >
+              {t('auth_file_restore.button')}
+            </Button>
             <Button
               variant="danger"
               size="sm"
@@ -1948,7 +2215,7 @@ export function AuthFilesPage() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".json,application/json"
+              accept=".json,application/json,.zip,.tar,.tgz,.gz"
               multiple
               style={{ display: 'none' }}
               onChange={handleFileChange}
@@ -1962,6 +2229,8 @@ export function AuthFilesPage() {
         <div className={styles.filterSection}>
           {renderFilterTags()}
           {renderTierFilter()}
+          {renderTagFilter()}
+          {renderPoolSummary()}
 
           <div className={styles.filterControls}>
             <div className={styles.filterItem}>
@@ -2015,13 +2284,15 @@ export function AuthFilesPage() {
                   className={styles.sortSelect}
                   value={sortBy}
                   onChange={(e) => {
-                    setSortBy(e.target.value as 'modtime' | 'name' | 'createtime' | 'failures' | 'quota' | 'resetTime');
+                    setSortBy(e.target.value as AuthFilesSortBy);
                     setPage(1);
                   }}
                 >
                   <option value="modtime">{t('auth_files.sort_modtime')}</option>
                   <option value="createtime">{t('auth_files.sort_createtime')}</option>
                   <option value="name">{t('auth_files.sort_name')}</option>
+                  <option value="expiry">{t('auth_files.sort_expiry')}</option>
+                  <option value="tag">{t('auth_files.sort_tag')}</option>
                   {filter.toLowerCase() === 'antigravity' && (
                     <>
                       <option value="failures">{t('auth_files.sort_failures')}</option>
@@ -2053,6 +2324,24 @@ export function AuthFilesPage() {
                 </Button>
               </div>
             </div>
+            <div className={styles.filterItem}>
+              <label>{t('auth_files.expiring_filter_label')}</label>
+              <select
+                className={styles.sortSelect}
+                value={expiringWithin}
+                onChange={(e) => {
+                  setExpiringWithin(Number(e.target.value));
+                  setPage(1);
+                }}
+              >
+                <option value={0}>{t('auth_files.expiring_filter_all')}</option>
+                {AUTH_FILE_EXPIRING_WINDOW_OPTIONS.map((hours) => (
+                  <option key={hours} value={hours}>
+                    {t('auth_files.expiring_filter_hours', { count: hours })}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           {/* 批量操作栏 */}
@@ -2095,6 +2384,14 @@ export function AuthFilesPage() {
                 >
                   {t('auth_files.batch_disable')}
                 </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setTagsEditorFiles(Array.from(selectedFiles))}
+                  disabled={batchOperating}
+                >
+                  {t('auth_file_pools.batch_edit')}
+                </Button>
                 <Button
                   variant="secondary"
                   size="sm"
@@ -2359,88 +2656,49 @@ export function AuthFilesPage() {
         )}
       </Modal>
 
-      {/* prefix/proxy_url 编辑弹窗 */}
-      <Modal
-        open={Boolean(prefixProxyEditor)}
-        onClose={() => setPrefixProxyEditor(null)}
-        closeDisabled={prefixProxyEditor?.saving === true}
-        width={720}
-        title={
-          prefixProxyEditor?.fileName
-            ? `${t('auth_files.prefix_proxy_button')} - ${prefixProxyEditor.fileName}`
-            : t('auth_files.prefix_proxy_button')
-        }
-        footer={
-          <>
-            <Button
-              variant="secondary"
-              onClick={() => setPrefixProxyEditor(null)}
-              disabled={prefixProxyEditor?.saving === true}
-            >
-              {t('common.cancel')}
-            </Button>
-            <Button
-              onClick={() => void handlePrefixProxySave()}
-              loading={prefixProxyEditor?.saving === true}
-              disabled={
-                disableControls ||
-                prefixProxyEditor?.saving === true ||
-                !prefixProxyDirty ||
-                !prefixProxyEditor?.json
-              }
-            >
-              {t('common.save')}
-            </Button>
-          </>
-        }
-      >
-        {prefixProxyEditor && (
-          <div className={styles.prefixProxyEditor}>
-            {prefixProxyEditor.loading ? (
-              <div className={styles.prefixProxyLoading}>
-                <LoadingSpinner size={14} />
-                <span>{t('auth_files.prefix_proxy_loading')}</span>
-              </div>
-            ) : (
-              <>
-                {prefixProxyEditor.error && (
-                  <div className={styles.prefixProxyError}>{prefixProxyEditor.error}</div>
-                )}
-                <div className={styles.prefixProxyJsonWrapper}>
-                  <label className={styles.prefixProxyLabel}>
-                    {t('auth_files.prefix_proxy_source_label')}
-                  </label>
-                  <textarea
-                    className={styles.prefixProxyTextarea}
-                    rows={10}
-                    readOnly
-                    value={prefixProxyUpdatedText}
-                  />
-                </div>
-                <div className={styles.prefixProxyFields}>
-                  <Input
-                    label={t('auth_files.prefix_label')}
-                    value={prefixProxyEditor.prefix}
-                    disabled={
-                      disableControls || prefixProxyEditor.saving || !prefixProxyEditor.json
-                    }
-                    onChange={(e) => handlePrefixProxyChange('prefix', e.target.value)}
-                  />
-                  <Input
-                    label={t('auth_files.proxy_url_label')}
-                    value={prefixProxyEditor.proxyUrl}
-                    placeholder={t('auth_files.proxy_url_placeholder')}
-                    disabled={
-                      disableControls || prefixProxyEditor.saving || !prefixProxyEditor.json
-                    }
-                    onChange={(e) => handlePrefixProxyChange('proxyUrl', e.target.value)}
-                  />
-                </div>
-              </>
-            )}
-          </div>
-        )}
-      </Modal>
+      {/* 认证文件结构化编辑弹窗 */}
+      <AuthFileEditorModal
+        open={Boolean(editorFile)}
+        file={editorFile}
+        disabled={disableControls}
+        maxFileSize={MAX_AUTH_FILE_SIZE}
+        onClose={() => setEditorFile(null)}
+        onSaved={async () => {
+          await loadFiles();
+          await loadKeyStats();
+        }}
+      />
+
+      {/* 凭证池标签编辑弹窗 */}
+      <AuthFileTagsModal fileNames={tagsEditorFiles} onClose={() => setTagsEditorFiles(null)} />
+
+      {/* 加密备份与恢复弹窗 */}
+      <AuthFileBackupModal
+        open={backupOpen}
+        files={files}
+        disabled={disableControls}
+        onClose={() => setBackupOpen(false)}
+      />
+      <AuthFileRestoreModal
+        open={restoreOpen}
+        existingFiles={files}
+        disabled={disableControls}
+        onClose={() => setRestoreOpen(false)}
+        onRestored={handleHeaderRefresh}
+      />
+
+      {/* 批量导入弹窗 */}
+      <AuthFileImportModal
+        sources={importSources}
+        existingNames={existingFileNames}
+        disabled={disableControls}
+        maxFileSize={MAX_AUTH_FILE_SIZE}
+        onClose={() => setImportSources(null)}
+        onImported={async () => {
+          await loadFiles();
+          await loadKeyStats();
+        }}
+      />
 
     </div>
   );
@@ -9,7 +9,7 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { IconChevronDown, IconChevronUp, IconSearch } from '@/components/ui/icons';
 import { useNotificationStore, useAuthStore, useThemeStore } from '@/stores';
-import { configFileApi } from '@/services/api/configFile';
+import { configFileApi, isConfigYamlConflict } from '@/services/api/configFile';
 import styles from './ConfigPage.module.scss';
 
 export function ConfigPage() {
@@ -23,6 +23,8 @@ export function ConfigPage() {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
   const [dirty, setDirty] = useState(false);
+  // 加载时的 ETag，保存时用于检测 config.yaml 是否已被其他途径修改
+  const etagRef = useRef<string | null>(null);
 
   // Search state
   const [searchQuery, setSearchQuery] = useState('');
@@ -38,8 +40,9 @@ export function ConfigPage() {
     setLoading(true);
     setError('');
     try {
-      const data = await configFileApi.fetchConfigYaml();
-      setContent(data);
+      const snapshot = await configFileApi.fetchConfigYamlSnapshot();
+      etagRef.current = snapshot.etag;
+      setContent(snapshot.content);
       setDirty(false);
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : t('notification.refresh_failed');
@@ -56,11 +59,15 @@ export function ConfigPage() {
   const handleSave = async () => {
     setSaving(true);
     try {
-      await configFileApi.saveConfigYaml(content);
+      etagRef.current = await configFileApi.saveConfigYaml(content, etagRef.current);
       setDirty(false);
       showNotification(t('config_management.save_success'), 'success');
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : '';
+      const message = isConfigYamlConflict(err)
+        ? t('config_management.save_conflict')
+        : err instanceof Error
+          ? err.message
+          : '';
       showNotification(`${t('notification.save_failed')}: ${message}`, 'error');
     } finally {
       setSaving(false);
@@ -7,8 +7,16 @@ import {
   IconFileText,
   IconSatellite
 } from '@/components/ui/icons';
+import {
+  UsageAnomalyWidget,
+  UsageBudgetWidget,
+  useUsageAnomalies,
+  useUsageOverview
+} from '@/components/usage';
+import { AuthFileHealthWidget } from '@/components/authFiles';
 import { useAuthStore, useConfigStore, useModelsStore } from '@/stores';
 import { apiKeysApi, providersApi, authFilesApi } from '@/services/api';
+import type { AuthFileItem } from '@/types/authFile';
 import styles from './DashboardPage.module.scss';
 
 interface QuickStat {
@@ -54,6 +62,16 @@ export function DashboardPage() {
 
   const [loading, setLoading] = useState(true);
 
+  const [authFiles, setAuthFiles] = useState<AuthFileItem[]>([]);
+
+  const {
+    usage,
+    budgets,
+    budgetStatuses,
+    loading: usageLoading
+  } = useUsageOverview(connectionStatus === 'connected');
+  const anomalies = useUsageAnomalies(usage, authFiles, config);
+
   const apiKeysCache = useRef<string[]>([]);
 
   useEffect(() => {
@@ -130,6 +148,9 @@ export function DashboardPage() {
           apiKeys: keysRes.status === 'fulfilled' ? keysRes.value.length : null,
           authFiles: filesRes.status === 'fulfilled' ? filesRes.value.files.length : null
         });
+        if (filesRes.status === 'fulfilled') {
+          setAuthFiles(filesRes.value.files);
+        }
 
         setProviderStats({
           gemini: geminiRes.status === 'fulfilled' ? geminiRes.value.length : null,
@@ -258,6 +279,12 @@ export function DashboardPage() {
         ))}
       </div>
 
+      {anomalies.length > 0 && <UsageAnomalyWidget anomalies={anomalies} />}
+
+      {authFiles.length > 0 && <AuthFileHealthWidget files={authFiles} />}
+
+      {budgets.length > 0 && <UsageBudgetWidget statuses={budgetStatuses} loading={usageLoading} />}
+
       {config && (
         <div className={styles.section}>
           <h2 className={styles.sectionTitle}>{t('dashboard.current_config')}</h2>
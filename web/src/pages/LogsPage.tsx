@@ -1,27 +1,80 @@
-import { useDeferredValue, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
-import type { PointerEvent as ReactPointerEvent, ReactNode } from 'react';
+import {
+  useCallback,
+  useDeferredValue,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import type {
+  KeyboardEvent as ReactKeyboardEvent,
+  PointerEvent as ReactPointerEvent,
+  ReactNode,
+} from 'react';
 import { useTranslation } from 'react-i18next';
+import { useSearchParams } from 'react-router-dom';
+import {
+  Chart as ChartJS,
+  BarElement,
+  CategoryScale,
+  Legend,
+  LinearScale,
+  Tooltip,
+} from 'chart.js';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { EmptyState } from '@/components/ui/EmptyState';
-import { Input } from '@/components/ui/Input';
 import { Modal } from '@/components/ui/Modal';
 import { ToggleSwitch } from '@/components/ui/ToggleSwitch';
 import {
+  ErrorLogBrowser,
+  LogAnalyticsPanel,
+  LogQueryInput,
+  RequestLogViewer,
+  RequestTimeline,
+  SavedLogQueries,
+} from '@/components/log';
+import {
+  IconBookmark,
+  IconChartLine,
   IconDownload,
   IconCode,
   IconEyeOff,
+  IconLink,
   IconRefreshCw,
-  IconSearch,
+  IconScrollText,
   IconTimer,
   IconTrash2,
-  IconX,
 } from '@/components/ui/icons';
 import { useHeaderRefresh } from '@/hooks/useHeaderRefresh';
-import { useAuthStore, useConfigStore, useNotificationStore } from '@/stores';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { useVirtualList } from '@/hooks/useVirtualList';
+import type { VirtualScrollAlign } from '@/hooks/useVirtualList';
+import { useAuthStore, useConfigStore, useNotificationStore, useThemeStore } from '@/stores';
 import { logsApi } from '@/services/api/logs';
-import { MANAGEMENT_API_PREFIX } from '@/utils/constants';
-import { formatUnixTimestamp } from '@/utils/format';
+import type {
+  ActiveLogStreamTransport,
+  LogStreamBatch,
+  LogStreamStatus,
+  LogStreamTransport,
+} from '@/services/api/logs';
+import {
+  MANAGEMENT_API_PREFIX,
+  STORAGE_KEY_LOGS_SAVED_QUERIES,
+  STORAGE_KEY_LOGS_TRANSPORT,
+} from '@/utils/constants';
+import { escapeRegExp } from '@/utils/helpers';
+import {
+  createLogFilterClient,
+  findLogLineIndexByTime,
+  groupLogLinesByRequest,
+  parseLogLineCached,
+  parseLogQuery,
+  resolveJumpTimestampMs,
+  toggleLogQueryClause,
+} from '@/utils/log';
+import type { LogAnalytics, LogFilterClient, LogQueryField } from '@/utils/log';
 import styles from './LogsPage.module.scss';
 
 interface ErrorLogItem {
@@ -30,309 +83,30 @@ interface ErrorLogItem {
   modified?: number;
 }
 
-type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+// Register Chart.js components used by the analytics panel
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend);
 
 type LogState = {
   buffer: string[];
-  visibleFrom: number;
+  /** 缓冲区头部变化（裁剪最旧的行或整体替换）时递增，行号随之失效 */
+  generation: number;
 };
 
-// 初始只渲染最近 100 行，滚动到顶部再逐步加载更多（避免一次性渲染过多导致卡顿）
-const INITIAL_DISPLAY_LINES = 100;
-const LOAD_MORE_LINES = 200;
-const MAX_BUFFER_LINES = 10000;
-const LOAD_MORE_THRESHOLD_PX = 72;
+// 日志列表为虚拟滚动，只渲染可视区域内的行，缓冲区可保留更多历史
+const MAX_BUFFER_LINES = 100000;
+const LOG_ROW_ESTIMATED_HEIGHT = 40;
+// 实时流推送的日志先进入队列，按固定间隔批量写入缓冲区，避免高频推送导致频繁渲染
+const STREAM_FLUSH_INTERVAL_MS = 250;
+const LOG_STREAM_TRANSPORTS: LogStreamTransport[] = ['auto', 'sse', 'polling'];
 const LONG_PRESS_MS = 650;
 const LONG_PRESS_MOVE_THRESHOLD = 10;
-
-const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD'] as const;
-type HttpMethod = (typeof HTTP_METHODS)[number];
-const HTTP_METHOD_REGEX = new RegExp(`\\b(${HTTP_METHODS.join('|')})\\b`);
-
-const LOG_TIMESTAMP_REGEX = /^\[?(\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(?:\.\d{1,3})?)\]?/;
-const LOG_LEVEL_REGEX = /^\[?(trace|debug|info|warn|warning|error|fatal)\s*\]?(?=\s|\[|$)\s*/i;
-const LOG_SOURCE_REGEX = /^\[([^\]]+)\]/;
-const LOG_LATENCY_REGEX =
-  /\b(?:\d+(?:\.\d+)?\s*(?:µs|us|ms|s|m))(?:\s*\d+(?:\.\d+)?\s*(?:µs|us|ms|s|m))*\b/i;
-const LOG_IPV4_REGEX = /\b(?:\d{1,3}\.){3}\d{1,3}\b/;
-const LOG_IPV6_REGEX = /\b(?:[a-f0-9]{0,4}:){2,7}[a-f0-9]{0,4}\b/i;
-const LOG_REQUEST_ID_REGEX = /^([a-f0-9]{8}|--------)$/i;
-const LOG_TIME_OF_DAY_REGEX = /^\d{1,2}:\d{2}:\d{2}(?:\.\d{1,3})?$/;
-const GIN_TIMESTAMP_SEGMENT_REGEX =
-  /^\[GIN\]\s+(\d{4})\/(\d{2})\/(\d{2})\s*-\s*(\d{2}:\d{2}:\d{2}(?:\.\d{1,3})?)\s*$/;
-
-const HTTP_STATUS_PATTERNS: RegExp[] = [
-  /\|\s*([1-5]\d{2})\s*\|/,
-  /\b([1-5]\d{2})\s*-/,
-  new RegExp(`\\b(?:${HTTP_METHODS.join('|')})\\s+\\S+\\s+([1-5]\\d{2})\\b`),
-  /\b(?:status|code|http)[:\s]+([1-5]\d{2})\b/i,
-  /\b([1-5]\d{2})\s+(?:OK|Created|Accepted|No Content|Moved|Found|Bad Request|Unauthorized|Forbidden|Not Found|Method Not Allowed|Internal Server Error|Bad Gateway|Service Unavailable|Gateway Timeout)\b/i,
-];
-
-const detectHttpStatusCode = (text: string): number | undefined => {
-  for (const pattern of HTTP_STATUS_PATTERNS) {
-    const match = text.match(pattern);
-    if (!match) continue;
-    const code = Number.parseInt(match[1], 10);
-    if (!Number.isFinite(code)) continue;
-    if (code >= 100 && code <= 599) return code;
-  }
-  return undefined;
-};
-
-const extractIp = (text: string): string | undefined => {
-  const ipv4Match = text.match(LOG_IPV4_REGEX);
-  if (ipv4Match) return ipv4Match[0];
-
-  const ipv6Match = text.match(LOG_IPV6_REGEX);
-  if (!ipv6Match) return undefined;
-
-  const candidate = ipv6Match[0];
-
-  // Avoid treating time strings like "12:34:56" as IPv6 addresses.
-  if (LOG_TIME_OF_DAY_REGEX.test(candidate)) return undefined;
-
-  // If no compression marker is present, a valid IPv6 address must contain 8 hextets.
-  if (!candidate.includes('::') && candidate.split(':').length !== 8) return undefined;
-
-  return candidate;
-};
-
-const normalizeTimestampToSeconds = (value: string): string => {
-  const trimmed = value.trim();
-  const match = trimmed.match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}:\d{2})/);
-  if (!match) return trimmed;
-  return `${match[1]} ${match[2]}`;
-};
-
-const extractLatency = (text: string): string | undefined => {
-  const match = text.match(LOG_LATENCY_REGEX);
-  if (!match) return undefined;
-  return match[0].replace(/\s+/g, '');
-};
-
-type ParsedLogLine = {
-  raw: string;
-  timestamp?: string;
-  level?: LogLevel;
-  source?: string;
-  requestId?: string;
-  statusCode?: number;
-  latency?: string;
-  ip?: string;
-  method?: HttpMethod;
-  path?: string;
-  message: string;
-};
-
-const extractLogLevel = (value: string): LogLevel | undefined => {
-  const normalized = value.trim().toLowerCase();
-  if (normalized === 'warning') return 'warn';
-  if (normalized === 'warn') return 'warn';
-  if (normalized === 'info') return 'info';
-  if (normalized === 'error') return 'error';
-  if (normalized === 'fatal') return 'fatal';
-  if (normalized === 'debug') return 'debug';
-  if (normalized === 'trace') return 'trace';
-  return undefined;
-};
-
-const inferLogLevel = (line: string): LogLevel | undefined => {
-  const lowered = line.toLowerCase();
-  if (/\bfatal\b/.test(lowered)) return 'fatal';
-  if (/\berror\b/.test(lowered)) return 'error';
-  if (/\bwarn(?:ing)?\b/.test(lowered) || line.includes('警告')) return 'warn';
-  if (/\binfo\b/.test(lowered)) return 'info';
-  if (/\bdebug\b/.test(lowered)) return 'debug';
-  if (/\btrace\b/.test(lowered)) return 'trace';
-  return undefined;
-};
-
-const extractHttpMethodAndPath = (text: string): { method?: HttpMethod; path?: string } => {
-  const match = text.match(HTTP_METHOD_REGEX);
-  if (!match) return {};
-
-  const method = match[1] as HttpMethod;
-  const index = match.index ?? 0;
-  const after = text.slice(index + match[0].length).trim();
-  const path = after ? after.split(/\s+/)[0] : undefined;
-  return { method, path };
-};
-
-const parseLogLine = (raw: string): ParsedLogLine => {
-  let remaining = raw.trim();
-
-  let timestamp: string | undefined;
-  const tsMatch = remaining.match(LOG_TIMESTAMP_REGEX);
-  if (tsMatch) {
-    timestamp = tsMatch[1];
-    remaining = remaining.slice(tsMatch[0].length).trim();
-  }
-
-  let requestId: string | undefined;
-  const requestIdMatch = remaining.match(/^\[([a-f0-9]{8}|--------)\]\s*/i);
-  if (requestIdMatch) {
-    const id = requestIdMatch[1];
-    if (!/^-+$/.test(id)) {
-      requestId = id;
-    }
-    remaining = remaining.slice(requestIdMatch[0].length).trim();
-  }
-
-  let level: LogLevel | undefined;
-  const lvlMatch = remaining.match(LOG_LEVEL_REGEX);
-  if (lvlMatch) {
-    level = extractLogLevel(lvlMatch[1]);
-    remaining = remaining.slice(lvlMatch[0].length).trim();
-  }
-
-  let source: string | undefined;
-  const sourceMatch = remaining.match(LOG_SOURCE_REGEX);
-  if (sourceMatch) {
-    source = sourceMatch[1];
-    remaining = remaining.slice(sourceMatch[0].length).trim();
-  }
-
-  let statusCode: number | undefined;
-  let latency: string | undefined;
-  let ip: string | undefined;
-  let method: HttpMethod | undefined;
-  let path: string | undefined;
-  let message = remaining;
-
-  if (remaining.includes('|')) {
-    const segments = remaining
-      .split('|')
-      .map((segment) => segment.trim())
-      .filter(Boolean);
-    const consumed = new Set<number>();
-
-    const ginIndex = segments.findIndex((segment) => GIN_TIMESTAMP_SEGMENT_REGEX.test(segment));
-    if (ginIndex >= 0) {
-      const match = segments[ginIndex].match(GIN_TIMESTAMP_SEGMENT_REGEX);
-      if (match) {
-        const ginTimestamp = `${match[1]}-${match[2]}-${match[3]} ${match[4]}`;
-        const normalizedGin = normalizeTimestampToSeconds(ginTimestamp);
-        const normalizedParsed = timestamp ? normalizeTimestampToSeconds(timestamp) : undefined;
-
-        if (!timestamp) {
-          timestamp = ginTimestamp;
-          consumed.add(ginIndex);
-        } else if (normalizedParsed === normalizedGin) {
-          consumed.add(ginIndex);
-        }
-      }
-    }
-
-    // request id (8-char hex or dashes)
-    const requestIdIndex = segments.findIndex((segment) => LOG_REQUEST_ID_REGEX.test(segment));
-    if (requestIdIndex >= 0) {
-      const match = segments[requestIdIndex].match(LOG_REQUEST_ID_REGEX);
-      if (match) {
-        const id = match[1];
-        if (!/^-+$/.test(id)) {
-          requestId = id;
-        }
-        consumed.add(requestIdIndex);
-      }
-    }
-
-    // status code
-    const statusIndex = segments.findIndex((segment) => /^\d{3}$/.test(segment));
-    if (statusIndex >= 0) {
-      const match = segments[statusIndex].match(/^(\d{3})$/);
-      if (match) {
-        const code = Number.parseInt(match[1], 10);
-        if (code >= 100 && code <= 599) {
-          statusCode = code;
-          consumed.add(statusIndex);
-        }
-      }
-    }
-
-    // latency
-    const latencyIndex = segments.findIndex((segment) => LOG_LATENCY_REGEX.test(segment));
-    if (latencyIndex >= 0) {
-      const extracted = extractLatency(segments[latencyIndex]);
-      if (extracted) {
-        latency = extracted;
-        consumed.add(latencyIndex);
-      }
-    }
-
-    // ip
-    const ipIndex = segments.findIndex((segment) => Boolean(extractIp(segment)));
-    if (ipIndex >= 0) {
-      const extracted = extractIp(segments[ipIndex]);
-      if (extracted) {
-        ip = extracted;
-        consumed.add(ipIndex);
-      }
-    }
-
-    // method + path
-    const methodIndex = segments.findIndex((segment) => {
-      const { method: parsedMethod } = extractHttpMethodAndPath(segment);
-      return Boolean(parsedMethod);
-    });
-    if (methodIndex >= 0) {
-      const parsed = extractHttpMethodAndPath(segments[methodIndex]);
-      method = parsed.method;
-      path = parsed.path;
-      consumed.add(methodIndex);
-    }
-
-    // source (e.g. [gin_logger.go:94])
-    const sourceIndex = segments.findIndex((segment) => LOG_SOURCE_REGEX.test(segment));
-    if (sourceIndex >= 0) {
-      const match = segments[sourceIndex].match(LOG_SOURCE_REGEX);
-      if (match) {
-        source = match[1];
-        consumed.add(sourceIndex);
-      }
-    }
-
-    message = segments.filter((_, index) => !consumed.has(index)).join(' | ');
-  } else {
-    statusCode = detectHttpStatusCode(remaining);
-
-    const extracted = extractLatency(remaining);
-    if (extracted) latency = extracted;
-
-    ip = extractIp(remaining);
-
-    const parsed = extractHttpMethodAndPath(remaining);
-    method = parsed.method;
-    path = parsed.path;
-  }
-
-  if (!level) level = inferLogLevel(raw);
-
-  if (message) {
-    const match = message.match(GIN_TIMESTAMP_SEGMENT_REGEX);
-    if (match) {
-      const ginTimestamp = `${match[1]}-${match[2]}-${match[3]} ${match[4]}`;
-      if (!timestamp) timestamp = ginTimestamp;
-      if (normalizeTimestampToSeconds(timestamp) === normalizeTimestampToSeconds(ginTimestamp)) {
-        message = '';
-      }
-    }
-  }
-
-  return {
-    raw,
-    timestamp,
-    level,
-    source,
-    requestId,
-    statusCode,
-    latency,
-    ip,
-    method,
-    path,
-    message,
-  };
-};
+const MAX_SAVED_QUERIES = 20;
+// 时间线模式最多展示最近的请求数，避免一次渲染过多分组
+const MAX_TIMELINE_GROUPS = 500;
+// 时间线与请求分组在主线程解析，只取最近的日志行
+const MAX_TIMELINE_LINES = 20000;
+// 分享链接中的查询参数名
+const QUERY_PARAM = 'q';
 
 const getErrorMessage = (err: unknown): string => {
   if (err instanceof Error) return err.message;
@@ -368,25 +142,42 @@ const copyToClipboard = async (text: string) => {
   }
 };
 
-const highlightText = (text: string, query: string, className: string): ReactNode => {
-  if (!query || !text) return text;
-  const lowerText = text.toLowerCase();
-  const lowerQuery = query.toLowerCase();
+const saveLogFile = (data: BlobPart, filename: string) => {
+  const blob = new Blob([data], { type: 'text/plain' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+const highlightText = (text: string, terms: string[], className: string): ReactNode => {
+  if (terms.length === 0 || !text) return text;
+  // 长词优先匹配，避免短词截断长词的高亮
+  const pattern = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  const regex = new RegExp(pattern, 'gi');
   const parts: ReactNode[] = [];
   let lastIndex = 0;
-  let index = lowerText.indexOf(lowerQuery);
   let key = 0;
-  while (index !== -1) {
-    if (index > lastIndex) {
-      parts.push(text.slice(lastIndex, index));
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      regex.lastIndex += 1;
+      continue;
+    }
+    if (match.index > lastIndex) {
+      parts.push(text.slice(lastIndex, match.index));
     }
     parts.push(
       <mark key={key++} className={className}>
-        {text.slice(index, index + query.length)}
+        {match[0]}
       </mark>
     );
-    lastIndex = index + query.length;
-    index = lowerText.indexOf(lowerQuery, lastIndex);
+    lastIndex = match.index + match[0].length;
   }
   if (lastIndex < text.length) {
     parts.push(text.slice(lastIndex));
@@ -396,30 +187,68 @@ const highlightText = (text: string, query: string, className: string): ReactNod
 
 type TabType = 'logs' | 'errors';
 
+type LogViewerTarget = { type: 'request' | 'error'; id: string };
+
+type LogSearchResult = {
+  lines: string[];
+  query: string;
+  excludeText?: string;
+  /** 发起筛选时的缓冲区，用于判断结果是否已过期 */
+  buffer: string[];
+  generation: number;
+};
+
 export function LogsPage() {
   const { t } = useTranslation();
   const { showNotification, showConfirmation } = useNotificationStore();
   const connectionStatus = useAuthStore((state) => state.connectionStatus);
   const requestLogEnabled = useConfigStore((state) => state.config?.requestLog ?? false);
+  const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
+  const isDark = resolvedTheme === 'dark';
 
   const [activeTab, setActiveTab] = useState<TabType>('logs');
-  const [logState, setLogState] = useState<LogState>({ buffer: [], visibleFrom: 0 });
+  const [logState, setLogState] = useState<LogState>({ buffer: [], generation: 0 });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [autoRefresh, setAutoRefresh] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [streamTransport, setStreamTransport] = useLocalStorage<LogStreamTransport>(
+    STORAGE_KEY_LOGS_TRANSPORT,
+    'auto'
+  );
+  const [streamState, setStreamState] = useState<{
+    status: LogStreamStatus;
+    transport: ActiveLogStreamTransport | null;
+  }>({ status: 'closed', transport: null });
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [searchQuery, setSearchQuery] = useState(() => searchParams.get(QUERY_PARAM) ?? '');
+  const [savedQueries, setSavedQueries] = useLocalStorage<string[]>(
+    STORAGE_KEY_LOGS_SAVED_QUERIES,
+    []
+  );
   const deferredSearchQuery = useDeferredValue(searchQuery);
   const [hideManagementLogs, setHideManagementLogs] = useState(true);
   const [showRawLogs, setShowRawLogs] = useState(false);
+  const [groupByRequest, setGroupByRequest] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
   const [errorLogs, setErrorLogs] = useState<ErrorLogItem[]>([]);
   const [loadingErrors, setLoadingErrors] = useState(false);
   const [errorLogsError, setErrorLogsError] = useState('');
-  const [requestLogId, setRequestLogId] = useState<string | null>(null);
-  const [requestLogDownloading, setRequestLogDownloading] = useState(false);
+  const [viewerTarget, setViewerTarget] = useState<LogViewerTarget | null>(null);
+  const [viewerText, setViewerText] = useState('');
+  const [viewerLoading, setViewerLoading] = useState(false);
+  const [viewerError, setViewerError] = useState('');
+
+  const [searchResult, setSearchResult] = useState<LogSearchResult | null>(null);
+  const [analytics, setAnalytics] = useState<LogAnalytics | null>(null);
+  const [activeLineIndex, setActiveLineIndex] = useState<number | null>(null);
+  const [jumpTarget, setJumpTarget] = useState('');
 
   const logViewerRef = useRef<HTMLDivElement | null>(null);
-  const pendingScrollToBottomRef = useRef(false);
-  const pendingPrependScrollRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  // 用户停留在底部时跟随最新日志
+  const followTailRef = useRef(true);
+  // 与 logState.buffer 同步更新，供筛选 Worker 初始化时读取最新缓冲区
+  const bufferRef = useRef<string[]>([]);
+  const filterClientRef = useRef<LogFilterClient | null>(null);
   const longPressRef = useRef<{
     timer: number | null;
     startX: number;
@@ -429,6 +258,9 @@ export function LogsPage() {
 
   // 保存最新时间戳用于增量获取
   const latestTimestampRef = useRef<number>(0);
+  // 实时流待写入的日志队列
+  const pendingStreamLinesRef = useRef<string[]>([]);
+  const streamFlushTimerRef = useRef<number | null>(null);
 
   const disableControls = connectionStatus !== 'connected';
 
@@ -444,6 +276,58 @@ export function LogsPage() {
     node.scrollTop = node.scrollHeight;
   };
 
+  // 筛选 Worker 按需创建，缓冲区的每次变更都需同步给它
+  const getFilterClient = () => {
+    if (!filterClientRef.current) {
+      filterClientRef.current = createLogFilterClient();
+      filterClientRef.current.reset(bufferRef.current);
+    }
+    return filterClientRef.current;
+  };
+
+  // 增量更新：追加新日志并限制缓冲区大小（避免内存膨胀）
+  const appendLines = (newLines: string[]) => {
+    const combined = bufferRef.current.concat(newLines);
+    const dropCount = Math.max(combined.length - MAX_BUFFER_LINES, 0);
+    const buffer = dropCount > 0 ? combined.slice(dropCount) : combined;
+    bufferRef.current = buffer;
+    filterClientRef.current?.append(newLines, MAX_BUFFER_LINES);
+    setLogState((prev) => ({
+      buffer,
+      generation: dropCount > 0 ? prev.generation + 1 : prev.generation,
+    }));
+  };
+
+  const replaceLines = (lines: string[]) => {
+    bufferRef.current = lines;
+    filterClientRef.current?.reset(lines);
+    setLogState((prev) => ({ buffer: lines, generation: prev.generation + 1 }));
+  };
+
+  const flushStreamLines = () => {
+    streamFlushTimerRef.current = null;
+    const lines = pendingStreamLinesRef.current;
+    if (lines.length === 0) return;
+    pendingStreamLinesRef.current = [];
+    followTailRef.current = isNearBottom(logViewerRef.current);
+    appendLines(lines);
+  };
+
+  const enqueueStreamLines = ({ lines, latestTimestamp }: LogStreamBatch) => {
+    if (latestTimestamp) {
+      latestTimestampRef.current = Math.max(latestTimestampRef.current, latestTimestamp);
+    }
+
+    // 队列同样受 MAX_BUFFER_LINES 限制，超出部分直接丢弃最旧的行
+    const queue = pendingStreamLinesRef.current.concat(lines);
+    pendingStreamLinesRef.current =
+      queue.length > MAX_BUFFER_LINES ? queue.slice(-MAX_BUFFER_LINES) : queue;
+
+    if (streamFlushTimerRef.current === null) {
+      streamFlushTimerRef.current = window.setTimeout(flushStreamLines, STREAM_FLUSH_INTERVAL_MS);
+    }
+  };
+
   const loadLogs = async (incremental = false) => {
     if (connectionStatus !== 'connected') {
       setLoading(false);
@@ -456,7 +340,7 @@ export function LogsPage() {
     setError('');
 
     try {
-      pendingScrollToBottomRef.current = !incremental || isNearBottom(logViewerRef.current);
+      followTailRef.current = !incremental || isNearBottom(logViewerRef.current);
 
       const params =
         incremental && latestTimestampRef.current > 0 ? { after: latestTimestampRef.current } : {};
@@ -470,26 +354,10 @@ export function LogsPage() {
       const newLines = Array.isArray(data.lines) ? data.lines : [];
 
       if (incremental && newLines.length > 0) {
-        // 增量更新：追加新日志并限制缓冲区大小（避免内存与渲染膨胀）
-        setLogState((prev) => {
-          const prevRenderedCount = prev.buffer.length - prev.visibleFrom;
-          const combined = [...prev.buffer, ...newLines];
-          const dropCount = Math.max(combined.length - MAX_BUFFER_LINES, 0);
-          const buffer = dropCount > 0 ? combined.slice(dropCount) : combined;
-          let visibleFrom = Math.max(prev.visibleFrom - dropCount, 0);
-
-          // 若用户停留在底部（跟随最新日志），则保持“渲染窗口”大小不变，避免无限增长
-          if (pendingScrollToBottomRef.current) {
-            visibleFrom = Math.max(buffer.length - prevRenderedCount, 0);
-          }
-
-          return { buffer, visibleFrom };
-        });
+        appendLines(newLines);
       } else if (!incremental) {
-        // 全量加载：默认只渲染最后 100 行，向上滚动再展开更多
-        const buffer = newLines.slice(-MAX_BUFFER_LINES);
-        const visibleFrom = Math.max(buffer.length - INITIAL_DISPLAY_LINES, 0);
-        setLogState({ buffer, visibleFrom });
+        pendingStreamLinesRef.current = [];
+        replaceLines(newLines.slice(-MAX_BUFFER_LINES));
       }
     } catch (err: unknown) {
       console.error('Failed to load logs:', err);
@@ -514,7 +382,8 @@ export function LogsPage() {
       onConfirm: async () => {
         try {
           await logsApi.clearLogs();
-          setLogState({ buffer: [], visibleFrom: 0 });
+          pendingStreamLinesRef.current = [];
+          replaceLines([]);
           latestTimestampRef.current = 0;
           showNotification(t('logs.clear_success'), 'success');
         } catch (err: unknown) {
@@ -567,13 +436,7 @@ export function LogsPage() {
   const downloadErrorLog = async (name: string) => {
     try {
       const response = await logsApi.downloadErrorLog(name);
-      const blob = new Blob([response.data], { type: 'text/plain' });
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = name;
-      a.click();
-      window.URL.revokeObjectURL(url);
+      saveLogFile(response.data, name);
       showNotification(t('logs.error_log_download_success'), 'success');
     } catch (err: unknown) {
       const message = getErrorMessage(err);
@@ -592,6 +455,48 @@ export function LogsPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [connectionStatus]);
 
+  // 将查询语句同步到 URL，便于直接分享当前筛选视图
+  useEffect(() => {
+    const trimmed = deferredSearchQuery.trim();
+    if ((searchParams.get(QUERY_PARAM) ?? '') === trimmed) return;
+    const next = new URLSearchParams(searchParams);
+    if (trimmed) {
+      next.set(QUERY_PARAM, trimmed);
+    } else {
+      next.delete(QUERY_PARAM);
+    }
+    setSearchParams(next, { replace: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [deferredSearchQuery]);
+
+  const saveCurrentQuery = () => {
+    const trimmed = searchQuery.trim();
+    if (!trimmed) return;
+    setSavedQueries((prev) =>
+      [trimmed, ...prev.filter((item) => item !== trimmed)].slice(0, MAX_SAVED_QUERIES)
+    );
+    showNotification(t('logs.query_saved'), 'success');
+  };
+
+  const removeSavedQuery = (query: string) => {
+    setSavedQueries((prev) => prev.filter((item) => item !== query));
+  };
+
+  const copyQueryLink = async () => {
+    const params = new URLSearchParams();
+    const trimmed = searchQuery.trim();
+    if (trimmed) params.set(QUERY_PARAM, trimmed);
+    const queryString = params.toString();
+    const url = `${window.location.origin}${window.location.pathname}#/logs${
+      queryString ? `?${queryString}` : ''
+    }`;
+    const ok = await copyToClipboard(url);
+    showNotification(
+      ok ? t('logs.query_link_copied') : t('logs.copy_failed'),
+      ok ? 'success' : 'error'
+    );
+  };
+
   useEffect(() => {
     if (activeTab !== 'errors') return;
     if (connectionStatus !== 'connected') return;
@@ -603,99 +508,149 @@ export function LogsPage() {
     if (!autoRefresh || connectionStatus !== 'connected') {
       return;
     }
-    const id = window.setInterval(() => {
-      loadLogs(true);
-    }, 8000);
-    return () => window.clearInterval(id);
+    const stream = logsApi.openStream({
+      transport: streamTransport,
+      after: latestTimestampRef.current,
+      onBatch: enqueueStreamLines,
+      onStatus: (status, transport) => setStreamState({ status, transport }),
+      onError: (err) => console.warn('Log stream error:', err),
+    });
+    return () => {
+      stream.close();
+      if (streamFlushTimerRef.current !== null) {
+        window.clearTimeout(streamFlushTimerRef.current);
+      }
+      flushStreamLines();
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [autoRefresh, connectionStatus]);
+  }, [autoRefresh, connectionStatus, streamTransport]);
 
-  useEffect(() => {
-    if (!pendingScrollToBottomRef.current) return;
-    if (loading) return;
-    if (!logViewerRef.current) return;
+  const logQuery = useMemo(() => parseLogQuery(deferredSearchQuery), [deferredSearchQuery]);
+  const highlightTerms = logQuery.highlightTerms;
+  const isSearching = logQuery.clauses.length > 0;
+  const excludeText = hideManagementLogs ? MANAGEMENT_API_PREFIX : undefined;
 
-    scrollToBottom();
-    pendingScrollToBottomRef.current = false;
-  }, [loading, logState.buffer, logState.visibleFrom]);
+  // 查询条件在 Worker 中匹配，结果返回前继续显示上一次的结果
+  useEffect(() => {
+    if (!isSearching) return;
+    let cancelled = false;
+    getFilterClient()
+      .filter(deferredSearchQuery, excludeText)
+      .then((lines) => {
+        if (cancelled) return;
+        setSearchResult({
+          lines,
+          query: deferredSearchQuery,
+          excludeText,
+          buffer: logState.buffer,
+          generation: logState.generation,
+        });
+      })
+      .catch((err: unknown) => console.warn('Failed to filter logs:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [deferredSearchQuery, excludeText, isSearching, logState.buffer, logState.generation]);
 
-  const visibleLines = useMemo(
-    () => logState.buffer.slice(logState.visibleFrom),
-    [logState.buffer, logState.visibleFrom]
+  const managementFilteredLines = useMemo(
+    () =>
+      excludeText ? logState.buffer.filter((line) => !line.includes(excludeText)) : logState.buffer,
+    [excludeText, logState.buffer]
   );
 
-  const trimmedSearchQuery = deferredSearchQuery.trim();
-  const isSearching = trimmedSearchQuery.length > 0;
-  const baseLines = isSearching ? logState.buffer : visibleLines;
-
-  const { filteredLines, removedCount } = useMemo(() => {
-    let working = baseLines;
-    let removed = 0;
-
-    if (hideManagementLogs) {
-      const next: string[] = [];
-      for (const line of working) {
-        if (line.includes(MANAGEMENT_API_PREFIX)) {
-          removed += 1;
-        } else {
-          next.push(line);
-        }
-      }
-      working = next;
-    }
-
-    if (trimmedSearchQuery) {
-      const queryLowered = trimmedSearchQuery.toLowerCase();
-      const next: string[] = [];
-      for (const line of working) {
-        if (line.toLowerCase().includes(queryLowered)) {
-          next.push(line);
-        } else {
-          removed += 1;
-        }
-      }
-      working = next;
-    }
+  const filteredLines = useMemo(
+    () => (isSearching ? (searchResult?.lines ?? []) : managementFilteredLines),
+    [isSearching, managementFilteredLines, searchResult]
+  );
+  const removedCount = logState.buffer.length - filteredLines.length;
+  const searchPending =
+    isSearching &&
+    (!searchResult ||
+      searchResult.query !== deferredSearchQuery ||
+      searchResult.excludeText !== excludeText ||
+      searchResult.buffer !== logState.buffer);
+
+  const timeline = useMemo(() => {
+    if (!groupByRequest) return { groups: [], ungroupedCount: 0 };
+    const recentLines =
+      filteredLines.length > MAX_TIMELINE_LINES
+        ? filteredLines.slice(-MAX_TIMELINE_LINES)
+        : filteredLines;
+    const parsed = recentLines.map((line) => parseLogLineCached(line));
+    const groups = groupLogLinesByRequest(parsed);
+    const ungroupedCount = parsed.filter((line) => !line.requestId).length;
+    return { groups: groups.slice(-MAX_TIMELINE_GROUPS), ungroupedCount };
+  }, [filteredLines, groupByRequest]);
+
+  // 统计面板基于整个缓冲区，不受当前查询影响，便于点击柱状图逐步筛选
+  useEffect(() => {
+    if (!showAnalytics) return;
+    let cancelled = false;
+    getFilterClient()
+      .analyze(excludeText)
+      .then((result) => {
+        if (!cancelled) setAnalytics(result);
+      })
+      .catch((err: unknown) => console.warn('Failed to compute log analytics:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [excludeText, logState.buffer, showAnalytics]);
 
-    return { filteredLines: working, removedCount: removed };
-  }, [baseLines, hideManagementLogs, trimmedSearchQuery]);
+  useEffect(() => {
+    return () => {
+      filterClientRef.current?.dispose();
+      filterClientRef.current = null;
+    };
+  }, []);
 
-  const parsedVisibleLines = useMemo(() => {
-    if (showRawLogs) return [];
-    return filteredLines.map((line) => parseLogLine(line));
-  }, [filteredLines, showRawLogs]);
+  const applyAnalyticsFilter = useCallback(
+    (field: LogQueryField, value: string, exact?: boolean) => {
+      setSearchQuery((prev) => toggleLogQueryClause(prev, field, value, exact));
+    },
+    []
+  );
 
-  const rawVisibleText = useMemo(() => filteredLines.join('\n'), [filteredLines]);
+  const rawVisibleText = useMemo(
+    () => (showRawLogs ? filteredLines.join('\n') : ''),
+    [filteredLines, showRawLogs]
+  );
 
-  const canLoadMore = !isSearching && logState.visibleFrom > 0;
+  const listCount = showRawLogs || groupByRequest ? 0 : filteredLines.length;
+  const activeIndex =
+    activeLineIndex !== null && activeLineIndex < listCount ? activeLineIndex : null;
+  const {
+    range: virtualRange,
+    scrollRef: setVirtualScrollElement,
+    measureElement,
+    scrollToIndex,
+  } = useVirtualList({
+    count: listCount,
+    estimateSize: LOG_ROW_ESTIMATED_HEIGHT,
+    // 行号只在同一筛选条件、且缓冲区头部未变化时对应同一行
+    resetKey: isSearching
+      ? `search:${searchResult?.query}:${searchResult?.excludeText ?? ''}:${searchResult?.generation}`
+      : `all:${excludeText ?? ''}:${logState.generation}`,
+  });
+
+  const setLogViewerNode = useCallback(
+    (node: HTMLDivElement | null) => {
+      logViewerRef.current = node;
+      setVirtualScrollElement(node);
+    },
+    [setVirtualScrollElement]
+  );
 
   const handleLogScroll = () => {
-    const node = logViewerRef.current;
-    if (!node) return;
-    if (isSearching) return;
-    if (!canLoadMore) return;
-    if (pendingPrependScrollRef.current) return;
-    if (node.scrollTop > LOAD_MORE_THRESHOLD_PX) return;
-
-    pendingPrependScrollRef.current = {
-      scrollHeight: node.scrollHeight,
-      scrollTop: node.scrollTop,
-    };
-    setLogState((prev) => ({
-      ...prev,
-      visibleFrom: Math.max(prev.visibleFrom - LOAD_MORE_LINES, 0),
-    }));
+    followTailRef.current = isNearBottom(logViewerRef.current);
   };
 
+  // 跟随最新日志：新日志到达或行高测量导致总高度变化时保持在底部
   useLayoutEffect(() => {
-    const node = logViewerRef.current;
-    const pending = pendingPrependScrollRef.current;
-    if (!node || !pending) return;
-
-    const delta = node.scrollHeight - pending.scrollHeight;
-    node.scrollTop = pending.scrollTop + delta;
-    pendingPrependScrollRef.current = null;
-  }, [logState.visibleFrom]);
+    if (!followTailRef.current) return;
+    if (loading) return;
+    scrollToBottom();
+  }, [loading, filteredLines, virtualRange.totalSize, showRawLogs]);
 
   const copyLogLine = async (raw: string) => {
     const ok = await copyToClipboard(raw);
@@ -716,11 +671,11 @@ export function LogsPage() {
   const startLongPress = (event: ReactPointerEvent<HTMLDivElement>, id?: string) => {
     if (!requestLogEnabled) return;
     if (!id) return;
-    if (requestLogId) return;
+    if (viewerTarget) return;
     clearLongPressTimer();
     longPressRef.current = {
       timer: window.setTimeout(() => {
-        setRequestLogId(id);
+        void openLogViewer({ type: 'request', id });
         if (longPressRef.current) {
           longPressRef.current.fired = true;
           longPressRef.current.timer = null;
@@ -747,32 +702,43 @@ export function LogsPage() {
     }
   };
 
-  const closeRequestLogModal = () => {
-    if (requestLogDownloading) return;
-    setRequestLogId(null);
-  };
-
-  const downloadRequestLog = async (id: string) => {
-    setRequestLogDownloading(true);
+  const openLogViewer = async (target: LogViewerTarget) => {
+    setViewerTarget(target);
+    setViewerText('');
+    setViewerError('');
+    setViewerLoading(true);
     try {
-      const response = await logsApi.downloadRequestLogById(id);
-      const blob = new Blob([response.data], { type: 'text/plain' });
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `request-${id}.log`;
-      a.click();
-      window.URL.revokeObjectURL(url);
-      showNotification(t('logs.request_log_download_success'), 'success');
-      setRequestLogId(null);
+      const response =
+        target.type === 'request'
+          ? await logsApi.downloadRequestLogById(target.id)
+          : await logsApi.downloadErrorLog(target.id);
+      const data = response.data as Blob | string;
+      setViewerText(typeof data === 'string' ? data : await data.text());
     } catch (err: unknown) {
       const message = getErrorMessage(err);
-      showNotification(
-        `${t('notification.download_failed')}${message ? `: ${message}` : ''}`,
-        'error'
+      setViewerError(
+        message ? `${t('logs.viewer_load_error')}: ${message}` : t('logs.viewer_load_error')
       );
     } finally {
-      setRequestLogDownloading(false);
+      setViewerLoading(false);
+    }
+  };
+
+  const closeLogViewer = () => {
+    setViewerTarget(null);
+    setViewerText('');
+    setViewerError('');
+  };
+
+  // 下载查看器中已获取的原始内容，无需再次请求
+  const downloadViewerLog = () => {
+    if (!viewerTarget || !viewerText) return;
+    if (viewerTarget.type === 'request') {
+      saveLogFile(viewerText, `request-${viewerTarget.id}.log`);
+      showNotification(t('logs.request_log_download_success'), 'success');
+    } else {
+      saveLogFile(viewerText, viewerTarget.id);
+      showNotification(t('logs.error_log_download_success'), 'success');
     }
   };
 
@@ -785,6 +751,85 @@ export function LogsPage() {
     };
   }, []);
 
+  const focusLogLine = (index: number, align: VirtualScrollAlign = 'auto') => {
+    if (listCount === 0) return;
+    const next = Math.min(Math.max(index, 0), listCount - 1);
+    followTailRef.current = false;
+    setActiveLineIndex(next);
+    scrollToIndex(next, align);
+  };
+
+  const jumpToTimestamp = () => {
+    if (!jumpTarget.trim() || listCount === 0) return;
+    let reference: string | undefined;
+    for (let index = filteredLines.length - 1; index >= 0 && !reference; index -= 1) {
+      reference = parseLogLineCached(filteredLines[index]).timestamp;
+    }
+    const targetMs = resolveJumpTimestampMs(jumpTarget, reference);
+    if (targetMs === undefined) {
+      showNotification(t('logs.jump_invalid'), 'error');
+      return;
+    }
+    const index = findLogLineIndexByTime(filteredLines, targetMs, parseLogLineCached);
+    if (index === -1) {
+      showNotification(t('logs.jump_not_found'), 'warning');
+      return;
+    }
+    focusLogLine(index, 'center');
+    logViewerRef.current?.focus({ preventScroll: true });
+  };
+
+  // 键盘导航：↑/↓ 或 j/k 逐行，PageUp/PageDown 翻页，Home/End 首尾，Enter/c 复制，o 打开请求日志
+  const handleLogKeyDown = (event: ReactKeyboardEvent<HTMLDivElement>) => {
+    if (listCount === 0 || event.altKey || event.ctrlKey || event.metaKey) return;
+    const pageSize = Math.max(
+      Math.floor((logViewerRef.current?.clientHeight ?? 0) / LOG_ROW_ESTIMATED_HEIGHT) - 1,
+      1
+    );
+    const current = activeIndex ?? -1;
+    const line = activeIndex !== null ? parseLogLineCached(filteredLines[activeIndex]) : null;
+
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'j':
+        focusLogLine(current < 0 ? virtualRange.start : current + 1);
+        break;
+      case 'ArrowUp':
+      case 'k':
+        focusLogLine(current < 0 ? listCount - 1 : current - 1);
+        break;
+      case 'PageDown':
+        focusLogLine((current < 0 ? virtualRange.start : current) + pageSize);
+        break;
+      case 'PageUp':
+        focusLogLine((current < 0 ? listCount - 1 : current) - pageSize);
+        break;
+      case 'Home':
+        focusLogLine(0, 'start');
+        break;
+      case 'End':
+        focusLogLine(listCount - 1, 'end');
+        followTailRef.current = true;
+        break;
+      case 'Enter':
+      case 'c':
+        if (!line) return;
+        void copyLogLine(line.raw);
+        break;
+      case 'o':
+        if (!line?.requestId || !requestLogEnabled) return;
+        void openLogViewer({ type: 'request', id: line.requestId });
+        break;
+      case 'Escape':
+        if (activeIndex === null) return;
+        setActiveLineIndex(null);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
   return (
     <div className={styles.container}>
       <h1 className={styles.pageTitle}>{t('logs.title')}</h1>
@@ -813,29 +858,40 @@ export function LogsPage() {
 
             <div className={styles.filters}>
               <div className={styles.searchWrapper}>
-                <Input
+                <LogQueryInput
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={setSearchQuery}
                   placeholder={t('logs.search_placeholder')}
-                  className={styles.searchInput}
-                  rightElement={
-                    searchQuery ? (
-                      <button
-                        type="button"
-                        className={styles.searchClear}
-                        onClick={() => setSearchQuery('')}
-                        title="Clear"
-                        aria-label="Clear"
-                      >
-                        <IconX size={16} />
-                      </button>
-                    ) : (
-                      <IconSearch size={16} className={styles.searchIcon} />
-                    )
-                  }
                 />
               </div>
 
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={saveCurrentQuery}
+                disabled={!searchQuery.trim()}
+                className={styles.actionButton}
+                title={t('logs.save_query')}
+              >
+                <span className={styles.buttonContent}>
+                  <IconBookmark size={16} />
+                  {t('logs.save_query')}
+                </span>
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => void copyQueryLink()}
+                disabled={!searchQuery.trim()}
+                className={styles.actionButton}
+                title={t('logs.copy_query_link')}
+              >
+                <span className={styles.buttonContent}>
+                  <IconLink size={16} />
+                  {t('logs.copy_query_link')}
+                </span>
+              </Button>
+
               <ToggleSwitch
                 checked={hideManagementLogs}
                 onChange={setHideManagementLogs}
@@ -847,9 +903,32 @@ export function LogsPage() {
                 }
               />
 
+              <ToggleSwitch
+                checked={groupByRequest}
+                onChange={setGroupByRequest}
+                label={
+                  <span className={styles.switchLabel} title={t('logs.group_by_request_hint')}>
+                    <IconScrollText size={16} />
+                    {t('logs.group_by_request')}
+                  </span>
+                }
+              />
+
+              <ToggleSwitch
+                checked={showAnalytics}
+                onChange={setShowAnalytics}
+                label={
+                  <span className={styles.switchLabel}>
+                    <IconChartLine size={16} />
+                    {t('logs.show_analytics')}
+                  </span>
+                }
+              />
+
               <ToggleSwitch
                 checked={showRawLogs}
                 onChange={setShowRawLogs}
+                disabled={groupByRequest}
                 label={
                   <span
                     className={styles.switchLabel}
@@ -863,6 +942,35 @@ export function LogsPage() {
                 }
               />
 
+              <form
+                className={styles.jumpForm}
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  jumpToTimestamp();
+                }}
+              >
+                <input
+                  className={`input ${styles.jumpInput}`}
+                  value={jumpTarget}
+                  onChange={(event) => setJumpTarget(event.target.value)}
+                  placeholder={t('logs.jump_placeholder')}
+                  aria-label={t('logs.jump_to_time')}
+                  disabled={showRawLogs || groupByRequest}
+                />
+                <Button
+                  type="submit"
+                  variant="secondary"
+                  size="sm"
+                  disabled={showRawLogs || groupByRequest || !jumpTarget.trim()}
+                  className={styles.actionButton}
+                >
+                  <span className={styles.buttonContent}>
+                    <IconTimer size={16} />
+                    {t('logs.jump_to_time')}
+                  </span>
+                </Button>
+              </form>
+
               <div className={styles.toolbar}>
                 <Button
                   variant="secondary"
@@ -887,6 +995,36 @@ export function LogsPage() {
                     </span>
                   }
                 />
+                <select
+                  value={streamTransport}
+                  onChange={(e) => setStreamTransport(e.target.value as LogStreamTransport)}
+                  disabled={disableControls}
+                  className={styles.select}
+                  title={t('logs.stream_transport')}
+                  aria-label={t('logs.stream_transport')}
+                >
+                  {LOG_STREAM_TRANSPORTS.map((transport) => (
+                    <option key={transport} value={transport}>
+                      {t(`logs.stream_transport_${transport}`)}
+                    </option>
+                  ))}
+                </select>
+                {autoRefresh && streamState.transport && streamState.status !== 'closed' && (
+                  <span
+                    className={[
+                      styles.streamStatus,
+                      streamState.status === 'streaming' ? styles.streamLive : '',
+                      streamState.status === 'reconnecting' ? styles.streamReconnecting : '',
+                    ]
+                      .filter(Boolean)
+                      .join(' ')}
+                  >
+                    <span className={styles.streamDot} />
+                    {t(`logs.stream_status_${streamState.status}`, {
+                      transport: t(`logs.stream_transport_${streamState.transport}`),
+                    })}
+                  </span>
+                )}
                 <Button
                   variant="secondary"
                   size="sm"
@@ -914,162 +1052,199 @@ export function LogsPage() {
               </div>
             </div>
 
+            <SavedLogQueries
+              queries={savedQueries}
+              activeQuery={searchQuery}
+              onApply={setSearchQuery}
+              onRemove={removeSavedQuery}
+            />
+
+            {showAnalytics && analytics && (
+              <LogAnalyticsPanel
+                analytics={analytics}
+                isDark={isDark}
+                onFilter={applyAnalyticsFilter}
+              />
+            )}
+
             {loading ? (
               <div className="hint">{t('logs.loading')}</div>
+            ) : groupByRequest && logState.buffer.length > 0 ? (
+              <div className={styles.logPanel}>
+                <RequestTimeline
+                  groups={timeline.groups}
+                  ungroupedCount={timeline.ungroupedCount}
+                />
+              </div>
+            ) : searchPending && filteredLines.length === 0 ? (
+              <div className="hint">{t('logs.filtering')}</div>
             ) : logState.buffer.length > 0 && filteredLines.length > 0 ? (
-              <div ref={logViewerRef} className={styles.logPanel} onScroll={handleLogScroll}>
-                {canLoadMore && (
-                  <div className={styles.loadMoreBanner}>
-                    <span>{t('logs.load_more_hint')}</span>
-                    <div className={styles.loadMoreStats}>
-                      <span>
-                        {t('logs.loaded_lines', { count: filteredLines.length })}
+              <>
+                <div className={styles.logStatsBar}>
+                  <div className={styles.logStats}>
+                    <span>{t('logs.loaded_lines', { count: filteredLines.length })}</span>
+                    {removedCount > 0 && (
+                      <span className={styles.logStatsCount}>
+                        {t('logs.filtered_lines', { count: removedCount })}
                       </span>
-                      {removedCount > 0 && (
-                        <span className={styles.loadMoreCount}>
-                          {t('logs.filtered_lines', { count: removedCount })}
-                        </span>
-                      )}
-                      <span className={styles.loadMoreCount}>
-                        {t('logs.hidden_lines', { count: logState.visibleFrom })}
-                      </span>
-                    </div>
+                    )}
+                    {searchPending && (
+                      <span className={styles.logStatsCount}>{t('logs.filtering')}</span>
+                    )}
                   </div>
-                )}
-                {showRawLogs ? (
-                  <pre className={styles.rawLog} spellCheck={false}>
-                    {trimmedSearchQuery
-                      ? highlightText(rawVisibleText, trimmedSearchQuery, styles.highlight)
-                      : rawVisibleText}
-                  </pre>
-                ) : (
-                  <div className={styles.logList}>
-                    {parsedVisibleLines.map((line, index) => {
-                      const rowClassNames = [styles.logRow];
-                      if (line.level === 'warn') rowClassNames.push(styles.rowWarn);
-                      if (line.level === 'error' || line.level === 'fatal')
-                        rowClassNames.push(styles.rowError);
-                      return (
-                        <div
-                          key={`${logState.visibleFrom + index}-${line.raw}`}
-                          className={rowClassNames.join(' ')}
-                          onDoubleClick={() => {
-                            void copyLogLine(line.raw);
-                          }}
-                          onPointerDown={(event) => startLongPress(event, line.requestId)}
-                          onPointerUp={cancelLongPress}
-                          onPointerLeave={cancelLongPress}
-                          onPointerCancel={cancelLongPress}
-                          onPointerMove={handleLongPressMove}
-                          title={t('logs.double_click_copy_hint', {
-                            defaultValue: 'Double-click to copy',
-                          })}
-                        >
-                          <div className={styles.timestamp}>
-                            {trimmedSearchQuery
-                              ? highlightText(line.timestamp || '', trimmedSearchQuery, styles.highlight)
-                              : line.timestamp || ''}
-                          </div>
-                          <div className={styles.rowMain}>
-                            {line.level && (
-                              <span
-                                className={[
-                                  styles.badge,
-                                  line.level === 'info' ? styles.levelInfo : '',
-                                  line.level === 'warn' ? styles.levelWarn : '',
-                                  line.level === 'error' || line.level === 'fatal'
-                                    ? styles.levelError
-                                    : '',
-                                  line.level === 'debug' ? styles.levelDebug : '',
-                                  line.level === 'trace' ? styles.levelTrace : '',
-                                ]
-                                  .filter(Boolean)
-                                  .join(' ')}
-                              >
-                                {line.level.toUpperCase()}
-                              </span>
-                            )}
-
-                            {line.source && (
-                              <span className={styles.source} title={line.source}>
-                                {trimmedSearchQuery
-                                  ? highlightText(line.source, trimmedSearchQuery, styles.highlight)
-                                  : line.source}
-                              </span>
-                            )}
-
-                            {line.requestId && (
-                              <span
-                                className={[styles.badge, styles.requestIdBadge].join(' ')}
-                                title={line.requestId}
-                              >
-                                {trimmedSearchQuery
-                                  ? highlightText(line.requestId, trimmedSearchQuery, styles.highlight)
-                                  : line.requestId}
-                              </span>
-                            )}
-
-                            {typeof line.statusCode === 'number' && (
-                              <span
-                                className={[
-                                  styles.badge,
-                                  styles.statusBadge,
-                                  line.statusCode >= 200 && line.statusCode < 300
-                                    ? styles.statusSuccess
-                                    : line.statusCode >= 300 && line.statusCode < 400
-                                      ? styles.statusInfo
-                                      : line.statusCode >= 400 && line.statusCode < 500
-                                        ? styles.statusWarn
-                                        : styles.statusError,
-                                ].join(' ')}
-                              >
-                                {line.statusCode}
-                              </span>
-                            )}
-
-                            {line.latency && (
-                              <span className={styles.pill}>
-                                {trimmedSearchQuery
-                                  ? highlightText(line.latency, trimmedSearchQuery, styles.highlight)
-                                  : line.latency}
-                              </span>
-                            )}
-                            {line.ip && (
-                              <span className={styles.pill}>
-                                {trimmedSearchQuery
-                                  ? highlightText(line.ip, trimmedSearchQuery, styles.highlight)
-                                  : line.ip}
-                              </span>
-                            )}
-
-                            {line.method && (
-                              <span className={[styles.badge, styles.methodBadge].join(' ')}>
-                                {line.method}
-                              </span>
-                            )}
-
-                            {line.path && (
-                              <span className={styles.path} title={line.path}>
-                                {trimmedSearchQuery
-                                  ? highlightText(line.path, trimmedSearchQuery, styles.highlight)
-                                  : line.path}
-                              </span>
-                            )}
-
-                            {line.message && (
-                              <span className={styles.message}>
-                                {trimmedSearchQuery
-                                  ? highlightText(line.message, trimmedSearchQuery, styles.highlight)
-                                  : line.message}
-                              </span>
-                            )}
-                          </div>
-                        </div>
-                      );
-                    })}
-                  </div>
-                )}
-              </div>
+                  {!showRawLogs && (
+                    <span className={styles.logStatsCount}>{t('logs.keyboard_hint')}</span>
+                  )}
+                </div>
+                <div
+                  ref={setLogViewerNode}
+                  className={styles.logPanel}
+                  onScroll={handleLogScroll}
+                  onKeyDown={handleLogKeyDown}
+                  tabIndex={showRawLogs ? undefined : 0}
+                  aria-label={t('logs.log_content')}
+                >
+                  {showRawLogs ? (
+                    <pre className={styles.rawLog} spellCheck={false}>
+                      {highlightText(rawVisibleText, highlightTerms, styles.highlight)}
+                    </pre>
+                  ) : (
+                    <div
+                      className={styles.logList}
+                      style={{
+                        paddingTop: virtualRange.paddingTop,
+                        paddingBottom: virtualRange.paddingBottom,
+                      }}
+                    >
+                      {filteredLines
+                        .slice(virtualRange.start, virtualRange.end)
+                        .map((raw, offset) => {
+                          const index = virtualRange.start + offset;
+                          const line = parseLogLineCached(raw);
+                          const rowClassNames = [styles.logRow];
+                          if (line.level === 'warn') rowClassNames.push(styles.rowWarn);
+                          if (line.level === 'error' || line.level === 'fatal')
+                            rowClassNames.push(styles.rowError);
+                          if (index === activeIndex) rowClassNames.push(styles.logRowActive);
+                          return (
+                            <div
+                              key={`${index}-${line.raw}`}
+                              ref={measureElement}
+                              data-index={index}
+                              className={rowClassNames.join(' ')}
+                              onClick={() => setActiveLineIndex(index)}
+                              onDoubleClick={() => {
+                                void copyLogLine(line.raw);
+                              }}
+                              onPointerDown={(event) => startLongPress(event, line.requestId)}
+                              onPointerUp={cancelLongPress}
+                              onPointerLeave={cancelLongPress}
+                              onPointerCancel={cancelLongPress}
+                              onPointerMove={handleLongPressMove}
+                              title={t('logs.double_click_copy_hint', {
+                                defaultValue: 'Double-click to copy',
+                              })}
+                            >
+                              <div className={styles.timestamp}>
+                                {highlightText(
+                                  line.timestamp || '',
+                                  highlightTerms,
+                                  styles.highlight
+                                )}
+                              </div>
+                              <div className={styles.rowMain}>
+                                {line.level && (
+                                  <span
+                                    className={[
+                                      styles.badge,
+                                      line.level === 'info' ? styles.levelInfo : '',
+                                      line.level === 'warn' ? styles.levelWarn : '',
+                                      line.level === 'error' || line.level === 'fatal'
+                                        ? styles.levelError
+                                        : '',
+                                      line.level === 'debug' ? styles.levelDebug : '',
+                                      line.level === 'trace' ? styles.levelTrace : '',
+                                    ]
+                                      .filter(Boolean)
+                                      .join(' ')}
+                                  >
+                                    {line.level.toUpperCase()}
+                                  </span>
+                                )}
+
+                                {line.source && (
+                                  <span className={styles.source} title={line.source}>
+                                    {highlightText(line.source, highlightTerms, styles.highlight)}
+                                  </span>
+                                )}
+
+                                {line.requestId && (
+                                  <span
+                                    className={[styles.badge, styles.requestIdBadge].join(' ')}
+                                    title={line.requestId}
+                                  >
+                                    {highlightText(
+                                      line.requestId,
+                                      highlightTerms,
+                                      styles.highlight
+                                    )}
+                                  </span>
+                                )}
+
+                                {typeof line.statusCode === 'number' && (
+                                  <span
+                                    className={[
+                                      styles.badge,
+                                      styles.statusBadge,
+                                      line.statusCode >= 200 && line.statusCode < 300
+                                        ? styles.statusSuccess
+                                        : line.statusCode >= 300 && line.statusCode < 400
+                                          ? styles.statusInfo
+                                          : line.statusCode >= 400 && line.statusCode < 500
+                                            ? styles.statusWarn
+                                            : styles.statusError,
+                                    ].join(' ')}
+                                  >
+                                    {line.statusCode}
+                                  </span>
+                                )}
+
+                                {line.latency && (
+                                  <span className={styles.pill}>
+                                    {highlightText(line.latency, highlightTerms, styles.highlight)}
+                                  </span>
+                                )}
+                                {line.ip && (
+                                  <span className={styles.pill}>
+                                    {highlightText(line.ip, highlightTerms, styles.highlight)}
+                                  </span>
+                                )}
+
+                                {line.method && (
+                                  <span className={[styles.badge, styles.methodBadge].join(' ')}>
+                                    {line.method}
+                                  </span>
+                                )}
+
+                                {line.path && (
+                                  <span className={styles.path} title={line.path}>
+                                    {highlightText(line.path, highlightTerms, styles.highlight)}
+                                  </span>
+                                )}
+
+                                {line.message && (
+                                  <span className={styles.message}>
+                                    {highlightText(line.message, highlightTerms, styles.highlight)}
+                                  </span>
+                                )}
+                              </div>
+                            </div>
+                          );
+                        })}
+                    </div>
+                  )}
+                </div>
+              </>
             ) : logState.buffer.length > 0 ? (
               <EmptyState
                 title={t('logs.search_empty_title')}
@@ -1100,72 +1275,56 @@ export function LogsPage() {
 
               {requestLogEnabled && (
                 <div>
-                  <div className="status-badge warning">{t('logs.error_logs_request_log_enabled')}</div>
+                  <div className="status-badge warning">
+                    {t('logs.error_logs_request_log_enabled')}
+                  </div>
                 </div>
               )}
 
               {errorLogsError && <div className="error-box">{errorLogsError}</div>}
 
-              <div className={styles.errorPanel}>
-                {loadingErrors ? (
-                  <div className="hint">{t('common.loading')}</div>
-                ) : errorLogs.length === 0 ? (
-                  <div className="hint">{t('logs.error_logs_empty')}</div>
-                ) : (
-                  <div className="item-list">
-                    {errorLogs.map((item) => (
-                      <div key={item.name} className="item-row">
-                        <div className="item-meta">
-                          <div className="item-title">{item.name}</div>
-                          <div className="item-subtitle">
-                            {item.size ? `${(item.size / 1024).toFixed(1)} KB` : ''}{' '}
-                            {item.modified ? formatUnixTimestamp(item.modified) : ''}
-                          </div>
-                        </div>
-                        <div className="item-actions">
-                          <Button
-                            variant="secondary"
-                            size="sm"
-                            onClick={() => downloadErrorLog(item.name)}
-                            disabled={disableControls}
-                          >
-                            {t('logs.error_logs_download')}
-                          </Button>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </div>
+              <ErrorLogBrowser
+                files={errorLogs}
+                loading={loadingErrors}
+                disabled={disableControls}
+                onView={(name) => void openLogViewer({ type: 'error', id: name })}
+                onDownload={(name) => void downloadErrorLog(name)}
+              />
             </div>
           </Card>
         )}
       </div>
 
       <Modal
-        open={Boolean(requestLogId)}
-        onClose={closeRequestLogModal}
-        title={t('logs.request_log_download_title')}
+        open={Boolean(viewerTarget)}
+        onClose={closeLogViewer}
+        width={960}
+        title={
+          viewerTarget?.type === 'request'
+            ? t('logs.viewer_title_request', { id: viewerTarget.id })
+            : (viewerTarget?.id ?? '')
+        }
         footer={
           <>
-            <Button variant="secondary" onClick={closeRequestLogModal} disabled={requestLogDownloading}>
-              {t('common.cancel')}
+            <Button variant="secondary" onClick={closeLogViewer}>
+              {t('common.close')}
             </Button>
-            <Button
-              onClick={() => {
-                if (requestLogId) {
-                  void downloadRequestLog(requestLogId);
-                }
-              }}
-              loading={requestLogDownloading}
-              disabled={!requestLogId}
-            >
-              {t('common.confirm')}
+            <Button onClick={downloadViewerLog} disabled={viewerLoading || !viewerText}>
+              <span className={styles.buttonContent}>
+                <IconDownload size={16} />
+                {t('logs.viewer_download')}
+              </span>
             </Button>
           </>
         }
       >
-        {requestLogId ? t('logs.request_log_download_confirm', { id: requestLogId }) : null}
+        {viewerLoading ? (
+          <div className="hint">{t('common.loading')}</div>
+        ) : viewerError ? (
+          <div className="error-box">{viewerError}</div>
+        ) : (
+          <RequestLogViewer text={viewerText} />
+        )}
       </Modal>
     </div>
   );
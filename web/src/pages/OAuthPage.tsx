@@ -1,5 +1,6 @@
 import { useCallback, useEffect, useRef, useState, type ChangeEvent } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useSearchParams } from 'react-router-dom';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
@@ -67,6 +68,10 @@ const getProviderI18nPrefix = (provider: OAuthProvider) => provider.replace('-',
 const getAuthKey = (provider: OAuthProvider, suffix: string) =>
   `auth_login.${getProviderI18nPrefix(provider)}_${suffix}`;
 
+// 其他页面（如仪表盘凭证健康列表）通过 ?provider= 定位到对应的登录卡片
+const PROVIDER_QUERY_PARAM = 'provider';
+const getOAuthCardId = (flow: string) => `${flow}-oauth-card`;
+
 const getIcon = (icon: string | { light: string; dark: string }, theme: 'light' | 'dark') => {
   return typeof icon === 'string' ? icon : icon[theme];
 };
@@ -75,6 +80,8 @@ export function OAuthPage() {
   const { t } = useTranslation();
   const { showNotification } = useNotificationStore();
   const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
+  const [searchParams] = useSearchParams();
+  const focusedFlow = searchParams.get(PROVIDER_QUERY_PARAM);
   const [states, setStates] = useState<Record<OAuthProvider, ProviderState>>({} as Record<OAuthProvider, ProviderState>);
   const [iflowCookie, setIflowCookie] = useState<IFlowCookieState>({ cookie: '', loading: false });
   const [vertexState, setVertexState] = useState<VertexImportState>({
@@ -96,6 +103,16 @@ export function OAuthPage() {
     };
   }, [clearTimers]);
 
+  useEffect(() => {
+    if (!focusedFlow) return;
+    document
+      .getElementById(getOAuthCardId(focusedFlow))
+      ?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [focusedFlow]);
+
+  const getCardClassName = (flow: string) =>
+    focusedFlow === flow ? styles.cardFocused : undefined;
+
   const updateProviderState = (provider: OAuthProvider, next: Partial<ProviderState>) => {
     setStates((prev) => ({
       ...prev,
@@ -314,6 +331,8 @@ export function OAuthPage() {
           return (
             <div key={provider.id}>
               <Card
+                id={getOAuthCardId(provider.id)}
+                className={getCardClassName(provider.id)}
                 title={
                   <span className={styles.cardTitle}>
                     <img
@@ -419,6 +438,8 @@ export function OAuthPage() {
 
         {/* Vertex JSON 登录 */}
         <Card
+          id={getOAuthCardId('vertex')}
+          className={getCardClassName('vertex')}
           title={
             <span className={styles.cardTitle}>
               <img src={iconVertex} alt="" className={styles.cardTitleIcon} />
@@ -507,6 +528,8 @@ export function OAuthPage() {
 
         {/* iFlow Cookie 登录 */}
         <Card
+          id={getOAuthCardId('iflow')}
+          className={getCardClassName('iflow')}
           title={
             <span className={styles.cardTitle}>
               <img src={iconIflow} alt="" className={styles.cardTitleIcon} />
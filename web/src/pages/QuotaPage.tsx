@@ -1,5 +1,5 @@
 /**
- * Quota management page - coordinates the three quota sections.
+ * Quota management page - renders one section per registered quota provider.
  */
 
 import { useCallback, useEffect, useState } from 'react';
@@ -7,12 +7,7 @@ import { useTranslation } from 'react-i18next';
 import { useHeaderRefresh } from '@/hooks/useHeaderRefresh';
 import { useAuthStore } from '@/stores';
 import { authFilesApi, configFileApi } from '@/services/api';
-import {
-  QuotaSection,
-  ANTIGRAVITY_CONFIG,
-  CODEX_CONFIG,
-  GEMINI_CLI_CONFIG
-} from '@/components/quota';
+import { QuotaSection, QuotaSchedulerCard, getQuotaProviders } from '@/components/quota';
 import type { AuthFileItem } from '@/types';
 import styles from './QuotaPage.module.scss';
 
@@ -69,24 +64,17 @@ export function QuotaPage() {
 
       {error && <div className={styles.errorBox}>{error}</div>}
 
-      <QuotaSection
-        config={ANTIGRAVITY_CONFIG}
-        files={files}
-        loading={loading}
-        disabled={disableControls}
-      />
-      <QuotaSection
-        config={CODEX_CONFIG}
-        files={files}
-        loading={loading}
-        disabled={disableControls}
-      />
-      <QuotaSection
-        config={GEMINI_CLI_CONFIG}
-        files={files}
-        loading={loading}
-        disabled={disableControls}
-      />
+      <QuotaSchedulerCard disabled={disableControls} />
+
+      {getQuotaProviders().map((config) => (
+        <QuotaSection
+          key={config.type}
+          config={config}
+          files={files}
+          loading={loading}
+          disabled={disableControls}
+        />
+      ))}
     </div>
   );
 }
@@ -1,9 +1,10 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   Chart as ChartJS,
   CategoryScale,
   LinearScale,
+  BarElement,
   PointElement,
   LineElement,
   Title,
@@ -23,17 +24,32 @@ import {
   ApiDetailsCard,
   ModelStatsCard,
   PriceSettingsCard,
+  UsageHistoryCard,
+  UsageRangePicker,
+  UsageFilterBar,
+  CredentialUsageCard,
+  TokenEfficiencyCard,
+  UsageBudgetsCard,
+  UsageReportCard,
+  UsageAnomaliesCard,
   useUsageData,
   useSparklines,
-  useChartData
+  useChartData,
+  useUsageRange,
+  useUsageFilter,
+  useCredentialSources,
+  useUsageBudgets,
+  useUsageAnomalies,
+  type UsagePayload
 } from '@/components/usage';
-import { getModelNamesFromUsage, getApiStats, getModelStats } from '@/utils/usage';
+import { filterUsage, getModelNamesFromUsage, getApiStats, getModelStats } from '@/utils/usage';
 import styles from './UsagePage.module.scss';
 
 // Register Chart.js components
 ChartJS.register(
   CategoryScale,
   LinearScale,
+  BarElement,
   PointElement,
   LineElement,
   Title,
@@ -61,10 +77,57 @@ export function UsagePage() {
     handleImportChange,
     importInputRef,
     exporting,
-    importing
+    importing,
+    historyStats,
+    historyRetentionDays,
+    setHistoryRetentionDays,
+    clearHistory,
+    clearingHistory,
+    pricesStorage,
+    pricesSyncing,
+    syncModelPrices
   } = useUsageData();
 
-  useHeaderRefresh(loadUsage);
+  // Auth files and provider keys used to label per-credential usage
+  const { authFiles, config, loading: credentialsLoading, reload: reloadCredentials } = useCredentialSources();
+
+  const handleRefresh = useCallback(async () => {
+    await Promise.all([loadUsage(), reloadCredentials()]);
+  }, [loadUsage, reloadCredentials]);
+
+  useHeaderRefresh(handleRefresh);
+
+  // Budgets cover their own daily / monthly period, so they read the unfiltered usage
+  const {
+    budgets,
+    statuses: budgetStatuses,
+    loading: budgetsLoading,
+    saving: budgetsSaving,
+    saveBudgets
+  } = useUsageBudgets(usage, modelPrices);
+  // Anomalies compare the latest window against a rolling baseline, independent of the selected range
+  const anomalies = useUsageAnomalies(usage, authFiles, config);
+  const budgetApiKeys = useMemo(
+    () => Array.from(new Set([...(config?.apiKeys || []), ...Object.keys(usage?.apis || {})])),
+    [config?.apiKeys, usage?.apis]
+  );
+
+  // Global filter encoded in the URL; budgets and anomalies above keep reading the unfiltered usage
+  const { filter, active: filterActive, updateFilter, clearFilter } = useUsageFilter();
+  const scopedUsage = useMemo(() => filterUsage(usage, filter) as UsagePayload | null, [usage, filter]);
+
+  // Time range state: every card below reads the range-filtered usage
+  const {
+    preset,
+    setPreset,
+    customRange,
+    setCustomRange,
+    granularity,
+    setGranularity,
+    granularityOptions,
+    range,
+    filteredUsage
+  } = useUsageRange(scopedUsage);
 
   // Chart lines state
   const [chartLines, setChartLines] = useState<string[]>(['all']);
@@ -77,24 +140,20 @@ export function UsagePage() {
     rpmSparkline,
     tpmSparkline,
     costSparkline
-  } = useSparklines({ usage, loading });
+  } = useSparklines({ usage: filteredUsage, loading, endTime: range.end });
 
   // Chart data hook
   const {
-    requestsPeriod,
-    setRequestsPeriod,
-    tokensPeriod,
-    setTokensPeriod,
     requestsChartData,
     tokensChartData,
     requestsChartOptions,
     tokensChartOptions
-  } = useChartData({ usage, chartLines, isDark, isMobile });
+  } = useChartData({ usage: filteredUsage, chartLines, isDark, isMobile, range, granularity });
 
   // Derived data
   const modelNames = useMemo(() => getModelNamesFromUsage(usage), [usage]);
-  const apiStats = useMemo(() => getApiStats(usage, modelPrices), [usage, modelPrices]);
-  const modelStats = useMemo(() => getModelStats(usage, modelPrices), [usage, modelPrices]);
+  const apiStats = useMemo(() => getApiStats(filteredUsage, modelPrices), [filteredUsage, modelPrices]);
+  const modelStats = useMemo(() => getModelStats(filteredUsage, modelPrices), [filteredUsage, modelPrices]);
   const hasPrices = Object.keys(modelPrices).length > 0;
 
   return (
@@ -132,7 +191,7 @@ export function UsagePage() {
           <Button
             variant="secondary"
             size="sm"
-            onClick={loadUsage}
+            onClick={handleRefresh}
             disabled={loading || exporting || importing}
           >
             {loading ? t('common.loading') : t('usage_stats.refresh')}
@@ -149,9 +208,31 @@ export function UsagePage() {
 
       {error && <div className={styles.errorBox}>{error}</div>}
 
+      {/* Time Range */}
+      <UsageRangePicker
+        preset={preset}
+        onPresetChange={setPreset}
+        customRange={customRange}
+        onCustomRangeChange={setCustomRange}
+        granularity={granularity}
+        granularityOptions={granularityOptions}
+        onGranularityChange={setGranularity}
+      />
+
+      {/* Global Filter */}
+      <UsageFilterBar
+        usage={usage}
+        authFiles={authFiles}
+        config={config}
+        filter={filter}
+        active={filterActive}
+        onChange={updateFilter}
+        onClear={clearFilter}
+      />
+
       {/* Stats Overview Cards */}
       <StatCards
-        usage={usage}
+        usage={filteredUsage}
         loading={loading}
         modelPrices={modelPrices}
         sparklines={{
@@ -161,6 +242,7 @@ export function UsagePage() {
           tpm: tpmSparkline,
           cost: costSparkline
         }}
+        rangeEnd={range.end}
       />
 
       {/* Chart Line Selection */}
@@ -175,8 +257,7 @@ export function UsagePage() {
       <div className={styles.chartsGrid}>
         <UsageChart
           title={t('usage_stats.requests_trend')}
-          period={requestsPeriod}
-          onPeriodChange={setRequestsPeriod}
+          granularity={granularity}
           chartData={requestsChartData}
           chartOptions={requestsChartOptions}
           loading={loading}
@@ -185,8 +266,7 @@ export function UsagePage() {
         />
         <UsageChart
           title={t('usage_stats.tokens_trend')}
-          period={tokensPeriod}
-          onPeriodChange={setTokensPeriod}
+          granularity={granularity}
           chartData={tokensChartData}
           chartOptions={tokensChartOptions}
           loading={loading}
@@ -201,11 +281,72 @@ export function UsagePage() {
         <ModelStatsCard modelStats={modelStats} loading={loading} hasPrices={hasPrices} />
       </div>
 
+      {/* Anomalies */}
+      <UsageAnomaliesCard anomalies={anomalies} loading={loading || credentialsLoading} />
+
+      {/* Per-credential Usage */}
+      <CredentialUsageCard
+        usage={filteredUsage}
+        modelPrices={modelPrices}
+        authFiles={authFiles}
+        config={config}
+        loading={loading || credentialsLoading}
+        isDark={isDark}
+        isMobile={isMobile}
+      />
+
+      {/* Token Efficiency */}
+      <TokenEfficiencyCard
+        usage={filteredUsage}
+        range={range}
+        granularity={granularity}
+        authFiles={authFiles}
+        config={config}
+        loading={loading || credentialsLoading}
+        isDark={isDark}
+        isMobile={isMobile}
+      />
+
+      {/* Reports */}
+      <UsageReportCard
+        usage={scopedUsage}
+        range={range}
+        modelPrices={modelPrices}
+        authFiles={authFiles}
+        config={config}
+        loading={loading}
+      />
+
+      {/* Budgets */}
+      <UsageBudgetsCard
+        budgets={budgets}
+        statuses={budgetStatuses}
+        loading={budgetsLoading}
+        saving={budgetsSaving}
+        onSave={saveBudgets}
+        apiKeys={budgetApiKeys}
+        modelNames={modelNames}
+        hasPrices={hasPrices}
+      />
+
       {/* Price Settings */}
       <PriceSettingsCard
         modelNames={modelNames}
         modelPrices={modelPrices}
         onPricesChange={setModelPrices}
+        storage={pricesStorage}
+        syncing={pricesSyncing}
+        onSync={syncModelPrices}
+      />
+
+      {/* Local History */}
+      <UsageHistoryCard
+        stats={historyStats}
+        retentionDays={historyRetentionDays}
+        onRetentionChange={setHistoryRetentionDays}
+        onClear={clearHistory}
+        clearing={clearingHistory}
+        disabled={loading}
       />
     </div>
   );
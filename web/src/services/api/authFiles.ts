@@ -3,8 +3,15 @@
  */
 
 import { apiClient } from './client';
+import { configFileApi } from './configFile';
 import type { AuthFilesResponse } from '@/types/authFile';
 import type { OAuthModelAliasEntry } from '@/types';
+import {
+  AUTH_FILE_POOLS_CONFIG_KEY,
+  normalizeAuthFilePoolAssignments,
+  type AuthFilePoolAssignments
+} from '@/utils/authFile/pools';
+import { readConfigJsonEntry, upsertConfigJsonEntry } from '@/utils/configYaml';
 
 type StatusError = { status?: number };
 type AuthFileStatusResponse = { status: string; disabled: boolean };
@@ -126,6 +133,31 @@ export const authFilesApi = {
     return blob.text();
   },
 
+  // 凭证池标签（保存在 config.yaml 中）
+  async getPools(): Promise<AuthFilePoolAssignments> {
+    const yaml = await configFileApi.fetchConfigYaml();
+    return normalizeAuthFilePoolAssignments(readConfigJsonEntry(yaml, AUTH_FILE_POOLS_CONFIG_KEY));
+  },
+
+  /**
+   * 基于服务端最新的标签分配计算并写回，config.yaml 在写回前被修改时抛出冲突错误；分配为空时移除该条目
+   */
+  async updatePools(
+    update: (current: AuthFilePoolAssignments) => AuthFilePoolAssignments
+  ): Promise<AuthFilePoolAssignments> {
+    let result: AuthFilePoolAssignments = {};
+    await configFileApi.updateConfigYaml((yaml) => {
+      const current = normalizeAuthFilePoolAssignments(
+        readConfigJsonEntry(yaml, AUTH_FILE_POOLS_CONFIG_KEY)
+      );
+      result = update(current);
+      if (JSON.stringify(result) === JSON.stringify(current)) return null;
+      const value = Object.keys(result).length > 0 ? result : null;
+      return upsertConfigJsonEntry(yaml, AUTH_FILE_POOLS_CONFIG_KEY, value);
+    });
+    return result;
+  },
+
   // OAuth 排除模型
   async getOauthExcludedModels(): Promise<Record<string, string[]>> {
     const data = await apiClient.get('/oauth-excluded-models');
@@ -258,6 +258,36 @@ class ApiClient {
   async requestRaw(config: AxiosRequestConfig): Promise<AxiosResponse> {
     return this.instance.request(config);
   }
+
+  /**
+   * 拼接完整请求地址（用于 fetch 等不经过 axios 的场景）
+   */
+  resolveUrl(url: string): string {
+    return `${this.apiBase}${url}`;
+  }
+
+  /**
+   * 以 fetch 发起流式请求（axios 在浏览器中无法逐块读取响应体）
+   */
+  async stream(url: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (this.managementKey) {
+      headers.set('Authorization', `Bearer ${this.managementKey}`);
+    }
+
+    const response = await fetch(this.resolveUrl(url), { ...init, headers });
+    if (!response.ok) {
+      if (response.status === 401) {
+        window.dispatchEvent(new Event('unauthorized'));
+      }
+      const apiError = new Error(`HTTP ${response.status}`) as ApiError;
+      apiError.name = 'ApiError';
+      apiError.status = response.status;
+      throw apiError;
+    }
+
+    return response;
+  }
 }
 
 // 导出单例
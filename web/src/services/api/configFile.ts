@@ -2,26 +2,87 @@
  * 配置文件相关 API（/config.yaml）
  */
 
+import type { AxiosResponse } from 'axios';
+import type { ApiError } from '@/types';
 import { apiClient } from './client';
 
+export const CONFIG_YAML_CONFLICT_CODE = 'config_conflict';
+
+export interface ConfigYamlSnapshot {
+  content: string;
+  /** 服务端返回的 ETag，旧版本服务端不提供时为 null */
+  etag: string | null;
+}
+
+const readEtag = (response: AxiosResponse): string | null => {
+  const etag = response.headers?.etag;
+  return typeof etag === 'string' && etag ? etag : null;
+};
+
+const readConfigYaml = async (): Promise<ConfigYamlSnapshot> => {
+  const response = await apiClient.getRaw('/config.yaml', {
+    responseType: 'text',
+    headers: { Accept: 'application/yaml, text/yaml, text/plain' }
+  });
+  const data = response.data as any;
+  const content =
+    typeof data === 'string' ? data : data === undefined || data === null ? '' : String(data);
+  return { content, etag: readEtag(response) };
+};
+
+const createConflictError = (): ApiError => {
+  const error = new Error('config.yaml was changed elsewhere, reload and try again') as ApiError;
+  error.name = 'ApiError';
+  error.status = 412;
+  error.code = CONFIG_YAML_CONFLICT_CODE;
+  return error;
+};
+
+export const isConfigYamlConflict = (err: unknown): boolean =>
+  !!err && typeof err === 'object' && (err as ApiError).status === 412;
+
 export const configFileApi = {
   async fetchConfigYaml(): Promise<string> {
-    const response = await apiClient.getRaw('/config.yaml', {
-      responseType: 'text',
-      headers: { Accept: 'application/yaml, text/yaml, text/plain' }
-    });
-    const data = response.data as any;
-    if (typeof data === 'string') return data;
-    if (data === undefined || data === null) return '';
-    return String(data);
+    return (await readConfigYaml()).content;
   },
 
-  async saveConfigYaml(content: string): Promise<void> {
-    await apiClient.put('/config.yaml', content, {
+  fetchConfigYamlSnapshot: readConfigYaml,
+
+  /**
+   * 写回整个 config.yaml，返回写入后的 ETag；传入 ifMatch 时服务端会在文件已被修改时返回 412
+   */
+  async saveConfigYaml(content: string, ifMatch?: string | null): Promise<string | null> {
+    const response = await apiClient.requestRaw({
+      method: 'PUT',
+      url: '/config.yaml',
+      data: content,
       headers: {
         'Content-Type': 'application/yaml',
-        Accept: 'application/json, text/plain, */*'
+        Accept: 'application/json, text/plain, */*',
+        ...(ifMatch ? { 'If-Match': ifMatch } : {})
       }
     });
+    return readEtag(response);
+  },
+
+  /**
+   * 基于服务端最新内容修改 config.yaml；update 返回 null 或内容未变时不写回。
+   * 写回前重新读取并比较，文件在此期间被修改时抛出冲突错误（status 412）而不是覆盖；
+   * 服务端支持 ETag 时再以 If-Match 保证比较与写入之间不被插入其他写入。
+   * 返回是否实际写回。
+   */
+  async updateConfigYaml(update: (content: string) => string | null): Promise<boolean> {
+    const { content } = await readConfigYaml();
+    const next = update(content);
+    if (next === null || next === content) return false;
+
+    const latest = await readConfigYaml();
+    if (latest.content !== content) throw createConflictError();
+    try {
+      await configFileApi.saveConfigYaml(next, latest.etag);
+    } catch (err: unknown) {
+      throw isConfigYamlConflict(err) ? createConflictError() : err;
+    }
+    return true;
   }
 };
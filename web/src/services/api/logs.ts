@@ -3,7 +3,14 @@
  */
 
 import { apiClient } from './client';
-import { LOGS_TIMEOUT_MS } from '@/utils/constants';
+import type { ApiError } from '@/types';
+import {
+  LOGS_POLL_INTERVAL_MS,
+  LOGS_STREAM_MAX_RETRIES,
+  LOGS_STREAM_RECONNECT_BASE_MS,
+  LOGS_STREAM_RECONNECT_MAX_MS,
+  LOGS_TIMEOUT_MS
+} from '@/utils/constants';
 
 export interface LogsQuery {
   after?: number;
@@ -25,10 +32,265 @@ export interface ErrorLogsResponse {
   files?: ErrorLogFile[];
 }
 
+export type LogStreamTransport = 'auto' | 'sse' | 'polling';
+
+export type ActiveLogStreamTransport = Exclude<LogStreamTransport, 'auto'>;
+
+export type LogStreamStatus = 'connecting' | 'streaming' | 'reconnecting' | 'polling' | 'closed';
+
+export interface LogStreamBatch {
+  lines: string[];
+  latestTimestamp?: number;
+}
+
+export interface LogStreamOptions {
+  transport?: LogStreamTransport;
+  after?: number;
+  pollIntervalMs?: number;
+  onBatch: (batch: LogStreamBatch) => void;
+  onStatus?: (status: LogStreamStatus, transport: ActiveLogStreamTransport) => void;
+  onError?: (err: unknown) => void;
+}
+
+export interface LogStream {
+  close: () => void;
+}
+
+const LOGS_SSE_ENDPOINT = '/logs/stream';
+
+// 服务端不支持流式接口时直接回退，不再重试
+const UNSUPPORTED_STREAM_STATUS = new Set([404, 405, 501]);
+
+const withAfter = (endpoint: string, after: number) =>
+  after > 0 ? `${endpoint}?after=${encodeURIComponent(String(after))}` : endpoint;
+
+const toTimestamp = (value: unknown): number | undefined => {
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) && num > 0 ? num : undefined;
+};
+
+/**
+ * 解析 logs 事件：与 GET /logs 相同的 { lines, latest-timestamp } 结构
+ */
+const parseStreamPayload = (data: string): LogStreamBatch | null => {
+  try {
+    const payload = JSON.parse(data) as Partial<LogsResponse> | null;
+    if (!payload || !Array.isArray(payload.lines)) return null;
+    return {
+      lines: payload.lines.map((line) => String(line)),
+      latestTimestamp: toTimestamp(payload['latest-timestamp'])
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 逐块读取 SSE 响应体，按空行切分事件并回调事件名与 data 字段
+ */
+const readEventStream = async (
+  response: Response,
+  onEvent: (event: string, data: string) => void
+): Promise<void> => {
+  if (!response.body) {
+    throw new Error('Streaming response body is not supported');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  const flushEvent = (block: string) => {
+    const dataLines: string[] = [];
+    let event = 'message';
+    block.split(/\r?\n/).forEach((line) => {
+      if (!line || line.startsWith(':')) return;
+      const sep = line.indexOf(':');
+      const field = sep === -1 ? line : line.slice(0, sep);
+      const value = sep === -1 ? '' : line.slice(sep + 1).replace(/^ /, '');
+      if (field === 'data') dataLines.push(value);
+      if (field === 'event') event = value;
+    });
+    if (dataLines.length) {
+      onEvent(event, dataLines.join('\n'));
+    }
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    pending += decoder.decode(value, { stream: true });
+
+    const blocks = pending.split(/\r?\n\r?\n/);
+    pending = blocks.pop() ?? '';
+    blocks.forEach(flushEvent);
+  }
+
+  if (pending.trim()) {
+    flushEvent(pending);
+  }
+};
+
+/**
+ * 建立日志实时流：优先 SSE，断线指数退避重连，多次失败或服务端不支持时回退为轮询
+ */
+const createLogStream = (options: LogStreamOptions): LogStream => {
+  // 本地保存的旧选项（如已移除的 websocket）按 auto 处理
+  const candidates: ActiveLogStreamTransport[] =
+    options.transport === 'polling' ? ['polling'] : ['sse', 'polling'];
+  const pollIntervalMs = options.pollIntervalMs ?? LOGS_POLL_INTERVAL_MS;
+
+  let closed = false;
+  let after = options.after ?? 0;
+  let candidateIndex = 0;
+  let attempt = 0;
+  let timer: number | null = null;
+  let controller: AbortController | null = null;
+
+  const current = () => candidates[candidateIndex];
+
+  const setStatus = (status: LogStreamStatus) => {
+    if (!closed || status === 'closed') {
+      options.onStatus?.(status, current());
+    }
+  };
+
+  const deliver = (batch: LogStreamBatch | null) => {
+    if (closed || !batch) return;
+    if (batch.latestTimestamp) {
+      after = Math.max(after, batch.latestTimestamp);
+    }
+    if (batch.lines.length > 0) {
+      options.onBatch(batch);
+    }
+  };
+
+  const clearTimer = () => {
+    if (timer !== null) {
+      window.clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const teardown = () => {
+    clearTimer();
+    controller?.abort();
+    controller = null;
+  };
+
+  const fallback = () => {
+    teardown();
+    candidateIndex = Math.min(candidateIndex + 1, candidates.length - 1);
+    attempt = 0;
+    connect();
+  };
+
+  const handleDisconnect = (err?: unknown) => {
+    if (closed) return;
+    teardown();
+    if (err) {
+      options.onError?.(err);
+    }
+
+    const status = (err as ApiError | undefined)?.status;
+    attempt += 1;
+    if ((status && UNSUPPORTED_STREAM_STATUS.has(status)) || attempt > LOGS_STREAM_MAX_RETRIES) {
+      fallback();
+      return;
+    }
+
+    // 指数退避并加入随机抖动，避免多个标签页同时重连
+    const base = Math.min(
+      LOGS_STREAM_RECONNECT_BASE_MS * 2 ** (attempt - 1),
+      LOGS_STREAM_RECONNECT_MAX_MS
+    );
+    const delay = Math.round(base * (0.5 + Math.random() * 0.5));
+    setStatus('reconnecting');
+    timer = window.setTimeout(connect, delay);
+  };
+
+  const connectSse = async () => {
+    const abort = new AbortController();
+    controller = abort;
+    try {
+      const response = await apiClient.stream(withAfter(LOGS_SSE_ENDPOINT, after), {
+        headers: { Accept: 'text/event-stream' },
+        signal: abort.signal
+      });
+      if (closed || abort.signal.aborted) return;
+      setStatus('streaming');
+
+      await readEventStream(response, (event, data) => {
+        // 服务端读取日志失败时发送 error 事件并结束连接，按断线处理
+        if (event === 'error') {
+          const payload = JSON.parse(data) as { error?: unknown } | null;
+          throw new Error(String(payload?.error ?? 'Log stream error'));
+        }
+        attempt = 0;
+        deliver(parseStreamPayload(data));
+      });
+      if (!abort.signal.aborted) {
+        handleDisconnect();
+      }
+    } catch (err: unknown) {
+      if (!abort.signal.aborted) {
+        handleDisconnect(err);
+      }
+    }
+  };
+
+  const poll = async () => {
+    try {
+      const data = await logsApi.fetchLogs(after > 0 ? { after } : {});
+      deliver({
+        lines: Array.isArray(data.lines) ? data.lines : [],
+        latestTimestamp: toTimestamp(data['latest-timestamp'])
+      });
+    } catch (err: unknown) {
+      if (!closed) {
+        options.onError?.(err);
+      }
+    } finally {
+      if (!closed && current() === 'polling') {
+        timer = window.setTimeout(poll, pollIntervalMs);
+      }
+    }
+  };
+
+  function connect() {
+    if (closed) return;
+    clearTimer();
+
+    switch (current()) {
+      case 'sse':
+        setStatus(attempt > 0 ? 'reconnecting' : 'connecting');
+        void connectSse();
+        break;
+      default:
+        setStatus('polling');
+        void poll();
+    }
+  }
+
+  connect();
+
+  return {
+    close: () => {
+      if (closed) return;
+      closed = true;
+      teardown();
+      setStatus('closed');
+    }
+  };
+};
+
 export const logsApi = {
   fetchLogs: (params: LogsQuery = {}): Promise<LogsResponse> =>
     apiClient.get('/logs', { params, timeout: LOGS_TIMEOUT_MS }),
 
+  // 实时日志流（SSE，失败时回退为轮询）
+  openStream: (options: LogStreamOptions): LogStream => createLogStream(options),
+
   clearLogs: () => apiClient.delete('/logs'),
 
   fetchErrorLogs: (): Promise<ErrorLogsResponse> =>
@@ -3,7 +3,19 @@
  */
 
 import { apiClient } from './client';
-import { computeKeyStats, KeyStats } from '@/utils/usage';
+import { configFileApi } from './configFile';
+import { computeKeyStats, KeyStats, type ModelPrice } from '@/utils/usage';
+import {
+  extractModelPricesFromConfigYaml,
+  upsertModelPricesInConfigYaml
+} from '@/utils/usage/prices';
+import { readConfigJsonEntry, upsertConfigJsonEntry } from '@/utils/configYaml';
+import {
+  USAGE_BUDGETS_CONFIG_KEY,
+  normalizeUsageBudgets,
+  serializeUsageBudgets,
+  type UsageBudget
+} from '@/utils/usage/budgets';
 
 const USAGE_TIMEOUT_MS = 60 * 1000;
 
@@ -22,6 +34,12 @@ export interface UsageImportResponse {
   [key: string]: unknown;
 }
 
+export interface UsageConfigSettings {
+  /** config.yaml 中未配置价格表时为 null */
+  modelPrices: Record<string, ModelPrice> | null;
+  budgets: UsageBudget[];
+}
+
 export const usageApi = {
   /**
    * 获取使用统计原始数据
@@ -49,5 +67,49 @@ export const usageApi = {
       payload = response?.usage ?? response;
     }
     return computeKeyStats(payload);
+  },
+
+  /**
+   * 读取 config.yaml 中共享的模型价格表，未配置时返回 null
+   */
+  async getModelPrices(): Promise<Record<string, ModelPrice> | null> {
+    const yaml = await configFileApi.fetchConfigYaml();
+    return extractModelPricesFromConfigYaml(yaml);
+  },
+
+  /**
+   * 将模型价格表写回 config.yaml，其余配置保持不变；config.yaml 已被修改时抛出冲突错误
+   */
+  async saveModelPrices(prices: Record<string, ModelPrice>): Promise<void> {
+    await configFileApi.updateConfigYaml((yaml) => upsertModelPricesInConfigYaml(yaml, prices));
+  },
+
+  /**
+   * 读取 config.yaml 中的用量预算
+   */
+  async getBudgets(): Promise<UsageBudget[]> {
+    const yaml = await configFileApi.fetchConfigYaml();
+    return normalizeUsageBudgets(readConfigJsonEntry(yaml, USAGE_BUDGETS_CONFIG_KEY));
+  },
+
+  /**
+   * 只读取一次 config.yaml，同时解析模型价格表与用量预算
+   */
+  async getUsageSettings(): Promise<UsageConfigSettings> {
+    const yaml = await configFileApi.fetchConfigYaml();
+    return {
+      modelPrices: extractModelPricesFromConfigYaml(yaml),
+      budgets: normalizeUsageBudgets(readConfigJsonEntry(yaml, USAGE_BUDGETS_CONFIG_KEY))
+    };
+  },
+
+  /**
+   * 将用量预算写回 config.yaml，预算为空时移除该条目；config.yaml 已被修改时抛出冲突错误
+   */
+  async saveBudgets(budgets: UsageBudget[]): Promise<void> {
+    const value = budgets.length > 0 ? serializeUsageBudgets(budgets) : null;
+    await configFileApi.updateConfigYaml((yaml) =>
+      upsertConfigJsonEntry(yaml, USAGE_BUDGETS_CONFIG_KEY, value)
+    );
   }
 };
@@ -10,3 +10,6 @@ export { useConfigStore } from './useConfigStore';
 export { useModelsStore } from './useModelsStore';
 export { useQuotaStore } from './useQuotaStore';
 export { useOpenAIEditDraftStore } from './useOpenAIEditDraftStore';
+export { useQuotaSchedulerStore } from './useQuotaSchedulerStore';
+export { useAuthFileExpiryStore } from './useAuthFileExpiryStore';
+export { useAuthFilePoolStore } from './useAuthFilePoolStore';
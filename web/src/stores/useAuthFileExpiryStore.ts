@@ -0,0 +1,82 @@
+/**
+ * 认证文件过期信息缓存
+ * 仅供认证文件页按需加载：列表元数据已带过期时间的文件不下载，其余 OAuth 凭证
+ * 按文件名与修改时间缓存解析结果，文件被刷新或编辑后自动重新下载
+ */
+
+import { create } from 'zustand';
+import { authFilesApi } from '@/services/api';
+import type { AuthFileItem } from '@/types';
+import {
+  getAuthFileReloginFlow,
+  isRuntimeOnlyAuthFile,
+  parseAuthFileExpiry,
+  parseAuthFileListExpiry,
+  parseAuthFileText,
+  type AuthFileExpiryInfo
+} from '@/utils/authFile';
+import { runWithConcurrencyLimit } from '@/utils/quota/scheduler';
+
+interface AuthFileExpiryEntry {
+  /** 缓存对应的文件版本（修改时间或大小） */
+  version: string;
+  /** 文件无法下载或解析时为 null */
+  info: AuthFileExpiryInfo | null;
+}
+
+interface AuthFileExpiryState {
+  entries: Record<string, AuthFileExpiryEntry>;
+  loadExpiry: (files: AuthFileItem[]) => Promise<void>;
+  clearExpiryCache: () => void;
+}
+
+const DOWNLOAD_CONCURRENCY = 4;
+
+// 正在下载的文件，避免多个页面同时请求同一文件
+const inFlight = new Set<string>();
+
+const getFileVersion = (file: AuthFileItem) =>
+  String(file['modtime'] ?? file.modified ?? file['updated_at'] ?? file.size ?? '');
+
+export const useAuthFileExpiryStore = create<AuthFileExpiryState>((set, get) => ({
+  entries: {},
+
+  loadExpiry: async (files) => {
+    const { entries } = get();
+    const targets = files.filter((file) => {
+      if (!file.name || isRuntimeOnlyAuthFile(file) || inFlight.has(file.name)) return false;
+      // 非 OAuth 凭证没有令牌过期时间；列表已提供过期时间时无需下载凭证内容
+      if (getAuthFileReloginFlow(file.type) === null || parseAuthFileListExpiry(file)) return false;
+      return entries[file.name]?.version !== getFileVersion(file);
+    });
+    if (targets.length === 0) return;
+
+    targets.forEach((file) => inFlight.add(file.name));
+    try {
+      await runWithConcurrencyLimit(
+        targets.map((file) => async () => {
+          let info: AuthFileExpiryInfo | null = null;
+          try {
+            const parsed = parseAuthFileText(await authFilesApi.downloadText(file.name));
+            info = parsed.ok ? parseAuthFileExpiry(parsed.json) : null;
+          } catch {
+            info = null;
+          }
+          set((state) => ({
+            entries: {
+              ...state.entries,
+              [file.name]: { version: getFileVersion(file), info }
+            }
+          }));
+        }),
+        DOWNLOAD_CONCURRENCY
+      );
+    } finally {
+      targets.forEach((file) => inFlight.delete(file.name));
+    }
+  },
+
+  clearExpiryCache: () => {
+    set({ entries: {} });
+  }
+}));
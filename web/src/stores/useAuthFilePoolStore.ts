@@ -0,0 +1,74 @@
+/**
+ * 认证文件凭证池（标签）分配
+ * 数据保存在 config.yaml 中，修改时基于服务端最新内容计算并按顺序写回，失败时保留原有分配并抛出错误
+ */
+
+import { create } from 'zustand';
+import { authFilesApi } from '@/services/api';
+import {
+  pruneAuthFilePoolAssignments,
+  removeAuthFilePoolTag,
+  updateAuthFilePoolTags,
+  type AuthFilePoolAssignments
+} from '@/utils/authFile';
+
+interface AuthFilePoolState {
+  assignments: AuthFilePoolAssignments;
+  loading: boolean;
+  saving: boolean;
+  /** 从 config.yaml 读取，失败时抛出错误 */
+  loadPools: () => Promise<void>;
+  /** 为多个文件添加 / 移除标签 */
+  updateFileTags: (names: string[], added: string[], removed: string[]) => Promise<void>;
+  /** 解散凭证池：从所有文件移除该标签 */
+  removeTag: (tag: string) => Promise<void>;
+  /** 恢复备份：用给定标签替换对应文件的现有标签 */
+  restoreFileTags: (entries: AuthFilePoolAssignments) => Promise<void>;
+  /** 移除已删除或重命名的文件的标签，仅在存在过期条目时写回 */
+  pruneFiles: (existingNames: string[]) => Promise<void>;
+}
+
+// 串行化写入，避免连续编辑时的并发写覆盖
+let saveQueue: Promise<unknown> = Promise.resolve();
+
+export const useAuthFilePoolStore = create<AuthFilePoolState>((set, get) => {
+  const save = (update: (current: AuthFilePoolAssignments) => AuthFilePoolAssignments) => {
+    const task = saveQueue.then(async () => {
+      set({ saving: true });
+      try {
+        set({ assignments: await authFilesApi.updatePools(update) });
+      } finally {
+        set({ saving: false });
+      }
+    });
+    saveQueue = task.catch(() => undefined);
+    return task;
+  };
+
+  return {
+    assignments: {},
+    loading: false,
+    saving: false,
+
+    loadPools: async () => {
+      set({ loading: true });
+      try {
+        set({ assignments: await authFilesApi.getPools() });
+      } finally {
+        set({ loading: false });
+      }
+    },
+
+    updateFileTags: (names, added, removed) =>
+      save((current) => updateAuthFilePoolTags(current, names, added, removed)),
+
+    removeTag: (tag) => save((current) => removeAuthFilePoolTag(current, tag)),
+
+    restoreFileTags: (entries) => save((current) => ({ ...current, ...entries })),
+
+    pruneFiles: async (existingNames) => {
+      if (!pruneAuthFilePoolAssignments(get().assignments, existingNames)) return;
+      await save((current) => pruneAuthFilePoolAssignments(current, existingNames) ?? current);
+    }
+  };
+});
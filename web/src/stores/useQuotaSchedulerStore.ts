@@ -0,0 +1,64 @@
+/**
+ * 后台额度轮询设置与运行状态
+ * 仅持久化设置，运行状态随页面刷新重置
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { STORAGE_KEY_QUOTA_SCHEDULER } from '@/utils/constants';
+import {
+  DEFAULT_QUOTA_SCHEDULER_SETTINGS,
+  normalizeQuotaSchedulerSettings,
+  type QuotaSchedulerSettings
+} from '@/utils/quota/scheduler';
+
+export interface QuotaSchedulerRunResult {
+  finishedAt: number;
+  success: number;
+  failed: number;
+  /** 被跳过的禁用 / 仅运行时认证文件数量 */
+  skipped: number;
+  error?: string;
+}
+
+interface QuotaSchedulerState {
+  settings: QuotaSchedulerSettings;
+  running: boolean;
+  lastRun: QuotaSchedulerRunResult | null;
+  /** 递增以请求立即执行一次轮询 */
+  runRequestId: number;
+  updateSettings: (patch: Partial<QuotaSchedulerSettings>) => void;
+  requestRun: () => void;
+  setRunning: (running: boolean) => void;
+  finishRun: (result: QuotaSchedulerRunResult) => void;
+}
+
+export const useQuotaSchedulerStore = create<QuotaSchedulerState>()(
+  persist(
+    (set) => ({
+      settings: DEFAULT_QUOTA_SCHEDULER_SETTINGS,
+      running: false,
+      lastRun: null,
+      runRequestId: 0,
+
+      updateSettings: (patch) =>
+        set((state) => ({
+          settings: normalizeQuotaSchedulerSettings({ ...state.settings, ...patch })
+        })),
+
+      requestRun: () => set((state) => ({ runRequestId: state.runRequestId + 1 })),
+
+      setRunning: (running) => set({ running }),
+
+      finishRun: (result) => set({ running: false, lastRun: result })
+    }),
+    {
+      name: STORAGE_KEY_QUOTA_SCHEDULER,
+      partialize: (state) => ({ settings: state.settings }),
+      merge: (persisted, current) => ({
+        ...current,
+        settings: normalizeQuotaSchedulerSettings((persisted as Partial<QuotaSchedulerState>)?.settings)
+      })
+    }
+  )
+);
@@ -3,7 +3,13 @@
  */
 
 import { create } from 'zustand';
-import type { AntigravityQuotaState, CodexQuotaState, GeminiCliQuotaState } from '@/types';
+import type {
+  AntigravityQuotaState,
+  ClaudeQuotaState,
+  CodexQuotaState,
+  GeminiCliQuotaState,
+  LocalUsageQuotaState
+} from '@/types';
 
 type QuotaUpdater<T> = T | ((prev: T) => T);
 
@@ -11,9 +17,15 @@ interface QuotaStoreState {
   antigravityQuota: Record<string, AntigravityQuotaState>;
   codexQuota: Record<string, CodexQuotaState>;
   geminiCliQuota: Record<string, GeminiCliQuotaState>;
+  claudeQuota: Record<string, ClaudeQuotaState>;
+  qwenQuota: Record<string, LocalUsageQuotaState>;
+  iflowQuota: Record<string, LocalUsageQuotaState>;
   setAntigravityQuota: (updater: QuotaUpdater<Record<string, AntigravityQuotaState>>) => void;
   setCodexQuota: (updater: QuotaUpdater<Record<string, CodexQuotaState>>) => void;
   setGeminiCliQuota: (updater: QuotaUpdater<Record<string, GeminiCliQuotaState>>) => void;
+  setClaudeQuota: (updater: QuotaUpdater<Record<string, ClaudeQuotaState>>) => void;
+  setQwenQuota: (updater: QuotaUpdater<Record<string, LocalUsageQuotaState>>) => void;
+  setIflowQuota: (updater: QuotaUpdater<Record<string, LocalUsageQuotaState>>) => void;
   clearQuotaCache: () => void;
 }
 
@@ -28,6 +40,9 @@ export const useQuotaStore = create<QuotaStoreState>((set) => ({
   antigravityQuota: {},
   codexQuota: {},
   geminiCliQuota: {},
+  claudeQuota: {},
+  qwenQuota: {},
+  iflowQuota: {},
   setAntigravityQuota: (updater) =>
     set((state) => ({
       antigravityQuota: resolveUpdater(updater, state.antigravityQuota)
@@ -40,10 +55,25 @@ export const useQuotaStore = create<QuotaStoreState>((set) => ({
     set((state) => ({
       geminiCliQuota: resolveUpdater(updater, state.geminiCliQuota)
     })),
+  setClaudeQuota: (updater) =>
+    set((state) => ({
+      claudeQuota: resolveUpdater(updater, state.claudeQuota)
+    })),
+  setQwenQuota: (updater) =>
+    set((state) => ({
+      qwenQuota: resolveUpdater(updater, state.qwenQuota)
+    })),
+  setIflowQuota: (updater) =>
+    set((state) => ({
+      iflowQuota: resolveUpdater(updater, state.iflowQuota)
+    })),
   clearQuotaCache: () =>
     set({
       antigravityQuota: {},
       codexQuota: {},
-      geminiCliQuota: {}
+      geminiCliQuota: {},
+      claudeQuota: {},
+      qwenQuota: {},
+      iflowQuota: {}
     })
 }));
@@ -97,6 +97,31 @@ export interface CodexUsagePayload {
   codeReviewRateLimit?: CodexRateLimitInfo | null;
 }
 
+export interface ClaudeUsageWindow {
+  utilization?: number | string | null;
+  resets_at?: string | null;
+  resetsAt?: string | null;
+}
+
+export interface ClaudeExtraUsage {
+  is_enabled?: boolean | null;
+  isEnabled?: boolean | null;
+  monthly_limit?: number | string | null;
+  monthlyLimit?: number | string | null;
+  used_credits?: number | string | null;
+  usedCredits?: number | string | null;
+  utilization?: number | string | null;
+}
+
+export interface ClaudeUsagePayload {
+  five_hour?: ClaudeUsageWindow | null;
+  seven_day?: ClaudeUsageWindow | null;
+  seven_day_opus?: ClaudeUsageWindow | null;
+  seven_day_sonnet?: ClaudeUsageWindow | null;
+  seven_day_oauth_apps?: ClaudeUsageWindow | null;
+  extra_usage?: ClaudeExtraUsage | null;
+}
+
 // Quota state types
 export interface AntigravityQuotaGroup {
   id: string;
@@ -137,6 +162,7 @@ export interface CodexQuotaWindow {
   labelKey?: string;
   usedPercent: number | null;
   resetLabel: string;
+  resetTime?: string;
 }
 
 export interface CodexQuotaState {
@@ -146,3 +172,37 @@ export interface CodexQuotaState {
   error?: string;
   errorStatus?: number;
 }
+
+export interface ClaudeQuotaWindow {
+  id: string;
+  label: string;
+  labelKey?: string;
+  usedPercent: number | null;
+  resetTime?: string;
+}
+
+export interface ClaudeQuotaState {
+  status: 'idle' | 'loading' | 'success' | 'error';
+  windows: ClaudeQuotaWindow[];
+  /** Used percent of paid extra usage, null when extra usage is disabled */
+  extraUsagePercent?: number | null;
+  error?: string;
+  errorStatus?: number;
+}
+
+// Providers without a quota API: usage counted from this proxy's request statistics
+export interface LocalUsageQuotaSummary {
+  requests: number;
+  failed: number;
+  tokens: number;
+  /** Known daily request allowance, null when the provider does not publish one */
+  dailyLimit: number | null;
+  resetTime: string;
+}
+
+export interface LocalUsageQuotaState {
+  status: 'idle' | 'loading' | 'success' | 'error';
+  usage: LocalUsageQuotaSummary | null;
+  error?: string;
+  errorStatus?: number;
+}
@@ -0,0 +1,262 @@
+/**
+ * 认证文件加密备份与恢复
+ * 备份内容（全部认证文件、OAuth 排除模型、模型别名与凭证池标签）打包为 ZIP 后用口令加密，
+ * 恢复前对比当前数据生成新增 / 覆盖 / 跳过预览
+ */
+
+import type { OAuthModelAlias } from '@/types';
+import {
+  decryptWithPassphrase,
+  encryptWithPassphrase,
+  isValidPassphraseKdfIterations,
+  type PassphraseEncryptedPayload
+} from '@/utils/encryption';
+import { createZip, readZip } from '@/utils/zip';
+import { getAuthFileBaseName } from './bulkImport';
+import {
+  getAuthFileTagKey,
+  normalizeAuthFilePoolAssignments,
+  type AuthFilePoolAssignments
+} from './pools';
+
+export const AUTH_FILE_BACKUP_FORMAT = 'one-proxy-auth-backup';
+export const AUTH_FILE_BACKUP_VERSION = 1;
+export const AUTH_FILE_BACKUP_EXTENSION = '.authbackup';
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
+
+const FILES_DIR = 'auth-files/';
+const MANIFEST_ENTRY = 'manifest.json';
+const EXCLUDED_ENTRY = 'oauth-excluded-models.json';
+const ALIAS_ENTRY = 'oauth-model-alias.json';
+const POOLS_ENTRY = 'auth-file-pools.json';
+
+export interface AuthFileBackupFile {
+  name: string;
+  content: string;
+}
+
+export interface AuthFileBackup {
+  createdAt: string;
+  files: AuthFileBackupFile[];
+  oauthExcludedModels: Record<string, string[]>;
+  oauthModelAlias: OAuthModelAlias;
+  /** 备份文件的凭证池标签 */
+  authFilePools: AuthFilePoolAssignments;
+}
+
+interface AuthFileBackupEnvelope extends PassphraseEncryptedPayload {
+  format: typeof AUTH_FILE_BACKUP_FORMAT;
+  version: number;
+}
+
+export type AuthFileBackupReadResult =
+  | { ok: true; backup: AuthFileBackup }
+  | { ok: false; error: 'invalid_format' | 'unsupported_version' | 'wrong_passphrase' };
+
+/**
+ * 生成加密备份文件内容（JSON 信封，密文为 ZIP 归档）
+ */
+export async function createAuthFileBackupArchive(
+  backup: AuthFileBackup,
+  passphrase: string
+): Promise<string> {
+  const archive = createZip([
+    {
+      name: MANIFEST_ENTRY,
+      data: JSON.stringify({ createdAt: backup.createdAt, files: backup.files.length }, null, 2)
+    },
+    ...backup.files.map((file) => ({ name: `${FILES_DIR}${file.name}`, data: file.content })),
+    { name: EXCLUDED_ENTRY, data: JSON.stringify(backup.oauthExcludedModels, null, 2) },
+    { name: ALIAS_ENTRY, data: JSON.stringify(backup.oauthModelAlias, null, 2) },
+    { name: POOLS_ENTRY, data: JSON.stringify(backup.authFilePools, null, 2) }
+  ]);
+  const payload = await encryptWithPassphrase(new Uint8Array(await archive.arrayBuffer()), passphrase);
+  const envelope: AuthFileBackupEnvelope = {
+    format: AUTH_FILE_BACKUP_FORMAT,
+    version: AUTH_FILE_BACKUP_VERSION,
+    ...payload
+  };
+  return JSON.stringify(envelope);
+}
+
+const parseEnvelope = (text: string): AuthFileBackupEnvelope | null => {
+  try {
+    const parsed = JSON.parse(text) as Partial<AuthFileBackupEnvelope> | null;
+    if (!parsed || parsed.format !== AUTH_FILE_BACKUP_FORMAT) return null;
+    if (typeof parsed.salt !== 'string' || typeof parsed.iv !== 'string') return null;
+    if (typeof parsed.data !== 'string' || !isValidPassphraseKdfIterations(parsed.iterations)) {
+      return null;
+    }
+    return parsed as AuthFileBackupEnvelope;
+  } catch {
+    return null;
+  }
+};
+
+const parseRecord = <T,>(text: string | undefined): Record<string, T> => {
+  if (!text) return {};
+  const parsed = JSON.parse(text) as unknown;
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? (parsed as Record<string, T>)
+    : {};
+};
+
+/**
+ * 解密并解析备份文件
+ */
+export async function readAuthFileBackupArchive(
+  text: string,
+  passphrase: string
+): Promise<AuthFileBackupReadResult> {
+  const envelope = parseEnvelope(text);
+  if (!envelope) return { ok: false, error: 'invalid_format' };
+  if (envelope.version > AUTH_FILE_BACKUP_VERSION) return { ok: false, error: 'unsupported_version' };
+
+  let archive: Uint8Array;
+  try {
+    archive = await decryptWithPassphrase(envelope, passphrase);
+  } catch {
+    return { ok: false, error: 'wrong_passphrase' };
+  }
+
+  try {
+    const decoder = new TextDecoder();
+    const entries = new Map(
+      (await readZip(archive)).map((entry) => [
+        entry.name,
+        typeof entry.data === 'string' ? entry.data : decoder.decode(entry.data)
+      ])
+    );
+    const manifest = parseRecord<unknown>(entries.get(MANIFEST_ENTRY));
+    const files: AuthFileBackupFile[] = [];
+    const seen = new Set<string>();
+    entries.forEach((content, name) => {
+      if (!name.startsWith(FILES_DIR)) return;
+      // 条目名来自归档内容，只保留文件名部分；清理后重名的条目只取第一个
+      const fileName = getAuthFileBaseName(name.slice(FILES_DIR.length)).trim();
+      if (!fileName || fileName === '.' || fileName === '..' || seen.has(fileName)) return;
+      seen.add(fileName);
+      files.push({ name: fileName, content });
+    });
+    // 标签只保留备份中存在的文件，键名按文件条目同样的规则清理
+    const authFilePools: AuthFilePoolAssignments = {};
+    Object.entries(
+      normalizeAuthFilePoolAssignments(parseRecord<unknown>(entries.get(POOLS_ENTRY)))
+    ).forEach(([name, tags]) => {
+      const fileName = getAuthFileBaseName(name).trim();
+      if (seen.has(fileName) && !(fileName in authFilePools)) {
+        authFilePools[fileName] = tags;
+      }
+    });
+    return {
+      ok: true,
+      backup: {
+        createdAt: typeof manifest.createdAt === 'string' ? manifest.createdAt : '',
+        files,
+        oauthExcludedModels: parseRecord<string[]>(entries.get(EXCLUDED_ENTRY)),
+        oauthModelAlias: parseRecord<OAuthModelAlias[string]>(entries.get(ALIAS_ENTRY)),
+        authFilePools
+      }
+    };
+  } catch {
+    return { ok: false, error: 'invalid_format' };
+  }
+}
+
+export type AuthFileRestoreAction = 'add' | 'overwrite' | 'unchanged' | 'skip';
+
+export interface AuthFileRestoreItem<T> {
+  key: string;
+  action: AuthFileRestoreAction;
+  value: T;
+}
+
+export interface AuthFileRestorePlan {
+  files: AuthFileRestoreItem<string>[];
+  oauthExcludedModels: AuthFileRestoreItem<string[]>[];
+  oauthModelAlias: AuthFileRestoreItem<OAuthModelAlias[string]>[];
+  authFilePools: AuthFileRestoreItem<string[]>[];
+}
+
+export interface AuthFileRestoreCurrent {
+  /** 服务端已有文件的内容；无法下载或仅运行时的文件为 null */
+  files: Record<string, string | null>;
+  oauthExcludedModels: Record<string, string[]>;
+  oauthModelAlias: OAuthModelAlias;
+  authFilePools: AuthFilePoolAssignments;
+}
+
+// 忽略缩进差异比较 JSON 内容
+const normalizeJsonText = (text: string) => {
+  try {
+    return JSON.stringify(JSON.parse(text));
+  } catch {
+    return text.trim();
+  }
+};
+
+const resolveAction = (
+  exists: boolean,
+  same: boolean,
+  overwrite: boolean
+): AuthFileRestoreAction => {
+  if (!exists) return 'add';
+  if (same) return 'unchanged';
+  return overwrite ? 'overwrite' : 'skip';
+};
+
+/**
+ * 对比备份与当前数据，生成恢复预览；overwrite 为 false 时已存在且不同的条目被跳过
+ */
+export function planAuthFileRestore(
+  backup: AuthFileBackup,
+  current: AuthFileRestoreCurrent,
+  overwrite: boolean
+): AuthFileRestorePlan {
+  return {
+    files: backup.files.map((file) => {
+      const exists = file.name in current.files;
+      const existing = current.files[file.name];
+      // 无法读取现有内容（如仅运行时凭证）时不覆盖
+      if (exists && existing === null) {
+        return { key: file.name, action: 'skip', value: file.content };
+      }
+      const same =
+        existing !== undefined &&
+        existing !== null &&
+        normalizeJsonText(existing) === normalizeJsonText(file.content);
+      return { key: file.name, action: resolveAction(exists, same, overwrite), value: file.content };
+    }),
+    oauthExcludedModels: Object.entries(backup.oauthExcludedModels).map(([provider, models]) => {
+      const existing = current.oauthExcludedModels[provider];
+      const same = JSON.stringify(existing ?? null) === JSON.stringify(models);
+      return {
+        key: provider,
+        action: resolveAction(existing !== undefined, same, overwrite),
+        value: models
+      };
+    }),
+    oauthModelAlias: Object.entries(backup.oauthModelAlias).map(([channel, aliases]) => {
+      const existing = current.oauthModelAlias[channel];
+      const same = JSON.stringify(existing ?? null) === JSON.stringify(aliases);
+      return {
+        key: channel,
+        action: resolveAction(existing !== undefined, same, overwrite),
+        value: aliases
+      };
+    }),
+    authFilePools: Object.entries(backup.authFilePools).map(([name, tags]) => {
+      const existing = current.authFilePools[name];
+      const toKeys = (list: string[]) => JSON.stringify(list.map(getAuthFileTagKey));
+      const same = existing !== undefined && toKeys(existing) === toKeys(tags);
+      return {
+        key: name,
+        action: resolveAction(existing !== undefined, same, overwrite),
+        value: tags
+      };
+    })
+  };
+}
+
+export const isRestoreApplied = (action: AuthFileRestoreAction) =>
+  action === 'add' || action === 'overwrite';
@@ -0,0 +1,257 @@
+/**
+ * 认证文件批量导入
+ * 展开文件夹、ZIP / TAR 归档与 JSON 数组，逐个校验大小、JSON 结构和重名情况
+ */
+
+import { readTar } from '@/utils/tar';
+import { readZip } from '@/utils/zip';
+import { parseAuthFileText } from './schema';
+
+export interface AuthFileImportSource {
+  file: File;
+  /** 文件夹拖放时的相对路径，普通选择时为文件名 */
+  path: string;
+}
+
+export interface AuthFileImportEntry {
+  /** 来源路径，归档内条目形如 archive.zip/dir/file.json */
+  source: string;
+  data: Uint8Array | string;
+  /** 非 JSON、文件过大或归档无法解包时记录原因，data 为空 */
+  skipReason?: 'not_json' | 'too_large' | 'archive_error';
+  message?: string;
+}
+
+export type AuthFileImportSkipReason =
+  | 'not_json'
+  | 'too_large'
+  | 'invalid_json'
+  | 'not_object'
+  | 'duplicate_existing'
+  | 'duplicate_batch'
+  | 'archive_error';
+
+export interface AuthFileImportItem {
+  id: string;
+  /** 上传后的文件名 */
+  name: string;
+  source: string;
+  content: string;
+  skipReason: AuthFileImportSkipReason | null;
+  /** 归档解析失败等附加信息 */
+  message?: string;
+}
+
+export interface AuthFileImportOptions {
+  existingNames: Iterable<string>;
+  maxFileSize: number;
+  /** 允许覆盖服务端已有的同名文件 */
+  overwrite: boolean;
+}
+
+// 归档整体大小上限，避免一次性读入过大的文件；JSON 文件可能是凭证数组，同样适用该上限
+export const MAX_AUTH_FILE_ARCHIVE_SIZE = 50 * 1024 * 1024;
+
+// 归档解压后的总大小上限，防止压缩炸弹耗尽内存
+export const MAX_AUTH_FILE_EXTRACTED_SIZE = 100 * 1024 * 1024;
+
+// 打包工具生成的系统文件，导入时直接忽略
+const IGNORED_PATH_PATTERN = /(^|\/)(__MACOSX\/|\._|\.DS_Store$|Thumbs\.db$)/i;
+
+export function getAuthFileArchiveKind(name: string): 'zip' | 'tar' | null {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.zip')) return 'zip';
+  if (lower.endsWith('.tar') || lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) return 'tar';
+  return null;
+}
+
+/**
+ * 取路径中的文件名部分，归档条目名与 _filename 可能带有目录
+ */
+export function getAuthFileBaseName(path: string): string {
+  return path.split(/[\\/]/).pop() ?? path;
+}
+
+const isJsonName = (name: string) => name.toLowerCase().endsWith('.json');
+
+/**
+ * 展开导入来源：普通文件原样返回，归档解包为其中的文件；
+ * 读取前先检查扩展名与大小，非 JSON、过大或无法解包的文件保留为带 skipReason 的条目
+ */
+export async function expandAuthFileImportSources(
+  sources: AuthFileImportSource[]
+): Promise<AuthFileImportEntry[]> {
+  const entries: AuthFileImportEntry[] = [];
+  for (const { file, path } of sources) {
+    if (IGNORED_PATH_PATTERN.test(path)) continue;
+    const kind = getAuthFileArchiveKind(file.name);
+    if (!kind && !isJsonName(file.name)) {
+      entries.push({ source: path, data: '', skipReason: 'not_json' });
+      continue;
+    }
+    if (file.size > MAX_AUTH_FILE_ARCHIVE_SIZE) {
+      entries.push({ source: path, data: '', skipReason: 'too_large' });
+      continue;
+    }
+    if (!kind) {
+      entries.push({ source: path, data: new Uint8Array(await file.arrayBuffer()) });
+      continue;
+    }
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const archived =
+        kind === 'zip'
+          ? await readZip(bytes, {
+              maxEntrySize: MAX_AUTH_FILE_ARCHIVE_SIZE,
+              maxTotalSize: MAX_AUTH_FILE_EXTRACTED_SIZE
+            })
+          : await readTar(bytes, MAX_AUTH_FILE_EXTRACTED_SIZE);
+      archived
+        .filter((entry) => !IGNORED_PATH_PATTERN.test(entry.name))
+        .forEach((entry) => entries.push({ source: `${path}/${entry.name}`, data: entry.data }));
+    } catch (err: unknown) {
+      entries.push({
+        source: path,
+        data: '',
+        skipReason: 'archive_error',
+        message: err instanceof Error ? err.message : undefined
+      });
+    }
+  }
+  return entries;
+}
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+/**
+ * 将展开后的条目转换为待上传项；JSON 数组按元素拆分，元素中的 _filename 作为文件名
+ */
+export function buildAuthFileImportItems(
+  entries: AuthFileImportEntry[],
+  options: AuthFileImportOptions
+): AuthFileImportItem[] {
+  const decoder = new TextDecoder();
+  const items: AuthFileImportItem[] = [];
+
+  const push = (item: Omit<AuthFileImportItem, 'id'>) => {
+    items.push({ ...item, id: `${items.length}:${item.source}:${item.name}` });
+  };
+
+  entries.forEach((entry) => {
+    const name = getAuthFileBaseName(entry.source);
+    if (entry.skipReason) {
+      push({
+        name,
+        source: entry.source,
+        content: '',
+        skipReason: entry.skipReason,
+        message: entry.message
+      });
+      return;
+    }
+    if (!isJsonName(name)) {
+      push({ name, source: entry.source, content: '', skipReason: 'not_json' });
+      return;
+    }
+
+    const text = typeof entry.data === 'string' ? entry.data : decoder.decode(entry.data);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      push({ name, source: entry.source, content: text, skipReason: 'invalid_json' });
+      return;
+    }
+
+    if (!Array.isArray(parsed)) {
+      const result = parseAuthFileText(text);
+      push({
+        name,
+        source: entry.source,
+        content: text,
+        skipReason: result.ok ? null : result.error
+      });
+      return;
+    }
+
+    const stem = name.replace(/\.json$/i, '');
+    parsed.forEach((element, index) => {
+      const source = `${entry.source}#${index + 1}`;
+      if (!element || typeof element !== 'object' || Array.isArray(element)) {
+        push({ name: `${stem}-${index + 1}.json`, source, content: '', skipReason: 'not_object' });
+        return;
+      }
+      const { _filename: filename, ...rest } = element as Record<string, unknown>;
+      const elementName =
+        typeof filename === 'string' && filename.trim()
+          ? getAuthFileBaseName(filename.trim())
+          : `${stem}-${index + 1}.json`;
+      push({
+        name: elementName,
+        source,
+        content: JSON.stringify(rest, null, 2),
+        skipReason: null
+      });
+    });
+  });
+
+  const existing = new Set(options.existingNames);
+  const seen = new Set<string>();
+  return items.map((item) => {
+    if (item.skipReason) return item;
+    let skipReason: AuthFileImportSkipReason | null = null;
+    if (byteLength(item.content) > options.maxFileSize) {
+      skipReason = 'too_large';
+    } else if (seen.has(item.name)) {
+      skipReason = 'duplicate_batch';
+    } else if (!options.overwrite && existing.has(item.name)) {
+      skipReason = 'duplicate_existing';
+    }
+    if (!skipReason) seen.add(item.name);
+    return skipReason ? { ...item, skipReason } : item;
+  });
+}
+
+const readDirectoryEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const readEntryFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+async function collectEntry(entry: FileSystemEntry, output: AuthFileImportSource[]): Promise<void> {
+  const path = entry.fullPath.replace(/^\//, '');
+  if (entry.isFile) {
+    output.push({ file: await readEntryFile(entry as FileSystemFileEntry), path });
+    return;
+  }
+  if (!entry.isDirectory) return;
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries 每次最多返回一批，需要循环读取直到返回空数组
+  for (;;) {
+    const batch = await readDirectoryEntries(reader);
+    if (batch.length === 0) break;
+    for (const child of batch) {
+      await collectEntry(child, output);
+    }
+  }
+}
+
+/**
+ * 收集拖放的文件与文件夹（递归展开子目录）
+ */
+export async function collectDroppedAuthFiles(
+  dataTransfer: DataTransfer
+): Promise<AuthFileImportSource[]> {
+  // 必须在事件回调同步阶段取出 entry，之后 DataTransfer 会失效
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry());
+  if (entries.length === 0 || entries.some((entry) => entry === null)) {
+    return Array.from(dataTransfer.files).map((file) => ({ file, path: file.name }));
+  }
+  const output: AuthFileImportSource[] = [];
+  for (const entry of entries) {
+    await collectEntry(entry as FileSystemEntry, output);
+  }
+  return output;
+}
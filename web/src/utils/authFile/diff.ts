@@ -0,0 +1,59 @@
+/**
+ * 行级文本差异，用于保存认证文件前预览改动
+ */
+
+export type TextDiffLineType = 'same' | 'added' | 'removed';
+
+export interface TextDiffLine {
+  type: TextDiffLineType;
+  text: string;
+}
+
+// LCS 表大小上限，超过后退化为整体替换，避免大文件卡住页面
+const MAX_DIFF_CELLS = 2_000_000;
+
+/**
+ * 基于最长公共子序列计算两段文本的行差异
+ */
+export function diffTextLines(before: string, after: string): TextDiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text): TextDiffLine => ({ type: 'removed', text })),
+      ...b.map((text): TextDiffLine => ({ type: 'added', text }))
+    ];
+  }
+
+  const cols = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * cols);
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i * cols + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * cols + j + 1] + 1
+          : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const lines: TextDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      lines.push({ type: 'removed', text: a[i] });
+      i += 1;
+    } else {
+      lines.push({ type: 'added', text: b[j] });
+      j += 1;
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+}
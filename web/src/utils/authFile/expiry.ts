@@ -0,0 +1,153 @@
+/**
+ * 认证文件令牌过期与刷新状态
+ * 优先使用列表元数据中的过期时间，缺失时才从凭证 JSON 中解析，并结合列表元数据判断刷新是否失败
+ */
+
+import type { AuthFileItem } from '@/types';
+import { getAuthFileValue, type AuthFileJson } from './schema';
+
+export type AuthFileExpiryStatus = 'expired' | 'expiring' | 'valid' | 'unknown';
+
+export interface AuthFileExpiryInfo {
+  /** 访问令牌过期时间（毫秒时间戳），无法解析时为 null */
+  expiresAt: number | null;
+  /** 最近一次刷新时间（毫秒时间戳），无法解析时为 null */
+  lastRefreshAt: number | null;
+}
+
+// 各类凭证记录过期时间的字段，按优先级排列
+const EXPIRY_FIELD_PATHS = ['expired', 'expiry', 'expires_at', 'token.expiry', 'token.expires_at'];
+
+const LAST_REFRESH_FIELD_PATHS = ['last_refresh', 'token.last_refresh'];
+
+// 「即将过期」筛选可选的时间窗口（小时）
+export const AUTH_FILE_EXPIRING_WINDOW_OPTIONS = [1, 6, 24, 72, 168];
+
+// 凭证类型对应的 OAuth 页面登录入口
+const RELOGIN_FLOWS: Record<string, string> = {
+  codex: 'codex',
+  claude: 'anthropic',
+  antigravity: 'antigravity',
+  gemini: 'gemini-cli',
+  'gemini-cli': 'gemini-cli',
+  qwen: 'qwen',
+  iflow: 'iflow',
+  vertex: 'vertex'
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * 解析时间值：兼容秒/毫秒时间戳、数字字符串与 ISO 时间字符串
+ */
+export function parseAuthFileTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || value <= 0) return null;
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseAuthFileTimestamp(Number(trimmed));
+  const parsed = Date.parse(trimmed);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+const readFirstTimestamp = (json: AuthFileJson, paths: string[]): number | null => {
+  for (const path of paths) {
+    const parsed = parseAuthFileTimestamp(getAuthFileValue(json, path));
+    if (parsed !== null) return parsed;
+  }
+  return null;
+};
+
+/**
+ * 从凭证 JSON 解析过期与刷新时间；没有显式过期字段时使用 timestamp + expires_in 推算
+ */
+export function parseAuthFileExpiry(json: AuthFileJson): AuthFileExpiryInfo {
+  let expiresAt = readFirstTimestamp(json, EXPIRY_FIELD_PATHS);
+  if (expiresAt === null) {
+    const issuedAt = parseAuthFileTimestamp(json.timestamp);
+    const expiresIn = Number(json.expires_in);
+    if (issuedAt !== null && Number.isFinite(expiresIn) && expiresIn > 0) {
+      expiresAt = issuedAt + expiresIn * 1000;
+    }
+  }
+  return {
+    expiresAt,
+    lastRefreshAt: readFirstTimestamp(json, LAST_REFRESH_FIELD_PATHS)
+  };
+}
+
+/**
+ * 读取列表元数据中的过期时间，列表未提供时返回 null，此时才需要下载凭证内容解析
+ */
+export function parseAuthFileListExpiry(file: AuthFileItem): AuthFileExpiryInfo | null {
+  const expiresAt = readFirstTimestamp(file as AuthFileJson, EXPIRY_FIELD_PATHS);
+  if (expiresAt === null) return null;
+  return { expiresAt, lastRefreshAt: parseAuthFileTimestamp(file['last_refresh']) };
+}
+
+/**
+ * 获取文件的过期信息：列表元数据优先，其次是已下载解析的缓存
+ */
+export function resolveAuthFileExpiry(
+  file: AuthFileItem,
+  cached: AuthFileExpiryInfo | null | undefined
+): AuthFileExpiryInfo | null {
+  return parseAuthFileListExpiry(file) ?? cached ?? null;
+}
+
+/**
+ * 列表接口返回的 last_refresh 优先于文件内容，文件内容可能尚未被服务端回写
+ */
+export function resolveAuthFileLastRefresh(
+  file: AuthFileItem,
+  info: AuthFileExpiryInfo | null | undefined
+): number | null {
+  return parseAuthFileTimestamp(file['last_refresh']) ?? info?.lastRefreshAt ?? null;
+}
+
+export function getAuthFileExpiryStatus(
+  info: AuthFileExpiryInfo | null | undefined,
+  windowHours: number,
+  now: number = Date.now()
+): AuthFileExpiryStatus {
+  if (!info || info.expiresAt === null) return 'unknown';
+  if (info.expiresAt <= now) return 'expired';
+  if (info.expiresAt - now <= windowHours * HOUR_MS) return 'expiring';
+  return 'valid';
+}
+
+/**
+ * 服务端将刷新失败的凭证标记为 error 状态，并在 status_message 中给出原因
+ */
+export function isAuthFileRefreshFailing(file: AuthFileItem): boolean {
+  if (file.disabled) return false;
+  return String(file['status'] ?? '').trim().toLowerCase() === 'error';
+}
+
+export function getAuthFileStatusMessage(file: AuthFileItem): string {
+  const message = file['status_message'];
+  return typeof message === 'string' ? message.trim() : '';
+}
+
+/**
+ * 获取凭证类型对应的重新登录入口，不支持的类型返回 null
+ */
+export function getAuthFileReloginFlow(type: string | null | undefined): string | null {
+  return RELOGIN_FLOWS[String(type ?? '').trim().toLowerCase()] ?? null;
+}
+
+/**
+ * 格式化剩余时间，如 3d 4h、5h 12m、8m；已过期时表示距今多久
+ */
+export function formatAuthFileCountdown(ms: number): string {
+  const totalMinutes = Math.max(1, Math.floor(Math.abs(ms) / 60000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  return `${minutes}m`;
+}
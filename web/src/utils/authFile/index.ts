@@ -0,0 +1,10 @@
+/**
+ * 认证文件工具函数统一导出
+ */
+
+export * from './schema';
+export * from './diff';
+export * from './expiry';
+export * from './bulkImport';
+export * from './backup';
+export * from './pools';
@@ -0,0 +1,172 @@
+/**
+ * 认证文件凭证池（标签）
+ * 标签以文件名为键保存在 config.yaml 的 auth-file-pools 条目中，所有管理端共享，不修改凭证 JSON 本身；
+ * 标签比较一律忽略大小写，同一标签的不同写法视为同一个凭证池
+ */
+
+export type AuthFilePoolAssignments = Record<string, string[]>;
+
+export const AUTH_FILE_POOLS_CONFIG_KEY = 'auth-file-pools';
+
+// 标签筛选中表示「未分组」的特殊值
+export const AUTH_FILE_UNTAGGED_FILTER = '__untagged__';
+
+export const MAX_AUTH_FILE_TAG_LENGTH = 40;
+
+/**
+ * 规范化单个标签：去除首尾空白、合并连续空白并限制长度
+ */
+export function normalizeAuthFileTag(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').slice(0, MAX_AUTH_FILE_TAG_LENGTH);
+}
+
+/**
+ * 标签的比较键：筛选、计数、合并与解散都以此判断是否为同一标签
+ */
+export function getAuthFileTagKey(tag: string): string {
+  return normalizeAuthFileTag(tag).toLowerCase();
+}
+
+export function hasAuthFileTag(tags: string[], tag: string): boolean {
+  const key = getAuthFileTagKey(tag);
+  return tags.some((item) => getAuthFileTagKey(item) === key);
+}
+
+/**
+ * 规范化标签列表：去空、去重（忽略大小写）并排序
+ */
+export function normalizeAuthFileTags(values: unknown): string[] {
+  if (!Array.isArray(values)) return [];
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  values.forEach((value) => {
+    if (typeof value !== 'string') return;
+    const tag = normalizeAuthFileTag(value);
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return;
+    seen.add(key);
+    tags.push(tag);
+  });
+  return tags.sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * 解析逗号或换行分隔的标签输入
+ */
+export function parseAuthFileTagsInput(text: string): string[] {
+  return normalizeAuthFileTags(text.split(/[,，\n]/));
+}
+
+/**
+ * 过滤无效的配置数据
+ */
+export function normalizeAuthFilePoolAssignments(value: unknown): AuthFilePoolAssignments {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const assignments: AuthFilePoolAssignments = {};
+  Object.entries(value as Record<string, unknown>).forEach(([name, tags]) => {
+    const normalized = normalizeAuthFileTags(tags);
+    if (name && normalized.length > 0) {
+      assignments[name] = normalized;
+    }
+  });
+  return assignments;
+}
+
+/**
+ * 所有已使用的标签（每个标签取首次出现的写法），按标签名排序
+ */
+export function listAuthFileTags(assignments: AuthFilePoolAssignments): string[] {
+  return normalizeAuthFileTags(Object.values(assignments).flat());
+}
+
+/**
+ * 统计当前文件列表中各标签的文件数量，按标签名排序
+ */
+export function countAuthFileTags(
+  names: string[],
+  assignments: AuthFilePoolAssignments
+): Array<{ tag: string; count: number }> {
+  const counts = new Map<string, { tag: string; count: number }>();
+  names.forEach((name) => {
+    (assignments[name] ?? []).forEach((tag) => {
+      const key = getAuthFileTagKey(tag);
+      const entry = counts.get(key);
+      if (entry) {
+        entry.count += 1;
+      } else {
+        counts.set(key, { tag, count: 1 });
+      }
+    });
+  });
+  return Array.from(counts.values()).sort((a, b) => a.tag.localeCompare(b.tag));
+}
+
+/**
+ * 判断文件是否匹配标签筛选
+ */
+export function matchAuthFileTagFilter(tags: string[], filter: string): boolean {
+  if (filter === 'all') return true;
+  if (filter === AUTH_FILE_UNTAGGED_FILTER) return tags.length === 0;
+  return hasAuthFileTag(tags, filter);
+}
+
+/**
+ * 批量编辑标签：返回 current 中去掉 removed、再加上 added 后的结果
+ */
+export function mergeAuthFileTags(current: string[], added: string[], removed: string[]): string[] {
+  const removedKeys = new Set(removed.map(getAuthFileTagKey));
+  return normalizeAuthFileTags([
+    ...current.filter((tag) => !removedKeys.has(getAuthFileTagKey(tag))),
+    ...added
+  ]);
+}
+
+/**
+ * 为多个文件添加 / 移除标签；新增标签沿用已有标签的写法，避免同一凭证池出现多种大小写
+ */
+export function updateAuthFilePoolTags(
+  assignments: AuthFilePoolAssignments,
+  names: string[],
+  added: string[],
+  removed: string[]
+): AuthFilePoolAssignments {
+  const existing = new Map(
+    listAuthFileTags(assignments).map((tag): [string, string] => [getAuthFileTagKey(tag), tag])
+  );
+  const canonical = added.map((tag) => existing.get(getAuthFileTagKey(tag)) ?? tag);
+  const next = { ...assignments };
+  names.forEach((name) => {
+    const tags = mergeAuthFileTags(next[name] ?? [], canonical, removed);
+    if (tags.length > 0) {
+      next[name] = tags;
+    } else {
+      delete next[name];
+    }
+  });
+  return next;
+}
+
+/**
+ * 解散凭证池：从所有文件移除该标签（忽略大小写）
+ */
+export function removeAuthFilePoolTag(
+  assignments: AuthFilePoolAssignments,
+  tag: string
+): AuthFilePoolAssignments {
+  return updateAuthFilePoolTags(assignments, Object.keys(assignments), [], [tag]);
+}
+
+/**
+ * 移除已不存在的文件的标签，没有需要移除的条目时返回 null
+ */
+export function pruneAuthFilePoolAssignments(
+  assignments: AuthFilePoolAssignments,
+  existingNames: Iterable<string>
+): AuthFilePoolAssignments | null {
+  const existing = new Set(existingNames);
+  const stale = Object.keys(assignments).filter((name) => !existing.has(name));
+  if (stale.length === 0) return null;
+  const next = { ...assignments };
+  stale.forEach((name) => delete next[name]);
+  return next;
+}
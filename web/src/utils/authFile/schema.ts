@@ -0,0 +1,303 @@
+/**
+ * 认证文件结构定义与校验
+ * 按 AuthFileType 描述各类凭证 JSON 的常用字段，用于结构化编辑、敏感字段掩码与保存前校验
+ */
+
+import type { AuthFileItem } from '@/types';
+import { maskApiKey } from '@/utils/format';
+import { isValidEmail } from '@/utils/validation';
+
+export type AuthFileFieldKind =
+  | 'text'
+  | 'email'
+  | 'url'
+  | 'datetime'
+  | 'number'
+  | 'secret'
+  | 'projectId'
+  | 'object';
+
+export interface AuthFileFieldSchema {
+  /** 字段路径，嵌套字段用点号分隔，如 token.access_token */
+  path: string;
+  kind: AuthFileFieldKind;
+  required?: boolean;
+}
+
+export interface AuthFileSchema {
+  type: string;
+  fields: AuthFileFieldSchema[];
+}
+
+export type AuthFileIssueCode =
+  | 'required'
+  | 'invalid_text'
+  | 'invalid_email'
+  | 'invalid_url'
+  | 'invalid_datetime'
+  | 'invalid_number'
+  | 'invalid_project_id'
+  | 'expected_object';
+
+export interface AuthFileIssue {
+  path: string;
+  code: AuthFileIssueCode;
+}
+
+export type AuthFileJson = Record<string, unknown>;
+
+export type AuthFileParseResult =
+  | { ok: true; json: AuthFileJson }
+  | { ok: false; error: 'invalid_json' | 'not_object' };
+
+const COMMON_LEADING_FIELDS: AuthFileFieldSchema[] = [
+  { path: 'type', kind: 'text' },
+  { path: 'email', kind: 'email' }
+];
+
+const COMMON_TRAILING_FIELDS: AuthFileFieldSchema[] = [
+  { path: 'prefix', kind: 'text' },
+  { path: 'proxy_url', kind: 'url' }
+];
+
+const TYPE_FIELDS: Record<string, AuthFileFieldSchema[]> = {
+  codex: [
+    { path: 'account_id', kind: 'text' },
+    { path: 'id_token', kind: 'secret', required: true },
+    { path: 'access_token', kind: 'secret', required: true },
+    { path: 'refresh_token', kind: 'secret' },
+    { path: 'last_refresh', kind: 'datetime' },
+    { path: 'expired', kind: 'datetime' }
+  ],
+  claude: [
+    { path: 'id_token', kind: 'secret' },
+    { path: 'access_token', kind: 'secret', required: true },
+    { path: 'refresh_token', kind: 'secret' },
+    { path: 'last_refresh', kind: 'datetime' },
+    { path: 'expired', kind: 'datetime' }
+  ],
+  'gemini-cli': [
+    { path: 'project_id', kind: 'projectId', required: true },
+    { path: 'token', kind: 'object', required: true },
+    { path: 'token.access_token', kind: 'secret' },
+    { path: 'token.refresh_token', kind: 'secret', required: true },
+    { path: 'token.client_secret', kind: 'secret' },
+    { path: 'token.expiry', kind: 'datetime' }
+  ],
+  antigravity: [
+    { path: 'project_id', kind: 'projectId' },
+    { path: 'access_token', kind: 'secret', required: true },
+    { path: 'refresh_token', kind: 'secret' },
+    { path: 'expires_in', kind: 'number' },
+    { path: 'timestamp', kind: 'number' },
+    { path: 'expired', kind: 'datetime' }
+  ],
+  qwen: [
+    { path: 'access_token', kind: 'secret', required: true },
+    { path: 'refresh_token', kind: 'secret' },
+    { path: 'resource_url', kind: 'text' },
+    { path: 'last_refresh', kind: 'datetime' },
+    { path: 'expired', kind: 'datetime' }
+  ],
+  iflow: [
+    { path: 'api_key', kind: 'secret', required: true },
+    { path: 'access_token', kind: 'secret' },
+    { path: 'refresh_token', kind: 'secret' },
+    { path: 'last_refresh', kind: 'datetime' },
+    { path: 'expired', kind: 'datetime' }
+  ],
+  vertex: [
+    { path: 'project_id', kind: 'projectId', required: true },
+    { path: 'location', kind: 'text' },
+    { path: 'service_account', kind: 'object', required: true },
+    { path: 'service_account.client_email', kind: 'email', required: true },
+    { path: 'service_account.private_key', kind: 'secret', required: true }
+  ]
+};
+
+// 列表中的类型名与结构定义不一致时的映射：文件列表中 gemini 即 gemini-cli 凭证
+const TYPE_ALIASES: Record<string, string> = {
+  gemini: 'gemini-cli'
+};
+
+const resolveSchemaType = (type: string | null | undefined) => {
+  const key = String(type ?? '').trim().toLowerCase();
+  return TYPE_ALIASES[key] ?? key;
+};
+
+// 未在结构中声明的字段，名称命中以下模式时同样按敏感信息掩码
+const SECRET_FIELD_PATTERN = /(token|secret|password|cookie|private_key|api_key)$/i;
+
+// GCP 项目 ID：6-30 位小写字母、数字或连字符，以字母开头；兼容 domain:project 旧格式
+const PROJECT_ID_PATTERN = /^([a-z0-9.-]+:)?[a-z][a-z0-9-]{4,28}[a-z0-9]$/;
+
+const PROXY_URL_PROTOCOLS = ['http:', 'https:', 'socks5:', 'socks5h:'];
+
+/**
+ * 获取认证类型对应的结构，未知类型仅包含通用字段
+ */
+export function getAuthFileSchema(type: string | null | undefined): AuthFileSchema {
+  const key = resolveSchemaType(type);
+  return {
+    type: key,
+    fields: [...COMMON_LEADING_FIELDS, ...(TYPE_FIELDS[key] ?? []), ...COMMON_TRAILING_FIELDS]
+  };
+}
+
+export function hasAuthFileSchema(type: string | null | undefined): boolean {
+  return resolveSchemaType(type) in TYPE_FIELDS;
+}
+
+/**
+ * 仅存在于运行时的凭证没有对应文件，无法下载、编辑或备份
+ */
+export function isRuntimeOnlyAuthFile(file: AuthFileItem): boolean {
+  const raw = file['runtime_only'] ?? file.runtimeOnly;
+  if (typeof raw === 'boolean') return raw;
+  if (typeof raw === 'string') return raw.trim().toLowerCase() === 'true';
+  return false;
+}
+
+/**
+ * 解析认证文件文本，仅接受 JSON 对象
+ */
+export function parseAuthFileText(text: string): AuthFileParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.trim());
+  } catch {
+    return { ok: false, error: 'invalid_json' };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { ok: false, error: 'not_object' };
+  }
+  return { ok: true, json: parsed as AuthFileJson };
+}
+
+export function getAuthFileValue(json: AuthFileJson, path: string): unknown {
+  return path.split('.').reduce<unknown>((current, key) => {
+    if (!current || typeof current !== 'object' || Array.isArray(current)) return undefined;
+    return (current as Record<string, unknown>)[key];
+  }, json);
+}
+
+/**
+ * 不可变地设置字段值，value 为 undefined 时删除该字段
+ */
+export function setAuthFileValue(json: AuthFileJson, path: string, value: unknown): AuthFileJson {
+  const [key, ...rest] = path.split('.');
+  const next: AuthFileJson = { ...json };
+  if (rest.length === 0) {
+    if (value === undefined) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    return next;
+  }
+  const child = next[key];
+  const childObject =
+    child && typeof child === 'object' && !Array.isArray(child) ? (child as AuthFileJson) : {};
+  next[key] = setAuthFileValue(childObject, rest.join('.'), value);
+  return next;
+}
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const isValidProjectIdValue = (value: string) =>
+  value
+    .split(',')
+    .map((part) => part.trim())
+    .every((part) => PROJECT_ID_PATTERN.test(part));
+
+const isValidProxyUrl = (value: string) => {
+  try {
+    return PROXY_URL_PROTOCOLS.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const validateFieldValue = (field: AuthFileFieldSchema, value: unknown): AuthFileIssueCode | null => {
+  switch (field.kind) {
+    case 'object':
+      return value && typeof value === 'object' && !Array.isArray(value) ? null : 'expected_object';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'invalid_number';
+    case 'datetime':
+      if (typeof value === 'number' && Number.isFinite(value)) return null;
+      return typeof value === 'string' && Number.isFinite(Date.parse(value))
+        ? null
+        : 'invalid_datetime';
+    default:
+      break;
+  }
+
+  if (typeof value !== 'string') return 'invalid_text';
+  const trimmed = value.trim();
+  if (field.kind === 'email') return isValidEmail(trimmed) ? null : 'invalid_email';
+  if (field.kind === 'url') return isValidProxyUrl(trimmed) ? null : 'invalid_url';
+  if (field.kind === 'projectId') {
+    return isValidProjectIdValue(trimmed) ? null : 'invalid_project_id';
+  }
+  return null;
+};
+
+/**
+ * 按结构校验认证文件，返回全部问题；空字段仅在必填时报告
+ */
+export function validateAuthFile(json: AuthFileJson, schema: AuthFileSchema): AuthFileIssue[] {
+  const issues: AuthFileIssue[] = [];
+  schema.fields.forEach((field) => {
+    const value = getAuthFileValue(json, field.path);
+    if (isBlank(value)) {
+      if (field.required) issues.push({ path: field.path, code: 'required' });
+      return;
+    }
+    const code = validateFieldValue(field, value);
+    if (code) issues.push({ path: field.path, code });
+  });
+  return issues;
+}
+
+/**
+ * 区分本次编辑引入的问题与文件原有的问题：只有改动过的字段上的问题阻止保存，其余仅作提示
+ */
+export function splitAuthFileIssues(
+  issues: AuthFileIssue[],
+  original: AuthFileJson,
+  draft: AuthFileJson
+): { blocking: AuthFileIssue[]; warnings: AuthFileIssue[] } {
+  const blocking: AuthFileIssue[] = [];
+  const warnings: AuthFileIssue[] = [];
+  issues.forEach((issue) => {
+    const changed =
+      JSON.stringify(getAuthFileValue(original, issue.path)) !==
+      JSON.stringify(getAuthFileValue(draft, issue.path));
+    (changed ? blocking : warnings).push(issue);
+  });
+  return { blocking, warnings };
+}
+
+export function isSecretAuthFileField(name: string, schema: AuthFileSchema): boolean {
+  if (SECRET_FIELD_PATTERN.test(name)) return true;
+  return schema.fields.some(
+    (field) => field.kind === 'secret' && field.path.split('.').pop() === name
+  );
+}
+
+/**
+ * 按行掩码格式化后的 JSON 文本中的敏感字符串值，保持行号不变以便与 diff 对齐
+ */
+export function maskAuthFileJsonLine(line: string, schema: AuthFileSchema): string {
+  const match = /^(\s*"([^"\\]+)":\s*)"((?:[^"\\]|\\.)*)"(,?)$/.exec(line);
+  if (!match) return line;
+  const [, head, name, value, comma] = match;
+  if (!value || !isSecretAuthFileField(name, schema)) return line;
+  return `${head}"${maskApiKey(value)}"${comma}`;
+}
+
+export function formatAuthFileJson(json: AuthFileJson): string {
+  return JSON.stringify(json, null, 2);
+}
@@ -0,0 +1,129 @@
+/**
+ * config.yaml 中管理中心自有条目的读写
+ * 条目以单引号包裹的 JSON 字符串保存在顶层键下（如 `model-prices: '{...}'`）：
+ * 服务端重写配置时会保留未知顶层键与标量的引号风格，前端无需完整的 YAML 解析器。
+ * 读取时也兼容手工编辑的两级块映射。
+ */
+
+import { escapeRegExp } from './helpers';
+
+const topLevelKeyPattern = (key: string) => new RegExp(`^${escapeRegExp(key)}:[ \\t]*(.*)$`);
+
+// 定位条目所占的行（含缩进的续行），不存在时返回 null
+const findEntryLines = (lines: string[], pattern: RegExp): { start: number; end: number } | null => {
+  const start = lines.findIndex((line) => pattern.test(line));
+  if (start < 0) return null;
+  let end = start + 1;
+  while (end < lines.length && (lines[end].trim() === '' || /^\s/.test(lines[end]))) {
+    end++;
+  }
+  // 尾部空行不属于该条目
+  while (end > start + 1 && lines[end - 1].trim() === '') {
+    end--;
+  }
+  return { start, end };
+};
+
+const unquoteYamlScalar = (value: string) => {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && trimmed[0] === "'" && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  if (trimmed.length >= 2 && trimmed[0] === '"' && trimmed.endsWith('"')) {
+    return JSON.parse(trimmed) as string;
+  }
+  return trimmed;
+};
+
+// 解析手工编辑的两级块映射：name: { field: value }
+const parseBlockMapping = (lines: string[]): Record<string, Record<string, string>> => {
+  const result: Record<string, Record<string, string>> = {};
+  let itemIndent = -1;
+  let currentItem = '';
+  lines.forEach((line) => {
+    const content = line.replace(/\s+#.*$/, '');
+    if (!content.trim() || content.trim().startsWith('#')) return;
+    const indent = content.length - content.trimStart().length;
+    const match = content.trim().match(/^((?:'[^']*(?:''[^']*)*')|(?:"(?:[^"\\]|\\.)*")|[^:]+?):\s*(.*)$/);
+    if (!match) return;
+    if (itemIndent < 0 || indent <= itemIndent) {
+      itemIndent = indent;
+      currentItem = unquoteYamlScalar(match[1]);
+      result[currentItem] = {};
+      return;
+    }
+    if (currentItem) {
+      result[currentItem][unquoteYamlScalar(match[1])] = unquoteYamlScalar(match[2]);
+    }
+  });
+  return result;
+};
+
+// 读取单行或折行的引号标量（yaml 折行时换行等价于空格）
+const readQuotedScalar = (text: string): string | null => {
+  const quote = text[0];
+  const folded = text
+    .split('\n')
+    .map((line, index) => (index === 0 ? line.trimEnd() : line.trim()))
+    .join(' ');
+  if (quote === "'") {
+    const match = folded.match(/^'((?:[^']|'')*)'/);
+    return match ? match[1].replace(/''/g, "'") : null;
+  }
+  const match = folded.match(/^"((?:[^"\\]|\\.)*)"/);
+  return match ? (JSON.parse(`"${match[1]}"`) as string) : null;
+};
+
+/**
+ * 读取顶层键保存的 JSON 值；键不存在或内容无法解析时返回 null
+ */
+export function readConfigJsonEntry(yaml: string, key: string): unknown {
+  const pattern = topLevelKeyPattern(key);
+  const lines = yaml.split(/\r?\n/);
+  const entry = findEntryLines(lines, pattern);
+  if (!entry) return null;
+
+  const inlineValue = lines[entry.start].match(pattern)?.[1].trim() ?? '';
+  const continuation = lines.slice(entry.start + 1, entry.end);
+
+  if (!inlineValue || inlineValue.startsWith('#')) {
+    return parseBlockMapping(continuation);
+  }
+  if (inlineValue === '{}' || inlineValue === 'null' || inlineValue === '~') {
+    return {};
+  }
+
+  const scalar =
+    inlineValue.startsWith("'") || inlineValue.startsWith('"')
+      ? readQuotedScalar([inlineValue, ...continuation].join('\n'))
+      : inlineValue;
+  if (scalar === null) return null;
+  try {
+    return JSON.parse(scalar);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 将 JSON 值写入顶层键（替换已有条目或追加到文件末尾），value 为 null 时移除该条目；
+ * 其余内容保持不变
+ */
+export function upsertConfigJsonEntry(yaml: string, key: string, value: unknown): string {
+  const newline = yaml.includes('\r\n') ? '\r\n' : '\n';
+  const lines = yaml.split(/\r?\n/);
+  const entry = findEntryLines(lines, topLevelKeyPattern(key));
+  const replacement =
+    value === null || value === undefined ? [] : [`${key}: '${JSON.stringify(value).replace(/'/g, "''")}'`];
+
+  if (entry) {
+    lines.splice(entry.start, entry.end - entry.start, ...replacement);
+    return lines.join(newline);
+  }
+  if (replacement.length === 0) return yaml;
+
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+    lines.pop();
+  }
+  return [...lines, ...replacement, ''].join(newline);
+}
@@ -19,6 +19,10 @@ export const LOG_REFRESH_DELAY_MS = 500;
 export const MAX_LOG_LINES = 2000;
 export const LOG_FETCH_LIMIT = 2500;
 export const LOGS_TIMEOUT_MS = 60 * 1000;
+export const LOGS_POLL_INTERVAL_MS = 8000;
+export const LOGS_STREAM_RECONNECT_BASE_MS = 1000;
+export const LOGS_STREAM_RECONNECT_MAX_MS = 30 * 1000;
+export const LOGS_STREAM_MAX_RETRIES = 5;
 
 // 认证文件分页
 export const DEFAULT_AUTH_FILES_PAGE_SIZE = 20;
@@ -32,6 +36,9 @@ export const STORAGE_KEY_THEME = 'cli-proxy-theme';
 export const STORAGE_KEY_LANGUAGE = 'cli-proxy-language';
 export const STORAGE_KEY_SIDEBAR = 'cli-proxy-sidebar-collapsed';
 export const STORAGE_KEY_AUTH_FILES_PAGE_SIZE = 'cli-proxy-auth-files-page-size';
+export const STORAGE_KEY_LOGS_TRANSPORT = 'cli-proxy-logs-transport';
+export const STORAGE_KEY_LOGS_SAVED_QUERIES = 'cli-proxy-logs-saved-queries';
+export const STORAGE_KEY_QUOTA_SCHEDULER = 'cli-proxy-quota-scheduler';
 
 // 通知持续时间
 export const NOTIFICATION_DURATION_MS = 3000;
@@ -42,7 +49,9 @@ export const OAUTH_CARD_IDS = [
   'anthropic-oauth-card',
   'antigravity-oauth-card',
   'gemini-cli-oauth-card',
-  'qwen-oauth-card'
+  'qwen-oauth-card',
+  'iflow-oauth-card',
+  'vertex-oauth-card'
 ];
 export const OAUTH_PROVIDERS = {
   CODEX: 'codex',
@@ -99,3 +99,95 @@ export function decryptData(payload: string): string {
 export function isEncrypted(value: string): boolean {
   return value?.startsWith(ENC_PREFIX) || false;
 }
+
+export interface PassphraseEncryptedPayload {
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  cipher: 'AES-GCM';
+  /** Base64 编码的盐、IV 与密文 */
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+const PASSPHRASE_KDF_ITERATIONS = 600_000;
+// 解密时接受的迭代次数范围：迭代次数来自外部文件，过大会长时间阻塞页面
+const MIN_PASSPHRASE_KDF_ITERATIONS = 100_000;
+const MAX_PASSPHRASE_KDF_ITERATIONS = 5_000_000;
+
+/**
+ * 校验加密数据中的 PBKDF2 迭代次数
+ */
+export function isValidPassphraseKdfIterations(value: unknown): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= MIN_PASSPHRASE_KDF_ITERATIONS &&
+    value <= MAX_PASSPHRASE_KDF_ITERATIONS
+  );
+}
+
+async function derivePassphraseKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    encodeText(passphrase) as BufferSource,
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * 使用口令加密二进制数据（PBKDF2 派生 AES-256-GCM 密钥，基于 WebCrypto）
+ */
+export async function encryptWithPassphrase(
+  data: Uint8Array,
+  passphrase: string
+): Promise<PassphraseEncryptedPayload> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await derivePassphraseKey(passphrase, salt, PASSPHRASE_KDF_ITERATIONS);
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv as BufferSource },
+    key,
+    data as BufferSource
+  );
+  return {
+    kdf: 'PBKDF2-SHA256',
+    iterations: PASSPHRASE_KDF_ITERATIONS,
+    cipher: 'AES-GCM',
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(encrypted))
+  };
+}
+
+/**
+ * 使用口令解密；口令错误或数据被篡改时 AES-GCM 校验失败并抛出异常
+ */
+export async function decryptWithPassphrase(
+  payload: PassphraseEncryptedPayload,
+  passphrase: string
+): Promise<Uint8Array> {
+  if (!isValidPassphraseKdfIterations(payload.iterations)) {
+    throw new Error('Unsupported PBKDF2 iteration count');
+  }
+  const key = await derivePassphraseKey(passphrase, fromBase64(payload.salt), payload.iterations);
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) as BufferSource },
+    key,
+    fromBase64(payload.data) as BufferSource
+  );
+  return new Uint8Array(decrypted);
+}
@@ -54,6 +54,35 @@ export function escapeHtml(text: string): string {
   return div.innerHTML;
 }
 
+/**
+ * 转义正则表达式中的特殊字符
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// 以这些字符开头的单元格会被 Excel 等表格软件当作公式执行
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * CSV 单元格转义：字符串以公式字符开头时加单引号前缀，防止 CSV 注入
+ */
+export function escapeCsvValue(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && CSV_FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 去掉 escapeCsvValue 添加的公式防护前缀（用于导入自己导出的 CSV）
+ */
+export function stripCsvFormulaGuard(text: string): string {
+  return text.startsWith("'") && CSV_FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+}
+
 /**
  * 生成唯一 ID
  */
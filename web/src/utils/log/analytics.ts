@@ -0,0 +1,169 @@
+/**
+ * 日志统计：基于已解析的日志行计算状态码分布、路径延迟分位数、每分钟请求数、
+ * 高频客户端 IP 与错误消息
+ */
+
+import { parseDurationMs } from './parser';
+import type { ParsedLogLine } from './parser';
+import { parseLogTimestampMs } from './timeline';
+
+export interface LogCountEntry {
+  key: string;
+  count: number;
+}
+
+export interface LogPathLatency {
+  path: string;
+  count: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface LogAnalytics {
+  /** 带状态码的请求总数 */
+  totalRequests: number;
+  /** 状态码 >= 400 的请求数 */
+  errorRequests: number;
+  statusCounts: LogCountEntry[];
+  latencyByPath: LogPathLatency[];
+  /** 以 "YYYY-MM-DD HH:mm" 为键，连续的分钟桶 */
+  requestsPerMinute: LogCountEntry[];
+  topIps: LogCountEntry[];
+  topErrors: LogCountEntry[];
+}
+
+export interface LogAnalyticsOptions {
+  topN?: number;
+  maxMinutes?: number;
+}
+
+const DEFAULT_TOP_N = 10;
+const DEFAULT_MAX_MINUTES = 120;
+const MAX_ERROR_MESSAGE_LENGTH = 120;
+const MINUTE_MS = 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatMinuteKey = (ms: number) => {
+  const date = new Date(ms);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * 最近秩法计算分位数，values 需已升序排列
+ */
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+};
+
+const increment = (map: Map<string, number>, key: string) => {
+  map.set(key, (map.get(key) ?? 0) + 1);
+};
+
+const topEntries = (map: Map<string, number>, limit: number): LogCountEntry[] =>
+  Array.from(map, ([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+    .slice(0, limit);
+
+const isErrorLine = (line: ParsedLogLine) =>
+  line.level === 'error' ||
+  line.level === 'fatal' ||
+  (typeof line.statusCode === 'number' && line.statusCode >= 500);
+
+const normalizeErrorMessage = (message: string) => {
+  const trimmed = message.trim().replace(/\s+/g, ' ');
+  return trimmed.length > MAX_ERROR_MESSAGE_LENGTH
+    ? trimmed.slice(0, MAX_ERROR_MESSAGE_LENGTH)
+    : trimmed;
+};
+
+export const computeLogAnalytics = (
+  lines: ParsedLogLine[],
+  options: LogAnalyticsOptions = {}
+): LogAnalytics => {
+  const topN = options.topN ?? DEFAULT_TOP_N;
+  const maxMinutes = options.maxMinutes ?? DEFAULT_MAX_MINUTES;
+
+  const statusMap = new Map<string, number>();
+  const latencyMap = new Map<string, number[]>();
+  const minuteMap = new Map<number, number>();
+  const ipMap = new Map<string, number>();
+  const errorMap = new Map<string, number>();
+  let totalRequests = 0;
+  let errorRequests = 0;
+
+  lines.forEach((line) => {
+    if (typeof line.statusCode === 'number') {
+      totalRequests += 1;
+      if (line.statusCode >= 400) errorRequests += 1;
+      increment(statusMap, String(line.statusCode));
+
+      const ts = parseLogTimestampMs(line.timestamp);
+      if (ts !== undefined) {
+        const minute = Math.floor(ts / MINUTE_MS) * MINUTE_MS;
+        minuteMap.set(minute, (minuteMap.get(minute) ?? 0) + 1);
+      }
+    }
+
+    const path = line.path?.replace(/^"|"$/g, '');
+    const latencyMs = parseDurationMs(line.latency);
+    if (path && latencyMs !== undefined) {
+      const bucket = latencyMap.get(path);
+      if (bucket) {
+        bucket.push(latencyMs);
+      } else {
+        latencyMap.set(path, [latencyMs]);
+      }
+    }
+
+    if (line.ip) increment(ipMap, line.ip);
+
+    if (isErrorLine(line)) {
+      const message = normalizeErrorMessage(line.message);
+      if (message) increment(errorMap, message);
+    }
+  });
+
+  const statusCounts = Array.from(statusMap, ([key, count]) => ({ key, count })).sort(
+    (a, b) => Number(a.key) - Number(b.key)
+  );
+
+  const latencyByPath = Array.from(latencyMap, ([path, values]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+      path,
+      count: sorted.length,
+      p50: percentile(sorted, 50),
+      p95: percentile(sorted, 95),
+      p99: percentile(sorted, 99),
+    };
+  })
+    .sort((a, b) => b.count - a.count || a.path.localeCompare(b.path))
+    .slice(0, topN);
+
+  // 补齐中间没有请求的分钟，只保留最近 maxMinutes 分钟
+  const requestsPerMinute: LogCountEntry[] = [];
+  if (minuteMap.size > 0) {
+    const minutes = Array.from(minuteMap.keys());
+    const end = Math.max(...minutes);
+    const start = Math.max(Math.min(...minutes), end - (maxMinutes - 1) * MINUTE_MS);
+    for (let minute = start; minute <= end; minute += MINUTE_MS) {
+      requestsPerMinute.push({ key: formatMinuteKey(minute), count: minuteMap.get(minute) ?? 0 });
+    }
+  }
+
+  return {
+    totalRequests,
+    errorRequests,
+    statusCounts,
+    latencyByPath,
+    requestsPerMinute,
+    topIps: topEntries(ipMap, topN),
+    topErrors: topEntries(errorMap, topN),
+  };
+};
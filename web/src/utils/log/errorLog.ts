@@ -0,0 +1,173 @@
+/**
+ * 请求错误日志（/request-error-logs）的筛选、排序与内容摘要
+ */
+
+import type { ErrorLogFile } from '@/services/api/logs';
+import { parseRequestLog } from './requestLog';
+import type { RequestLogSection, RequestLogSectionKind } from './requestLog';
+
+export type ErrorLogSortKey = 'modified-desc' | 'modified-asc' | 'size-desc' | 'size-asc' | 'name';
+
+export interface ErrorLogFilter {
+  name: string;
+  /** YYYY-MM-DD，包含当天 */
+  from?: string;
+  to?: string;
+}
+
+export interface ErrorLogSummary {
+  provider?: string;
+  status?: number;
+}
+
+export interface ErrorLogGroup {
+  key: string;
+  provider?: string;
+  status?: number;
+  files: ErrorLogFile[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 上游地址与提供商的对应关系，auth 信息中没有 provider 字段时使用
+const PROVIDER_HOSTS: [RegExp, string][] = [
+  [/anthropic\.com/i, 'claude'],
+  [/generativelanguage\.googleapis\.com|aiplatform\.googleapis\.com/i, 'gemini'],
+  [/cloudcode-pa\.googleapis\.com/i, 'gemini-cli'],
+  [/chatgpt\.com|openai\.com/i, 'codex'],
+  [/dashscope|qwen/i, 'qwen'],
+  [/iflow/i, 'iflow'],
+  [/openrouter\.ai/i, 'openrouter'],
+];
+
+/**
+ * 文件修改时间（毫秒），兼容秒与毫秒两种单位
+ */
+export const getErrorLogModifiedMs = (file: ErrorLogFile): number | undefined => {
+  if (typeof file.modified !== 'number' || !Number.isFinite(file.modified)) return undefined;
+  return file.modified < 1e11 ? file.modified * 1000 : file.modified;
+};
+
+const parseDateInput = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  if (!year || !month || !day) return undefined;
+  return new Date(year, month - 1, day).getTime();
+};
+
+export const filterErrorLogs = (files: ErrorLogFile[], filter: ErrorLogFilter): ErrorLogFile[] => {
+  const keyword = filter.name.trim().toLowerCase();
+  const fromMs = parseDateInput(filter.from);
+  const toMs = parseDateInput(filter.to);
+
+  return files.filter((file) => {
+    if (keyword && !file.name.toLowerCase().includes(keyword)) return false;
+    if (fromMs === undefined && toMs === undefined) return true;
+    const modifiedMs = getErrorLogModifiedMs(file);
+    if (modifiedMs === undefined) return false;
+    if (fromMs !== undefined && modifiedMs < fromMs) return false;
+    if (toMs !== undefined && modifiedMs >= toMs + DAY_MS) return false;
+    return true;
+  });
+};
+
+export const sortErrorLogs = (files: ErrorLogFile[], sortKey: ErrorLogSortKey): ErrorLogFile[] => {
+  const sorted = [...files];
+  const byModified = (a: ErrorLogFile, b: ErrorLogFile) =>
+    (getErrorLogModifiedMs(a) ?? 0) - (getErrorLogModifiedMs(b) ?? 0);
+  const bySize = (a: ErrorLogFile, b: ErrorLogFile) => (a.size ?? 0) - (b.size ?? 0);
+
+  switch (sortKey) {
+    case 'modified-asc':
+      return sorted.sort(byModified);
+    case 'size-desc':
+      return sorted.sort((a, b) => bySize(b, a));
+    case 'size-asc':
+      return sorted.sort(bySize);
+    case 'name':
+      return sorted.sort((a, b) => a.name.localeCompare(b.name));
+    default:
+      return sorted.sort((a, b) => byModified(b, a));
+  }
+};
+
+const lastMatch = (text: string, pattern: RegExp): RegExpExecArray | null => {
+  const regex = new RegExp(
+    pattern.source,
+    pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`
+  );
+  let result: RegExpExecArray | null = null;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    result = match;
+  }
+  return result;
+};
+
+const STATUS_HEADER_REGEX = /^status(?:[ _-]?code)?$/i;
+
+const findSectionStatus = (sections: RequestLogSection[], kind: RequestLogSectionKind) => {
+  for (let index = sections.length - 1; index >= 0; index -= 1) {
+    const section = sections[index];
+    if (section.kind !== kind) continue;
+    const header = section.headers.find(([name]) => STATUS_HEADER_REGEX.test(name));
+    const status = header ? Number.parseInt(header[1], 10) : NaN;
+    if (status >= 100 && status <= 599) return status;
+  }
+  return undefined;
+};
+
+/**
+ * 从错误日志内容中提取上游提供商与 HTTP 状态码：
+ * 状态码优先取最后一次上游响应（重试时以最后一次为准），其次取返回给客户端的响应，
+ * 提供商优先取 auth 信息中的 provider，其次根据上游地址推断
+ */
+export const summarizeErrorLog = (text: string): ErrorLogSummary => {
+  const { sections } = parseRequestLog(text);
+  let status =
+    findSectionStatus(sections, 'upstreamResponse') ?? findSectionStatus(sections, 'response');
+  if (status === undefined) {
+    const statusMatch =
+      lastMatch(text, /^\s*Status(?:[ _-]?Code)?:\s*(\d{3})\b/im) ??
+      lastMatch(text, /\bHTTP\/\d(?:\.\d)?\s+(\d{3})\b/);
+    status = statusMatch ? Number(statusMatch[1]) : undefined;
+  }
+
+  const providerMatch = text.match(/\bprovider[=:]\s*"?([\w.-]+)/i);
+  let provider = providerMatch?.[1]?.toLowerCase();
+  if (!provider) {
+    const urlMatch = text.match(/^\s*(?:Upstream\s+)?URL:\s*(https?:\/\/\S+)/im);
+    const host = urlMatch?.[1];
+    provider = host ? PROVIDER_HOSTS.find(([pattern]) => pattern.test(host))?.[1] : undefined;
+  }
+
+  return { provider, status };
+};
+
+/**
+ * 按提供商 + 状态码分组，未解析出的字段归入 "unknown"；组按文件数降序排列
+ */
+export const groupErrorLogs = (
+  files: ErrorLogFile[],
+  summaries: Record<string, ErrorLogSummary | undefined>
+): ErrorLogGroup[] => {
+  const groups = new Map<string, ErrorLogGroup>();
+  files.forEach((file) => {
+    const summary = summaries[file.name] ?? {};
+    const key = `${summary.provider ?? 'unknown'}|${summary.status ?? 'unknown'}`;
+    const group = groups.get(key);
+    if (group) {
+      group.files.push(file);
+    } else {
+      groups.set(key, {
+        key,
+        provider: summary.provider,
+        status: summary.status,
+        files: [file],
+      });
+    }
+  });
+  return Array.from(groups.values()).sort(
+    (a, b) => b.files.length - a.files.length || a.key.localeCompare(b.key)
+  );
+};
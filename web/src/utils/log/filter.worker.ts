@@ -0,0 +1,18 @@
+/**
+ * 日志筛选 Worker：在后台线程解析与筛选日志，避免大量日志阻塞页面
+ */
+
+import { createLogFilterEngine } from './filterEngine';
+import type { LogFilterRequest } from './filterEngine';
+
+const engine = createLogFilterEngine();
+
+self.onmessage = (event: MessageEvent<LogFilterRequest>) => {
+  const response = engine.handle(event.data);
+  if (!response) return;
+  if (response.type === 'filter') {
+    self.postMessage(response, { transfer: [response.indices.buffer] });
+  } else {
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,110 @@
+/**
+ * 日志筛选客户端：把缓冲区变更同步给筛选 Worker，并以 Promise 形式返回筛选 / 统计结果
+ * Worker 无法创建或运行出错时自动退回主线程筛选
+ */
+
+import type { LogAnalytics } from './analytics';
+import { createLogFilterEngine } from './filterEngine';
+import type { LogFilterEngine, LogFilterRequest, LogFilterResponse } from './filterEngine';
+import LogFilterWorker from './filter.worker?worker&inline';
+
+export interface LogFilterClient {
+  /** 用新的日志替换整个缓冲区 */
+  reset: (lines: string[]) => void;
+  /** 追加日志，超出 maxLines 时丢弃最旧的行（与页面缓冲区的裁剪规则保持一致） */
+  append: (lines: string[], maxLines: number) => void;
+  /** 返回匹配的日志行；exclude 为需要排除的行所包含的文本 */
+  filter: (query: string, exclude?: string) => Promise<string[]>;
+  analyze: (exclude?: string) => Promise<LogAnalytics>;
+  dispose: () => void;
+}
+
+type PendingRequest = {
+  resolve: (response: LogFilterResponse) => void;
+  reject: (error: Error) => void;
+};
+
+export const createLogFilterClient = (): LogFilterClient => {
+  let worker: Worker | null = null;
+  let fallback: LogFilterEngine | null = null;
+  let nextId = 1;
+  const pending = new Map<number, PendingRequest>();
+  // 保留一份缓冲区，Worker 出错时用于恢复主线程引擎的状态
+  let mirror: string[] = [];
+
+  const switchToFallback = () => {
+    worker?.terminate();
+    worker = null;
+    fallback = createLogFilterEngine();
+    fallback.handle({ type: 'reset', lines: mirror });
+  };
+
+  try {
+    worker = new LogFilterWorker({ name: 'log-filter' });
+    worker.onmessage = (event: MessageEvent<LogFilterResponse>) => {
+      const request = pending.get(event.data.id);
+      if (!request) return;
+      pending.delete(event.data.id);
+      request.resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      console.warn('Log filter worker failed, falling back to main thread:', event.message);
+      pending.forEach((request) => request.reject(new Error(event.message || 'worker error')));
+      pending.clear();
+      switchToFallback();
+    };
+  } catch (err) {
+    console.warn('Log filter worker unavailable, filtering on main thread:', err);
+    switchToFallback();
+  }
+
+  const post = (request: LogFilterRequest) => {
+    if (worker) {
+      worker.postMessage(request);
+    } else {
+      fallback?.handle(request);
+    }
+  };
+
+  const send = (request: LogFilterRequest & { id: number }): Promise<LogFilterResponse> => {
+    if (!worker) {
+      const response = fallback?.handle(request);
+      return response ? Promise.resolve(response) : Promise.reject(new Error('no response'));
+    }
+    return new Promise((resolve, reject) => {
+      pending.set(request.id, { resolve, reject });
+      worker?.postMessage(request);
+    });
+  };
+
+  return {
+    reset: (lines) => {
+      mirror = lines.slice();
+      post({ type: 'reset', lines });
+    },
+    append: (lines, maxLines) => {
+      const combined = mirror.concat(lines);
+      mirror = combined.length > maxLines ? combined.slice(-maxLines) : combined;
+      post({ type: 'append', lines, maxLines });
+    },
+    filter: async (query, exclude) => {
+      // Worker 按顺序处理消息，返回的下标对应发送请求时的缓冲区快照
+      const snapshot = mirror;
+      const response = await send({ type: 'filter', id: nextId++, query, exclude });
+      if (response.type !== 'filter') throw new Error('unexpected response');
+      return Array.from(response.indices, (index) => snapshot[index]);
+    },
+    analyze: async (exclude) => {
+      const response = await send({ type: 'analytics', id: nextId++, exclude });
+      if (response.type !== 'analytics') throw new Error('unexpected response');
+      return response.analytics;
+    },
+    dispose: () => {
+      worker?.terminate();
+      worker = null;
+      fallback = null;
+      pending.clear();
+      mirror = [];
+    },
+  };
+};
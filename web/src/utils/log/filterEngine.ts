@@ -0,0 +1,87 @@
+/**
+ * 日志筛选引擎
+ * 保存日志缓冲区及逐行解析缓存，处理筛选与统计请求；
+ * 通常运行在 Web Worker 中，Worker 不可用时在主线程直接使用
+ */
+
+import { computeLogAnalytics } from './analytics';
+import type { LogAnalytics } from './analytics';
+import { parseLogLine } from './parser';
+import type { ParsedLogLine } from './parser';
+import { matchesLogQuery, parseLogQuery } from './query';
+
+export type LogFilterRequest =
+  | { type: 'reset'; lines: string[] }
+  | { type: 'append'; lines: string[]; maxLines: number }
+  | { type: 'filter'; id: number; query: string; exclude?: string }
+  | { type: 'analytics'; id: number; exclude?: string };
+
+export type LogFilterResponse =
+  | { type: 'filter'; id: number; indices: Uint32Array }
+  | { type: 'analytics'; id: number; analytics: LogAnalytics };
+
+export interface LogFilterEngine {
+  handle: (request: LogFilterRequest) => LogFilterResponse | null;
+}
+
+export const createLogFilterEngine = (): LogFilterEngine => {
+  let lines: string[] = [];
+  // 与 lines 一一对应，首次用到时才解析
+  let parsed: (ParsedLogLine | undefined)[] = [];
+
+  const getParsed = (index: number): ParsedLogLine => {
+    let line = parsed[index];
+    if (!line) {
+      line = parseLogLine(lines[index]);
+      parsed[index] = line;
+    }
+    return line;
+  };
+
+  const isExcluded = (index: number, exclude?: string) =>
+    Boolean(exclude) && lines[index].includes(exclude as string);
+
+  const handle = (request: LogFilterRequest): LogFilterResponse | null => {
+    switch (request.type) {
+      case 'reset':
+        lines = request.lines.slice();
+        parsed = new Array(lines.length);
+        return null;
+
+      case 'append': {
+        lines = lines.concat(request.lines);
+        parsed.length = lines.length;
+        const dropCount = Math.max(lines.length - request.maxLines, 0);
+        if (dropCount > 0) {
+          lines = lines.slice(dropCount);
+          parsed = parsed.slice(dropCount);
+        }
+        return null;
+      }
+
+      case 'filter': {
+        const query = parseLogQuery(request.query);
+        const matched: number[] = [];
+        for (let index = 0; index < lines.length; index += 1) {
+          if (isExcluded(index, request.exclude)) continue;
+          if (query.clauses.length > 0 && !matchesLogQuery(getParsed(index), query)) continue;
+          matched.push(index);
+        }
+        return { type: 'filter', id: request.id, indices: Uint32Array.from(matched) };
+      }
+
+      case 'analytics': {
+        const included: ParsedLogLine[] = [];
+        for (let index = 0; index < lines.length; index += 1) {
+          if (!isExcluded(index, request.exclude)) included.push(getParsed(index));
+        }
+        return { type: 'analytics', id: request.id, analytics: computeLogAnalytics(included) };
+      }
+
+      default:
+        return null;
+    }
+  };
+
+  return { handle };
+};
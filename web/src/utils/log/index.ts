@@ -0,0 +1,12 @@
+/**
+ * 日志工具函数统一导出
+ */
+
+export * from './parser';
+export * from './query';
+export * from './timeline';
+export * from './requestLog';
+export * from './analytics';
+export * from './filterEngine';
+export * from './filterClient';
+export * from './errorLog';
@@ -0,0 +1,303 @@
+/**
+ * 日志结构化查询
+ * 语法示例：status:>=500 method:POST path:/v1/messages latency:>2s level:error -ip:127.0.0.1
+ * - 多个条件之间为 AND 关系，前缀 "-" 表示取反
+ * - 不带字段名的词按原始文本子串匹配，值中可用双引号包裹空格
+ */
+
+import { escapeRegExp } from '../helpers';
+import { HTTP_METHODS, LOG_LEVELS, parseDurationMs } from './parser';
+import type { LogLevel, ParsedLogLine } from './parser';
+
+export const LOG_QUERY_FIELDS = [
+  'status',
+  'method',
+  'path',
+  'latency',
+  'level',
+  'ip',
+  'id',
+  'source',
+  'msg',
+] as const;
+
+export type LogQueryField = (typeof LOG_QUERY_FIELDS)[number];
+
+export type LogQueryOperator = '=' | '>' | '>=' | '<' | '<=';
+
+export interface LogQueryClause {
+  field: LogQueryField | null;
+  operator: LogQueryOperator;
+  value: string;
+  negate: boolean;
+  /** 文本字段显式写出 "=" 时要求完全相等，否则按子串匹配 */
+  exact: boolean;
+}
+
+export interface LogQuery {
+  clauses: LogQueryClause[];
+  /** 需要在结果中高亮的关键词（仅包含非取反的文本类条件） */
+  highlightTerms: string[];
+}
+
+export interface LogQuerySuggestion {
+  token: string;
+  field: LogQueryField;
+  /** 是否为字段名补全（补全后继续输入值） */
+  isField: boolean;
+}
+
+const FIELD_ALIASES: Record<string, LogQueryField> = {
+  code: 'status',
+  requestid: 'id',
+  request_id: 'id',
+  message: 'msg',
+};
+
+const TEXT_FIELDS = new Set<LogQueryField>(['path', 'ip', 'id', 'source', 'msg']);
+
+const VALUE_SUGGESTIONS: Partial<Record<LogQueryField, readonly string[]>> = {
+  status: ['>=400', '>=500', '2xx', '3xx', '4xx', '5xx'],
+  method: HTTP_METHODS,
+  latency: ['>500ms', '>1s', '>2s', '>5s', '>30s'],
+  level: [...LOG_LEVELS, '>=warn'],
+};
+
+const OPERATOR_REGEX = /^(>=|<=|>|<|=)?(.*)$/;
+
+const resolveField = (name: string): LogQueryField | null => {
+  const lowered = name.toLowerCase();
+  if ((LOG_QUERY_FIELDS as readonly string[]).includes(lowered)) {
+    return lowered as LogQueryField;
+  }
+  return FIELD_ALIASES[lowered] ?? null;
+};
+
+const unquote = (value: string): string => {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1);
+  }
+  return value.replace(/"/g, '');
+};
+
+/**
+ * 按空白切分查询语句，双引号内的空白保留
+ */
+export const tokenizeLogQuery = (input: string): string[] => {
+  const tokens: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const ch of input) {
+    if (ch === '"') {
+      quoted = !quoted;
+      current += ch;
+      continue;
+    }
+    if (!quoted && /\s/.test(ch)) {
+      if (current) tokens.push(current);
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  if (current) tokens.push(current);
+
+  return tokens;
+};
+
+const parseClause = (token: string): LogQueryClause | null => {
+  let body = token;
+  let negate = false;
+  if (body.length > 1 && body.startsWith('-')) {
+    negate = true;
+    body = body.slice(1);
+  }
+
+  const colonIndex = body.indexOf(':');
+  if (colonIndex > 0) {
+    const field = resolveField(body.slice(0, colonIndex));
+    if (field) {
+      const match = body.slice(colonIndex + 1).match(OPERATOR_REGEX);
+      const operator = (match?.[1] as LogQueryOperator | undefined) ?? '=';
+      const value = unquote(match?.[2] ?? '').trim();
+      // 只有字段名没有值时（正在输入中）忽略该条件
+      if (!value) return null;
+      return { field, operator, value, negate, exact: match?.[1] === '=' };
+    }
+  }
+
+  const value = unquote(body).trim();
+  if (!value) return null;
+  return { field: null, operator: '=', value, negate, exact: false };
+};
+
+export const parseLogQuery = (input: string): LogQuery => {
+  const clauses = tokenizeLogQuery(input)
+    .map(parseClause)
+    .filter((clause): clause is LogQueryClause => clause !== null);
+
+  const highlightTerms = clauses
+    .filter((clause) => !clause.negate && (clause.field === null || TEXT_FIELDS.has(clause.field)))
+    .map((clause) => clause.value.replace(/\*/g, ''))
+    .filter(Boolean);
+
+  return { clauses, highlightTerms };
+};
+
+const compareNumber = (actual: number, operator: LogQueryOperator, expected: number): boolean => {
+  switch (operator) {
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+};
+
+// 文本字段：默认子串匹配，支持 * 通配
+const matchText = (actual: string | undefined, expected: string, exact: boolean): boolean => {
+  if (!actual) return false;
+  const lowered = actual.toLowerCase();
+  const target = expected.toLowerCase();
+
+  if (target.includes('*')) {
+    const pattern = target.split('*').map(escapeRegExp).join('.*');
+    return new RegExp(exact ? `^${pattern}$` : pattern).test(lowered);
+  }
+  return exact ? lowered === target : lowered.includes(target);
+};
+
+const normalizeLevel = (value: string): LogLevel | undefined => {
+  const lowered = value.toLowerCase();
+  const normalized = lowered === 'warning' ? 'warn' : lowered;
+  return (LOG_LEVELS as readonly string[]).includes(normalized)
+    ? (normalized as LogLevel)
+    : undefined;
+};
+
+const matchClause = (line: ParsedLogLine, clause: LogQueryClause): boolean => {
+  const { field, operator, value, exact } = clause;
+
+  switch (field) {
+    case null:
+      return line.raw.toLowerCase().includes(value.toLowerCase());
+
+    case 'status': {
+      if (typeof line.statusCode !== 'number') return false;
+      const classMatch = value.match(/^([1-5])xx$/i);
+      if (classMatch) {
+        return Math.floor(line.statusCode / 100) === Number(classMatch[1]);
+      }
+      const expected = Number.parseInt(value, 10);
+      if (!Number.isFinite(expected)) return false;
+      return compareNumber(line.statusCode, operator, expected);
+    }
+
+    case 'latency': {
+      const actual = parseDurationMs(line.latency);
+      const expected = parseDurationMs(value);
+      if (actual === undefined || expected === undefined) return false;
+      return compareNumber(actual, operator, expected);
+    }
+
+    case 'level': {
+      const expected = normalizeLevel(value);
+      if (!line.level || !expected) return false;
+      return compareNumber(LOG_LEVELS.indexOf(line.level), operator, LOG_LEVELS.indexOf(expected));
+    }
+
+    case 'method':
+      return line.method?.toLowerCase() === value.toLowerCase();
+
+    case 'path':
+      // gin 日志中的路径带有引号
+      return matchText(line.path?.replace(/^"|"$/g, ''), value, exact);
+    case 'ip':
+      return matchText(line.ip, value, exact);
+    case 'id':
+      return matchText(line.requestId, value, exact);
+    case 'source':
+      return matchText(line.source, value, exact);
+    case 'msg':
+      return matchText(line.message, value, exact);
+
+    default:
+      return false;
+  }
+};
+
+// 值中的双引号无法转义，替换为通配符；含空白时整体加引号
+const formatClauseValue = (value: string): string => {
+  const safe = value.replace(/"/g, '*');
+  return /\s/.test(safe) ? `"${safe}"` : safe;
+};
+
+/**
+ * 切换查询语句中的某个字段条件：已存在完全相同的条件则移除，
+ * 否则替换同字段的（非取反）条件并追加到末尾
+ */
+export const toggleLogQueryClause = (
+  input: string,
+  field: LogQueryField,
+  value: string,
+  exact = false
+): string => {
+  const token = `${field}:${exact ? '=' : ''}${formatClauseValue(value)}`;
+  const tokens = tokenizeLogQuery(input);
+  if (tokens.includes(token)) {
+    return tokens.filter((item) => item !== token).join(' ');
+  }
+  const rest = tokens.filter((item) => {
+    const clause = parseClause(item);
+    return !clause || clause.field !== field || clause.negate;
+  });
+  return [...rest, token].join(' ');
+};
+
+/**
+ * 判断一行解析后的日志是否满足查询条件
+ */
+export const matchesLogQuery = (line: ParsedLogLine, query: LogQuery): boolean =>
+  query.clauses.every((clause) => {
+    const matched = matchClause(line, clause);
+    return clause.negate ? !matched : matched;
+  });
+
+/**
+ * 根据当前正在输入的词给出补全建议：先补全字段名，再补全常用取值
+ */
+export const getLogQuerySuggestions = (token: string): LogQuerySuggestion[] => {
+  const negate = token.startsWith('-');
+  const body = negate ? token.slice(1) : token;
+  const prefix = negate ? '-' : '';
+  const colonIndex = body.indexOf(':');
+
+  if (colonIndex === -1) {
+    const lowered = body.toLowerCase();
+    return LOG_QUERY_FIELDS.filter((field) => field.startsWith(lowered) && field !== lowered).map(
+      (field) => ({ token: `${prefix}${field}:`, field, isField: true })
+    );
+  }
+
+  const field = resolveField(body.slice(0, colonIndex));
+  if (!field) return [];
+  const typed = body.slice(colonIndex + 1).toLowerCase();
+  const candidates = VALUE_SUGGESTIONS[field] ?? [];
+
+  return candidates
+    .filter((candidate) => {
+      const lowered = candidate.toLowerCase();
+      return lowered.startsWith(typed) && lowered !== typed;
+    })
+    .map((candidate) => ({
+      token: `${prefix}${body.slice(0, colonIndex)}:${candidate}`,
+      field,
+      isField: false,
+    }));
+};
@@ -0,0 +1,333 @@
+/**
+ * 请求日志（request-log-by-id / request-error-logs）解析
+ * 日志文件由 "=== SECTION ===" 形式的分隔行划分为多个段落，每段可包含请求头与正文
+ */
+
+import { maskUsageSensitiveValue } from '@/utils/usage';
+
+export type RequestLogSectionKind =
+  | 'info'
+  | 'requestHeaders'
+  | 'requestBody'
+  | 'upstreamRequest'
+  | 'upstreamResponse'
+  | 'response'
+  | 'other';
+
+export interface SseEvent {
+  event?: string;
+  data: string;
+  json?: unknown;
+}
+
+export interface RequestLogSection {
+  kind: RequestLogSectionKind;
+  title: string;
+  headers: [string, string][];
+  body: string;
+  /** 正文为 JSON 时的解析结果 */
+  json?: unknown;
+  /** 正文为 SSE 流时拆分出的事件 */
+  events?: SseEvent[];
+  /** 从 SSE 事件中拼接出的文本输出 */
+  assembledText?: string;
+}
+
+export interface RequestLogDocument {
+  sections: RequestLogSection[];
+}
+
+export interface JsonDiffEntry {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: string;
+  after?: string;
+}
+
+const SECTION_MARKER_REGEX = /^\s*={3,}\s*(.+?)\s*={3,}\s*$/;
+const HEADER_LINE_REGEX = /^([A-Za-z0-9][A-Za-z0-9_-]*):\s?(.*)$/;
+const SSE_FIELD_REGEX = /^(data|event|id|retry):\s?(.*)$/;
+const SENSITIVE_HEADER_REGEX =
+  /^(authorization|proxy-authorization|x-api-key|api-key|x-goog-api-key|cookie|set-cookie|x-management-key)$/i;
+const SENSITIVE_FIELD_REGEX =
+  /^(api[-_]?key|key|token|access[-_]?token|refresh[-_]?token|id[-_]?token|authorization|secret|client[-_]?secret|password)$/i;
+const KEY_LIKE_VALUE_REGEX = /^(sk-|AIza|hf_|pk_|rk_)/;
+
+const resolveSectionKind = (title: string): RequestLogSectionKind => {
+  const lowered = title.toLowerCase();
+  if (/upstream|api request|api response/.test(lowered)) {
+    return /response/.test(lowered) ? 'upstreamResponse' : 'upstreamRequest';
+  }
+  if (/info/.test(lowered)) return 'info';
+  if (/header/.test(lowered)) return 'requestHeaders';
+  if (/request body|^body$/.test(lowered)) return 'requestBody';
+  if (/response/.test(lowered)) return 'response';
+  return 'other';
+};
+
+// 逐行遮盖文本；单个词的行不交给 maskUsageSensitiveValue，避免整行被误判为密钥
+const maskBodyText = (text: string): string =>
+  text
+    .split('\n')
+    .map((line) => {
+      const trimmed = line.trim();
+      if (!/\s/.test(trimmed)) {
+        return KEY_LIKE_VALUE_REGEX.test(trimmed) ? maskUsageSensitiveValue(trimmed) : line;
+      }
+      return maskUsageSensitiveValue(line) || line;
+    })
+    .join('\n');
+
+/**
+ * 遮盖敏感请求头，Bearer 前缀保留以便识别认证方式
+ */
+export const maskHeaderValue = (name: string, value: string): string => {
+  if (!SENSITIVE_HEADER_REGEX.test(name.trim())) {
+    return maskBodyText(value);
+  }
+  const bearer = value.match(/^(bearer|basic)\s+(.+)$/i);
+  if (bearer) {
+    return `${bearer[1]} ${maskUsageSensitiveValue(bearer[2])}`;
+  }
+  return maskUsageSensitiveValue(value) || value;
+};
+
+export const formatJson = (value: unknown): string => {
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+};
+
+/**
+ * 遮盖 JSON 中的敏感字段；普通字段只遮盖形似密钥的值
+ */
+const maskJsonValue = (value: unknown, key?: string): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((item) => maskJsonValue(item, key));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([childKey, child]) => [
+        childKey,
+        maskJsonValue(child, childKey),
+      ])
+    );
+  }
+  if (typeof value === 'string') {
+    if ((key && SENSITIVE_FIELD_REGEX.test(key)) || KEY_LIKE_VALUE_REGEX.test(value)) {
+      return maskUsageSensitiveValue(value) || value;
+    }
+  }
+  return value;
+};
+
+const tryParseJson = (text: string): unknown => {
+  const trimmed = text.trim();
+  if (!trimmed || !/^[[{]/.test(trimmed)) return undefined;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+};
+
+const parseSseEvents = (text: string): SseEvent[] | undefined => {
+  const lines = text.split(/\r?\n/);
+  if (!lines.some((line) => line.startsWith('data:'))) return undefined;
+
+  const events: SseEvent[] = [];
+  let event: string | undefined;
+  let data: string[] = [];
+
+  const flush = () => {
+    if (data.length === 0) {
+      event = undefined;
+      return;
+    }
+    const joined = data.join('\n');
+    const json = tryParseJson(joined);
+    if (json === undefined) {
+      events.push({ event, data: maskBodyText(joined) });
+    } else {
+      const masked = maskJsonValue(json);
+      events.push({ event, data: JSON.stringify(masked), json: masked });
+    }
+    event = undefined;
+    data = [];
+  };
+
+  lines.forEach((line) => {
+    if (!line.trim()) {
+      flush();
+      return;
+    }
+    const match = line.match(SSE_FIELD_REGEX);
+    if (!match) return;
+    if (match[1] === 'event') {
+      // 没有空行分隔时，新的 event 行意味着上一个事件结束
+      if (data.length) flush();
+      event = match[2];
+    } else if (match[1] === 'data') {
+      data.push(match[2]);
+    }
+  });
+  flush();
+
+  return events;
+};
+
+// 从常见的流式响应格式（OpenAI / Claude / Gemini / Responses API）中提取增量文本
+const extractDeltaText = (payload: unknown): string => {
+  if (!payload || typeof payload !== 'object') return '';
+  const record = payload as Record<string, any>;
+
+  const choiceDelta = record.choices?.[0]?.delta;
+  if (choiceDelta) {
+    return [choiceDelta.reasoning_content, choiceDelta.content]
+      .filter((part) => typeof part === 'string')
+      .join('');
+  }
+
+  if (record.type === 'content_block_delta') {
+    const delta = record.delta ?? {};
+    return String(delta.text ?? delta.thinking ?? delta.partial_json ?? '');
+  }
+
+  if (typeof record.type === 'string' && record.type.endsWith('.delta')) {
+    return typeof record.delta === 'string' ? record.delta : '';
+  }
+
+  const candidates = record.candidates ?? record.response?.candidates;
+  if (Array.isArray(candidates)) {
+    const parts = candidates[0]?.content?.parts;
+    if (Array.isArray(parts)) {
+      return parts.map((part: any) => (typeof part?.text === 'string' ? part.text : '')).join('');
+    }
+  }
+
+  return '';
+};
+
+const assembleSseText = (events: SseEvent[]): string =>
+  events.map((event) => extractDeltaText(event.json)).join('');
+
+/**
+ * 段落内容：开头连续的 "Key: Value" 行视为请求头，空行之后为正文
+ */
+const splitHeadersAndBody = (
+  content: string,
+  kind: RequestLogSectionKind
+): { headers: [string, string][]; body: string } => {
+  const lines = content.split(/\r?\n/);
+  const headers: [string, string][] = [];
+  let index = 0;
+
+  while (index < lines.length && !lines[index].trim()) index += 1;
+
+  const headerOnly = kind === 'info' || kind === 'requestHeaders';
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.trim()) break;
+    if (SSE_FIELD_REGEX.test(line) && !headerOnly) break;
+    const match = line.match(HEADER_LINE_REGEX);
+    if (!match) break;
+    headers.push([match[1], maskHeaderValue(match[1], match[2])]);
+    index += 1;
+  }
+
+  // 没有空行分隔且不是纯请求头段落时，整段视为正文
+  if (!headerOnly && index < lines.length && lines[index].trim() && headers.length > 0) {
+    return { headers: [], body: content.trim() };
+  }
+
+  return { headers, body: lines.slice(index).join('\n').trim() };
+};
+
+const buildSection = (title: string, content: string): RequestLogSection => {
+  const kind = resolveSectionKind(title);
+  const { headers, body } = splitHeadersAndBody(content, kind);
+  const parsed = tryParseJson(body);
+  const json = parsed === undefined ? undefined : maskJsonValue(parsed);
+  const events = json === undefined ? parseSseEvents(body) : undefined;
+
+  return {
+    kind,
+    title,
+    headers,
+    body: json === undefined ? maskBodyText(body) : formatJson(json),
+    json,
+    events,
+    assembledText: events ? assembleSseText(events) : undefined,
+  };
+};
+
+export const parseRequestLog = (text: string): RequestLogDocument => {
+  const lines = text.split(/\r?\n/);
+  const sections: RequestLogSection[] = [];
+  let title: string | null = null;
+  let buffer: string[] = [];
+
+  const flush = () => {
+    const content = buffer.join('\n');
+    if (title !== null || content.trim()) {
+      sections.push(buildSection(title ?? 'Log', content));
+    }
+    buffer = [];
+  };
+
+  lines.forEach((line) => {
+    const marker = line.match(SECTION_MARKER_REGEX);
+    if (marker) {
+      flush();
+      title = marker[1];
+      return;
+    }
+    buffer.push(line);
+  });
+  flush();
+
+  return { sections };
+};
+
+const flattenJson = (value: unknown, prefix: string, out: Map<string, string>) => {
+  if (Array.isArray(value)) {
+    if (value.length === 0) out.set(prefix || '$', '[]');
+    value.forEach((item, index) => flattenJson(item, `${prefix}[${index}]`, out));
+    return;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0) out.set(prefix || '$', '{}');
+    entries.forEach(([key, item]) => flattenJson(item, prefix ? `${prefix}.${key}` : key, out));
+    return;
+  }
+  out.set(prefix || '$', JSON.stringify(value));
+};
+
+/**
+ * 按字段路径对比两个 JSON 值（用于客户端请求与转换后上游请求的差异）
+ */
+export const diffJson = (before: unknown, after: unknown): JsonDiffEntry[] => {
+  const left = new Map<string, string>();
+  const right = new Map<string, string>();
+  flattenJson(before, '', left);
+  flattenJson(after, '', right);
+
+  const result: JsonDiffEntry[] = [];
+  left.forEach((value, path) => {
+    if (!right.has(path)) {
+      result.push({ path, type: 'removed', before: value });
+    } else if (right.get(path) !== value) {
+      result.push({ path, type: 'changed', before: value, after: right.get(path) });
+    }
+  });
+  right.forEach((value, path) => {
+    if (!left.has(path)) {
+      result.push({ path, type: 'added', after: value });
+    }
+  });
+
+  return result;
+};
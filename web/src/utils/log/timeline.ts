@@ -0,0 +1,198 @@
+/**
+ * 按请求 ID 聚合日志行，生成请求时间线（瀑布图）数据
+ */
+
+import { LOG_LEVELS, parseDurationMs } from './parser';
+import type { HttpMethod, LogLevel, ParsedLogLine } from './parser';
+
+export interface RequestAttempt {
+  timestamp?: string;
+  statusCode?: number;
+  latency?: string;
+  message: string;
+}
+
+export interface RequestTimelineGroup {
+  requestId: string;
+  lines: ParsedLogLine[];
+  method?: HttpMethod;
+  path?: string;
+  finalStatus?: number;
+  /** 总耗时（毫秒），优先取访问日志中的耗时，否则取首尾日志的时间差 */
+  totalLatencyMs?: number;
+  startMs?: number;
+  endMs?: number;
+  level?: LogLevel;
+  /** 上游请求（含重试），按出现顺序排列 */
+  attempts: RequestAttempt[];
+}
+
+const RETRY_MESSAGE_REGEX = /\b(?:retry|retrying|retried|attempt|fallback|switch(?:ing)? to)\b/i;
+const ACCESS_LOG_SOURCE_REGEX = /gin/i;
+
+export const parseLogTimestampMs = (timestamp: string | undefined): number | undefined => {
+  if (!timestamp) return undefined;
+  const ms = Date.parse(timestamp.trim().replace(' ', 'T'));
+  return Number.isFinite(ms) ? ms : undefined;
+};
+
+// 访问日志（gin）记录的是客户端请求的最终结果
+const isAccessLogLine = (line: ParsedLogLine) =>
+  Boolean(line.method && line.path) &&
+  (line.source === undefined || ACCESS_LOG_SOURCE_REGEX.test(line.source));
+
+const pickWorseLevel = (current: LogLevel | undefined, next: LogLevel | undefined) => {
+  if (!next) return current;
+  if (!current) return next;
+  return LOG_LEVELS.indexOf(next) > LOG_LEVELS.indexOf(current) ? next : current;
+};
+
+const buildGroup = (requestId: string, lines: ParsedLogLine[]): RequestTimelineGroup => {
+  const accessLines = lines.filter(isAccessLogLine);
+  const accessLine = accessLines[accessLines.length - 1];
+
+  const attempts: RequestAttempt[] = [];
+  let level: LogLevel | undefined;
+  let startMs: number | undefined;
+  let endMs: number | undefined;
+
+  lines.forEach((line) => {
+    level = pickWorseLevel(level, line.level);
+
+    const ts = parseLogTimestampMs(line.timestamp);
+    if (ts !== undefined) {
+      startMs = startMs === undefined ? ts : Math.min(startMs, ts);
+      endMs = endMs === undefined ? ts : Math.max(endMs, ts);
+    }
+
+    if (line === accessLine) return;
+    if (typeof line.statusCode === 'number' || RETRY_MESSAGE_REGEX.test(line.message)) {
+      attempts.push({
+        timestamp: line.timestamp,
+        statusCode: line.statusCode,
+        latency: line.latency,
+        message: line.message,
+      });
+    }
+  });
+
+  const fallbackStatus = [...lines].reverse().find((line) => typeof line.statusCode === 'number');
+  const accessLatency = parseDurationMs(accessLine?.latency);
+  const totalLatencyMs =
+    accessLatency ??
+    (startMs !== undefined && endMs !== undefined && endMs > startMs ? endMs - startMs : undefined);
+
+  // 访问日志在请求结束时输出，据此回推请求开始时间
+  if (accessLine && accessLatency !== undefined) {
+    const accessTs = parseLogTimestampMs(accessLine.timestamp);
+    if (accessTs !== undefined) {
+      startMs = Math.min(startMs ?? accessTs, accessTs - accessLatency);
+      endMs = Math.max(endMs ?? accessTs, accessTs);
+    }
+  }
+
+  const firstWithRoute = accessLine ?? lines.find((line) => line.method && line.path);
+
+  return {
+    requestId,
+    lines,
+    method: firstWithRoute?.method,
+    path: firstWithRoute?.path?.replace(/^"|"$/g, ''),
+    finalStatus: accessLine?.statusCode ?? fallbackStatus?.statusCode,
+    totalLatencyMs,
+    startMs,
+    endMs,
+    level,
+    attempts,
+  };
+};
+
+/**
+ * 按请求 ID 分组（保持首次出现的顺序），没有请求 ID 的行不参与分组
+ */
+export const groupLogLinesByRequest = (lines: ParsedLogLine[]): RequestTimelineGroup[] => {
+  const buckets = new Map<string, ParsedLogLine[]>();
+
+  lines.forEach((line) => {
+    if (!line.requestId) return;
+    const bucket = buckets.get(line.requestId);
+    if (bucket) {
+      bucket.push(line);
+    } else {
+      buckets.set(line.requestId, [line]);
+    }
+  });
+
+  return Array.from(buckets, ([requestId, groupLines]) => buildGroup(requestId, groupLines));
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_ONLY_REGEX = /^\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?$/;
+const DATE_PREFIX_REGEX = /^\d{4}-\d{2}-\d{2}/;
+
+/**
+ * 解析跳转目标时间：支持完整的日期时间，或只写 HH:mm[:ss]（日期取参考日志所在的那一天，
+ * 若晚于参考时间则视为前一天）
+ */
+export const resolveJumpTimestampMs = (
+  input: string,
+  referenceTimestamp?: string
+): number | undefined => {
+  const trimmed = input.trim();
+  if (!trimmed) return undefined;
+  if (!TIME_ONLY_REGEX.test(trimmed)) return parseLogTimestampMs(trimmed);
+
+  const referenceMs = parseLogTimestampMs(referenceTimestamp);
+  const datePrefix = referenceTimestamp?.trim().match(DATE_PREFIX_REGEX)?.[0];
+  if (referenceMs === undefined || !datePrefix) return undefined;
+
+  const time = trimmed.split(':')[0].length === 1 ? `0${trimmed}` : trimmed;
+  const targetMs = parseLogTimestampMs(`${datePrefix} ${time}`);
+  if (targetMs === undefined) return undefined;
+  return targetMs > referenceMs ? targetMs - DAY_MS : targetMs;
+};
+
+/**
+ * 在按时间排序的日志行中二分查找第一条时间不早于 targetMs 的行，找不到时返回 -1；
+ * 没有时间戳的行（如多行堆栈）会向后寻找最近的带时间戳的行来比较
+ */
+export const findLogLineIndexByTime = (
+  lines: string[],
+  targetMs: number,
+  parse: (raw: string) => ParsedLogLine
+): number => {
+  const timestampAt = (index: number, end: number): [number, number] | null => {
+    for (let cursor = index; cursor < end; cursor += 1) {
+      const ms = parseLogTimestampMs(parse(lines[cursor]).timestamp);
+      if (ms !== undefined) return [cursor, ms];
+    }
+    return null;
+  };
+
+  let low = 0;
+  let high = lines.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    const found = timestampAt(mid, high);
+    if (!found) {
+      high = mid;
+    } else if (found[1] < targetMs) {
+      low = found[0] + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  const result = timestampAt(low, lines.length);
+  return result ? result[0] : -1;
+};
+
+export const formatDurationMs = (ms: number | undefined): string => {
+  if (ms === undefined || !Number.isFinite(ms)) return '-';
+  if (ms < 1) return `${Math.round(ms * 1000)}µs`;
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60 * 1000) return `${(ms / 1000).toFixed(2)}s`;
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return `${minutes}m${seconds}s`;
+};
@@ -9,7 +9,9 @@ import type {
   AntigravityModelsPayload,
   GeminiCliParsedBucket,
   GeminiCliQuotaBucketState,
+  LocalUsageQuotaSummary,
 } from '@/types';
+import { extractTotalTokens, type UsageDetail } from '@/utils/usage';
 import { ANTIGRAVITY_QUOTA_GROUPS, GEMINI_CLI_GROUP_LOOKUP } from './constants';
 import { normalizeQuotaFraction } from './parsers';
 import { isIgnoredGeminiCliModel } from './validators';
@@ -240,3 +242,34 @@ export function buildAntigravityQuotaGroups(
 
   return groups;
 }
+
+/**
+ * Count today's requests of one credential from the proxy usage details.
+ * The day starts at local midnight; `resetTime` is the next local midnight.
+ */
+export function buildLocalUsageQuotaSummary(
+  details: UsageDetail[],
+  authIndex: string,
+  dailyLimit: number | null,
+  now: number = Date.now()
+): LocalUsageQuotaSummary {
+  const dayStart = new Date(now);
+  dayStart.setHours(0, 0, 0, 0);
+  const dayEnd = new Date(dayStart);
+  dayEnd.setDate(dayEnd.getDate() + 1);
+  const since = dayStart.getTime();
+
+  let requests = 0;
+  let failed = 0;
+  let tokens = 0;
+  details.forEach((detail) => {
+    if (String(detail.auth_index ?? '').trim() !== authIndex) return;
+    const time = Date.parse(detail.timestamp);
+    if (!Number.isFinite(time) || time < since || time > now) return;
+    requests += 1;
+    if (detail.failed) failed += 1;
+    tokens += extractTotalTokens(detail);
+  });
+
+  return { requests, failed, tokens, dailyLimit, resetTime: dayEnd.toISOString() };
+}
@@ -155,3 +155,16 @@ export const CODEX_REQUEST_HEADERS = {
   'Content-Type': 'application/json',
   'User-Agent': 'codex_cli_rs/0.76.0 (Debian 13.0.0; x86_64) WindowsTerminal',
 };
+
+// Claude (Anthropic OAuth) API configuration
+export const CLAUDE_USAGE_URL = 'https://api.anthropic.com/api/oauth/usage';
+
+export const CLAUDE_REQUEST_HEADERS = {
+  Authorization: 'Bearer $TOKEN$',
+  'Content-Type': 'application/json',
+  'anthropic-beta': 'oauth-2025-04-20',
+};
+
+// Assumed Qwen OAuth free tier allowance (requests per day). Qwen and iFlow expose no quota API,
+// so the UI labels the remaining share as an estimate from local usage, not the account's real quota
+export const QWEN_DAILY_REQUEST_LIMIT = 2000;
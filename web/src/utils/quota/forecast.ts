@@ -0,0 +1,101 @@
+/**
+ * Quota exhaustion forecasting from recorded history.
+ */
+
+import type { QuotaHistorySample } from './history';
+
+export interface QuotaForecast {
+  /** Remaining fraction consumed per hour, null when there is not enough data */
+  burnRatePerHour: number | null;
+  /** Predicted time (ms) the remaining fraction reaches 0, null when not burning */
+  exhaustAt: number | null;
+  resetAt: number | null;
+  /** The quota is predicted to run out before it resets */
+  exhaustsBeforeReset: boolean;
+  remainingFraction: number;
+}
+
+/** Only the most recent samples describe the current burn rate */
+export const QUOTA_FORECAST_LOOKBACK_MS = 6 * 60 * 60 * 1000;
+
+// A rise larger than this means the quota was reset (or topped up) between two samples
+const RESET_JUMP_THRESHOLD = 0.05;
+const MIN_SPAN_MS = 5 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Samples after the latest reset inside the lookback window
+const currentCycle = (samples: QuotaHistorySample[], now: number) => {
+  const recent = samples.filter(
+    (sample) => sample.time >= now - QUOTA_FORECAST_LOOKBACK_MS && sample.time <= now
+  );
+  let start = 0;
+  for (let i = 1; i < recent.length; i += 1) {
+    const prev = recent[i - 1];
+    const current = recent[i];
+    const resetChanged =
+      prev.resetAt !== undefined &&
+      current.resetAt !== undefined &&
+      current.resetAt - prev.resetAt > MIN_SPAN_MS;
+    if (current.remainingFraction - prev.remainingFraction > RESET_JUMP_THRESHOLD || resetChanged) {
+      start = i;
+    }
+  }
+  return recent.slice(start);
+};
+
+/**
+ * Fit a least-squares line through the current cycle of one series and extrapolate to zero.
+ * `samples` must belong to a single series and be sorted by time.
+ */
+export function forecastQuotaExhaustion(
+  samples: QuotaHistorySample[],
+  now: number = Date.now()
+): QuotaForecast | null {
+  const latest = samples[samples.length - 1];
+  if (!latest) return null;
+
+  const resetAt = latest.resetAt !== undefined && latest.resetAt > now ? latest.resetAt : null;
+  const base: QuotaForecast = {
+    burnRatePerHour: null,
+    exhaustAt: null,
+    resetAt,
+    exhaustsBeforeReset: false,
+    remainingFraction: latest.remainingFraction
+  };
+
+  if (latest.remainingFraction <= 0) {
+    return { ...base, exhaustAt: latest.time, exhaustsBeforeReset: true };
+  }
+
+  const cycle = currentCycle(samples, now);
+  if (cycle.length < 2 || cycle[cycle.length - 1].time - cycle[0].time < MIN_SPAN_MS) {
+    return base;
+  }
+
+  const origin = cycle[0].time;
+  const count = cycle.length;
+  const meanX = cycle.reduce((sum, sample) => sum + (sample.time - origin), 0) / count;
+  const meanY = cycle.reduce((sum, sample) => sum + sample.remainingFraction, 0) / count;
+  let covariance = 0;
+  let variance = 0;
+  cycle.forEach((sample) => {
+    const dx = sample.time - origin - meanX;
+    covariance += dx * (sample.remainingFraction - meanY);
+    variance += dx * dx;
+  });
+  if (variance <= 0) return base;
+
+  const slope = covariance / variance;
+  const burnRatePerHour = -slope * HOUR_MS;
+  if (slope >= 0) {
+    return { ...base, burnRatePerHour: Math.max(burnRatePerHour, 0) };
+  }
+
+  const exhaustAt = latest.time + latest.remainingFraction / -slope;
+  return {
+    ...base,
+    burnRatePerHour,
+    exhaustAt,
+    exhaustsBeforeReset: resetAt === null || exhaustAt < resetAt
+  };
+}
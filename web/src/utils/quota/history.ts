@@ -0,0 +1,205 @@
+/**
+ * Quota history persisted in IndexedDB.
+ * Each successful quota refresh stores one sample per quota series (model group, bucket or window)
+ * so remaining-fraction curves and exhaustion forecasts survive page reloads.
+ */
+
+export type QuotaHistoryType =
+  | 'antigravity'
+  | 'codex'
+  | 'gemini-cli'
+  | 'claude'
+  | 'qwen'
+  | 'iflow';
+
+export interface QuotaHistorySeriesPoint {
+  /** Group / bucket / window id, stable across refreshes */
+  seriesId: string;
+  label: string;
+  /** Remaining fraction in [0, 1] */
+  remainingFraction: number;
+  resetTime?: string;
+}
+
+export interface QuotaHistorySample {
+  /** type|fileName|seriesId|time */
+  id: string;
+  /** [type, fileName], used by the per-account index */
+  account: [QuotaHistoryType, string];
+  type: QuotaHistoryType;
+  fileName: string;
+  seriesId: string;
+  label: string;
+  /** Sample time (ms) */
+  time: number;
+  remainingFraction: number;
+  /** Reset time (ms) reported with the sample */
+  resetAt?: number;
+}
+
+export const QUOTA_HISTORY_RETENTION_DAYS = 14;
+
+const DB_NAME = 'cli-proxy-quota-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'samples';
+const TIME_INDEX = 'time';
+const ACCOUNT_INDEX = 'account';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const waitForTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('transaction aborted'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex(TIME_INDEX, 'time');
+          store.createIndex(ACCOUNT_INDEX, 'account');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      // Allow the next call to retry
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+const parseResetTime = (value?: string): number | undefined => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+export function toQuotaHistorySamples(
+  type: QuotaHistoryType,
+  fileName: string,
+  points: QuotaHistorySeriesPoint[],
+  time: number = Date.now()
+): QuotaHistorySample[] {
+  return points
+    .filter((point) => Number.isFinite(point.remainingFraction))
+    .map((point) => ({
+      id: `${type}|${fileName}|${point.seriesId}|${time}`,
+      account: [type, fileName],
+      type,
+      fileName,
+      seriesId: point.seriesId,
+      label: point.label,
+      time,
+      remainingFraction: Math.min(Math.max(point.remainingFraction, 0), 1),
+      resetAt: parseResetTime(point.resetTime)
+    }));
+}
+
+export async function saveQuotaHistorySamples(samples: QuotaHistorySample[]): Promise<void> {
+  if (samples.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  samples.forEach((sample) => store.put(sample));
+  await waitForTransaction(tx);
+}
+
+/**
+ * Load one account's samples ordered by time.
+ */
+export async function loadQuotaHistory(
+  type: QuotaHistoryType,
+  fileName: string,
+  sinceMs?: number
+): Promise<QuotaHistorySample[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const index = tx.objectStore(STORE_NAME).index(ACCOUNT_INDEX);
+  const samples = await promisifyRequest(
+    index.getAll(IDBKeyRange.only([type, fileName])) as IDBRequest<QuotaHistorySample[]>
+  );
+  return samples
+    .filter((sample) => sinceMs === undefined || sample.time >= sinceMs)
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Delete samples older than beforeMs, or every sample when omitted. Returns the number removed.
+ */
+export async function purgeQuotaHistory(beforeMs?: number): Promise<number> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  let removed = 0;
+
+  if (beforeMs === undefined) {
+    const countRequest = store.count();
+    countRequest.onsuccess = () => {
+      removed = countRequest.result;
+      store.clear();
+    };
+  } else {
+    const request = store.index(TIME_INDEX).openCursor(IDBKeyRange.upperBound(beforeMs, true));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      cursor.delete();
+      removed += 1;
+      cursor.continue();
+    };
+  }
+
+  await waitForTransaction(tx);
+  return removed;
+}
+
+/**
+ * Store the latest samples and drop expired ones; failures only log a warning so quota
+ * refreshes keep working when IndexedDB is unavailable.
+ */
+export async function recordQuotaHistory(samples: QuotaHistorySample[]): Promise<void> {
+  try {
+    await saveQuotaHistorySamples(samples);
+    await purgeQuotaHistory(Date.now() - QUOTA_HISTORY_RETENTION_DAYS * DAY_MS);
+  } catch (err) {
+    console.warn('Quota history unavailable:', err);
+  }
+}
+
+/**
+ * Group samples by series, keeping time order inside each series.
+ */
+export function groupQuotaHistoryBySeries(
+  samples: QuotaHistorySample[]
+): Map<string, QuotaHistorySample[]> {
+  const series = new Map<string, QuotaHistorySample[]>();
+  samples.forEach((sample) => {
+    const list = series.get(sample.seriesId);
+    if (list) {
+      list.push(sample);
+    } else {
+      series.set(sample.seriesId, [sample]);
+    }
+  });
+  series.forEach((list) => list.sort((a, b) => a.time - b.time));
+  return series;
+}
@@ -8,3 +8,6 @@ export * from './resolvers';
 export * from './formatters';
 export * from './validators';
 export * from './builders';
+export * from './history';
+export * from './forecast';
+export * from './scheduler';
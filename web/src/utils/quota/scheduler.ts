@@ -0,0 +1,138 @@
+/**
+ * Helpers for the background quota scheduler: settings, concurrency pool and 429 backoff.
+ */
+
+import type { AuthFileItem } from '@/types';
+import { getStatusFromError } from './formatters';
+import { isDisabledAuthFile, isRuntimeOnlyAuthFile } from './validators';
+
+export interface QuotaSchedulerSettings {
+  enabled: boolean;
+  intervalMinutes: number;
+  /** Maximum number of accounts queried at the same time */
+  maxConcurrency: number;
+}
+
+export interface QuotaBackoffOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const QUOTA_SCHEDULER_INTERVAL_OPTIONS = [5, 10, 15, 30, 60];
+export const QUOTA_SCHEDULER_CONCURRENCY_OPTIONS = [1, 2, 4, 8];
+
+export const DEFAULT_QUOTA_SCHEDULER_SETTINGS: QuotaSchedulerSettings = {
+  enabled: false,
+  intervalMinutes: 15,
+  maxConcurrency: 2
+};
+
+export const DEFAULT_QUOTA_BACKOFF_OPTIONS: QuotaBackoffOptions = {
+  maxRetries: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000
+};
+
+const RATE_LIMIT_STATUS = 429;
+
+export function normalizeQuotaSchedulerSettings(value: unknown): QuotaSchedulerSettings {
+  const raw = value && typeof value === 'object' ? (value as Partial<QuotaSchedulerSettings>) : {};
+  return {
+    enabled: raw.enabled === true,
+    intervalMinutes: QUOTA_SCHEDULER_INTERVAL_OPTIONS.includes(Number(raw.intervalMinutes))
+      ? Number(raw.intervalMinutes)
+      : DEFAULT_QUOTA_SCHEDULER_SETTINGS.intervalMinutes,
+    maxConcurrency: QUOTA_SCHEDULER_CONCURRENCY_OPTIONS.includes(Number(raw.maxConcurrency))
+      ? Number(raw.maxConcurrency)
+      : DEFAULT_QUOTA_SCHEDULER_SETTINGS.maxConcurrency
+  };
+}
+
+/**
+ * Disabled and runtime-only files are never polled in the background.
+ */
+export function isQuotaPollable(file: AuthFileItem): boolean {
+  return !isDisabledAuthFile(file) && !isRuntimeOnlyAuthFile(file);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, min(max, base * 2^attempt)].
+ */
+export function computeQuotaBackoffDelay(
+  attempt: number,
+  options: QuotaBackoffOptions = DEFAULT_QUOTA_BACKOFF_OPTIONS,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Retry a quota fetch when the upstream answers 429; other errors are thrown immediately.
+ */
+export async function fetchQuotaWithBackoff<T>(
+  fetcher: () => Promise<T>,
+  options: QuotaBackoffOptions = DEFAULT_QUOTA_BACKOFF_OPTIONS,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await fetcher();
+    } catch (err: unknown) {
+      if (getStatusFromError(err) !== RATE_LIMIT_STATUS || attempt >= options.maxRetries) {
+        throw err;
+      }
+      await sleep(computeQuotaBackoffDelay(attempt, options), signal);
+    }
+  }
+}
+
+/**
+ * Run tasks with at most `limit` in flight; results keep the order of `tasks`.
+ * Tasks that have not started yet are skipped once `signal` is aborted.
+ */
+export async function runWithConcurrencyLimit<T>(
+  tasks: Array<() => Promise<T>>,
+  limit: number,
+  signal?: AbortSignal
+): Promise<Array<PromiseSettledResult<T>>> {
+  const results: Array<PromiseSettledResult<T>> = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      if (signal?.aborted) {
+        results[index] = { status: 'rejected', reason: new DOMException('Aborted', 'AbortError') };
+        continue;
+      }
+      try {
+        results[index] = { status: 'fulfilled', value: await tasks[index]() };
+      } catch (reason: unknown) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, tasks.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
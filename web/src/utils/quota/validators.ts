@@ -22,6 +22,18 @@ export function isGeminiCliFile(file: AuthFileItem): boolean {
   return resolveAuthProvider(file) === 'gemini-cli';
 }
 
+export function isClaudeFile(file: AuthFileItem): boolean {
+  return resolveAuthProvider(file) === 'claude';
+}
+
+export function isQwenFile(file: AuthFileItem): boolean {
+  return resolveAuthProvider(file) === 'qwen';
+}
+
+export function isIFlowFile(file: AuthFileItem): boolean {
+  return resolveAuthProvider(file) === 'iflow';
+}
+
 export function isRuntimeOnlyAuthFile(file: AuthFileItem): boolean {
   const raw = file['runtime_only'] ?? file.runtimeOnly;
   if (typeof raw === 'boolean') return raw;
@@ -0,0 +1,72 @@
+/**
+ * TAR 读取工具
+ * 在浏览器端解析 ustar / GNU tar 归档（支持 gzip 压缩），用于批量导入认证文件
+ */
+
+import { decompressBytes, type ZipEntry } from './zip';
+
+export type TarEntry = ZipEntry;
+
+const BLOCK_SIZE = 512;
+
+const isGzip = (data: Uint8Array) => data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+
+const readString = (data: Uint8Array, start: number, length: number, decoder: TextDecoder) => {
+  const field = data.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end >= 0 ? field.subarray(0, end) : field);
+};
+
+const readOctal = (data: Uint8Array, start: number, length: number) => {
+  const text = String.fromCharCode(...data.subarray(start, start + length)).replace(/[\0 ]+/g, '');
+  const value = parseInt(text || '0', 8);
+  return Number.isFinite(value) ? value : 0;
+};
+
+// PAX 扩展头由 "长度 key=value\n" 记录组成，这里只关心 path
+const readPaxPath = (body: Uint8Array, decoder: TextDecoder): string | null => {
+  const match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(decoder.decode(body));
+  return match ? match[1] : null;
+};
+
+/**
+ * 读取 TAR 归档中的普通文件条目；gzip 压缩的归档（.tar.gz / .tgz）会先解压，解压后超过 maxSize 时抛出错误
+ */
+export async function readTar(input: Uint8Array, maxSize: number = Infinity): Promise<TarEntry[]> {
+  const data = isGzip(input) ? await decompressBytes(input, 'gzip', maxSize) : input;
+  const decoder = new TextDecoder();
+  const entries: TarEntry[] = [];
+  let longName: string | null = null;
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK_SIZE);
+    // 两个全零块表示归档结束
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = readOctal(header, 124, 12);
+    const typeFlag = String.fromCharCode(header[156]);
+    const magic = readString(header, 257, 6, decoder);
+    const prefix = magic.startsWith('ustar') ? readString(header, 345, 155, decoder) : '';
+    const baseName = readString(header, 0, 100, decoder);
+    const name = longName ?? (prefix ? `${prefix}/${baseName}` : baseName);
+    const body = data.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (typeFlag === 'L') {
+      // GNU 长文件名扩展，名称作用于下一个条目
+      longName = readString(body, 0, body.length, decoder);
+      continue;
+    }
+    if (typeFlag === 'x') {
+      longName = readPaxPath(body, decoder);
+      continue;
+    }
+    longName = null;
+    if (typeFlag === '0' || typeFlag === '\0') {
+      entries.push({ name, data: body });
+    }
+  }
+
+  return entries;
+}
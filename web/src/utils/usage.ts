@@ -29,10 +29,30 @@ export interface RateStats {
   tokenCount: number;
 }
 
+/**
+ * 长上下文计价档位：输入 tokens 超过 threshold 时整条请求按该档计价，未设置的费率沿用基础价格
+ */
+export interface ModelPriceTier {
+  threshold: number;
+  prompt?: number;
+  completion?: number;
+  cache?: number;
+  cacheWrite?: number;
+  reasoning?: number;
+}
+
+/**
+ * 模型价格（USD / 1M tokens）
+ * - cache：缓存读取费率；cacheWrite：缓存写入费率，未设置时按输入价格计
+ * - reasoning：推理 tokens 费率，未设置时按输出价格计
+ */
 export interface ModelPrice {
   prompt: number;
   completion: number;
   cache: number;
+  cacheWrite?: number;
+  reasoning?: number;
+  tiers?: ModelPriceTier[];
 }
 
 export interface UsageDetail {
@@ -45,7 +65,9 @@ export interface UsageDetail {
     reasoning_tokens: number;
     cached_tokens: number;
     cache_tokens?: number;
+    cache_creation_tokens?: number;
     total_tokens: number;
+    reasoning_in_output?: boolean;
   };
   failed: boolean;
   __modelName?: string;
@@ -374,9 +396,13 @@ export function calculateTokenBreakdown(usageData: any): TokenBreakdown {
 }
 
 /**
- * 计算最近 N 分钟的 RPM/TPM
+ * 计算最近 N 分钟的 RPM/TPM，endTime 为统计窗口的结束时间（默认当前时间）
  */
-export function calculateRecentPerMinuteRates(windowMinutes: number = 30, usageData: any): RateStats {
+export function calculateRecentPerMinuteRates(
+  windowMinutes: number = 30,
+  usageData: any,
+  endTime: number = Date.now()
+): RateStats {
   const details = collectUsageDetails(usageData);
   const effectiveWindow = Number.isFinite(windowMinutes) && windowMinutes > 0 ? windowMinutes : 30;
 
@@ -384,14 +410,13 @@ export function calculateRecentPerMinuteRates(windowMinutes: number = 30, usageD
     return { rpm: 0, tpm: 0, windowMinutes: effectiveWindow, requestCount: 0, tokenCount: 0 };
   }
 
-  const now = Date.now();
-  const windowStart = now - effectiveWindow * 60 * 1000;
+  const windowStart = endTime - effectiveWindow * 60 * 1000;
   let requestCount = 0;
   let tokenCount = 0;
 
   details.forEach(detail => {
     const timestamp = Date.parse(detail.timestamp);
-    if (Number.isNaN(timestamp) || timestamp < windowStart) {
+    if (Number.isNaN(timestamp) || timestamp < windowStart || timestamp > endTime) {
       return;
     }
     requestCount += 1;
@@ -429,32 +454,155 @@ export function getModelNamesFromUsage(usageData: any): string[] {
 }
 
 /**
- * 计算成本数据
+ * 判断价格表条目是否为通配符模式（支持 * 与 ?）
+ */
+export function isModelPricePattern(key: string): boolean {
+  return /[*?]/.test(key);
+}
+
+const wildcardRegExpCache = new Map<string, RegExp>();
+const modelPriceLookupCache = new WeakMap<Record<string, ModelPrice>, Map<string, ModelPrice | null>>();
+
+const toWildcardRegExp = (pattern: string): RegExp => {
+  let regexp = wildcardRegExpCache.get(pattern);
+  if (!regexp) {
+    const source = pattern
+      .split('')
+      .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+      .join('');
+    regexp = new RegExp(`^${source}$`, 'i');
+    wildcardRegExpCache.set(pattern, regexp);
+  }
+  return regexp;
+};
+
+/**
+ * 判断模型名是否匹配条目：通配符条目按模式匹配（不区分大小写），否则要求完全相同
+ */
+export function matchesModelPattern(modelName: string, pattern: string): boolean {
+  if (!isModelPricePattern(pattern)) return modelName === pattern;
+  return toWildcardRegExp(pattern).test(modelName);
+}
+
+/**
+ * 查找模型价格：优先精确匹配，其次匹配通配符条目（如 claude-sonnet-*），
+ * 多个通配符同时命中时取非通配字符最多（最具体）的一条
+ */
+export function findModelPrice(modelName: string, modelPrices: Record<string, ModelPrice>): ModelPrice | undefined {
+  if (!modelName) return undefined;
+  const exact = modelPrices[modelName];
+  if (exact) return exact;
+
+  let cache = modelPriceLookupCache.get(modelPrices);
+  if (!cache) {
+    cache = new Map();
+    modelPriceLookupCache.set(modelPrices, cache);
+  }
+  const cached = cache.get(modelName);
+  if (cached !== undefined) return cached ?? undefined;
+
+  let matched: ModelPrice | null = null;
+  let matchedSpecificity = -1;
+  Object.entries(modelPrices).forEach(([key, price]) => {
+    if (!isModelPricePattern(key) || !toWildcardRegExp(key).test(modelName)) return;
+    const specificity = key.replace(/[*?]/g, '').length;
+    if (specificity > matchedSpecificity) {
+      matched = price;
+      matchedSpecificity = specificity;
+    }
+  });
+  cache.set(modelName, matched);
+  return matched ?? undefined;
+}
+
+/**
+ * 按输入 tokens（上下文长度）选择生效的计价档位，返回合并后的费率
+ */
+export function resolveModelPriceTier(price: ModelPrice, inputTokens: number): ModelPrice {
+  const tier = (price.tiers || []).reduce<ModelPriceTier | null>(
+    (best, item) => (inputTokens > item.threshold && (!best || item.threshold > best.threshold) ? item : best),
+    null
+  );
+  if (!tier) {
+    return price;
+  }
+  return {
+    prompt: tier.prompt ?? price.prompt,
+    completion: tier.completion ?? price.completion,
+    cache: tier.cache ?? price.cache,
+    cacheWrite: tier.cacheWrite ?? price.cacheWrite,
+    reasoning: tier.reasoning ?? price.reasoning
+  };
+}
+
+const toTokenCount = (value: unknown) => {
+  const num = Number(value);
+  return Number.isFinite(num) ? Math.max(num, 0) : 0;
+};
+
+export interface DetailTokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cachedTokens: number;
+  cacheWriteTokens: number;
+  totalTokens: number;
+  /** output_tokens 是否已包含推理 tokens */
+  reasoningInOutput: boolean;
+}
+
+// 只有 Gemini 系列单独上报推理 tokens（thoughtsTokenCount），其余提供商的 output_tokens 已包含推理 tokens
+const REASONING_SEPARATE_MODEL_PATTERN = /gemini/i;
+
+/**
+ * 提取单条明细的各类 tokens
+ * 推理 tokens 是否包含在 output_tokens 中以服务端上报的 reasoning_in_output 为准，
+ * 旧版本服务端未上报时按模型所属提供商判断
+ */
+export function extractDetailTokenCounts(detail: any): DetailTokenCounts {
+  const tokens = detail?.tokens || {};
+  const inputTokens = toTokenCount(tokens.input_tokens);
+  const outputTokens = toTokenCount(tokens.output_tokens);
+  const reasoningTokens = toTokenCount(tokens.reasoning_tokens);
+  const totalTokens = toTokenCount(tokens.total_tokens);
+  return {
+    inputTokens,
+    outputTokens,
+    reasoningTokens,
+    cachedTokens: Math.max(toTokenCount(tokens.cached_tokens), toTokenCount(tokens.cache_tokens)),
+    cacheWriteTokens: toTokenCount(tokens.cache_creation_tokens),
+    totalTokens,
+    reasoningInOutput:
+      typeof tokens.reasoning_in_output === 'boolean'
+        ? tokens.reasoning_in_output
+        : !REASONING_SEPARATE_MODEL_PATTERN.test(String(detail?.__modelName ?? ''))
+  };
+}
+
+/**
+ * 计算成本数据，推理 tokens 已包含在输出中时从输出扣除，避免重复计费
  */
 export function calculateCost(detail: any, modelPrices: Record<string, ModelPrice>): number {
   const modelName = detail.__modelName || '';
-  const price = modelPrices[modelName];
+  const price = findModelPrice(modelName, modelPrices);
   if (!price) {
     return 0;
   }
-  const tokens = detail?.tokens || {};
-  const rawInputTokens = Number(tokens.input_tokens);
-  const rawCompletionTokens = Number(tokens.output_tokens);
-  const rawCachedTokensPrimary = Number(tokens.cached_tokens);
-  const rawCachedTokensAlternate = Number(tokens.cache_tokens);
-
-  const inputTokens = Number.isFinite(rawInputTokens) ? Math.max(rawInputTokens, 0) : 0;
-  const completionTokens = Number.isFinite(rawCompletionTokens) ? Math.max(rawCompletionTokens, 0) : 0;
-  const cachedTokens = Math.max(
-    Number.isFinite(rawCachedTokensPrimary) ? Math.max(rawCachedTokensPrimary, 0) : 0,
-    Number.isFinite(rawCachedTokensAlternate) ? Math.max(rawCachedTokensAlternate, 0) : 0
-  );
+  const { inputTokens, outputTokens, reasoningTokens, cachedTokens, cacheWriteTokens, reasoningInOutput } =
+    extractDetailTokenCounts(detail);
   const promptTokens = Math.max(inputTokens - cachedTokens, 0);
-
-  const promptCost = (promptTokens / TOKENS_PER_PRICE_UNIT) * (Number(price.prompt) || 0);
-  const cachedCost = (cachedTokens / TOKENS_PER_PRICE_UNIT) * (Number(price.cache) || 0);
-  const completionCost = (completionTokens / TOKENS_PER_PRICE_UNIT) * (Number(price.completion) || 0);
-  const total = promptCost + cachedCost + completionCost;
+  const completionTokens = reasoningInOutput ? Math.max(outputTokens - reasoningTokens, 0) : outputTokens;
+
+  const rates = resolveModelPriceTier(price, inputTokens);
+  const rate = (value: number | undefined, fallback: number) =>
+    (Number.isFinite(Number(value)) ? Number(value) : Number(fallback) || 0) / TOKENS_PER_PRICE_UNIT;
+
+  const total =
+    promptTokens * rate(rates.prompt, 0) +
+    cachedTokens * rate(rates.cache, 0) +
+    cacheWriteTokens * rate(rates.cacheWrite, rates.prompt) +
+    completionTokens * rate(rates.completion, 0) +
+    reasoningTokens * rate(rates.reasoning, rates.completion);
   return Number.isFinite(total) && total > 0 ? total : 0;
 }
 
@@ -469,6 +617,77 @@ export function calculateTotalCost(usageData: any, modelPrices: Record<string, M
   return details.reduce((sum, detail) => sum + calculateCost(detail, modelPrices), 0);
 }
 
+const toOptionalRate = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) && num >= 0 ? num : undefined;
+};
+
+type ModelPriceRateField = 'prompt' | 'completion' | 'cache' | 'cacheWrite' | 'reasoning';
+
+const normalizeOptionalRates = (
+  raw: any,
+  fields: ModelPriceRateField[] = ['prompt', 'completion', 'cache', 'cacheWrite', 'reasoning']
+): Partial<ModelPriceTier> => {
+  const result: Partial<ModelPriceTier> = {};
+  fields.forEach(field => {
+    const value = toOptionalRate(raw?.[field]);
+    if (value !== undefined) {
+      result[field] = value;
+    }
+  });
+  return result;
+};
+
+const normalizeModelPriceTiers = (raw: unknown): ModelPriceTier[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(item => ({ threshold: Number(item?.threshold), ...normalizeOptionalRates(item) }))
+    .filter(item => Number.isFinite(item.threshold) && item.threshold > 0)
+    .sort((a, b) => a.threshold - b.threshold);
+};
+
+/**
+ * 规范化价格表：忽略无效条目，缺省的缓存价格沿用输入价格
+ */
+export function normalizeModelPrices(parsed: unknown): Record<string, ModelPrice> {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return {};
+  }
+  const normalized: Record<string, ModelPrice> = {};
+  Object.entries(parsed).forEach(([model, price]: [string, any]) => {
+    if (!model) return;
+    const promptRaw = Number(price?.prompt);
+    const completionRaw = Number(price?.completion);
+    const cacheRaw = Number(price?.cache);
+
+    if (!Number.isFinite(promptRaw) && !Number.isFinite(completionRaw) && !Number.isFinite(cacheRaw)) {
+      return;
+    }
+
+    const prompt = Number.isFinite(promptRaw) && promptRaw >= 0 ? promptRaw : 0;
+    const completion = Number.isFinite(completionRaw) && completionRaw >= 0 ? completionRaw : 0;
+    const cache =
+      Number.isFinite(cacheRaw) && cacheRaw >= 0
+        ? cacheRaw
+        : Number.isFinite(promptRaw) && promptRaw >= 0
+          ? promptRaw
+          : prompt;
+
+    normalized[model] = {
+      prompt,
+      completion,
+      cache,
+      ...normalizeOptionalRates(price, ['cacheWrite', 'reasoning'])
+    };
+    const tiers = normalizeModelPriceTiers(price?.tiers);
+    if (tiers.length) {
+      normalized[model].tiers = tiers;
+    }
+  });
+  return normalized;
+}
+
 /**
  * 从 localStorage 加载模型价格
  */
@@ -481,37 +700,7 @@ export function loadModelPrices(): Record<string, ModelPrice> {
     if (!raw) {
       return {};
     }
-    const parsed = JSON.parse(raw);
-    if (!parsed || typeof parsed !== 'object') {
-      return {};
-    }
-    const normalized: Record<string, ModelPrice> = {};
-    Object.entries(parsed).forEach(([model, price]: [string, any]) => {
-      if (!model) return;
-      const promptRaw = Number(price?.prompt);
-      const completionRaw = Number(price?.completion);
-      const cacheRaw = Number(price?.cache);
-
-      if (!Number.isFinite(promptRaw) && !Number.isFinite(completionRaw) && !Number.isFinite(cacheRaw)) {
-        return;
-      }
-
-      const prompt = Number.isFinite(promptRaw) && promptRaw >= 0 ? promptRaw : 0;
-      const completion = Number.isFinite(completionRaw) && completionRaw >= 0 ? completionRaw : 0;
-      const cache =
-        Number.isFinite(cacheRaw) && cacheRaw >= 0
-          ? cacheRaw
-          : Number.isFinite(promptRaw) && promptRaw >= 0
-            ? promptRaw
-            : prompt;
-
-      normalized[model] = {
-        prompt,
-        completion,
-        cache
-      };
-    });
-    return normalized;
+    return normalizeModelPrices(JSON.parse(raw));
   } catch {
     return {};
   }
@@ -773,6 +962,275 @@ export function buildDailySeriesByModel(usageData: any, metric: 'requests' | 'to
   return { labels, dataByModel, hasData };
 }
 
+export type UsageGranularity = '1m' | '5m' | '15m' | '1h' | '1d' | '1w';
+
+export interface UsageTimeRange {
+  start: number;
+  end: number;
+  /** 未限定起点：start 仅用于图表展示，不据此剔除明细 */
+  openStart?: boolean;
+  /** 未限定终点：end 仅用于图表展示，不据此剔除明细 */
+  openEnd?: boolean;
+}
+
+export const USAGE_GRANULARITIES: UsageGranularity[] = ['1m', '5m', '15m', '1h', '1d', '1w'];
+
+// 单个图表的最大时间桶数量，超过时对应粒度不可选
+export const MAX_USAGE_CHART_BUCKETS = 1500;
+
+const MINUTE_MS = 60 * 1000;
+const GRANULARITY_MINUTES: Record<UsageGranularity, number> = {
+  '1m': 1,
+  '5m': 5,
+  '15m': 15,
+  '1h': 60,
+  '1d': 24 * 60,
+  '1w': 7 * 24 * 60
+};
+
+/**
+ * 是否为小于一天的粒度（标签包含时分）
+ */
+export function isSubDayGranularity(granularity: UsageGranularity): boolean {
+  return GRANULARITY_MINUTES[granularity] < GRANULARITY_MINUTES['1d'];
+}
+
+/**
+ * 将时间向下取整到所在时间桶的起点（按本地时区，周以周一为起点）
+ */
+export function floorToGranularity(time: number, granularity: UsageGranularity): number {
+  const date = new Date(time);
+  if (granularity === '1d' || granularity === '1w') {
+    date.setHours(0, 0, 0, 0);
+    if (granularity === '1w') {
+      date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    }
+    return date.getTime();
+  }
+  const minutes = GRANULARITY_MINUTES[granularity];
+  date.setSeconds(0, 0);
+  if (minutes >= 60) {
+    date.setMinutes(0);
+  } else {
+    date.setMinutes(Math.floor(date.getMinutes() / minutes) * minutes);
+  }
+  return date.getTime();
+}
+
+/**
+ * 下一个时间桶的起点；日、周按日历计算以兼容夏令时
+ */
+export function nextGranularityBucket(time: number, granularity: UsageGranularity): number {
+  if (granularity === '1d' || granularity === '1w') {
+    const date = new Date(time);
+    date.setDate(date.getDate() + (granularity === '1w' ? 7 : 1));
+    return date.getTime();
+  }
+  return time + GRANULARITY_MINUTES[granularity] * MINUTE_MS;
+}
+
+/**
+ * 估算时间范围在指定粒度下的时间桶数量
+ */
+export function countGranularityBuckets(range: UsageTimeRange, granularity: UsageGranularity): number {
+  const span = Math.max(range.end - range.start, 0);
+  return Math.floor(span / (GRANULARITY_MINUTES[granularity] * MINUTE_MS)) + 1;
+}
+
+/**
+ * 格式化时间桶标签
+ */
+export function formatGranularityLabel(date: Date, granularity: UsageGranularity): string {
+  if (granularity === '1d' || granularity === '1w') {
+    return formatDayLabel(date);
+  }
+  if (granularity === '1h') {
+    return formatHourLabel(date);
+  }
+  const hourLabel = formatHourLabel(date);
+  const minute = date.getMinutes().toString().padStart(2, '0');
+  return `${hourLabel.slice(0, -2)}${minute}`;
+}
+
+export type UsageStatusFilter = 'success' | 'failure';
+
+/**
+ * 使用统计全局筛选条件，未设置的字段不参与筛选
+ */
+export interface UsageFilter {
+  model?: string;
+  /** normalizeUsageSourceId 规范化后的 source 标识 */
+  source?: string;
+  authIndex?: string;
+  /** normalizeUsageSourceId 规范化后的 usage.apis 键（客户端 API Key / 端点），避免原始密钥出现在 URL 中 */
+  endpoint?: string;
+  status?: UsageStatusFilter;
+}
+
+type UsageDetailPredicate = (detail: any, modelName: string, endpoint: string) => boolean;
+
+// 按明细筛选 usage 数据，并按保留的明细重新计算各级汇总字段
+const pruneUsageDetails = (usageData: any, predicate: UsageDetailPredicate): any => {
+  const emptyTotals = () => ({ total_requests: 0, success_count: 0, failure_count: 0, total_tokens: 0 });
+  const addDetail = (target: ReturnType<typeof emptyTotals>, detail: any) => {
+    target.total_requests += 1;
+    target.total_tokens += extractTotalTokens(detail);
+    if (detail?.failed === true) {
+      target.failure_count += 1;
+    } else {
+      target.success_count += 1;
+    }
+  };
+
+  const totals = emptyTotals();
+  const apis: Record<string, any> = {};
+  Object.entries((usageData.apis || {}) as Record<string, any>).forEach(([endpoint, apiEntry]) => {
+    const apiTotals = emptyTotals();
+    const models: Record<string, any> = {};
+    Object.entries((apiEntry?.models || {}) as Record<string, any>).forEach(([modelName, modelEntry]) => {
+      const modelDetails = Array.isArray(modelEntry?.details) ? modelEntry.details : [];
+      const details = modelDetails.filter((detail: any) => predicate(detail, modelName, endpoint));
+      if (!details.length) {
+        return;
+      }
+      const modelTotals = emptyTotals();
+      details.forEach((detail: any) => {
+        addDetail(modelTotals, detail);
+        addDetail(apiTotals, detail);
+        addDetail(totals, detail);
+      });
+      models[modelName] = { ...modelEntry, ...modelTotals, details };
+    });
+    if (Object.keys(models).length) {
+      apis[endpoint] = { ...apiEntry, ...apiTotals, models };
+    }
+  });
+
+  return { ...usageData, ...totals, apis };
+};
+
+/**
+ * 只保留时间范围内的请求明细，并按保留的明细重新计算各级汇总字段；
+ * 起止均未限定时原样返回，保证汇总与服务端一致
+ */
+export function filterUsageByTimeRange(usageData: any, range: UsageTimeRange): any {
+  if (!usageData || (range.openStart && range.openEnd)) {
+    return usageData;
+  }
+  const openEnded = Boolean(range.openStart || range.openEnd);
+  return pruneUsageDetails(usageData, (detail) => {
+    const timestamp = Date.parse(detail?.timestamp);
+    // 无法解析时间的明细无法判断是否越界，仅在开放区间中保留
+    if (Number.isNaN(timestamp)) return openEnded;
+    return (
+      (range.openStart || timestamp >= range.start) && (range.openEnd || timestamp <= range.end)
+    );
+  });
+}
+
+/**
+ * 是否设置了任一筛选条件
+ */
+export function isUsageFilterActive(filter: UsageFilter): boolean {
+  return Boolean(filter.model || filter.source || filter.authIndex || filter.endpoint || filter.status);
+}
+
+/**
+ * 判断单条明细是否满足筛选条件
+ */
+export function matchesUsageFilter(detail: any, modelName: string, endpoint: string, filter: UsageFilter): boolean {
+  if (filter.model && modelName !== filter.model) return false;
+  if (filter.endpoint && normalizeUsageSourceId(endpoint) !== filter.endpoint) return false;
+  if (filter.source && normalizeUsageSourceId(detail?.source) !== filter.source) return false;
+  if (filter.authIndex && String(detail?.auth_index ?? '').trim() !== filter.authIndex) return false;
+  if (filter.status === 'success' && detail?.failed === true) return false;
+  if (filter.status === 'failure' && detail?.failed !== true) return false;
+  return true;
+}
+
+/**
+ * 只保留满足筛选条件的请求明细，并重新计算各级汇总字段；
+ * 之后的统计（getApiStats、getModelStats、图表序列等）都基于筛选结果
+ */
+export function filterUsage(usageData: any, filter: UsageFilter): any {
+  if (!usageData || !isUsageFilterActive(filter)) {
+    return usageData;
+  }
+  // 端点数量远少于明细数量，缓存端点的规范化结果
+  const endpointIds = new Map<string, boolean>();
+  const detailFilter: UsageFilter = { ...filter, endpoint: undefined };
+  return pruneUsageDetails(usageData, (detail, modelName, endpoint) => {
+    if (filter.endpoint) {
+      let matched = endpointIds.get(endpoint);
+      if (matched === undefined) {
+        matched = normalizeUsageSourceId(endpoint) === filter.endpoint;
+        endpointIds.set(endpoint, matched);
+      }
+      if (!matched) return false;
+    }
+    return matchesUsageFilter(detail, modelName, endpoint, detailFilter);
+  });
+}
+
+/**
+ * 生成时间范围内连续的时间桶，bucketIndex 以桶起点（floorToGranularity 的结果）为键
+ */
+export function buildGranularityBuckets(
+  range: UsageTimeRange,
+  granularity: UsageGranularity
+): { labels: string[]; bucketIndex: Map<number, number> } {
+  const bucketStarts: number[] = [];
+  let cursor = floorToGranularity(range.start, granularity);
+  while (cursor <= range.end && bucketStarts.length < MAX_USAGE_CHART_BUCKETS) {
+    bucketStarts.push(cursor);
+    cursor = nextGranularityBucket(cursor, granularity);
+  }
+  return {
+    labels: bucketStarts.map(start => formatGranularityLabel(new Date(start), granularity)),
+    bucketIndex: new Map(bucketStarts.map((start, index) => [start, index]))
+  };
+}
+
+/**
+ * 按时间范围与粒度构建各模型的数据序列，时间桶连续（无数据的桶为 0）
+ */
+export function buildSeriesByGranularity(
+  usageData: any,
+  range: UsageTimeRange,
+  granularity: UsageGranularity,
+  metric: 'requests' | 'tokens' = 'requests'
+): {
+  labels: string[];
+  dataByModel: Map<string, number[]>;
+  hasData: boolean;
+} {
+  const { labels, bucketIndex } = buildGranularityBuckets(range, granularity);
+
+  const dataByModel = new Map<string, number[]>();
+  let hasData = false;
+
+  collectUsageDetails(usageData).forEach(detail => {
+    const timestamp = Date.parse(detail.timestamp);
+    if (Number.isNaN(timestamp) || timestamp < range.start || timestamp > range.end) {
+      return;
+    }
+    const index = bucketIndex.get(floorToGranularity(timestamp, granularity));
+    if (index === undefined) {
+      return;
+    }
+
+    const modelName = detail.__modelName || 'Unknown';
+    if (!dataByModel.has(modelName)) {
+      dataByModel.set(modelName, new Array(labels.length).fill(0));
+    }
+    const bucketValues = dataByModel.get(modelName)!;
+    bucketValues[index] += metric === 'tokens' ? extractTotalTokens(detail) : 1;
+    hasData = true;
+  });
+
+  return { labels, dataByModel, hasData };
+}
+
 export interface ChartDataset {
   label: string;
   data: number[];
@@ -849,11 +1307,14 @@ export function buildChartData(
   usageData: any,
   period: 'hour' | 'day' = 'day',
   metric: 'requests' | 'tokens' = 'requests',
-  selectedModels: string[] = []
+  selectedModels: string[] = [],
+  rangeOptions?: { range: UsageTimeRange; granularity: UsageGranularity }
 ): ChartData {
-  const baseSeries = period === 'hour'
-    ? buildHourlySeriesByModel(usageData, metric)
-    : buildDailySeriesByModel(usageData, metric);
+  const baseSeries = rangeOptions
+    ? buildSeriesByGranularity(usageData, rangeOptions.range, rangeOptions.granularity, metric)
+    : period === 'hour'
+      ? buildHourlySeriesByModel(usageData, metric)
+      : buildDailySeriesByModel(usageData, metric);
 
   const { labels, dataByModel } = baseSeries;
 
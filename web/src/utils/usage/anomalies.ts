@@ -0,0 +1,282 @@
+/**
+ * 用量异常检测
+ * - tokens 突增：最近窗口的 tokens 明显高于前 24 小时同长度窗口的滚动基线（全局与按凭证）
+ * - 失败突发：某个凭证最近窗口的失败率骤升
+ * - 凭证静默：此前持续服务的凭证突然没有请求，而其他凭证仍在正常服务
+ */
+
+import { collectUsageDetails, extractTotalTokens } from '../usage';
+import { resolveCredential, type CredentialDescriptor, type CredentialIndex } from './credentials';
+
+export type UsageAnomalyType = 'token_spike' | 'failure_burst' | 'silent_credential';
+
+export type UsageAnomalySeverity = 'warning' | 'critical';
+
+export interface UsageAnomaly {
+  id: string;
+  type: UsageAnomalyType;
+  severity: UsageAnomalySeverity;
+  /** 受影响的凭证；全局 tokens 突增时为空 */
+  credential?: CredentialDescriptor;
+  windowStart: number;
+  windowEnd: number;
+  /** token_spike：窗口内 tokens；failure_burst：失败率（0-1）；silent_credential：静默时长（毫秒） */
+  value: number;
+  /** token_spike：基线窗口平均 tokens；failure_burst：基线失败率；silent_credential：基线平均请求间隔（毫秒） */
+  baseline: number;
+  requests: number;
+  failures: number;
+  /** 最近一次请求时间（毫秒） */
+  lastSeen: number;
+}
+
+export interface UsageAnomalyOptions {
+  /** 检测窗口长度，同时也是基线分桶的粒度 */
+  windowMs: number;
+  /** 基线覆盖的时长（检测窗口之前） */
+  baselineMs: number;
+  /** 突增判定：超过基线均值的标准差倍数 */
+  spikeStdDevs: number;
+  /** 突增判定：至少为基线均值的倍数 */
+  spikeMinRatio: number;
+  /** 突增判定：窗口内 tokens 下限，避免低流量时误报 */
+  spikeMinTokens: number;
+  /** 基线中至少有多少个有流量的窗口才参与突增判定 */
+  spikeMinActiveWindows: number;
+  failureMinRequests: number;
+  failureRate: number;
+  failureCriticalRate: number;
+  /** 失败率需比基线高出的幅度，长期失败的凭证不算突发 */
+  failureRateIncrease: number;
+  silentMinRequests: number;
+  silentMinMs: number;
+  /** 静默时长至少为基线平均请求间隔的倍数 */
+  silentGapFactor: number;
+  /** 静默期间其他凭证至少处理的请求数 */
+  silentMinOtherRequests: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_USAGE_ANOMALY_OPTIONS: UsageAnomalyOptions = {
+  windowMs: 15 * MINUTE_MS,
+  baselineMs: 24 * 60 * MINUTE_MS,
+  spikeStdDevs: 3,
+  spikeMinRatio: 3,
+  spikeMinTokens: 50_000,
+  spikeMinActiveWindows: 4,
+  failureMinRequests: 5,
+  failureRate: 0.5,
+  failureCriticalRate: 0.9,
+  failureRateIncrease: 0.25,
+  silentMinRequests: 20,
+  silentMinMs: 60 * MINUTE_MS,
+  silentGapFactor: 6,
+  silentMinOtherRequests: 5
+};
+
+const TYPE_ORDER: Record<UsageAnomalyType, number> = {
+  failure_burst: 0,
+  silent_credential: 1,
+  token_spike: 2
+};
+
+interface SeriesStats {
+  credential?: CredentialDescriptor;
+  baselineBuckets: Float64Array;
+  baselineRequests: number;
+  baselineFailures: number;
+  windowTokens: number;
+  windowRequests: number;
+  windowFailures: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+const createSeries = (bucketCount: number, credential?: CredentialDescriptor): SeriesStats => ({
+  credential,
+  baselineBuckets: new Float64Array(bucketCount),
+  baselineRequests: 0,
+  baselineFailures: 0,
+  windowTokens: 0,
+  windowRequests: 0,
+  windowFailures: 0,
+  firstSeen: Number.POSITIVE_INFINITY,
+  lastSeen: 0
+});
+
+// 第一个大于 target 的位置
+const upperBound = (sorted: number[], target: number) => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sorted[mid] <= target) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+const detectSpike = (
+  series: SeriesStats,
+  options: UsageAnomalyOptions,
+  windowStart: number,
+  now: number
+): UsageAnomaly | null => {
+  const buckets = series.baselineBuckets;
+  let sum = 0;
+  let active = 0;
+  buckets.forEach((value) => {
+    sum += value;
+    if (value > 0) active += 1;
+  });
+  if (active < options.spikeMinActiveWindows || series.windowTokens < options.spikeMinTokens) return null;
+
+  const mean = sum / buckets.length;
+  let variance = 0;
+  buckets.forEach((value) => {
+    variance += (value - mean) ** 2;
+  });
+  const stdDev = Math.sqrt(variance / buckets.length);
+  if (series.windowTokens <= mean + options.spikeStdDevs * stdDev) return null;
+  if (series.windowTokens < mean * options.spikeMinRatio) return null;
+
+  return {
+    id: `token_spike:${series.credential?.id ?? 'global'}`,
+    type: 'token_spike',
+    severity: series.windowTokens >= mean * options.spikeMinRatio * 3 ? 'critical' : 'warning',
+    credential: series.credential,
+    windowStart,
+    windowEnd: now,
+    value: series.windowTokens,
+    baseline: mean,
+    requests: series.windowRequests,
+    failures: series.windowFailures,
+    lastSeen: series.lastSeen
+  };
+};
+
+const detectFailureBurst = (
+  series: SeriesStats,
+  options: UsageAnomalyOptions,
+  windowStart: number,
+  now: number
+): UsageAnomaly | null => {
+  if (series.windowRequests < options.failureMinRequests) return null;
+  const rate = series.windowFailures / series.windowRequests;
+  const baselineRate = series.baselineRequests > 0 ? series.baselineFailures / series.baselineRequests : 0;
+  if (rate < options.failureRate || rate - baselineRate < options.failureRateIncrease) return null;
+
+  return {
+    id: `failure_burst:${series.credential?.id ?? 'global'}`,
+    type: 'failure_burst',
+    severity: rate >= options.failureCriticalRate ? 'critical' : 'warning',
+    credential: series.credential,
+    windowStart,
+    windowEnd: now,
+    value: rate,
+    baseline: baselineRate,
+    requests: series.windowRequests,
+    failures: series.windowFailures,
+    lastSeen: series.lastSeen
+  };
+};
+
+const detectSilence = (
+  series: SeriesStats,
+  options: UsageAnomalyOptions,
+  globalTimestamps: number[],
+  now: number
+): UsageAnomaly | null => {
+  if (series.windowRequests > 0 || series.baselineRequests < options.silentMinRequests) return null;
+  const averageGap = (series.lastSeen - series.firstSeen) / Math.max(series.baselineRequests - 1, 1);
+  const threshold = Math.max(options.silentMinMs, averageGap * options.silentGapFactor);
+  const silence = now - series.lastSeen;
+  if (silence < threshold) return null;
+  // 整体空闲时所有凭证都没有请求，不视为单个凭证异常
+  const otherRequests = globalTimestamps.length - upperBound(globalTimestamps, series.lastSeen);
+  if (otherRequests < options.silentMinOtherRequests) return null;
+
+  return {
+    id: `silent_credential:${series.credential?.id ?? 'global'}`,
+    type: 'silent_credential',
+    severity: silence >= threshold * 4 ? 'critical' : 'warning',
+    credential: series.credential,
+    windowStart: series.lastSeen,
+    windowEnd: now,
+    value: silence,
+    baseline: averageGap,
+    requests: series.baselineRequests,
+    failures: series.baselineFailures,
+    lastSeen: series.lastSeen
+  };
+};
+
+/**
+ * 检测用量异常，按严重程度与类型排序
+ */
+export function detectUsageAnomalies(
+  usageData: any,
+  credentialIndex: CredentialIndex,
+  overrides: Partial<UsageAnomalyOptions> = {},
+  now: number = Date.now()
+): UsageAnomaly[] {
+  const options = { ...DEFAULT_USAGE_ANOMALY_OPTIONS, ...overrides };
+  const windowStart = now - options.windowMs;
+  const baselineStart = windowStart - options.baselineMs;
+  const bucketCount = Math.max(Math.ceil(options.baselineMs / options.windowMs), 1);
+
+  const global = createSeries(bucketCount);
+  const credentials = new Map<string, SeriesStats>();
+  const globalTimestamps: number[] = [];
+
+  collectUsageDetails(usageData).forEach((detail) => {
+    const timestamp = Date.parse(detail.timestamp);
+    if (Number.isNaN(timestamp) || timestamp < baselineStart || timestamp > now) return;
+    const descriptor = resolveCredential(detail, credentialIndex);
+    let series = credentials.get(descriptor.id);
+    if (!series) {
+      series = createSeries(bucketCount, descriptor);
+      credentials.set(descriptor.id, series);
+    }
+
+    const tokens = extractTotalTokens(detail);
+    const failed = detail.failed === true;
+    globalTimestamps.push(timestamp);
+    [global, series].forEach((stats) => {
+      if (timestamp >= windowStart) {
+        stats.windowTokens += tokens;
+        stats.windowRequests += 1;
+        if (failed) stats.windowFailures += 1;
+      } else {
+        const bucket = Math.min(Math.floor((timestamp - baselineStart) / options.windowMs), bucketCount - 1);
+        stats.baselineBuckets[bucket] += tokens;
+        stats.baselineRequests += 1;
+        if (failed) stats.baselineFailures += 1;
+      }
+      stats.firstSeen = Math.min(stats.firstSeen, timestamp);
+      stats.lastSeen = Math.max(stats.lastSeen, timestamp);
+    });
+  });
+  globalTimestamps.sort((a, b) => a - b);
+
+  const anomalies: UsageAnomaly[] = [];
+  const globalSpike = detectSpike(global, options, windowStart, now);
+  if (globalSpike) anomalies.push(globalSpike);
+  credentials.forEach((series) => {
+    [
+      detectSpike(series, options, windowStart, now),
+      detectFailureBurst(series, options, windowStart, now),
+      detectSilence(series, options, globalTimestamps, now)
+    ].forEach((anomaly) => {
+      if (anomaly) anomalies.push(anomaly);
+    });
+  });
+
+  return anomalies.sort(
+    (a, b) =>
+      (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1) ||
+      TYPE_ORDER[a.type] - TYPE_ORDER[b.type] ||
+      b.lastSeen - a.lastSeen
+  );
+}
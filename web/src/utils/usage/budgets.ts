@@ -0,0 +1,224 @@
+/**
+ * 用量预算：按客户端 API Key、模型或全局设置每日 / 每月的 tokens 与费用上限
+ * 预算定义以 `usage-budgets` 键保存在 config.yaml 中；已提醒过的阈值记录在 localStorage，
+ * 同一周期内每个阈值只提醒一次
+ */
+
+import { maskApiKey } from '../format';
+import {
+  calculateCost,
+  extractTotalTokens,
+  matchesModelPattern,
+  type ModelPrice,
+  type UsageTimeRange
+} from '../usage';
+
+export type UsageBudgetScope = 'global' | 'apiKey' | 'model';
+
+export type UsageBudgetPeriod = 'daily' | 'monthly';
+
+export interface UsageBudget {
+  id: string;
+  name: string;
+  scope: UsageBudgetScope;
+  /** scope 为 apiKey 时为客户端 API Key，为 model 时为模型名（支持通配符） */
+  target?: string;
+  period: UsageBudgetPeriod;
+  tokenLimit?: number;
+  /** 费用上限（USD） */
+  costLimit?: number;
+}
+
+export type UsageBudgetAlertLevel = 50 | 80 | 100;
+
+export interface UsageBudgetStatus {
+  budget: UsageBudget;
+  range: UsageTimeRange;
+  requests: number;
+  tokens: number;
+  cost: number;
+  /** 已用比例（0-1+），未设置对应上限时为 null */
+  tokenRatio: number | null;
+  costRatio: number | null;
+  /** tokens 与费用中较高的已用比例 */
+  ratio: number;
+  /** 已达到的最高提醒阈值 */
+  level: UsageBudgetAlertLevel | null;
+}
+
+/** 记录每个预算在当前周期已提醒的最高阈值 */
+export type UsageBudgetAlertState = Record<string, { periodStart: number; level: UsageBudgetAlertLevel }>;
+
+export const USAGE_BUDGETS_CONFIG_KEY = 'usage-budgets';
+export const USAGE_BUDGET_ALERT_LEVELS: UsageBudgetAlertLevel[] = [50, 80, 100];
+export const USAGE_BUDGET_SCOPES: UsageBudgetScope[] = ['global', 'apiKey', 'model'];
+export const USAGE_BUDGET_PERIODS: UsageBudgetPeriod[] = ['daily', 'monthly'];
+
+const ALERT_STATE_STORAGE_KEY = 'cli-proxy-usage-budget-alerts';
+
+const toPositiveLimit = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? num : undefined;
+};
+
+/**
+ * 规范化预算列表（兼容以 id 为键的对象形式），丢弃无上限或缺少目标的条目
+ */
+export function normalizeUsageBudgets(raw: unknown): UsageBudget[] {
+  if (!raw || typeof raw !== 'object') return [];
+  const entries: [string, any][] = Array.isArray(raw)
+    ? raw.map((item, index) => [String(item?.id ?? index), item])
+    : Object.entries(raw as Record<string, any>);
+
+  const budgets: UsageBudget[] = [];
+  entries.forEach(([id, item]) => {
+    if (!item || typeof item !== 'object') return;
+    const scope: UsageBudgetScope = USAGE_BUDGET_SCOPES.includes(item.scope) ? item.scope : 'global';
+    const period: UsageBudgetPeriod = USAGE_BUDGET_PERIODS.includes(item.period) ? item.period : 'monthly';
+    const target = typeof item.target === 'string' ? item.target.trim() : '';
+    const tokenLimit = toPositiveLimit(item.tokenLimit);
+    const costLimit = toPositiveLimit(item.costLimit);
+    if (scope !== 'global' && !target) return;
+    if (tokenLimit === undefined && costLimit === undefined) return;
+    budgets.push({
+      id: String(item.id || id),
+      name: typeof item.name === 'string' ? item.name.trim() : '',
+      scope,
+      ...(scope !== 'global' ? { target } : {}),
+      period,
+      ...(tokenLimit !== undefined ? { tokenLimit } : {}),
+      ...(costLimit !== undefined ? { costLimit } : {})
+    });
+  });
+  return budgets;
+}
+
+/**
+ * 序列化为以 id 为键的对象，便于手工编辑 config.yaml
+ */
+export function serializeUsageBudgets(budgets: UsageBudget[]): Record<string, Omit<UsageBudget, 'id'>> {
+  return Object.fromEntries(budgets.map(({ id, ...rest }) => [id, rest]));
+}
+
+/**
+ * 预算周期（本地时间）：每日从 0 点开始，每月从 1 日开始
+ */
+export function getUsageBudgetPeriodRange(period: UsageBudgetPeriod, now: number = Date.now()): UsageTimeRange {
+  const date = new Date(now);
+  if (period === 'daily') {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const end = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+    return { start: start.getTime(), end: end.getTime() };
+  }
+  const start = new Date(date.getFullYear(), date.getMonth(), 1);
+  const end = new Date(date.getFullYear(), date.getMonth() + 1, 1);
+  return { start: start.getTime(), end: end.getTime() };
+}
+
+/**
+ * 预算的展示名称：未命名时根据范围生成（API Key 会被遮罩）
+ */
+export function getUsageBudgetLabel(budget: UsageBudget): string {
+  if (budget.name) return budget.name;
+  if (budget.scope === 'apiKey') return maskApiKey(budget.target || '');
+  if (budget.scope === 'model') return budget.target || '';
+  return '*';
+}
+
+/**
+ * 已用比例对应的最高提醒阈值，未达到 50% 时返回 null
+ */
+export function getUsageBudgetAlertLevel(ratio: number): UsageBudgetAlertLevel | null {
+  let level: UsageBudgetAlertLevel | null = null;
+  USAGE_BUDGET_ALERT_LEVELS.forEach((threshold) => {
+    if (ratio * 100 >= threshold) level = threshold;
+  });
+  return level;
+}
+
+/**
+ * 计算各预算在当前周期内的用量与已用比例
+ */
+export function evaluateUsageBudgets(
+  usageData: any,
+  budgets: UsageBudget[],
+  modelPrices: Record<string, ModelPrice>,
+  now: number = Date.now()
+): UsageBudgetStatus[] {
+  const apis: Record<string, any> = usageData?.apis || {};
+
+  return budgets.map((budget) => {
+    const range = getUsageBudgetPeriodRange(budget.period, now);
+    let requests = 0;
+    let tokens = 0;
+    let cost = 0;
+
+    Object.entries(apis).forEach(([apiKey, apiEntry]) => {
+      if (budget.scope === 'apiKey' && apiKey !== budget.target) return;
+      const models: Record<string, any> = apiEntry?.models || {};
+      Object.entries(models).forEach(([modelName, modelEntry]) => {
+        if (budget.scope === 'model' && !matchesModelPattern(modelName, budget.target || '')) return;
+        const details = Array.isArray(modelEntry?.details) ? modelEntry.details : [];
+        details.forEach((detail: any) => {
+          const timestamp = Date.parse(detail?.timestamp);
+          if (Number.isNaN(timestamp) || timestamp < range.start || timestamp >= range.end) return;
+          requests += 1;
+          tokens += extractTotalTokens(detail);
+          cost += calculateCost({ ...detail, __modelName: modelName }, modelPrices);
+        });
+      });
+    });
+
+    const tokenRatio = budget.tokenLimit ? tokens / budget.tokenLimit : null;
+    const costRatio = budget.costLimit ? cost / budget.costLimit : null;
+    const ratio = Math.max(tokenRatio ?? 0, costRatio ?? 0);
+    return { budget, range, requests, tokens, cost, tokenRatio, costRatio, ratio, level: getUsageBudgetAlertLevel(ratio) };
+  });
+}
+
+export function loadUsageBudgetAlertState(): UsageBudgetAlertState {
+  try {
+    if (typeof localStorage === 'undefined') return {};
+    const raw = localStorage.getItem(ALERT_STATE_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveUsageBudgetAlertState(state: UsageBudgetAlertState): void {
+  try {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(ALERT_STATE_STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    console.warn('保存预算提醒状态失败');
+  }
+}
+
+/**
+ * 找出本周期内新达到的提醒阈值，返回待提醒的预算与更新后的提醒状态
+ */
+export function collectUsageBudgetAlerts(
+  statuses: UsageBudgetStatus[],
+  state: UsageBudgetAlertState
+): { alerts: UsageBudgetStatus[]; nextState: UsageBudgetAlertState } {
+  const alerts: UsageBudgetStatus[] = [];
+  const nextState: UsageBudgetAlertState = {};
+
+  statuses.forEach((status) => {
+    const { budget, range, level } = status;
+    const previous = state[budget.id];
+    const previousLevel = previous && previous.periodStart === range.start ? previous.level : null;
+    if (level !== null && (previousLevel === null || level > previousLevel)) {
+      alerts.push(status);
+    }
+    const recorded = level ?? previousLevel;
+    if (recorded !== null) {
+      nextState[budget.id] = { periodStart: range.start, level: Math.max(recorded, previousLevel ?? 0) as UsageBudgetAlertLevel };
+    }
+  });
+
+  return { alerts, nextState };
+}
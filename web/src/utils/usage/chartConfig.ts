@@ -87,7 +87,7 @@ export function buildChartOptions({
             if (period === 'hour') {
               const [md, time] = raw.split(' ');
               if (!time) return raw;
-              if (time.startsWith('00:')) {
+              if (time === '00:00') {
                 return md ? [md, time] : time;
               }
               return time;
@@ -131,6 +131,64 @@ export function buildChartOptions({
   };
 }
 
+export interface BarChartConfigOptions {
+  isDark: boolean;
+  isMobile: boolean;
+  formatValue?: (value: number) => string;
+}
+
+/**
+ * Build horizontal bar chart options (used for per-credential ranking)
+ */
+export function buildHorizontalBarOptions({
+  isDark,
+  isMobile,
+  formatValue
+}: BarChartConfigOptions): ChartOptions<'bar'> {
+  const tickFontSize = isMobile ? 10 : 12;
+  const gridColor = isDark ? 'rgba(255, 255, 255, 0.06)' : 'rgba(17, 24, 39, 0.06)';
+  const tickColor = isDark ? 'rgba(255, 255, 255, 0.72)' : 'rgba(17, 24, 39, 0.72)';
+  const tooltipBg = isDark ? 'rgba(17, 24, 39, 0.92)' : 'rgba(255, 255, 255, 0.98)';
+  const tooltipTitle = isDark ? '#ffffff' : '#111827';
+  const tooltipBody = isDark ? 'rgba(255, 255, 255, 0.86)' : '#374151';
+  const tooltipBorder = isDark ? 'rgba(255, 255, 255, 0.10)' : 'rgba(17, 24, 39, 0.10)';
+
+  return {
+    indexAxis: 'y',
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        backgroundColor: tooltipBg,
+        titleColor: tooltipTitle,
+        bodyColor: tooltipBody,
+        borderColor: tooltipBorder,
+        borderWidth: 1,
+        padding: 10,
+        callbacks: formatValue
+          ? { label: (context) => formatValue(Number(context.parsed.x) || 0) }
+          : undefined
+      }
+    },
+    scales: {
+      x: {
+        beginAtZero: true,
+        grid: { color: gridColor },
+        ticks: {
+          color: tickColor,
+          font: { size: tickFontSize },
+          callback: (value) => (formatValue ? formatValue(Number(value)) : value)
+        }
+      },
+      y: {
+        grid: { display: false },
+        ticks: { color: tickColor, font: { size: tickFontSize } }
+      }
+    }
+  };
+}
+
 /**
  * Calculate minimum chart width for hourly data on mobile devices
  */
@@ -0,0 +1,301 @@
+/**
+ * 按凭证（认证文件 / 提供商 API Key）汇总使用统计
+ * 明细优先通过 auth_index 关联认证文件，其次通过 source 关联配置中的 API Key 与文件名
+ */
+
+import type { AuthFileItem } from '@/types/authFile';
+import type { Config } from '@/types/config';
+import { maskApiKey } from '../format';
+import { escapeCsvValue } from '../helpers';
+import {
+  buildCandidateUsageSourceIds,
+  calculateCost,
+  collectUsageDetails,
+  extractTotalTokens,
+  normalizeUsageSourceId,
+  type ModelPrice,
+  type UsageDetail
+} from '../usage';
+
+export type CredentialKind = 'file' | 'apiKey' | 'unknown';
+
+export interface CredentialDescriptor {
+  id: string;
+  label: string;
+  provider: string;
+  kind: CredentialKind;
+  authIndex?: string;
+  /** 管理页面中对应认证文件或提供商条目的路由 */
+  link?: string;
+}
+
+export interface CredentialIndex {
+  byAuthIndex: Map<string, CredentialDescriptor>;
+  bySource: Map<string, CredentialDescriptor>;
+}
+
+export interface CredentialUsageRow extends CredentialDescriptor {
+  requests: number;
+  successCount: number;
+  failureCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  cost: number;
+  /** 最近一次请求时间（毫秒） */
+  lastUsed: number;
+}
+
+export type CredentialUsageSortKey =
+  | 'label'
+  | 'provider'
+  | 'requests'
+  | 'failureCount'
+  | 'totalTokens'
+  | 'cost'
+  | 'lastUsed';
+
+const normalizeAuthIndex = (value: unknown): string | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value.toString();
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed ? trimmed : null;
+  }
+  return null;
+};
+
+const toNumber = (value: unknown) => {
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? num : 0;
+};
+
+/**
+ * 根据认证文件列表与提供商配置建立凭证索引
+ */
+export function buildCredentialIndex(
+  authFiles: AuthFileItem[],
+  config: Config | null
+): CredentialIndex {
+  const byAuthIndex = new Map<string, CredentialDescriptor>();
+  const bySource = new Map<string, CredentialDescriptor>();
+
+  const registerSources = (descriptor: CredentialDescriptor, sourceIds: string[]) => {
+    sourceIds.forEach((sourceId) => {
+      if (sourceId && !bySource.has(sourceId)) {
+        bySource.set(sourceId, descriptor);
+      }
+    });
+  };
+
+  authFiles.forEach((file) => {
+    if (!file?.name) return;
+    const authIndex = normalizeAuthIndex(file['auth_index'] ?? file.authIndex) ?? undefined;
+    const descriptor: CredentialDescriptor = {
+      id: `file:${file.name}`,
+      label: file.name,
+      provider: String(file.provider || file.type || 'unknown'),
+      kind: 'file',
+      authIndex,
+      link: `/auth-files?search=${encodeURIComponent(file.name)}`
+    };
+    if (authIndex) {
+      byAuthIndex.set(authIndex, descriptor);
+    }
+    const nameWithoutExt = file.name.replace(/\.[^/.]+$/, '');
+    registerSources(descriptor, [
+      normalizeUsageSourceId(file.name),
+      normalizeUsageSourceId(nameWithoutExt),
+      typeof file.email === 'string' ? normalizeUsageSourceId(file.email) : ''
+    ]);
+  });
+
+  const registerKey = (
+    provider: string,
+    link: string,
+    apiKey: string | undefined,
+    prefix?: string,
+    name?: string
+  ) => {
+    if (!apiKey) return;
+    const descriptor: CredentialDescriptor = {
+      id: `key:${provider}:${normalizeUsageSourceId(apiKey)}`,
+      label: name ? `${name} · ${maskApiKey(apiKey)}` : maskApiKey(apiKey),
+      provider,
+      kind: 'apiKey',
+      link
+    };
+    registerSources(descriptor, buildCandidateUsageSourceIds({ apiKey, prefix }));
+  };
+
+  config?.geminiApiKeys?.forEach((item, index) =>
+    registerKey('gemini', `/ai-providers/gemini/${index}`, item.apiKey, item.prefix)
+  );
+  config?.claudeApiKeys?.forEach((item, index) =>
+    registerKey('claude', `/ai-providers/claude/${index}`, item.apiKey, item.prefix)
+  );
+  config?.codexApiKeys?.forEach((item, index) =>
+    registerKey('codex', `/ai-providers/codex/${index}`, item.apiKey, item.prefix)
+  );
+  config?.vertexApiKeys?.forEach((item, index) =>
+    registerKey('vertex', `/ai-providers/vertex/${index}`, item.apiKey, item.prefix)
+  );
+  config?.openaiCompatibility?.forEach((provider, index) => {
+    provider.apiKeyEntries?.forEach((entry) =>
+      registerKey('openai-compatibility', `/ai-providers/openai/${index}`, entry.apiKey, undefined, provider.name)
+    );
+  });
+
+  return { byAuthIndex, bySource };
+}
+
+/**
+ * source 标识的可读形式；原始密钥已被 normalizeUsageSourceId 转为指纹（k:），m: / t: 的内容可直接展示
+ */
+export function describeSourceId(sourceId: string): string {
+  if (sourceId.startsWith('k:')) return `key#${sourceId.slice(2, 10)}`;
+  if (sourceId.startsWith('m:') || sourceId.startsWith('t:')) return sourceId.slice(2);
+  return sourceId;
+}
+
+/**
+ * 解析单条明细对应的凭证；detail.source 需为 collectUsageDetails 规范化后的标识，
+ * 无法关联时以 source 的可读形式作为标识
+ */
+export function resolveCredential(
+  detail: Pick<UsageDetail, 'source' | 'auth_index'>,
+  index: CredentialIndex
+): CredentialDescriptor {
+  const authIndex = normalizeAuthIndex(detail.auth_index);
+  if (authIndex) {
+    const matched = index.byAuthIndex.get(authIndex);
+    if (matched) return matched;
+  }
+
+  const sourceId = detail.source || '';
+  const bySource = sourceId ? index.bySource.get(sourceId) : undefined;
+  if (bySource) return bySource;
+
+  return {
+    id: sourceId ? `source:${sourceId}` : `auth:${authIndex ?? ''}`,
+    label: sourceId ? describeSourceId(sourceId) : authIndex ? `#${authIndex}` : '-',
+    provider: 'unknown',
+    kind: 'unknown',
+    authIndex: authIndex ?? undefined
+  };
+}
+
+/**
+ * 按凭证汇总请求数、tokens 与成本
+ */
+export function computeCredentialUsage(
+  usageData: any,
+  index: CredentialIndex,
+  modelPrices: Record<string, ModelPrice>
+): CredentialUsageRow[] {
+  const rows = new Map<string, CredentialUsageRow>();
+
+  collectUsageDetails(usageData).forEach((detail) => {
+    const descriptor = resolveCredential(detail, index);
+    let row = rows.get(descriptor.id);
+    if (!row) {
+      row = {
+        ...descriptor,
+        requests: 0,
+        successCount: 0,
+        failureCount: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cachedTokens: 0,
+        reasoningTokens: 0,
+        totalTokens: 0,
+        cost: 0,
+        lastUsed: 0
+      };
+      rows.set(descriptor.id, row);
+    }
+
+    const tokens: Record<string, unknown> = detail.tokens || {};
+    row.requests += 1;
+    if (detail.failed === true) {
+      row.failureCount += 1;
+    } else {
+      row.successCount += 1;
+    }
+    row.inputTokens += toNumber(tokens.input_tokens);
+    row.outputTokens += toNumber(tokens.output_tokens);
+    row.cachedTokens += Math.max(toNumber(tokens.cached_tokens), toNumber(tokens.cache_tokens));
+    row.reasoningTokens += toNumber(tokens.reasoning_tokens);
+    row.totalTokens += extractTotalTokens(detail);
+    row.cost += calculateCost(detail, modelPrices);
+    const timestamp = Date.parse(detail.timestamp);
+    if (!Number.isNaN(timestamp) && timestamp > row.lastUsed) {
+      row.lastUsed = timestamp;
+    }
+  });
+
+  return Array.from(rows.values());
+}
+
+export function sortCredentialUsage(
+  rows: CredentialUsageRow[],
+  sortKey: CredentialUsageSortKey,
+  direction: 'asc' | 'desc'
+): CredentialUsageRow[] {
+  const factor = direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const left = a[sortKey];
+    const right = b[sortKey];
+    const result =
+      typeof left === 'string' && typeof right === 'string'
+        ? left.localeCompare(right)
+        : Number(left) - Number(right);
+    return result * factor || a.label.localeCompare(b.label);
+  });
+}
+
+/**
+ * 导出为 CSV（首行为表头）
+ */
+export function credentialUsageToCsv(rows: CredentialUsageRow[]): string {
+  const header = [
+    'credential',
+    'provider',
+    'type',
+    'auth_index',
+    'requests',
+    'success',
+    'failure',
+    'input_tokens',
+    'output_tokens',
+    'cached_tokens',
+    'reasoning_tokens',
+    'total_tokens',
+    'cost_usd',
+    'last_used'
+  ];
+  const lines = rows.map((row) =>
+    [
+      row.label,
+      row.provider,
+      row.kind,
+      row.authIndex ?? '',
+      row.requests,
+      row.successCount,
+      row.failureCount,
+      row.inputTokens,
+      row.outputTokens,
+      row.cachedTokens,
+      row.reasoningTokens,
+      row.totalTokens,
+      row.cost.toFixed(6),
+      row.lastUsed ? new Date(row.lastUsed).toISOString() : ''
+    ]
+      .map(escapeCsvValue)
+      .join(',')
+  );
+  return [header.join(','), ...lines].join('\n');
+}
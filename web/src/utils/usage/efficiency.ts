@@ -0,0 +1,191 @@
+/**
+ * token 效率指标：缓存命中率、推理 tokens 占输出比例、平均每请求 tokens 与输出 / 输入比
+ * 可按模型或凭证分组，并按时间粒度生成趋势序列
+ */
+
+import {
+  buildGranularityBuckets,
+  collectUsageDetails,
+  extractDetailTokenCounts,
+  extractTotalTokens,
+  floorToGranularity,
+  type UsageDetail,
+  type UsageGranularity,
+  type UsageTimeRange
+} from '../usage';
+import { resolveCredential, type CredentialIndex } from './credentials';
+
+export type TokenEfficiencyMetric = 'cacheHitRatio' | 'reasoningShare' | 'avgTokensPerRequest' | 'outputInputRatio';
+
+export type TokenEfficiencyGroupBy = 'model' | 'credential';
+
+export interface TokenEfficiencyTotals {
+  requests: number;
+  /** 提示侧 tokens（含缓存读取） */
+  inputTokens: number;
+  cachedTokens: number;
+  /** 输出侧 tokens（含推理） */
+  outputTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+}
+
+export interface TokenEfficiencyRow extends TokenEfficiencyTotals {
+  key: string;
+  label: string;
+  provider?: string;
+  /** 分母为 0 时为 null */
+  cacheHitRatio: number | null;
+  reasoningShare: number | null;
+  avgTokensPerRequest: number | null;
+  outputInputRatio: number | null;
+}
+
+export interface TokenEfficiencySeries {
+  key: string;
+  label: string;
+  data: Array<number | null>;
+}
+
+export const TOKEN_EFFICIENCY_METRICS: TokenEfficiencyMetric[] = [
+  'cacheHitRatio',
+  'reasoningShare',
+  'avgTokensPerRequest',
+  'outputInputRatio'
+];
+
+export const TOKEN_EFFICIENCY_GROUPS: TokenEfficiencyGroupBy[] = ['model', 'credential'];
+
+/** 比例类指标（0-1），其余为绝对值 */
+export const TOKEN_EFFICIENCY_RATIO_METRICS: TokenEfficiencyMetric[] = ['cacheHitRatio', 'reasoningShare'];
+
+const OVERALL_KEY = '__all__';
+
+const emptyTotals = (): TokenEfficiencyTotals => ({
+  requests: 0,
+  inputTokens: 0,
+  cachedTokens: 0,
+  outputTokens: 0,
+  reasoningTokens: 0,
+  totalTokens: 0
+});
+
+// 部分提供商的 input_tokens 不含缓存读取，此时把缓存读取计入提示侧；
+// 推理 tokens 单独上报时同理计入输出侧，保证比例不超过 1
+const addDetail = (totals: TokenEfficiencyTotals, detail: UsageDetail) => {
+  const counts = extractDetailTokenCounts(detail);
+  totals.requests += 1;
+  totals.inputTokens += counts.inputTokens >= counts.cachedTokens ? counts.inputTokens : counts.inputTokens + counts.cachedTokens;
+  totals.cachedTokens += counts.cachedTokens;
+  totals.outputTokens += counts.reasoningInOutput ? counts.outputTokens : counts.outputTokens + counts.reasoningTokens;
+  totals.reasoningTokens += counts.reasoningTokens;
+  totals.totalTokens += extractTotalTokens(detail);
+};
+
+const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : null);
+
+/**
+ * 由汇总的 tokens 计算单项指标
+ */
+export function getTokenEfficiencyValue(totals: TokenEfficiencyTotals, metric: TokenEfficiencyMetric): number | null {
+  switch (metric) {
+    case 'cacheHitRatio':
+      return ratio(totals.cachedTokens, totals.inputTokens);
+    case 'reasoningShare':
+      return ratio(totals.reasoningTokens, totals.outputTokens);
+    case 'avgTokensPerRequest':
+      return ratio(totals.totalTokens, totals.requests);
+    case 'outputInputRatio':
+      return ratio(totals.outputTokens, totals.inputTokens);
+  }
+}
+
+const toRow = (key: string, label: string, totals: TokenEfficiencyTotals, provider?: string): TokenEfficiencyRow => ({
+  key,
+  label,
+  provider,
+  ...totals,
+  cacheHitRatio: getTokenEfficiencyValue(totals, 'cacheHitRatio'),
+  reasoningShare: getTokenEfficiencyValue(totals, 'reasoningShare'),
+  avgTokensPerRequest: getTokenEfficiencyValue(totals, 'avgTokensPerRequest'),
+  outputInputRatio: getTokenEfficiencyValue(totals, 'outputInputRatio')
+});
+
+const resolveGroup = (detail: UsageDetail, groupBy: TokenEfficiencyGroupBy, credentialIndex: CredentialIndex) => {
+  if (groupBy === 'model') {
+    const model = detail.__modelName || 'Unknown';
+    return { key: model, label: model, provider: undefined };
+  }
+  const descriptor = resolveCredential(detail, credentialIndex);
+  return { key: descriptor.id, label: descriptor.label, provider: descriptor.provider };
+};
+
+/**
+ * 按模型或凭证汇总效率指标，分组按总 tokens 降序
+ */
+export function computeTokenEfficiency(
+  usageData: any,
+  groupBy: TokenEfficiencyGroupBy,
+  credentialIndex: CredentialIndex
+): { overall: TokenEfficiencyRow; rows: TokenEfficiencyRow[] } {
+  const overall = emptyTotals();
+  const groups = new Map<string, { label: string; provider?: string; totals: TokenEfficiencyTotals }>();
+
+  collectUsageDetails(usageData).forEach((detail) => {
+    const group = resolveGroup(detail, groupBy, credentialIndex);
+    let entry = groups.get(group.key);
+    if (!entry) {
+      entry = { label: group.label, provider: group.provider, totals: emptyTotals() };
+      groups.set(group.key, entry);
+    }
+    addDetail(entry.totals, detail);
+    addDetail(overall, detail);
+  });
+
+  const rows = Array.from(groups.entries())
+    .map(([key, entry]) => toRow(key, entry.label, entry.totals, entry.provider))
+    .sort((a, b) => b.totalTokens - a.totalTokens);
+
+  return { overall: toRow(OVERALL_KEY, '', overall), rows };
+}
+
+/**
+ * 生成整体与指定分组的指标趋势；无请求的时间桶为 null，图表中显示为断点
+ */
+export function buildTokenEfficiencySeries(
+  usageData: any,
+  groupBy: TokenEfficiencyGroupBy,
+  credentialIndex: CredentialIndex,
+  metric: TokenEfficiencyMetric,
+  range: UsageTimeRange,
+  granularity: UsageGranularity,
+  groups: Array<Pick<TokenEfficiencyRow, 'key' | 'label'>>
+): { labels: string[]; overall: TokenEfficiencySeries; groups: TokenEfficiencySeries[] } {
+  const { labels, bucketIndex } = buildGranularityBuckets(range, granularity);
+  const createBuckets = () => labels.map(() => emptyTotals());
+  const overallBuckets = createBuckets();
+  const groupBuckets = new Map(groups.map((group) => [group.key, createBuckets()]));
+
+  collectUsageDetails(usageData).forEach((detail) => {
+    const timestamp = Date.parse(detail.timestamp);
+    if (Number.isNaN(timestamp) || timestamp < range.start || timestamp > range.end) return;
+    const index = bucketIndex.get(floorToGranularity(timestamp, granularity));
+    if (index === undefined) return;
+    addDetail(overallBuckets[index], detail);
+    const buckets = groupBuckets.get(resolveGroup(detail, groupBy, credentialIndex).key);
+    if (buckets) addDetail(buckets[index], detail);
+  });
+
+  const toData = (buckets: TokenEfficiencyTotals[]) =>
+    buckets.map((totals) => (totals.requests > 0 ? getTokenEfficiencyValue(totals, metric) : null));
+
+  return {
+    labels,
+    overall: { key: OVERALL_KEY, label: '', data: toData(overallBuckets) },
+    groups: groups.map((group) => ({
+      key: group.key,
+      label: group.label,
+      data: toData(groupBuckets.get(group.key) ?? createBuckets())
+    }))
+  };
+}
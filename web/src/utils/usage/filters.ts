@@ -0,0 +1,115 @@
+/**
+ * 使用统计全局筛选：可选项收集与 URL 查询参数编解码
+ * 筛选条件写入 URL，便于收藏或分享当前视图
+ */
+
+import {
+  collectUsageDetails,
+  getModelNamesFromUsage,
+  maskUsageSensitiveValue,
+  normalizeUsageSourceId,
+  type UsageFilter,
+  type UsageStatusFilter
+} from '../usage';
+import { describeSourceId, type CredentialIndex } from './credentials';
+
+export interface UsageFilterOption {
+  value: string;
+  label: string;
+}
+
+export interface UsageFilterOptions {
+  models: UsageFilterOption[];
+  sources: UsageFilterOption[];
+  authIndexes: UsageFilterOption[];
+  endpoints: UsageFilterOption[];
+}
+
+/** 各筛选字段对应的 URL 查询参数名 */
+export const USAGE_FILTER_PARAMS: Record<keyof UsageFilter, string> = {
+  model: 'model',
+  source: 'source',
+  authIndex: 'auth',
+  endpoint: 'endpoint',
+  status: 'status'
+};
+
+export const USAGE_STATUS_FILTERS: UsageStatusFilter[] = ['success', 'failure'];
+
+const USAGE_FILTER_KEYS = Object.keys(USAGE_FILTER_PARAMS) as Array<keyof UsageFilter>;
+
+const sortOptions = (options: Iterable<UsageFilterOption>) =>
+  Array.from(options).sort((a, b) => a.label.localeCompare(b.label));
+
+/**
+ * 从 URL 查询参数解析筛选条件，忽略空值与无效的状态值
+ */
+export function parseUsageFilterParams(params: URLSearchParams): UsageFilter {
+  const filter: UsageFilter = {};
+  USAGE_FILTER_KEYS.forEach((key) => {
+    const value = params.get(USAGE_FILTER_PARAMS[key])?.trim();
+    if (!value) return;
+    if (key === 'status') {
+      if ((USAGE_STATUS_FILTERS as string[]).includes(value)) {
+        filter.status = value as UsageStatusFilter;
+      }
+      return;
+    }
+    filter[key] = value;
+  });
+  return filter;
+}
+
+/**
+ * 将筛选条件写入查询参数，保留其他无关参数
+ */
+export function applyUsageFilterParams(params: URLSearchParams, filter: UsageFilter): URLSearchParams {
+  const next = new URLSearchParams(params);
+  USAGE_FILTER_KEYS.forEach((key) => {
+    const value = filter[key];
+    if (value) {
+      next.set(USAGE_FILTER_PARAMS[key], value);
+    } else {
+      next.delete(USAGE_FILTER_PARAMS[key]);
+    }
+  });
+  return next;
+}
+
+/**
+ * 从未筛选的 usage 数据中收集各字段的可选项，source / auth_index 通过凭证索引显示为可读名称
+ */
+export function buildUsageFilterOptions(usageData: any, credentialIndex: CredentialIndex): UsageFilterOptions {
+  const sources = new Map<string, UsageFilterOption>();
+  const authIndexes = new Map<string, UsageFilterOption>();
+  const endpoints = new Map<string, UsageFilterOption>();
+
+  Object.keys((usageData?.apis || {}) as Record<string, unknown>).forEach((endpoint) => {
+    const value = normalizeUsageSourceId(endpoint);
+    if (value && !endpoints.has(value)) {
+      endpoints.set(value, { value, label: maskUsageSensitiveValue(endpoint) });
+    }
+  });
+
+  collectUsageDetails(usageData).forEach((detail) => {
+    if (detail.source && !sources.has(detail.source)) {
+      const label = credentialIndex.bySource.get(detail.source)?.label ?? describeSourceId(detail.source);
+      sources.set(detail.source, { value: detail.source, label });
+    }
+    const authIndex = String(detail.auth_index ?? '').trim();
+    if (authIndex && !authIndexes.has(authIndex)) {
+      const descriptor = credentialIndex.byAuthIndex.get(authIndex);
+      authIndexes.set(authIndex, {
+        value: authIndex,
+        label: descriptor ? `${descriptor.label} (#${authIndex})` : `#${authIndex}`
+      });
+    }
+  });
+
+  return {
+    models: getModelNamesFromUsage(usageData).map((model) => ({ value: model, label: model })),
+    sources: sortOptions(sources.values()),
+    authIndexes: sortOptions(authIndexes.values()),
+    endpoints: sortOptions(endpoints.values())
+  };
+}
@@ -0,0 +1,269 @@
+/**
+ * 使用统计历史（IndexedDB）
+ * 每次获取 /usage 后保存请求明细，服务重启清空统计后仍可与实时数据合并展示
+ */
+
+import { extractTotalTokens, normalizeUsageSourceId } from '../usage';
+import type { UsageDetail } from '../usage';
+
+export interface UsageHistoryRecord {
+  /** 去重键：timestamp + source + auth_index */
+  id: string;
+  /** 请求时间（毫秒），用于按时间查询与清理 */
+  time: number;
+  endpoint: string;
+  model: string;
+  detail: UsageDetail;
+}
+
+export interface UsageHistoryStats {
+  count: number;
+  oldest?: number;
+  newest?: number;
+}
+
+export interface UsageHistorySyncResult {
+  /** 合并历史记录后的 usage 数据 */
+  usage: any;
+  stats: UsageHistoryStats | null;
+}
+
+export const USAGE_HISTORY_RETENTION_OPTIONS = [7, 30, 90, 180, 365];
+export const DEFAULT_USAGE_HISTORY_RETENTION_DAYS = 30;
+
+const DB_NAME = 'cli-proxy-usage-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'details';
+const TIME_INDEX = 'time';
+const RETENTION_STORAGE_KEY = 'cli-proxy-usage-history-retention-days';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const waitForTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('transaction aborted'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex(TIME_INDEX, 'time');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      // 允许下次调用时重试
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+export function buildUsageHistoryKey(detail: Pick<UsageDetail, 'timestamp' | 'source' | 'auth_index'>): string {
+  const authIndex = detail.auth_index ?? '';
+  return `${detail.timestamp}|${normalizeUsageSourceId(detail.source)}|${authIndex}`;
+}
+
+/**
+ * 将 usage 数据展开为历史记录（保留原始 source，与 /usage 返回的数据保持一致）
+ */
+export function toUsageHistoryRecords(usageData: any): UsageHistoryRecord[] {
+  const records: UsageHistoryRecord[] = [];
+  const apis = usageData?.apis || {};
+  Object.entries(apis as Record<string, any>).forEach(([endpoint, apiEntry]) => {
+    const models = apiEntry?.models || {};
+    Object.entries(models as Record<string, any>).forEach(([model, modelEntry]) => {
+      const details = Array.isArray(modelEntry?.details) ? modelEntry.details : [];
+      details.forEach((detail: any) => {
+        const time = Date.parse(detail?.timestamp);
+        if (!detail || Number.isNaN(time)) return;
+        const stored: UsageDetail = { ...detail };
+        delete stored.__modelName;
+        records.push({ id: buildUsageHistoryKey(detail), time, endpoint, model, detail: stored });
+      });
+    });
+  });
+  return records;
+}
+
+/**
+ * 把实时数据中没有的历史明细合并进 usage 数据，并同步累加各级汇总字段
+ */
+export function mergeUsageHistory(usageData: any, records: UsageHistoryRecord[]): any {
+  const base = usageData && typeof usageData === 'object' ? usageData : {};
+  const liveKeys = new Set(toUsageHistoryRecords(base).map((record) => record.id));
+  const extra = records.filter((record) => !liveKeys.has(record.id));
+  if (extra.length === 0) {
+    return usageData;
+  }
+
+  const merged = { ...base, apis: { ...(base.apis || {}) } };
+  const clonedApis = new Set<string>();
+  const clonedModels = new Set<string>();
+
+  const increment = (target: any, field: string, value: number, force = false) => {
+    if (force || typeof target[field] === 'number') {
+      target[field] = (Number(target[field]) || 0) + value;
+    }
+  };
+
+  extra.forEach(({ endpoint, model, detail }) => {
+    if (!clonedApis.has(endpoint)) {
+      const previous = merged.apis[endpoint] || {};
+      merged.apis[endpoint] = { ...previous, models: { ...(previous.models || {}) } };
+      clonedApis.add(endpoint);
+    }
+    const apiEntry = merged.apis[endpoint];
+
+    const modelKey = `${endpoint}\u0000${model}`;
+    if (!clonedModels.has(modelKey)) {
+      const previous = apiEntry.models[model] || {};
+      apiEntry.models[model] = {
+        ...previous,
+        details: Array.isArray(previous.details) ? [...previous.details] : []
+      };
+      clonedModels.add(modelKey);
+    }
+    const modelEntry = apiEntry.models[model];
+    modelEntry.details.push(detail);
+
+    const tokens = extractTotalTokens(detail);
+    const successField = detail.failed ? 'failure_count' : 'success_count';
+    [merged, apiEntry, modelEntry].forEach((target) => {
+      increment(target, 'total_requests', 1, true);
+      increment(target, 'total_tokens', tokens, true);
+      increment(target, successField, 1, target === merged);
+    });
+  });
+
+  return merged;
+}
+
+export async function saveUsageHistory(records: UsageHistoryRecord[]): Promise<void> {
+  if (records.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  records.forEach((record) => store.put(record));
+  await waitForTransaction(tx);
+}
+
+export async function loadUsageHistory(sinceMs?: number): Promise<UsageHistoryRecord[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const index = tx.objectStore(STORE_NAME).index(TIME_INDEX);
+  const range = sinceMs !== undefined ? IDBKeyRange.lowerBound(sinceMs) : undefined;
+  return promisifyRequest(index.getAll(range) as IDBRequest<UsageHistoryRecord[]>);
+}
+
+/**
+ * 删除早于 beforeMs 的记录；不传则清空全部历史，返回删除的条数
+ */
+export async function purgeUsageHistory(beforeMs?: number): Promise<number> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  let removed = 0;
+
+  if (beforeMs === undefined) {
+    const countRequest = store.count();
+    countRequest.onsuccess = () => {
+      removed = countRequest.result;
+      store.clear();
+    };
+  } else {
+    const request = store.index(TIME_INDEX).openCursor(IDBKeyRange.upperBound(beforeMs, true));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      cursor.delete();
+      removed += 1;
+      cursor.continue();
+    };
+  }
+
+  await waitForTransaction(tx);
+  return removed;
+}
+
+export async function getUsageHistoryStats(): Promise<UsageHistoryStats> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const store = tx.objectStore(STORE_NAME);
+  const index = store.index(TIME_INDEX);
+  const [count, oldestCursor, newestCursor] = await Promise.all([
+    promisifyRequest(store.count()),
+    promisifyRequest(index.openCursor()),
+    promisifyRequest(index.openCursor(null, 'prev'))
+  ]);
+  return {
+    count,
+    oldest: (oldestCursor?.value as UsageHistoryRecord | undefined)?.time,
+    newest: (newestCursor?.value as UsageHistoryRecord | undefined)?.time
+  };
+}
+
+/**
+ * 保存本次获取的明细、清理过期记录并与历史合并；IndexedDB 不可用时原样返回实时数据
+ */
+export async function syncUsageHistory(usageData: any, retentionDays: number): Promise<UsageHistorySyncResult> {
+  try {
+    const cutoff = Date.now() - retentionDays * DAY_MS;
+    await saveUsageHistory(toUsageHistoryRecords(usageData).filter((record) => record.time >= cutoff));
+    await purgeUsageHistory(cutoff);
+    const records = await loadUsageHistory(cutoff);
+    const stats = await getUsageHistoryStats();
+    return { usage: mergeUsageHistory(usageData, records), stats };
+  } catch (err) {
+    console.warn('Usage history unavailable:', err);
+    return { usage: usageData, stats: null };
+  }
+}
+
+/**
+ * 从 localStorage 加载历史保留天数
+ */
+export function loadUsageHistoryRetention(): number {
+  try {
+    if (typeof localStorage === 'undefined') {
+      return DEFAULT_USAGE_HISTORY_RETENTION_DAYS;
+    }
+    const value = Number(localStorage.getItem(RETENTION_STORAGE_KEY));
+    return USAGE_HISTORY_RETENTION_OPTIONS.includes(value) ? value : DEFAULT_USAGE_HISTORY_RETENTION_DAYS;
+  } catch {
+    return DEFAULT_USAGE_HISTORY_RETENTION_DAYS;
+  }
+}
+
+/**
+ * 保存历史保留天数到 localStorage
+ */
+export function saveUsageHistoryRetention(days: number): void {
+  try {
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
+    localStorage.setItem(RETENTION_STORAGE_KEY, String(days));
+  } catch {
+    console.warn('保存使用统计历史保留天数失败');
+  }
+}
@@ -1,6 +1,141 @@
 // Chart configuration utilities
-export { sparklineOptions, buildChartOptions, getHourChartMinWidth } from './chartConfig';
-export type { ChartConfigOptions } from './chartConfig';
+export {
+  sparklineOptions,
+  buildChartOptions,
+  buildHorizontalBarOptions,
+  getHourChartMinWidth
+} from './chartConfig';
+export type { ChartConfigOptions, BarChartConfigOptions } from './chartConfig';
 
 // Re-export everything from the main usage.ts for backwards compatibility
 export * from '../usage';
+
+// Persistent usage history (IndexedDB)
+export {
+  USAGE_HISTORY_RETENTION_OPTIONS,
+  DEFAULT_USAGE_HISTORY_RETENTION_DAYS,
+  buildUsageHistoryKey,
+  toUsageHistoryRecords,
+  mergeUsageHistory,
+  saveUsageHistory,
+  loadUsageHistory,
+  purgeUsageHistory,
+  getUsageHistoryStats,
+  syncUsageHistory,
+  loadUsageHistoryRetention,
+  saveUsageHistoryRetention
+} from './history';
+export type { UsageHistoryRecord, UsageHistoryStats, UsageHistorySyncResult } from './history';
+
+// Time range presets
+export {
+  USAGE_RANGE_PRESETS,
+  toDateTimeLocalValue,
+  resolveUsageRange,
+  isGranularityAllowed,
+  getDefaultGranularity
+} from './range';
+export type { UsageRangePreset, UsageCustomRange } from './range';
+
+// Per-credential usage
+export {
+  buildCredentialIndex,
+  describeSourceId,
+  resolveCredential,
+  computeCredentialUsage,
+  sortCredentialUsage,
+  credentialUsageToCsv
+} from './credentials';
+export type {
+  CredentialKind,
+  CredentialDescriptor,
+  CredentialIndex,
+  CredentialUsageRow,
+  CredentialUsageSortKey
+} from './credentials';
+
+// Model price tables (presets, import / export, config.yaml sharing)
+export {
+  MODEL_PRICES_CONFIG_KEY,
+  MODEL_PRICE_PRESETS,
+  MODEL_PRICE_PRESET_IDS,
+  serializeModelPricesJson,
+  serializeModelPricesCsv,
+  parseModelPriceImport,
+  extractModelPricesFromConfigYaml,
+  upsertModelPricesInConfigYaml
+} from './prices';
+export type {
+  ModelPricePresetId,
+  ModelPriceImportFormat,
+  ModelPriceImportResult,
+  ModelPriceTableFile
+} from './prices';
+
+// Usage budgets and threshold alerts
+export {
+  USAGE_BUDGETS_CONFIG_KEY,
+  USAGE_BUDGET_ALERT_LEVELS,
+  USAGE_BUDGET_SCOPES,
+  USAGE_BUDGET_PERIODS,
+  normalizeUsageBudgets,
+  serializeUsageBudgets,
+  getUsageBudgetPeriodRange,
+  getUsageBudgetLabel,
+  getUsageBudgetAlertLevel,
+  evaluateUsageBudgets,
+  loadUsageBudgetAlertState,
+  saveUsageBudgetAlertState,
+  collectUsageBudgetAlerts
+} from './budgets';
+export type {
+  UsageBudgetScope,
+  UsageBudgetPeriod,
+  UsageBudget,
+  UsageBudgetAlertLevel,
+  UsageBudgetStatus,
+  UsageBudgetAlertState
+} from './budgets';
+
+// Usage reports (CSV / XLSX / printable HTML)
+export {
+  formatReportDate,
+  buildUsageReport,
+  usageReportToCsv,
+  usageReportToXlsx,
+  usageReportToHtml
+} from './report';
+export type { UsageReportRow, UsageReport, UsageReportLabels, UsageReportChartImage } from './report';
+export { renderUsageReportCharts } from './reportCharts';
+export type { UsageReportChartTitles } from './reportCharts';
+
+// Anomaly detection
+export { DEFAULT_USAGE_ANOMALY_OPTIONS, detectUsageAnomalies } from './anomalies';
+export type { UsageAnomalyType, UsageAnomalySeverity, UsageAnomaly, UsageAnomalyOptions } from './anomalies';
+
+// Global usage filter (URL query params)
+export {
+  USAGE_FILTER_PARAMS,
+  USAGE_STATUS_FILTERS,
+  parseUsageFilterParams,
+  applyUsageFilterParams,
+  buildUsageFilterOptions
+} from './filters';
+export type { UsageFilterOption, UsageFilterOptions } from './filters';
+
+// Token efficiency metrics
+export {
+  TOKEN_EFFICIENCY_METRICS,
+  TOKEN_EFFICIENCY_GROUPS,
+  TOKEN_EFFICIENCY_RATIO_METRICS,
+  getTokenEfficiencyValue,
+  computeTokenEfficiency,
+  buildTokenEfficiencySeries
+} from './efficiency';
+export type {
+  TokenEfficiencyMetric,
+  TokenEfficiencyGroupBy,
+  TokenEfficiencyTotals,
+  TokenEfficiencyRow,
+  TokenEfficiencySeries
+} from './efficiency';
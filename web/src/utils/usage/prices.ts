@@ -0,0 +1,271 @@
+/**
+ * 模型价格表的共享与交换
+ * - 导入 / 导出：本项目 JSON、CSV，以及 LiteLLM 等按 token 计价的公开价格表
+ * - 内置各提供商的入门价格预设（USD / 1M tokens，可能随官方调价过时，导入后请自行核对）
+ * - 以 `model-prices` 键保存在 config.yaml 中，团队成员看到同一份价格表
+ */
+
+import { readConfigJsonEntry, upsertConfigJsonEntry } from '../configYaml';
+import { escapeCsvValue, stripCsvFormulaGuard } from '../helpers';
+import { normalizeModelPrices, type ModelPrice, type ModelPriceTier } from '../usage';
+
+export type ModelPricePresetId = 'anthropic' | 'openai' | 'gemini';
+
+export type ModelPriceImportFormat = 'json' | 'csv' | 'litellm';
+
+export interface ModelPriceImportResult {
+  format: ModelPriceImportFormat;
+  prices: Record<string, ModelPrice>;
+}
+
+export interface ModelPriceTableFile {
+  version: number;
+  exported_at: string;
+  prices: Record<string, ModelPrice>;
+}
+
+/** config.yaml 中保存价格表的顶层键 */
+export const MODEL_PRICES_CONFIG_KEY = 'model-prices';
+
+const MODEL_PRICE_FILE_VERSION = 1;
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+const LONG_CONTEXT_THRESHOLD = 200_000;
+
+export const MODEL_PRICE_PRESETS: Record<ModelPricePresetId, Record<string, ModelPrice>> = {
+  anthropic: {
+    'claude-opus-4-5*': { prompt: 5, completion: 25, cache: 0.5, cacheWrite: 6.25 },
+    'claude-opus-4*': { prompt: 15, completion: 75, cache: 1.5, cacheWrite: 18.75 },
+    'claude-sonnet-4*': {
+      prompt: 3,
+      completion: 15,
+      cache: 0.3,
+      cacheWrite: 3.75,
+      tiers: [{ threshold: LONG_CONTEXT_THRESHOLD, prompt: 6, completion: 22.5, cache: 0.6, cacheWrite: 7.5 }]
+    },
+    'claude-3-7-sonnet*': { prompt: 3, completion: 15, cache: 0.3, cacheWrite: 3.75 },
+    'claude-haiku-4-5*': { prompt: 1, completion: 5, cache: 0.1, cacheWrite: 1.25 },
+    'claude-3-5-haiku*': { prompt: 0.8, completion: 4, cache: 0.08, cacheWrite: 1 }
+  },
+  openai: {
+    'gpt-5*': { prompt: 1.25, completion: 10, cache: 0.125 },
+    'gpt-5-mini*': { prompt: 0.25, completion: 2, cache: 0.025 },
+    'gpt-5-nano*': { prompt: 0.05, completion: 0.4, cache: 0.005 },
+    'gpt-4.1*': { prompt: 2, completion: 8, cache: 0.5 },
+    'gpt-4.1-mini*': { prompt: 0.4, completion: 1.6, cache: 0.1 },
+    'gpt-4o*': { prompt: 2.5, completion: 10, cache: 1.25 },
+    'gpt-4o-mini*': { prompt: 0.15, completion: 0.6, cache: 0.075 },
+    'o3*': { prompt: 2, completion: 8, cache: 0.5 },
+    'o4-mini*': { prompt: 1.1, completion: 4.4, cache: 0.275 }
+  },
+  gemini: {
+    'gemini-2.5-pro*': {
+      prompt: 1.25,
+      completion: 10,
+      cache: 0.31,
+      tiers: [{ threshold: LONG_CONTEXT_THRESHOLD, prompt: 2.5, completion: 15, cache: 0.625 }]
+    },
+    'gemini-2.5-flash*': { prompt: 0.3, completion: 2.5, cache: 0.075 },
+    'gemini-2.5-flash-lite*': { prompt: 0.1, completion: 0.4, cache: 0.025 },
+    'gemini-2.0-flash*': { prompt: 0.1, completion: 0.4, cache: 0.025 }
+  }
+};
+
+export const MODEL_PRICE_PRESET_IDS = Object.keys(MODEL_PRICE_PRESETS) as ModelPricePresetId[];
+
+const sortPrices = (prices: Record<string, ModelPrice>): Record<string, ModelPrice> =>
+  Object.fromEntries(Object.entries(prices).sort(([a], [b]) => a.localeCompare(b)));
+
+export function serializeModelPricesJson(prices: Record<string, ModelPrice>): string {
+  const file: ModelPriceTableFile = {
+    version: MODEL_PRICE_FILE_VERSION,
+    exported_at: new Date().toISOString(),
+    prices: sortPrices(prices)
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// 每个模型一行基础价格；min_input_tokens 非空的行表示该模型的长上下文档位
+const CSV_HEADER = ['model', 'prompt', 'completion', 'cache', 'cache_write', 'reasoning', 'min_input_tokens'];
+
+export function serializeModelPricesCsv(prices: Record<string, ModelPrice>): string {
+  const lines = Object.entries(sortPrices(prices)).flatMap(([model, price]) => [
+    [model, price.prompt, price.completion, price.cache, price.cacheWrite, price.reasoning, undefined],
+    ...(price.tiers || []).map((tier) => [
+      model,
+      tier.prompt,
+      tier.completion,
+      tier.cache,
+      tier.cacheWrite,
+      tier.reasoning,
+      tier.threshold
+    ])
+  ]);
+  return [CSV_HEADER, ...lines].map((cells) => cells.map(escapeCsvValue).join(',')).join('\n');
+}
+
+const parseCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const CSV_COLUMN_ALIASES: Record<string, string[]> = {
+  model: ['model', 'model_name', 'name'],
+  prompt: ['prompt', 'input', 'input_price'],
+  completion: ['completion', 'output', 'output_price'],
+  cache: ['cache', 'cached', 'cache_read', 'cached_input'],
+  cacheWrite: ['cache_write', 'cache_creation'],
+  reasoning: ['reasoning', 'reasoning_price'],
+  threshold: ['min_input_tokens', 'threshold']
+};
+
+const CSV_RATE_FIELDS = ['prompt', 'completion', 'cache', 'cacheWrite', 'reasoning'];
+
+const parseCsvPrices = (text: string): Record<string, ModelPrice> => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return {};
+  const header = parseCsvLine(lines[0]).map((cell) => cell.toLowerCase());
+  const columns = Object.fromEntries(
+    Object.entries(CSV_COLUMN_ALIASES).map(([field, aliases]) => [
+      field,
+      header.findIndex((cell) => aliases.includes(cell))
+    ])
+  );
+  if (columns.model < 0 || (columns.prompt < 0 && columns.completion < 0)) {
+    throw new Error('CSV header must contain model and prompt/completion columns');
+  }
+
+  const raw: Record<string, Record<string, any>> = {};
+  lines.slice(1).forEach((line) => {
+    const cells = parseCsvLine(line);
+    const model = stripCsvFormulaGuard(cells[columns.model] ?? '');
+    if (!model) return;
+    const rates = Object.fromEntries(
+      CSV_RATE_FIELDS.filter((field) => columns[field] >= 0 && cells[columns[field]]).map((field) => [
+        field,
+        cells[columns[field]]
+      ])
+    );
+    const threshold = columns.threshold >= 0 ? cells[columns.threshold] : '';
+    const entry = (raw[model] = raw[model] || {});
+    if (threshold) {
+      entry.tiers = [...(entry.tiers || []), { threshold, ...rates }];
+    } else {
+      Object.assign(entry, rates);
+    }
+  });
+  return normalizeModelPrices(raw);
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const perTokenToPerMillion = (value: unknown) => {
+  const num = Number(value);
+  return Number.isFinite(num) && num >= 0 ? num * TOKENS_PER_PRICE_UNIT : undefined;
+};
+
+// LiteLLM model_prices_and_context_window.json：按单 token 计价，长上下文价格以 *_above_<n>k_tokens 表示
+const isLiteLlmTable = (data: Record<string, unknown>) =>
+  Object.values(data).some(
+    (entry) => isRecord(entry) && ('input_cost_per_token' in entry || 'output_cost_per_token' in entry)
+  );
+
+const LITELLM_RATE_FIELDS: Record<string, keyof ModelPriceTier> = {
+  input_cost_per_token: 'prompt',
+  output_cost_per_token: 'completion',
+  cache_read_input_token_cost: 'cache',
+  cache_creation_input_token_cost: 'cacheWrite',
+  output_cost_per_reasoning_token: 'reasoning'
+};
+
+const LITELLM_TIER_PATTERN = /^(.+)_above_(\d+)k_tokens$/;
+
+const parseLiteLlmPrices = (data: Record<string, unknown>): Record<string, ModelPrice> => {
+  const raw: Record<string, Record<string, any>> = {};
+  Object.entries(data).forEach(([model, entry]) => {
+    if (model === 'sample_spec' || !isRecord(entry)) return;
+    const base: Record<string, number | undefined> = {};
+    const tiers = new Map<number, Record<string, number | undefined>>();
+    Object.entries(entry).forEach(([key, value]) => {
+      const tierMatch = key.match(LITELLM_TIER_PATTERN);
+      const field = LITELLM_RATE_FIELDS[tierMatch ? tierMatch[1] : key];
+      const rate = perTokenToPerMillion(value);
+      if (!field || rate === undefined) return;
+      if (!tierMatch) {
+        base[field] = rate;
+        return;
+      }
+      const threshold = Number(tierMatch[2]) * 1000;
+      tiers.set(threshold, { ...tiers.get(threshold), threshold, [field]: rate });
+    });
+    if (base.prompt === undefined && base.completion === undefined) return;
+    raw[model] = { ...base, tiers: Array.from(tiers.values()) };
+  });
+  return normalizeModelPrices(raw);
+};
+
+/**
+ * 解析导入的价格表文本，自动识别 JSON / CSV / LiteLLM 格式；无法识别时抛出错误
+ */
+export function parseModelPriceImport(text: string): ModelPriceImportResult {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (!trimmed) {
+    throw new Error('Empty price table');
+  }
+
+  if (trimmed.startsWith('{')) {
+    const data: unknown = JSON.parse(trimmed);
+    if (!isRecord(data)) {
+      throw new Error('Invalid price table');
+    }
+    if (isRecord(data.prices)) {
+      return { format: 'json', prices: normalizeModelPrices(data.prices) };
+    }
+    if (isLiteLlmTable(data)) {
+      return { format: 'litellm', prices: parseLiteLlmPrices(data) };
+    }
+    return { format: 'json', prices: normalizeModelPrices(data) };
+  }
+
+  return { format: 'csv', prices: parseCsvPrices(trimmed) };
+}
+
+/**
+ * 从 config.yaml 文本中读取共享价格表；未配置时返回 null
+ */
+export function extractModelPricesFromConfigYaml(yaml: string): Record<string, ModelPrice> | null {
+  const value = readConfigJsonEntry(yaml, MODEL_PRICES_CONFIG_KEY);
+  return value === null ? null : normalizeModelPrices(value);
+}
+
+/**
+ * 将价格表写入 config.yaml 文本，价格表为空时移除该条目
+ */
+export function upsertModelPricesInConfigYaml(yaml: string, prices: Record<string, ModelPrice>): string {
+  const hasPrices = Object.keys(prices).length > 0;
+  return upsertConfigJsonEntry(yaml, MODEL_PRICES_CONFIG_KEY, hasPrices ? sortPrices(prices) : null);
+}
@@ -0,0 +1,98 @@
+/**
+ * 使用统计时间范围预设与粒度选择
+ */
+
+import {
+  USAGE_GRANULARITIES,
+  MAX_USAGE_CHART_BUCKETS,
+  collectUsageDetails,
+  countGranularityBuckets,
+  type UsageGranularity,
+  type UsageTimeRange
+} from '../usage';
+
+export type UsageRangePreset = '6h' | '24h' | '7d' | '30d' | 'all' | 'custom';
+
+/** datetime-local 输入框的值（YYYY-MM-DDTHH:mm，本地时间） */
+export interface UsageCustomRange {
+  start: string;
+  end: string;
+}
+
+export const USAGE_RANGE_PRESETS: UsageRangePreset[] = ['6h', '24h', '7d', '30d', 'all', 'custom'];
+
+const HOUR_MS = 60 * 60 * 1000;
+const PRESET_DURATION_MS: Partial<Record<UsageRangePreset, number>> = {
+  '6h': 6 * HOUR_MS,
+  '24h': 24 * HOUR_MS,
+  '7d': 7 * 24 * HOUR_MS,
+  '30d': 30 * 24 * HOUR_MS
+};
+
+// 自动选择粒度时的目标时间桶数量上限
+const AUTO_GRANULARITY_MAX_BUCKETS = 96;
+
+const parseLocalDateTime = (value: string): number | undefined => {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+};
+
+/**
+ * 将 Date 格式化为 datetime-local 输入框的值
+ */
+export function toDateTimeLocalValue(time: number): string {
+  const date = new Date(time);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * 解析预设对应的时间范围；"全部" 从最早的请求明细开始且不限定起止，
+ * 自定义范围缺省开始时间时取结束前 24 小时，缺省结束时间时不限定终点
+ */
+export function resolveUsageRange(
+  preset: UsageRangePreset,
+  custom: UsageCustomRange,
+  usageData: any,
+  now: number = Date.now()
+): UsageTimeRange {
+  const duration = PRESET_DURATION_MS[preset];
+  if (duration) {
+    return { start: now - duration, end: now };
+  }
+
+  if (preset === 'custom') {
+    const customEnd = parseLocalDateTime(custom.end);
+    const end = customEnd ?? now;
+    const start = parseLocalDateTime(custom.start) ?? end - 24 * HOUR_MS;
+    if (customEnd === undefined) {
+      return { start: Math.min(start, end), end, openEnd: true };
+    }
+    return start <= end ? { start, end } : { start: end, end: start };
+  }
+
+  let earliest = now;
+  collectUsageDetails(usageData).forEach((detail) => {
+    const timestamp = Date.parse(detail.timestamp);
+    if (!Number.isNaN(timestamp) && timestamp < earliest) {
+      earliest = timestamp;
+    }
+  });
+  return { start: Math.min(earliest, now - 24 * HOUR_MS), end: now, openStart: true, openEnd: true };
+}
+
+export function isGranularityAllowed(range: UsageTimeRange, granularity: UsageGranularity): boolean {
+  return countGranularityBuckets(range, granularity) <= MAX_USAGE_CHART_BUCKETS;
+}
+
+/**
+ * 选择时间桶数量不超过目标值的最细粒度
+ */
+export function getDefaultGranularity(range: UsageTimeRange): UsageGranularity {
+  return (
+    USAGE_GRANULARITIES.find(
+      (granularity) => countGranularityBuckets(range, granularity) <= AUTO_GRANULARITY_MAX_BUCKETS
+    ) ?? '1w'
+  );
+}
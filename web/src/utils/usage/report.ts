@@ -0,0 +1,360 @@
+/**
+ * 用量报表：按日、按模型、按凭证汇总指定时间范围内的请求数、tokens 与费用，
+ * 导出为 CSV / XLSX，或生成可打印的 HTML 摘要（用于按月分摊费用）
+ */
+
+import { escapeCsvValue } from '../helpers';
+import { createXlsx, type XlsxColumn, type XlsxSheet } from '../xlsx';
+import {
+  calculateCost,
+  collectUsageDetails,
+  extractTotalTokens,
+  filterUsageByTimeRange,
+  formatUsd,
+  type ModelPrice,
+  type UsageTimeRange
+} from '../usage';
+import { computeCredentialUsage, sortCredentialUsage, type CredentialIndex, type CredentialUsageRow } from './credentials';
+
+export interface UsageReportRow {
+  /** 日期（YYYY-MM-DD，本地时间）或模型名 */
+  key: string;
+  requests: number;
+  successCount: number;
+  failureCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface UsageReport {
+  range: UsageTimeRange;
+  generatedAt: number;
+  totals: UsageReportRow;
+  daily: UsageReportRow[];
+  models: UsageReportRow[];
+  credentials: CredentialUsageRow[];
+}
+
+/** 可打印摘要中的界面文案，由调用方按当前语言传入 */
+export interface UsageReportLabels {
+  title: string;
+  range: string;
+  generatedAt: string;
+  requests: string;
+  successRate: string;
+  failures: string;
+  totalTokens: string;
+  inputTokens: string;
+  outputTokens: string;
+  cachedTokens: string;
+  cost: string;
+  daily: string;
+  models: string;
+  credentials: string;
+  date: string;
+  model: string;
+  credential: string;
+  provider: string;
+  print: string;
+}
+
+export interface UsageReportChartImage {
+  title: string;
+  /** PNG data URL */
+  image: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 范围超过该天数时只输出有用量的日期，避免 "全部" 范围生成大量空行
+const MAX_FILLED_DAYS = 400;
+
+const toNumber = (value: unknown) => {
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? num : 0;
+};
+
+const createRow = (key: string): UsageReportRow => ({
+  key,
+  requests: 0,
+  successCount: 0,
+  failureCount: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  cachedTokens: 0,
+  reasoningTokens: 0,
+  totalTokens: 0,
+  cost: 0
+});
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export function formatReportDate(time: number): string {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+const startOfLocalDay = (time: number) => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+/**
+ * 汇总时间范围内的用量，按日（含无用量的日期）、按模型与按凭证分组
+ */
+export function buildUsageReport(
+  usageData: any,
+  range: UsageTimeRange,
+  modelPrices: Record<string, ModelPrice>,
+  credentialIndex: CredentialIndex,
+  now: number = Date.now()
+): UsageReport {
+  const filtered = filterUsageByTimeRange(usageData, range);
+  const totals = createRow('total');
+  const daily = new Map<string, UsageReportRow>();
+  const models = new Map<string, UsageReportRow>();
+
+  const firstDay = startOfLocalDay(range.start);
+  if ((range.end - firstDay) / DAY_MS <= MAX_FILLED_DAYS) {
+    // 按日历日推进，避免夏令时切换导致跳过或重复日期
+    for (let day = firstDay; day < range.end; ) {
+      const key = formatReportDate(day);
+      daily.set(key, createRow(key));
+      const date = new Date(day);
+      day = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+    }
+  }
+
+  collectUsageDetails(filtered).forEach((detail) => {
+    const timestamp = Date.parse(detail.timestamp);
+    if (Number.isNaN(timestamp)) return;
+    const dayKey = formatReportDate(timestamp);
+    const modelKey = detail.__modelName || '-';
+    let dayRow = daily.get(dayKey);
+    if (!dayRow) {
+      dayRow = createRow(dayKey);
+      daily.set(dayKey, dayRow);
+    }
+    let modelRow = models.get(modelKey);
+    if (!modelRow) {
+      modelRow = createRow(modelKey);
+      models.set(modelKey, modelRow);
+    }
+
+    const tokens: Record<string, unknown> = detail.tokens || {};
+    const cost = calculateCost(detail, modelPrices);
+    const totalTokens = extractTotalTokens(detail);
+    [totals, dayRow, modelRow].forEach((row) => {
+      row.requests += 1;
+      if (detail.failed === true) {
+        row.failureCount += 1;
+      } else {
+        row.successCount += 1;
+      }
+      row.inputTokens += toNumber(tokens.input_tokens);
+      row.outputTokens += toNumber(tokens.output_tokens);
+      row.cachedTokens += Math.max(toNumber(tokens.cached_tokens), toNumber(tokens.cache_tokens));
+      row.reasoningTokens += toNumber(tokens.reasoning_tokens);
+      row.totalTokens += totalTokens;
+      row.cost += cost;
+    });
+  });
+
+  return {
+    range,
+    generatedAt: now,
+    totals,
+    daily: Array.from(daily.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    models: Array.from(models.values()).sort((a, b) => b.totalTokens - a.totalTokens || a.key.localeCompare(b.key)),
+    credentials: sortCredentialUsage(computeCredentialUsage(filtered, credentialIndex, modelPrices), 'totalTokens', 'desc')
+  };
+}
+
+type ReportSection = 'daily' | 'model' | 'credential';
+
+const METRIC_HEADERS = [
+  'requests',
+  'success',
+  'failure',
+  'input_tokens',
+  'output_tokens',
+  'cached_tokens',
+  'reasoning_tokens',
+  'total_tokens',
+  'cost_usd'
+];
+
+const metricValues = (row: UsageReportRow | CredentialUsageRow) => [
+  row.requests,
+  row.successCount,
+  row.failureCount,
+  row.inputTokens,
+  row.outputTokens,
+  row.cachedTokens,
+  row.reasoningTokens,
+  row.totalTokens,
+  Number(row.cost.toFixed(6))
+];
+
+/**
+ * 导出为单个 CSV：section 列区分按日 / 按模型 / 按凭证的行，便于在表格软件中筛选
+ */
+export function usageReportToCsv(report: UsageReport): string {
+  const header = ['section', 'key', 'provider', ...METRIC_HEADERS];
+  const rows: (string | number)[][] = [
+    ...report.daily.map((row) => ['daily' as ReportSection, row.key, '', ...metricValues(row)]),
+    ...report.models.map((row) => ['model' as ReportSection, row.key, '', ...metricValues(row)]),
+    ...report.credentials.map((row) => ['credential' as ReportSection, row.label, row.provider, ...metricValues(row)])
+  ];
+  return [header, ...rows].map((cells) => cells.map(escapeCsvValue).join(',')).join('\n');
+}
+
+const METRIC_COLUMNS: XlsxColumn[] = METRIC_HEADERS.map((header) => ({
+  header,
+  width: header === 'cost_usd' ? 14 : 16,
+  format: header === 'cost_usd' ? 'currency' : 'integer'
+}));
+
+/**
+ * 导出为 XLSX：Summary、Daily、Models、Credentials 四个工作表
+ */
+export function usageReportToXlsx(report: UsageReport): Blob {
+  const sheets: XlsxSheet[] = [
+    {
+      name: 'Summary',
+      columns: [{ header: 'item', width: 20 }, { header: 'value', width: 28 }],
+      rows: [
+        ['range_start', new Date(report.range.start).toISOString()],
+        ['range_end', new Date(report.range.end).toISOString()],
+        ['generated_at', new Date(report.generatedAt).toISOString()],
+        ...METRIC_HEADERS.map((header, index) => [header, metricValues(report.totals)[index]])
+      ]
+    },
+    {
+      name: 'Daily',
+      columns: [{ header: 'date', width: 12 }, ...METRIC_COLUMNS],
+      rows: report.daily.map((row) => [row.key, ...metricValues(row)])
+    },
+    {
+      name: 'Models',
+      columns: [{ header: 'model', width: 32 }, ...METRIC_COLUMNS],
+      rows: report.models.map((row) => [row.key, ...metricValues(row)])
+    },
+    {
+      name: 'Credentials',
+      columns: [
+        { header: 'credential', width: 32 },
+        { header: 'provider', width: 14 },
+        { header: 'auth_index', width: 12 },
+        ...METRIC_COLUMNS
+      ],
+      rows: report.credentials.map((row) => [row.label, row.provider, row.authIndex ?? '', ...metricValues(row)])
+    }
+  ];
+  return createXlsx(sheets);
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, 'Segoe UI', 'PingFang SC', 'Microsoft YaHei', sans-serif; color: #111827; margin: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 28px 0 10px; page-break-after: avoid; }
+  .meta { color: #6b7280; font-size: 12px; margin: 2px 0; }
+  .summary { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; margin-top: 20px; }
+  .summary div { border: 1px solid #e5e7eb; border-radius: 8px; padding: 10px 12px; }
+  .summary span { display: block; color: #6b7280; font-size: 11px; }
+  .summary strong { font-size: 18px; }
+  .charts { display: grid; grid-template-columns: 1fr; gap: 16px; }
+  figure { margin: 0; page-break-inside: avoid; }
+  figcaption { font-size: 12px; color: #374151; margin-bottom: 6px; font-weight: 600; }
+  figure img { width: 100%; border: 1px solid #e5e7eb; border-radius: 8px; }
+  table { width: 100%; border-collapse: collapse; font-size: 11px; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 5px 6px; text-align: right; white-space: nowrap; }
+  th:first-child, td:first-child { text-align: left; white-space: normal; word-break: break-all; }
+  th { background: #f9fafb; font-weight: 600; }
+  tr { page-break-inside: avoid; }
+  .print { position: fixed; top: 16px; right: 16px; padding: 8px 16px; border: none; border-radius: 6px; background: #3b82f6; color: #fff; cursor: pointer; }
+  @media print { body { margin: 12mm; } .print { display: none; } }
+`;
+
+/**
+ * 生成可打印的 HTML 摘要；图表以图片形式内嵌，浏览器打印即可另存为 PDF
+ */
+export function usageReportToHtml(
+  report: UsageReport,
+  labels: UsageReportLabels,
+  charts: UsageReportChartImage[] = [],
+  locale?: string
+): string {
+  const formatInteger = (value: number) => value.toLocaleString(locale);
+  const formatDateTime = (time: number) => new Date(time).toLocaleString(locale);
+  const hasCost = report.totals.cost > 0;
+  const successRate = report.totals.requests > 0 ? (report.totals.successCount / report.totals.requests) * 100 : 100;
+
+  const metricHeaders = [
+    labels.requests,
+    labels.failures,
+    labels.inputTokens,
+    labels.outputTokens,
+    labels.cachedTokens,
+    labels.totalTokens,
+    ...(hasCost ? [labels.cost] : [])
+  ];
+  const metricCells = (row: UsageReportRow | CredentialUsageRow) => [
+    formatInteger(row.requests),
+    formatInteger(row.failureCount),
+    formatInteger(row.inputTokens),
+    formatInteger(row.outputTokens),
+    formatInteger(row.cachedTokens),
+    formatInteger(row.totalTokens),
+    ...(hasCost ? [formatUsd(row.cost)] : [])
+  ];
+  const renderTable = (title: string, headers: string[], rows: string[][]) =>
+    rows.length === 0
+      ? ''
+      : `<h2>${escapeHtml(title)}</h2><table><thead><tr>${headers
+          .map((header) => `<th>${escapeHtml(header)}</th>`)
+          .join('')}</tr></thead><tbody>${rows
+          .map((cells) => `<tr>${cells.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+          .join('')}</tbody></table>`;
+
+  const summaryItems = [
+    [labels.requests, formatInteger(report.totals.requests)],
+    [labels.successRate, `${successRate.toFixed(1)}%`],
+    [labels.totalTokens, formatInteger(report.totals.totalTokens)],
+    ...(hasCost ? [[labels.cost, formatUsd(report.totals.cost)]] : [])
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale || 'en')}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(labels.title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">${escapeHtml(labels.print)}</button>
+<h1>${escapeHtml(labels.title)}</h1>
+<p class="meta">${escapeHtml(labels.range)}: ${escapeHtml(formatDateTime(report.range.start))} – ${escapeHtml(formatDateTime(report.range.end))}</p>
+<p class="meta">${escapeHtml(labels.generatedAt)}: ${escapeHtml(formatDateTime(report.generatedAt))}</p>
+<div class="summary">${summaryItems
+    .map(([label, value]) => `<div><span>${escapeHtml(label)}</span><strong>${escapeHtml(value)}</strong></div>`)
+    .join('')}</div>
+${charts.length > 0 ? `<div class="charts">${charts
+    .map((chart) => `<figure><figcaption>${escapeHtml(chart.title)}</figcaption><img src="${chart.image}" alt="${escapeHtml(chart.title)}"></figure>`)
+    .join('')}</div>` : ''}
+${renderTable(labels.daily, [labels.date, ...metricHeaders], report.daily.map((row) => [row.key, ...metricCells(row)]))}
+${renderTable(labels.models, [labels.model, ...metricHeaders], report.models.map((row) => [row.key, ...metricCells(row)]))}
+${renderTable(
+    labels.credentials,
+    [labels.credential, labels.provider, ...metricHeaders],
+    report.credentials.map((row) => [row.label, row.provider, ...metricCells(row)])
+  )}
+</body>
+</html>`;
+}
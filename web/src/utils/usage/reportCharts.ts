@@ -0,0 +1,140 @@
+/**
+ * 将用量报表的图表渲染为 PNG 图片（离屏 canvas），用于可打印摘要
+ * 固定使用浅色主题与白色背景，保证打印效果与页面主题无关
+ */
+
+import { Chart, type ChartConfiguration, type Plugin } from 'chart.js';
+import { formatTokensInMillions, formatUsd } from '../usage';
+import type { UsageReport, UsageReportChartImage } from './report';
+
+export interface UsageReportChartTitles {
+  dailyTokens: string;
+  dailyCost: string;
+  topModels: string;
+}
+
+const CHART_WIDTH = 960;
+const CHART_HEIGHT = 320;
+const TOP_MODELS = 10;
+const TICK_COLOR = '#374151';
+const GRID_COLOR = 'rgba(17, 24, 39, 0.08)';
+
+const whiteBackground: Plugin = {
+  id: 'reportWhiteBackground',
+  beforeDraw: (chart) => {
+    const { ctx, width, height } = chart;
+    ctx.save();
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.restore();
+  }
+};
+
+const renderChart = (config: ChartConfiguration, height = CHART_HEIGHT): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CHART_WIDTH;
+  canvas.height = height;
+  const chart = new Chart(canvas, {
+    ...config,
+    options: {
+      ...config.options,
+      responsive: false,
+      animation: false,
+      devicePixelRatio: 2
+    },
+    plugins: [whiteBackground]
+  } as ChartConfiguration);
+  try {
+    return chart.toBase64Image('image/png');
+  } finally {
+    chart.destroy();
+  }
+};
+
+const axis = (formatValue?: (value: number) => string) => ({
+  ticks: {
+    color: TICK_COLOR,
+    ...(formatValue ? { callback: (value: string | number) => formatValue(Number(value)) } : {})
+  },
+  grid: { color: GRID_COLOR }
+});
+
+/**
+ * 生成按日 tokens、按日费用（有价格时）与模型 tokens 排行三张图
+ */
+export function renderUsageReportCharts(report: UsageReport, titles: UsageReportChartTitles): UsageReportChartImage[] {
+  const images: UsageReportChartImage[] = [];
+  const labels = report.daily.map((row) => row.key);
+
+  if (report.daily.length > 0) {
+    images.push({
+      title: titles.dailyTokens,
+      image: renderChart({
+        type: 'bar',
+        data: {
+          labels,
+          datasets: [
+            { label: 'input', data: report.daily.map((row) => row.inputTokens), backgroundColor: '#3b82f6', stack: 'tokens' },
+            { label: 'output', data: report.daily.map((row) => row.outputTokens), backgroundColor: '#8b5cf6', stack: 'tokens' }
+          ]
+        },
+        options: {
+          plugins: { legend: { display: true, labels: { color: TICK_COLOR } } },
+          scales: { x: { ...axis(), stacked: true }, y: { ...axis(formatTokensInMillions), stacked: true } }
+        }
+      })
+    });
+  }
+
+  if (report.totals.cost > 0) {
+    images.push({
+      title: titles.dailyCost,
+      image: renderChart({
+        type: 'line',
+        data: {
+          labels,
+          datasets: [
+            {
+              label: 'cost',
+              data: report.daily.map((row) => row.cost),
+              borderColor: '#f59e0b',
+              backgroundColor: 'rgba(245, 158, 11, 0.15)',
+              fill: true,
+              tension: 0.3,
+              pointRadius: 2
+            }
+          ]
+        },
+        options: {
+          plugins: { legend: { display: false } },
+          scales: { x: axis(), y: axis(formatUsd) }
+        }
+      })
+    });
+  }
+
+  const topModels = report.models.filter((row) => row.totalTokens > 0).slice(0, TOP_MODELS);
+  if (topModels.length > 0) {
+    images.push({
+      title: titles.topModels,
+      image: renderChart(
+        {
+          type: 'bar',
+          data: {
+            labels: topModels.map((row) => row.key),
+            datasets: [{ label: 'tokens', data: topModels.map((row) => row.totalTokens), backgroundColor: '#10b981' }]
+          },
+          options: {
+            indexAxis: 'y',
+            plugins: { legend: { display: false } },
+            scales: { x: axis(formatTokensInMillions), y: axis() }
+          }
+        },
+        Math.max(topModels.length * 28 + 60, 160)
+      )
+    });
+  }
+
+  return images;
+}
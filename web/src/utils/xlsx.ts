@@ -0,0 +1,188 @@
+/**
+ * XLSX 生成工具
+ * 在浏览器端按 Office Open XML 规范拼装最小的工作簿（内联字符串、无共享字符串表），
+ * 再用 ZIP 打包，无需引入第三方表格库
+ */
+
+import { createZip, type ZipEntry } from './zip';
+
+export type XlsxCellValue = string | number | null | undefined;
+
+/** 数值列的显示格式：integer 为千分位整数，currency 为 4 位小数的美元金额 */
+export type XlsxColumnFormat = 'text' | 'integer' | 'decimal' | 'currency';
+
+export interface XlsxColumn {
+  header: string;
+  /** 列宽（字符数） */
+  width?: number;
+  format?: XlsxColumnFormat;
+}
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxCellValue[][];
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SHEET_NAME_MAX_LENGTH = 31;
+
+// cellXfs 中的样式序号：0 默认，1 表头加粗，其余对应列格式
+const STYLE_INDEX: Record<XlsxColumnFormat | 'header', number> = {
+  text: 0,
+  header: 1,
+  integer: 2,
+  decimal: 3,
+  currency: 4,
+};
+
+const STYLES_XML = `${XML_HEADER}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0.0000"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+</styleSheet>`;
+
+// XML 1.0 不允许的控制字符会导致 Excel 拒绝打开文件
+const escapeXml = (value: string) =>
+  value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// 列序号（从 0 开始）转换为 A、B ... Z、AA 形式
+const columnName = (index: number) => {
+  let name = '';
+  let current = index + 1;
+  while (current > 0) {
+    const remainder = (current - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    current = Math.floor((current - 1) / 26);
+  }
+  return name;
+};
+
+const renderCell = (value: XlsxCellValue, ref: string, style: number) => {
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}" s="${style}"><v>${value}</v></c>` : '';
+  }
+  return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const renderSheet = (sheet: XlsxSheet) => {
+  const cols = sheet.columns
+    .map(
+      (column, index) =>
+        `<col min="${index + 1}" max="${index + 1}" width="${column.width ?? Math.max(column.header.length + 2, 12)}" customWidth="1"/>`
+    )
+    .join('');
+  const header = `<row r="1">${sheet.columns
+    .map((column, index) => renderCell(column.header, `${columnName(index)}1`, STYLE_INDEX.header))
+    .join('')}</row>`;
+  const rows = sheet.rows
+    .map((row, rowIndex) => {
+      const rowNumber = rowIndex + 2;
+      const cells = row
+        .map((value, index) => {
+          const format = sheet.columns[index]?.format ?? 'text';
+          return renderCell(value, `${columnName(index)}${rowNumber}`, STYLE_INDEX[format]);
+        })
+        .join('');
+      return `<row r="${rowNumber}">${cells}</row>`;
+    })
+    .join('');
+
+  return `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${cols}</cols>
+<sheetData>${header}${rows}</sheetData>
+</worksheet>`;
+};
+
+// 工作表名称最长 31 个字符，不能包含 []:*?/\ 且在工作簿内唯一
+const toSheetNames = (sheets: XlsxSheet[]) => {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base =
+      sheet.name
+        .replace(/[[\]:*?/\\]/g, ' ')
+        .trim()
+        .slice(0, SHEET_NAME_MAX_LENGTH) || `Sheet${index + 1}`;
+    let name = base;
+    let suffix = 2;
+    while (used.has(name.toLowerCase())) {
+      const tail = ` (${suffix++})`;
+      name = base.slice(0, SHEET_NAME_MAX_LENGTH - tail.length) + tail;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+/**
+ * 生成 XLSX 工作簿，每个 sheet 的首行为加粗并冻结的表头
+ */
+export function createXlsx(sheets: XlsxSheet[]): Blob {
+  const names = toSheetNames(sheets);
+  const sheetOverrides = sheets
+    .map(
+      (_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    )
+    .join('');
+  const workbookSheets = names
+    .map(
+      (name, index) =>
+        `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+    )
+    .join('');
+  const workbookRels = sheets
+    .map(
+      (_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+    )
+    .join('');
+
+  const entries: ZipEntry[] = [
+    {
+      name: '[Content_Types].xml',
+      data: `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheetOverrides}</Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      data: `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${workbookSheets}</sheets></workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${workbookRels}<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+    },
+    { name: 'xl/styles.xml', data: STYLES_XML },
+    ...sheets.map((sheet, index) => ({
+      name: `xl/worksheets/sheet${index + 1}.xml`,
+      data: renderSheet(sheet),
+    })),
+  ];
+
+  const zip = createZip(entries);
+  return new Blob([zip], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * ZIP 打包工具
+ * 在浏览器端生成不压缩（STORE）的 ZIP 文件，用于批量下载日志等文本文件；
+ * 同时支持读取 STORE / DEFLATE 条目，用于批量导入认证文件
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | string;
+  modified?: Date;
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i += 1) {
+    crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS 日期时间格式（精度 2 秒，最早 1980 年）
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * 生成 ZIP 文件；文件名按 UTF-8 编码并设置对应标志位
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const checksum = crc32(data);
+    const { time, date } = toDosDateTime(entry.modified ?? new Date());
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, 0x0800, true);
+    localView.setUint16(8, 0, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, checksum, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, 0x02014b50, true);
+    headerView.setUint16(4, 20, true);
+    headerView.setUint16(6, 20, true);
+    headerView.setUint16(8, 0x0800, true);
+    headerView.setUint16(10, 0, true);
+    headerView.setUint16(12, time, true);
+    headerView.setUint16(14, date, true);
+    headerView.setUint32(16, checksum, true);
+    headerView.setUint32(20, data.length, true);
+    headerView.setUint32(24, data.length, true);
+    headerView.setUint16(28, name.length, true);
+    headerView.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    chunks.push(local, data);
+    central.push(header);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, item) => sum + item.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...chunks, ...central, end] as BlobPart[], { type: 'application/zip' });
+}
+
+/**
+ * 使用浏览器内置的 DecompressionStream 解压数据；输出超过 maxSize 时立即停止并抛出错误
+ */
+export async function decompressBytes(
+  data: Uint8Array,
+  format: 'gzip' | 'deflate-raw',
+  maxSize: number = Infinity
+): Promise<Uint8Array> {
+  const reader = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream(format))
+    .getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxSize) {
+      await reader.cancel();
+      throw new Error('Decompressed data exceeds the size limit');
+    }
+    chunks.push(value);
+  }
+  const output = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+// EOCD 记录最小 22 字节，末尾注释最长 65535 字节
+const EOCD_MAX_SEARCH = 22 + 0xffff;
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const min = Math.max(0, view.byteLength - EOCD_MAX_SEARCH);
+  for (let i = view.byteLength - 22; i >= min; i -= 1) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  return -1;
+}
+
+export interface ReadZipOptions {
+  /** 单个条目解压后的大小上限（字节） */
+  maxEntrySize?: number;
+  /** 全部条目解压后的总大小上限（字节） */
+  maxTotalSize?: number;
+}
+
+/**
+ * 读取 ZIP 文件中的全部文件条目（跳过目录），支持 STORE 与 DEFLATE 压缩方式；
+ * 不支持加密与 ZIP64，条目超过大小上限时抛出错误，避免压缩炸弹耗尽内存
+ */
+export async function readZip(data: Uint8Array, options: ReadZipOptions = {}): Promise<ZipEntry[]> {
+  const { maxEntrySize = Infinity, maxTotalSize = Infinity } = options;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+  if (eocd < 0) throw new Error('Invalid ZIP file');
+
+  const count = view.getUint16(eocd + 10, true);
+  let pointer = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || pointer === 0xffffffff) throw new Error('ZIP64 is not supported');
+
+  const utf8 = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let totalSize = 0;
+  for (let index = 0; index < count; index += 1) {
+    if (view.getUint32(pointer, true) !== CENTRAL_SIGNATURE) throw new Error('Invalid ZIP file');
+    const flags = view.getUint16(pointer + 8, true);
+    const method = view.getUint16(pointer + 10, true);
+    const compressedSize = view.getUint32(pointer + 20, true);
+    const uncompressedSize = view.getUint32(pointer + 24, true);
+    const nameLength = view.getUint16(pointer + 28, true);
+    const extraLength = view.getUint16(pointer + 30, true);
+    const commentLength = view.getUint16(pointer + 32, true);
+    const localOffset = view.getUint32(pointer + 42, true);
+    const name = utf8.decode(data.subarray(pointer + 46, pointer + 46 + nameLength));
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) throw new Error('Encrypted ZIP entries are not supported');
+    // 目录中的大小可能被伪造，解压时仍按剩余额度限制实际输出
+    const limit = Math.min(maxEntrySize, maxTotalSize - totalSize);
+    if (uncompressedSize > limit) throw new Error(`ZIP entry is too large: ${name}`);
+    if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) throw new Error('Invalid ZIP file');
+
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = data.subarray(dataStart, dataStart + compressedSize);
+    let content: Uint8Array;
+    if (method === 0) {
+      content = raw;
+    } else if (method === 8) {
+      content = await decompressBytes(raw, 'deflate-raw', limit);
+    } else {
+      throw new Error(`Unsupported ZIP compression method: ${method}`);
+    }
+    if (content.length > limit) throw new Error(`ZIP entry is too large: ${name}`);
+    totalSize += content.length;
+    entries.push({ name, data: content });
+  }
+  return entries;
+}